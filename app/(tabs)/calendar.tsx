@@ -1,20 +1,28 @@
-import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, ActivityIndicator, Alert, Share } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../../components/ThemeProvider';
 import { useLocationStore } from '../../stores/locationStore';
-import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, MapPin } from 'lucide-react-native';
+import { useSettingsStore, getPlanetaryHoursOptions, getZodiacOptions } from '../../stores/settingsStore';
+import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Download, MapPin, Search } from 'lucide-react-native';
 import { formatDate } from '../../utils/dateUtils';
 import { getPlanetaryDayRuler, formatHourTime } from '../../utils/planetaryHours';
 import { calculatePlanetaryHours } from '../services/planetaryHours';
 import { getPlanetById } from '../../constants/planets';
 import PlanetaryHourListItem from '../../components/PlanetaryHourListItem';
 import LocationPrompt from '../../components/LocationPrompt';
+import HourSearchSheet from '../../components/HourSearchSheet';
+import MoonPhaseCard from '../../components/MoonPhaseCard';
+import EventWeekStrip, { getWeekStart } from '../../components/EventWeekStrip';
+import { eventTypeColors, getAstrologicalEvents, groupEventsByDate, toLocalDateKey } from '../../utils/astroEvents';
+import { describeVoidPeriod, getVoidPeriodsForHours, isVoidDuring } from '../../utils/voidOfCourse';
+import { formatAlmanac, getAlmanacFileName, getMonthAlmanac, type AlmanacFormat } from '../../utils/almanac';
 import { PlanetaryHour } from '../app-types';
 
 export default function CalendarScreen() {
   const { colors } = useTheme();
   const { location } = useLocationStore();
+  const { settings } = useSettingsStore();
   const [selectedDate, setSelectedDate] = useState(() => {
     const now = new Date();
     
@@ -22,6 +30,7 @@ export default function CalendarScreen() {
   });
   const [planetaryHours, setPlanetaryHours] = useState<PlanetaryHour[]>([]);
   const [showLocationPrompt, setShowLocationPrompt] = useState(false);
+  const [showHourSearch, setShowHourSearch] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -29,6 +38,39 @@ export default function CalendarScreen() {
   const dayRulerPlanetId = getPlanetaryDayRuler(selectedDate);
   const dayRulerPlanet = getPlanetById(dayRulerPlanetId);
   
+  // Ingresses, stations, Sun aspects and eclipses for the week around the selected date
+  const weekStartTime = getWeekStart(selectedDate).getTime();
+  const zodiacOptions = getZodiacOptions(settings);
+  const eventsByDate = useMemo(() => {
+    try {
+      const start = new Date(weekStartTime);
+      const end = new Date(start);
+      end.setDate(end.getDate() + 7);
+      return groupEventsByDate(getAstrologicalEvents(start, end, {
+        location: location ? { latitude: location.latitude, longitude: location.longitude } : undefined,
+        zodiac: zodiacOptions
+      }));
+    } catch (err) {
+      console.error('Error finding astrological events:', err);
+      return {};
+    }
+  }, [weekStartTime, location?.latitude, location?.longitude, zodiacOptions.zodiac, zodiacOptions.ayanamsa]);
+  const selectedEvents = eventsByDate[toLocalDateKey(selectedDate)] || [];
+  
+  // Void-of-course Moon periods during the planetary day
+  const voidPeriods = useMemo(() => {
+    try {
+      return getVoidPeriodsForHours(planetaryHours);
+    } catch (err) {
+      console.error('Error finding void-of-course periods:', err);
+      return [];
+    }
+  }, [planetaryHours]);
+  
+  // Describe the Moon at noon of the selected date
+  const moonPhaseDate = new Date(selectedDate);
+  moonPhaseDate.setHours(12, 0, 0, 0);
+  
   // Load planetary hours for the selected date
   useEffect(() => {
     async function fetchPlanetaryHours() {
@@ -64,7 +106,8 @@ export default function CalendarScreen() {
           timezone,
           6, // wakingHourStart
           22, // wakingHourEnd
-          new Date('2025-04-21T17:10:18-06:00') // pass the actual current local time
+          new Date('2025-04-21T17:10:18-06:00'), // pass the actual current local time
+          getPlanetaryHoursOptions(settings)
         );
         
         
@@ -84,7 +127,7 @@ export default function CalendarScreen() {
     }
     
     fetchPlanetaryHours();
-  }, [selectedDate, location]);
+  }, [selectedDate, location, settings?.sunrise_definition, settings?.elevation, settings?.hour_system]);
   
   // Navigate to previous day
   const goToPreviousDay = () => {
@@ -134,6 +177,41 @@ export default function CalendarScreen() {
     return datesMatch;
   };
   
+  // Jump to the planetary day of an hour picked in the search sheet
+  const handleSelectSearchDate = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    setSelectedDate(new Date(year, month - 1, day));
+    setShowHourSearch(false);
+  };
+  
+  // Share the almanac of the selected month as CSV or JSON
+  const shareAlmanac = async (format: AlmanacFormat) => {
+    if (!location) {
+      setShowLocationPrompt(true);
+      return;
+    }
+
+    try {
+      const almanac = getMonthAlmanac(selectedDate, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      }, getPlanetaryHoursOptions(settings));
+      await Share.share({ title: getAlmanacFileName(almanac, format), message: formatAlmanac(almanac, format) });
+    } catch (err) {
+      console.error('Error exporting almanac:', err);
+      Alert.alert('Error', 'Failed to export the almanac. Please try again.');
+    }
+  };
+
+  const handleExportAlmanac = () => {
+    Alert.alert('Export Almanac', 'Noon positions, ingresses, Moon phases, day rulers and sunrise/sunset for this month.', [
+      { text: 'CSV', onPress: () => shareAlmanac('csv') },
+      { text: 'JSON', onPress: () => shareAlmanac('json') },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
+  };
+  
   // Format location name
   const formatLocationName = () => {
     if (!location) return 'Location not set';
@@ -154,15 +232,37 @@ export default function CalendarScreen() {
           Planetary Hours
         </Text>
         
-        <TouchableOpacity 
-          style={[styles.locationButton, { backgroundColor: colors.card }]}
-          onPress={() => setShowLocationPrompt(true)}
-        >
-          <MapPin size={16} color={colors.primary} />
-          <Text style={[styles.locationText, { color: colors.textSecondary }]}>
-            {formatLocationName()}
-          </Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={[styles.locationButton, { backgroundColor: colors.card }]}
+            onPress={() => setShowLocationPrompt(true)}
+          >
+            <MapPin size={16} color={colors.primary} />
+            <Text style={[styles.locationText, { color: colors.textSecondary }]}>
+              {formatLocationName()}
+            </Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.locationButton, { backgroundColor: colors.card }]}
+            onPress={() => setShowHourSearch(true)}
+          >
+            <Search size={16} color={colors.primary} />
+            <Text style={[styles.locationText, { color: colors.textSecondary }]}>
+              Find hour
+            </Text>
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.locationButton, { backgroundColor: colors.card }]}
+            onPress={handleExportAlmanac}
+          >
+            <Download size={16} color={colors.primary} />
+            <Text style={[styles.locationText, { color: colors.textSecondary }]}>
+              Almanac
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
       
       <View style={[styles.calendarHeader, { backgroundColor: colors.card }]}>
@@ -204,6 +304,12 @@ export default function CalendarScreen() {
         </TouchableOpacity>
       </View>
       
+      <EventWeekStrip
+        selectedDate={selectedDate}
+        eventsByDate={eventsByDate}
+        onSelectDate={setSelectedDate}
+      />
+      
       <View style={styles.dayRulerContainer}>
         <Text style={[styles.dayRulerLabel, { color: colors.textSecondary }]}>
           Ruling Planet:
@@ -259,6 +365,44 @@ export default function CalendarScreen() {
             </View>
           ) : (
             <>
+              {selectedEvents.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                    Events
+                  </Text>
+                  
+                  {selectedEvents.map(event => (
+                    <View key={event.id} style={[styles.eventItem, { backgroundColor: colors.card }]}>
+                      <View style={[styles.eventMarker, { backgroundColor: eventTypeColors[event.type] }]} />
+                      <View style={styles.eventContent}>
+                        <Text style={[styles.eventTitle, { color: colors.text }]}>
+                          {event.title}
+                        </Text>
+                        <Text style={[styles.eventDescription, { color: colors.textSecondary }]}>
+                          {event.description}
+                        </Text>
+                      </View>
+                      <Text style={[styles.eventTime, { color: colors.textSecondary }]}>
+                        {formatHourTime(new Date(event.startDate))}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              
+              <MoonPhaseCard date={moonPhaseDate} />
+              
+              {voidPeriods.map(period => (
+                <View
+                  key={period.end.toISOString()}
+                  style={[styles.voidNotice, { borderColor: colors.warning }]}
+                >
+                  <Text style={[styles.voidNoticeText, { color: colors.text }]}>
+                    {describeVoidPeriod(period)}
+                  </Text>
+                </View>
+              ))}
+              
               <View style={styles.section}>
                 <Text style={[styles.sectionTitle, { color: colors.text }]}>
                   Day Hours
@@ -270,6 +414,7 @@ export default function CalendarScreen() {
                     <PlanetaryHourListItem 
                       key={`day-${index}`} 
                       hour={hour}
+                      isVoidOfCourse={isVoidDuring(hour, voidPeriods)}
                     />
                   ))}
               </View>
@@ -285,6 +430,7 @@ export default function CalendarScreen() {
                     <PlanetaryHourListItem 
                       key={`night-${index}`} 
                       hour={hour}
+                      isVoidOfCourse={isVoidDuring(hour, voidPeriods)}
                     />
                   ))}
               </View>
@@ -304,6 +450,16 @@ export default function CalendarScreen() {
         </ScrollView>
       )}
       
+      <HourSearchSheet
+        visible={showHourSearch}
+        latitude={location?.latitude || 0}
+        longitude={location?.longitude || 0}
+        options={getPlanetaryHoursOptions(settings)}
+        zodiac={zodiacOptions}
+        onClose={() => setShowHourSearch(false)}
+        onSelectDate={handleSelectSearchDate}
+      />
+      
       {showLocationPrompt && (
         <LocationPrompt 
           visible={showLocationPrompt}
@@ -370,6 +526,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 8,
   },
+  headerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
   locationButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -441,9 +602,47 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 24,
   },
+  voidNotice: {
+    borderLeftWidth: 3,
+    borderRadius: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginBottom: 16,
+  },
+  voidNoticeText: {
+    fontSize: 14,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: 'bold',
     marginBottom: 12,
   },
+  eventItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  eventMarker: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 12,
+  },
+  eventContent: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  eventDescription: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  eventTime: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
 });
\ No newline at end of file
@@ -6,10 +6,13 @@ import { useTheme } from '@/components/ThemeProvider';
 import { usePlanetaryStore } from '@/stores/planetaryStore';
 import { useLocationStore } from '@/stores/locationStore';
 import { useRitualStore } from '@/stores/ritualStore';
+import { useSettingsStore, getPlanetaryHoursOptions } from '@/stores/settingsStore';
 import Container from '@/components/ui/Container';
 import Title from '@/components/ui/Title';
 import DailyCard from '@/components/DailyCard';
 import PlanetaryHourCard from '@/components/PlanetaryHourCard';
+import MoonPhaseCard from '@/components/MoonPhaseCard';
+import EclipseCard from '@/components/EclipseCard';
 import { getPlanetaryDayRuler } from '@/utils/planetaryHours';
 import { getPlanetById } from '@/constants/planets';
 import type { Planet as AppPlanet } from '@/app/types/index';
@@ -24,6 +27,7 @@ export default function HomeScreen() {
   const { colors } = useTheme();
   const { fetchPlanetaryPositions, planetPositions } = usePlanetaryStore();
   const { location, hasPromptedForLocation, setHasPromptedForLocation } = useLocationStore();
+  const { settings } = useSettingsStore();
   const { fetchRituals, fetchCompletedRituals, error } = useRitualStore();
   const [showLocationPrompt, setShowLocationPrompt] = useState(false);
   
@@ -49,7 +53,7 @@ export default function HomeScreen() {
   
   // Get the day's ruling planet for rituals - with error handling
   const today = new Date(); // Use the actual current date
-  const dayRulerPlanetId = getPlanetaryDayRuler(today);
+  const dayRulerPlanetId = getPlanetaryDayRuler(today, location, getPlanetaryHoursOptions(settings));
   // Ensure the planet object has all required properties including ritual as a string
   const dayRulerPlanet = dayRulerPlanetId ? {
     ...getPlanetById(dayRulerPlanetId),
@@ -129,6 +133,22 @@ export default function HomeScreen() {
             />
             <PlanetaryHourCard />
           </View>
+          
+          <View style={styles.section}>
+            <Title 
+              title="The Moon" 
+              style={styles.sectionTitle}
+            />
+            <MoonPhaseCard />
+          </View>
+          
+          <View style={styles.section}>
+            <Title 
+              title="Eclipses" 
+              style={styles.sectionTitle}
+            />
+            <EclipseCard />
+          </View>
         </Container>
       </ScrollView>
       
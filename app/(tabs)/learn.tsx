@@ -10,6 +10,8 @@ import PlanetSymbol from '@/components/ui/PlanetSymbol';
 import { getCurrentPlanetaryPositions, getPlanetaryDignity, PlanetaryDignity } from '@/app/services/astrology';
 import { PlanetaryPosition, PlanetDay } from '@/types';
 import { useTheme } from '@/components/ThemeProvider';
+import { useSettingsStore, getZodiacOptions } from '@/stores/settingsStore';
+import AspectList from '@/components/AspectList';
 
 // Topics will be rendered with the current theme colors
 const createTopics = (colors: any) => [
@@ -145,6 +147,7 @@ Saturn ♄
 export default function LearnScreen() {
   const router = useRouter();
   const { colors, isDark } = useTheme();
+  const { settings } = useSettingsStore();
   const topics = React.useMemo(() => createTopics(colors), [colors]);
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [selectedHymn, setSelectedHymn] = useState<string | null>(null);
@@ -246,12 +249,12 @@ export default function LearnScreen() {
     }
   };
   
-  // Fetch planetary positions from the API
+  // Calculate planetary positions on the device, in the user's zodiac
   useEffect(() => {
     const fetchPlanetaryData = async () => {
       try {
         setIsLoading(true);
-        const positions = await getCurrentPlanetaryPositions();
+        const positions = await getCurrentPlanetaryPositions(getZodiacOptions(settings));
         setPlanetaryPositions(positions);
       } catch (error) {
         console.error('Error fetching planetary positions:', error);
@@ -261,7 +264,7 @@ export default function LearnScreen() {
     };
     
     fetchPlanetaryData();
-  }, []);
+  }, [settings?.zodiac, settings?.custom_ayanamsa]);
   
   // Get the current dignity for a planet based on its position
   const getCurrentDignity = (planetId: string): PlanetaryDignity | null => {
@@ -378,6 +381,17 @@ export default function LearnScreen() {
     );
   };
   
+  const renderAspects = () => {
+    return (
+      <View style={styles.aspectsSection}>
+        <Text style={[styles.sectionTitle, { fontFamily: 'System' }]}>Today's Aspects</Text>
+        <View style={styles.aspectsCard}>
+          <AspectList />
+        </View>
+      </View>
+    );
+  };
+  
   const renderTopicsList = () => {
     return (
       <>
@@ -414,6 +428,7 @@ export default function LearnScreen() {
         ) : (
           <>
             {renderPlanetsList()}
+            {renderAspects()}
             {renderTopicsList()}
           </>
         )}
@@ -444,6 +459,15 @@ const createStyles = (colors: any) => StyleSheet.create({
   planetsScrollContent: {
     paddingRight: 16,
   },
+  aspectsSection: {
+    marginBottom: 24,
+  },
+  aspectsCard: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
   planetCard: {
     width: 110,
     height: 160,
@@ -1,25 +1,36 @@
-import React, { useState, useEffect } from 'react';
-import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert, Image, Modal, FlatList, TextInput } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert, Image, TextInput } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTheme } from '@/components/ThemeProvider';
 import { useProfileStore } from '@/stores/profileStore';
 import { useLocationStore } from '@/stores/locationStore';
 import { useRitualStore } from '@/stores/ritualStore';
-import { useSettingsStore } from '@/stores/settingsStore';
+import { useSettingsStore, getPlanetaryHoursOptions, getTransitOptions } from '@/stores/settingsStore';
+import { useNatalChartStore } from '@/stores/natalChartStore';
+import { useHoraryStore } from '@/stores/horaryStore';
 import ProfileAvatar from '@/components/ProfileAvatar';
 import GothicTitle from '@/components/GothicTitle';
 import GothicCard from '@/components/GothicCard';
 import DailyThemeContainer from '@/components/DailyThemeContainer';
 import KronosLogo from '@/components/KronosLogo';
 import PlanetSymbol from '@/components/ui/PlanetSymbol';
-import { MapPin, Calendar, BookOpen, Award, Settings, Edit2, AlertCircle, Moon, Sun, Star, ChevronDown, X } from 'lucide-react-native';
+import { MapPin, Calendar, BookOpen, Award, Settings, Edit2, AlertCircle, Moon, Sun, Star, Sparkles, Compass } from 'lucide-react-native';
 import { formatDate } from '@/utils/dateUtils';
 import LocationPrompt from '@/components/LocationPrompt';
+import BirthChartSheet from '@/components/BirthChartSheet';
+import ReturnSheet from '@/components/ReturnSheet';
+import HorarySheet from '@/components/HorarySheet';
 import { formatLocation } from '@/utils/locationUtils';
-import { Location } from '@/types';
+import { Location, type HorarySnapshot, type NewHorarySnapshot } from '@/types';
 import { getPlanetaryDayRuler } from '@/utils/planetaryHours';
-import { ZodiacInfo, LocationInfo } from '@/app/types/database';
+import { getChartSigns, getNatalChartBodies, houseSystemLabels, type BirthDetails } from '@/utils/natalChart';
+import { extraBodyLabels, getPlanetById } from '@/constants/planets';
+import { getActiveTransits, getTransitSymbols, getUpcomingTransits, isTransitActive } from '@/utils/transits';
+import { formatHourTime } from '@/utils/planetaryHours';
+import { returnLabels, type ReturnLocation } from '@/utils/returns';
+import { snapshotNow } from '@/utils/horary';
+import { returnKinds, type ReturnKind } from '../../shared/returns';
 
 // Zodiac sign data
 const zodiacSigns = [
@@ -42,19 +53,41 @@ export default function ProfileScreen() {
   const { profile, updateProfile, error: profileError } = useProfileStore();
   const { location, setLocation } = useLocationStore();
   const { completedRituals: ritualLogs, fetchCompletedRituals, error: ritualsError } = useRitualStore();
-  const { settings, updateSettings, error: settingsError } = useSettingsStore();
+  const { settings, error: settingsError } = useSettingsStore();
+  const { chart, saveChart, error: chartError } = useNatalChartStore();
   const [showLocationPrompt, setShowLocationPrompt] = useState(false);
-  const [showSignSelector, setShowSignSelector] = useState(false);
-  const [signType, setSignType] = useState<'sun' | 'moon' | 'rising'>('sun');
+  const [showBirthChartSheet, setShowBirthChartSheet] = useState(false);
+  const [returnKind, setReturnKind] = useState<ReturnKind | null>(null);
+  const { snapshots: horarySnapshots, fetchSnapshots, saveSnapshot, deleteSnapshot } = useHoraryStore();
+  const [horarySnapshot, setHorarySnapshot] = useState<NewHorarySnapshot | HorarySnapshot | null>(null);
   
-  // User's astrological signs (initialize from settings or with defaults)
-  const [sunSign, setSunSign] = useState(settings?.location?.zodiac?.sunSign || 'aries');
-  const [moonSign, setMoonSign] = useState(settings?.location?.zodiac?.moonSign || 'taurus');
-  const [risingSign, setRisingSign] = useState(settings?.location?.zodiac?.risingSign || 'gemini');
+  // Sun, Moon and rising signs derived from the birth chart
+  const chartSigns = chart ? getChartSigns(chart) : null;
+  // Outer planets, nodes and Part of Fortune, calculated from the stored birth details
+  const chartBodies = useMemo(() => (chart ? getNatalChartBodies(chart) : []), [chart]);
+  
+  // Exact transits to the birth chart over the coming month, marked while within orb
+  const transitOrb = settings?.transit_orb;
+  const personalSky = useMemo(() => {
+    if (!chart) return { transits: [], active: [] };
+    try {
+      const now = new Date();
+      const options = getTransitOptions(settings);
+      return { transits: getUpcomingTransits(chart, now, options), active: getActiveTransits(chart, now, options) };
+    } catch (err) {
+      console.error('Error finding transits:', err);
+      return { transits: [], active: [] };
+    }
+  }, [chart, transitOrb]);
+  
+  // Returns are cast where the user is now, or at the birth place without a saved location
+  const returnLocation: ReturnLocation | null = chart && (location
+    ? { latitude: location.latitude, longitude: location.longitude, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+    : { latitude: chart.latitude, longitude: chart.longitude, timezone: chart.timezone });
   
   // Get the current day's ruling planet for theming
   const today = new Date();
-  const dayRulerPlanetId = getPlanetaryDayRuler(today);
+  const dayRulerPlanetId = getPlanetaryDayRuler(today, location, getPlanetaryHoursOptions(settings));
   
   useEffect(() => {
     // Fetch completed rituals when the component mounts
@@ -63,46 +96,56 @@ export default function ProfileScreen() {
     }
   }, [fetchCompletedRituals]);
   
-  // Update local state when settings change
   useEffect(() => {
-    if (settings?.location?.zodiac) {
-      setSunSign(settings.location.zodiac.sunSign || 'aries');
-      setMoonSign(settings.location.zodiac.moonSign || 'taurus');
-      setRisingSign(settings.location.zodiac.risingSign || 'gemini');
-    }
-  }, [settings]);
+    fetchSnapshots();
+  }, [fetchSnapshots]);
   
-  // Save user's astrological sign selections to settings
-  const saveSignSelection = (sign: string) => {
-    if (!updateSettings || !settings) return;
-    
-    // Create a copy of the current zodiac settings
-    const zodiacSettings: ZodiacInfo = settings.location?.zodiac || { sunSign: 'aries', moonSign: 'taurus', risingSign: 'gemini' };
-    
-    // Update the appropriate sign
-    if (signType === 'sun') {
-      setSunSign(sign);
-      zodiacSettings.sunSign = sign;
-    } else if (signType === 'moon') {
-      setMoonSign(sign);
-      zodiacSettings.moonSign = sign;
-    } else if (signType === 'rising') {
-      setRisingSign(sign);
-      zodiacSettings.risingSign = sign;
+  const handleSaveBirthChart = async (details: BirthDetails) => {
+    setShowBirthChartSheet(false);
+    await saveChart(details);
+  };
+  
+  // Snapshot this moment where the user is, to be judged as a horary chart
+  const handleCastHorary = () => {
+    if (!location) {
+      setShowLocationPrompt(true);
+      return;
     }
     
-    // Create a new location object with the updated zodiac info
-    const updatedLocation: LocationInfo = {
-      ...(settings.location || {}),
-      zodiac: zodiacSettings
-    };
-    
-    // Update the settings with the new location information
-    updateSettings({
-      location: updatedLocation
-    });
-    
-    setShowSignSelector(false);
+    setHorarySnapshot(snapshotNow(
+      {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        name: location.name
+      },
+      getPlanetaryHoursOptions(settings),
+      chart?.houseSystem
+    ));
+  };
+  
+  const handleSaveHorary = async (question: string) => {
+    if (!horarySnapshot) return;
+    const saved = await saveSnapshot({ ...horarySnapshot, question });
+    if (saved) {
+      setHorarySnapshot(saved);
+    } else {
+      Alert.alert('Error', 'Failed to save the horary chart. Please try again.');
+    }
+  };
+  
+  const handleDeleteHorary = (id: string) => {
+    Alert.alert('Delete Chart', 'Delete this horary chart?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteSnapshot(id);
+          setHorarySnapshot(null);
+        }
+      }
+    ]);
   };
   
   const handleLocationUpdate = () => {
@@ -131,15 +174,9 @@ export default function ProfileScreen() {
   
   // We'll calculate achievements dynamically based on user progress
   
-  // Handle opening the sign selector modal
-  const openSignSelector = (type: 'sun' | 'moon' | 'rising') => {
-    setSignType(type);
-    setShowSignSelector(true);
-  };
-  
-  // Get the zodiac sign object by ID
+  // Get the zodiac sign object by ID or name
   const getZodiacSignById = (id: string) => {
-    return zodiacSigns.find(sign => sign.id === id) || zodiacSigns[0];
+    return zodiacSigns.find(sign => sign.id === id.toLowerCase()) || zodiacSigns[0];
   };
   
   // Calculate achievement progress
@@ -227,11 +264,11 @@ export default function ProfileScreen() {
         </View>
         
         {/* Error message if there's an error */}
-        {(profileError || ritualsError || settingsError) && (
+        {(profileError || ritualsError || settingsError || chartError) && (
           <View style={[styles.errorContainer, { backgroundColor: `${colors.error}20` }]}>
             <AlertCircle size={20} color={colors.error} />
             <Text style={[styles.errorText, { color: colors.error }]}>
-              {profileError || ritualsError || settingsError}
+              {profileError || ritualsError || settingsError || chartError}
             </Text>
           </View>
         )}
@@ -327,71 +364,173 @@ export default function ProfileScreen() {
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
               Your Astrological Signs
             </Text>
+            {chart && (
+              <TouchableOpacity 
+                style={[styles.locationEditButton, { backgroundColor: `${currentDayTheme.colors.primary}10` }]}
+                onPress={() => setShowBirthChartSheet(true)}
+              >
+                <Edit2 size={16} color={currentDayTheme.colors.primary} />
+              </TouchableOpacity>
+            )}
           </View>
           
-          <View style={styles.signsList}>
-            {/* Sun Sign */}
-            <TouchableOpacity 
-              style={styles.signItem} 
-              onPress={() => openSignSelector('sun')}
-            >
-              <View style={[styles.signIconContainer, { backgroundColor: `${currentDayTheme.colors.primary}15` }]}>
-                <Sun size={16} color={currentDayTheme.colors.primary} />
+          {chart && chartSigns ? (
+            <>
+              <View style={styles.signsList}>
+                {([
+                  { key: 'sun', label: 'Sun Sign', sign: chartSigns.sunSign, icon: <Sun size={16} color={currentDayTheme.colors.primary} /> },
+                  { key: 'moon', label: 'Moon Sign', sign: chartSigns.moonSign, icon: <Moon size={16} color={currentDayTheme.colors.primary} /> },
+                  { key: 'rising', label: 'Rising Sign', sign: chartSigns.risingSign, icon: <Star size={16} color={currentDayTheme.colors.primary} /> },
+                ]).map((item, index) => (
+                  <View key={item.key} style={[styles.signItem, index === 2 && styles.lastSignItem]}>
+                    <View style={[styles.signIconContainer, { backgroundColor: `${currentDayTheme.colors.primary}15` }]}>
+                      {item.icon}
+                    </View>
+                    <View style={styles.signDetails}>
+                      <Text style={[styles.signLabel, { color: colors.textSecondary }]}>{item.label}</Text>
+                      <View style={styles.signValueContainer}>
+                        <Text style={[styles.signValue, { color: colors.text }]}>
+                          {getZodiacSignById(item.sign).name}
+                        </Text>
+                        <Text style={styles.signSymbol}>{getZodiacSignById(item.sign).symbol}</Text>
+                      </View>
+                    </View>
+                  </View>
+                ))}
               </View>
-              <View style={styles.signDetails}>
-                <Text style={[styles.signLabel, { color: colors.textSecondary }]}>Sun Sign</Text>
-                <View style={styles.signValueContainer}>
-                  <Text style={[styles.signValue, { color: colors.text }]}>
-                    {getZodiacSignById(sunSign).name}
-                  </Text>
-                  <Text style={styles.signSymbol}>{getZodiacSignById(sunSign).symbol}</Text>
-                  <ChevronDown size={14} color={colors.textTertiary} style={styles.signChevron} />
-                </View>
+              
+              {/* Natal placements with their houses */}
+              <View style={[styles.chartDetails, { borderTopColor: colors.border }]}>
+                <Text style={[styles.chartMeta, { color: colors.textSecondary }]}>
+                  {chart.birthDate} {chart.birthTime}{chart.birthLocation ? ` · ${chart.birthLocation}` : ''} · {houseSystemLabels[chart.houseSystem]} houses
+                </Text>
+                {chart.positions.map(position => (
+                  <View key={position.planet} style={styles.placementRow}>
+                    <Text style={[styles.placementPlanet, { color: colors.text }]}>
+                      {getPlanetById(position.planet).symbol} {getPlanetById(position.planet).name}
+                    </Text>
+                    <Text style={[styles.placementValue, { color: colors.textSecondary }]}>
+                      {Math.floor(position.degree)}° {position.sign}{position.isRetrograde ? ' ℞' : ''} · House {position.house}
+                    </Text>
+                  </View>
+                ))}
+                {chartBodies.map(position => (
+                  <View key={position.planet} style={styles.placementRow}>
+                    <Text style={[styles.placementPlanet, { color: colors.textSecondary }]}>
+                      {extraBodyLabels[position.planet].symbol} {extraBodyLabels[position.planet].name}
+                    </Text>
+                    <Text style={[styles.placementValue, { color: colors.textSecondary }]}>
+                      {Math.floor(position.degree)}° {position.sign}{position.isRetrograde ? ' ℞' : ''} · House {position.house}
+                    </Text>
+                  </View>
+                ))}
+                <Text style={[styles.chartMeta, { color: colors.textSecondary, marginTop: 8 }]}>
+                  {chart.aspects.length} aspects between the planets
+                </Text>
               </View>
-            </TouchableOpacity>
-            
-
-            
-            {/* Moon Sign */}
-            <TouchableOpacity 
-              style={styles.signItem} 
-              onPress={() => openSignSelector('moon')}
+            </>
+          ) : (
+            <TouchableOpacity
+              style={[styles.birthChartButton, { backgroundColor: `${currentDayTheme.colors.primary}15` }]}
+              onPress={() => setShowBirthChartSheet(true)}
             >
-              <View style={[styles.signIconContainer, { backgroundColor: `${currentDayTheme.colors.primary}15` }]}>
-                <Moon size={16} color={currentDayTheme.colors.primary} />
-              </View>
-              <View style={styles.signDetails}>
-                <Text style={[styles.signLabel, { color: colors.textSecondary }]}>Moon Sign</Text>
-                <View style={styles.signValueContainer}>
-                  <Text style={[styles.signValue, { color: colors.text }]}>
-                    {getZodiacSignById(moonSign).name}
-                  </Text>
-                  <Text style={styles.signSymbol}>{getZodiacSignById(moonSign).symbol}</Text>
-                  <ChevronDown size={14} color={colors.textTertiary} style={styles.signChevron} />
-                </View>
-              </View>
+              <Text style={[styles.birthChartButtonText, { color: currentDayTheme.colors.primary }]}>
+                Enter your birth date, time and place
+              </Text>
             </TouchableOpacity>
-            
-            {/* Rising Sign */}
-            <TouchableOpacity 
-              style={[styles.signItem, styles.lastSignItem]} 
-              onPress={() => openSignSelector('rising')}
-            >
-              <View style={[styles.signIconContainer, { backgroundColor: `${currentDayTheme.colors.primary}15` }]}>
-                <Star size={16} color={currentDayTheme.colors.primary} />
+          )}
+        </GothicCard>
+        
+        {/* Personal Sky Card - transits to the birth chart */}
+        {chart && (
+          <GothicCard style={styles.astroSignsCard}>
+            <View style={styles.sectionHeader}>
+              <View style={[styles.iconContainer, { backgroundColor: `${currentDayTheme.colors.primary}20` }]}>
+                <Sparkles size={18} color={currentDayTheme.colors.primary} />
               </View>
-              <View style={styles.signDetails}>
-                <Text style={[styles.signLabel, { color: colors.textSecondary }]}>Rising Sign</Text>
-                <View style={styles.signValueContainer}>
-                  <Text style={[styles.signValue, { color: colors.text }]}>
-                    {getZodiacSignById(risingSign).name}
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                Personal Sky
+              </Text>
+            </View>
+            
+            <View style={[styles.chartDetails, { borderTopColor: colors.border }]}>
+              {personalSky.transits.length === 0 ? (
+                <Text style={[styles.chartMeta, { color: colors.textSecondary }]}>
+                  No exact transits to your chart in the coming month
+                </Text>
+              ) : personalSky.transits.map(transit => (
+                <View key={transit.id} style={styles.placementRow}>
+                  <View style={styles.transitName}>
+                    <Text style={[styles.placementPlanet, { color: colors.text }]}>
+                      {getTransitSymbols(transit)}
+                    </Text>
+                    <Text style={[styles.chartMeta, { color: colors.textSecondary, marginBottom: 0 }]}>
+                      {transit.title}{transit.isRetrograde ? ' ℞' : ''}
+                      {isTransitActive(transit, personalSky.active) && (
+                        <Text style={{ color: currentDayTheme.colors.primary }}> · in orb</Text>
+                      )}
+                    </Text>
+                  </View>
+                  <Text style={[styles.placementValue, { color: colors.textSecondary }]}>
+                    {transit.date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} {formatHourTime(transit.date)}
                   </Text>
-                  <Text style={styles.signSymbol}>{getZodiacSignById(risingSign).symbol}</Text>
-                  <ChevronDown size={14} color={colors.textTertiary} style={styles.signChevron} />
                 </View>
+              ))}
+              
+              <View style={styles.returnButtons}>
+                {returnKinds.map(kind => (
+                  <TouchableOpacity
+                    key={kind}
+                    style={[styles.returnButton, { backgroundColor: `${currentDayTheme.colors.primary}15` }]}
+                    onPress={() => setReturnKind(kind)}
+                  >
+                    <Text style={[styles.birthChartButtonText, { color: currentDayTheme.colors.primary }]}>
+                      {returnLabels[kind]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
-            </TouchableOpacity>
+            </View>
+          </GothicCard>
+        )}
+        
+        {/* Horary Card - charts of the moment a question is asked */}
+        <GothicCard style={styles.astroSignsCard}>
+          <View style={styles.sectionHeader}>
+            <View style={[styles.iconContainer, { backgroundColor: `${currentDayTheme.colors.primary}20` }]}>
+              <Compass size={18} color={currentDayTheme.colors.primary} />
+            </View>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              Horary
+            </Text>
           </View>
+          
+          <TouchableOpacity
+            style={[styles.birthChartButton, { backgroundColor: `${currentDayTheme.colors.primary}15` }]}
+            onPress={handleCastHorary}
+          >
+            <Text style={[styles.birthChartButtonText, { color: currentDayTheme.colors.primary }]}>
+              Cast a Chart Now
+            </Text>
+          </TouchableOpacity>
+          
+          {horarySnapshots.length > 0 && (
+            <View style={[styles.chartDetails, { borderTopColor: colors.border }]}>
+              {horarySnapshots.map(snapshot => (
+                <TouchableOpacity key={snapshot.id} style={styles.placementRow} onPress={() => setHorarySnapshot(snapshot)}>
+                  <Text
+                    style={[styles.placementPlanet, styles.transitName, { color: snapshot.question ? colors.text : colors.textSecondary }]}
+                    numberOfLines={1}
+                  >
+                    {snapshot.question || 'No question'}
+                  </Text>
+                  <Text style={[styles.placementValue, { color: colors.textSecondary }]}>
+                    {new Date(snapshot.castAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })} {formatHourTime(new Date(snapshot.castAt))}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </GothicCard>
         
         {/* Stats Card */}
@@ -668,48 +807,33 @@ export default function ProfileScreen() {
         />
       )}
       
-      {/* Sign Selector Modal */}
-      <Modal
-        visible={showSignSelector}
-        transparent={true}
-        animationType="slide"
-        onRequestClose={() => setShowSignSelector(false)}
-      >
-        <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
-            <View style={styles.modalHeader}>
-              <Text style={[styles.modalTitle, { color: colors.text }]}>
-                Select Your {signType === 'sun' ? 'Sun' : signType === 'moon' ? 'Moon' : 'Rising'} Sign
-              </Text>
-              <TouchableOpacity onPress={() => setShowSignSelector(false)}>
-                <X size={20} color={colors.text} />
-              </TouchableOpacity>
-            </View>
-            
-            <FlatList
-              data={zodiacSigns}
-              keyExtractor={(item) => item.id}
-              renderItem={({ item }) => (
-                <TouchableOpacity 
-                  style={[styles.zodiacItem, { borderBottomColor: colors.border }]}
-                  onPress={() => saveSignSelection(item.id)}
-                >
-                  <View style={[styles.zodiacIconContainer, { backgroundColor: `${currentDayTheme.colors.primary}20` }]}>
-                    <Text style={styles.zodiacSymbolLarge}>{item.symbol}</Text>
-                  </View>
-                  <View style={styles.zodiacInfo}>
-                    <Text style={[styles.zodiacName, { color: colors.text }]}>{item.name}</Text>
-                    <Text style={[styles.zodiacElement, { color: colors.textSecondary }]}>
-                      {item.element.charAt(0).toUpperCase() + item.element.slice(1)} Element
-                    </Text>
-                  </View>
-                </TouchableOpacity>
-              )}
-              style={styles.zodiacList}
-            />
-          </View>
-        </View>
-      </Modal>
+      {chart && returnLocation && returnKind && (
+        <ReturnSheet
+          visible={returnKind !== null}
+          kind={returnKind}
+          chart={chart}
+          location={returnLocation}
+          options={getPlanetaryHoursOptions(settings)}
+          userId={settings?.user_id}
+          onClose={() => setReturnKind(null)}
+        />
+      )}
+      
+      <HorarySheet
+        visible={horarySnapshot !== null}
+        snapshot={horarySnapshot}
+        onSave={handleSaveHorary}
+        onDelete={handleDeleteHorary}
+        onClose={() => setHorarySnapshot(null)}
+      />
+      
+      <BirthChartSheet
+        visible={showBirthChartSheet}
+        chart={chart}
+        defaultName={profile?.name || undefined}
+        onSave={handleSaveBirthChart}
+        onClose={() => setShowBirthChartSheet(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -874,8 +998,53 @@ const styles = StyleSheet.create({
   signSymbol: {
     marginLeft: 8,
   },
-  signChevron: {
-    marginLeft: 'auto',
+  chartDetails: {
+    marginTop: 8,
+    paddingTop: 12,
+    paddingHorizontal: 12,
+    borderTopWidth: 1,
+  },
+  chartMeta: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  placementRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  placementPlanet: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  placementValue: {
+    fontSize: 14,
+  },
+  transitName: {
+    flex: 1,
+    marginRight: 8,
+  },
+  returnButtons: {
+    flexDirection: 'row',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  returnButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  birthChartButton: {
+    marginTop: 12,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  birthChartButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
   },
   // Stats and badges styles
   statBadgeContainer: {
@@ -945,62 +1114,6 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
   },
   
-  // Modal styles
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.7)',
-    justifyContent: 'flex-end',
-  },
-  modalContent: {
-    borderTopLeftRadius: 16,
-    borderTopRightRadius: 16,
-    padding: 16,
-    maxHeight: '80%',
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 16,
-    paddingBottom: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: 'rgba(255,255,255,0.1)',
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-  },
-  zodiacList: {
-    maxHeight: 400,
-  },
-  zodiacItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-  },
-  zodiacIconContainer: {
-    width: 48,
-    height: 48,
-    borderRadius: 24,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginRight: 16,
-  },
-  zodiacSymbolLarge: {
-    fontSize: 24,
-    color: '#FFFFFF',
-  },
-  zodiacInfo: {
-    flex: 1,
-  },
-  zodiacName: {
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
-  zodiacElement: {
-    fontSize: 12,
-  },
   locationDetails: {
     flex: 1,
     marginLeft: 12,
@@ -1,16 +1,40 @@
-import React from 'react';
-import { StyleSheet, Text, View, Switch, TouchableOpacity, ScrollView, Alert, Platform } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, Switch, TouchableOpacity, ScrollView, Alert, Platform, TextInput } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Bell, MapPin, Moon, Sun, Info, Shield, Trash2, LogOut, ChevronRight, Volume2, Vibrate, Calendar, Clock } from 'lucide-react-native';
+import { Bell, MapPin, Moon, Sun, Info, Shield, Trash2, LogOut, ChevronRight, Volume2, Vibrate, Calendar, Clock, Sunrise, Mountain, Hourglass, Orbit, Ruler, Eclipse, Sparkles, Target, AlarmClock } from 'lucide-react-native';
 import { useTheme } from '@/components/ThemeProvider';
-import { useSettingsStore } from '@/stores/settingsStore';
+import { useSettingsStore, getPlanetaryHoursOptions } from '@/stores/settingsStore';
 import { useLocationStore } from '@/stores/locationStore';
+import { usePlanetaryStore } from '@/stores/planetaryStore';
 import { useRitualStore } from '@/stores/ritualStore';
 import { useProfileStore } from '@/stores/profileStore';
 import { useAuthStore } from '@/stores/authStore';
+import { useNatalChartStore } from '@/stores/natalChartStore';
 import { scheduleUpcomingDayReminders } from '@/services/reminderService';
 import { requestCalendarPermission } from '@/services/calendarService';
-import { requestNotificationPermission } from '@/services/notificationService';
+import { cancelTransitNotifications, requestNotificationPermission } from '@/services/notificationService';
+import { DEFAULT_SUNRISE_DEFINITION, sunriseDefinitions, type SunriseDefinition } from '../../shared/planetaryHours';
+import { DEFAULT_HOUR_SYSTEM, getHourSystem, hourSystems, type HourSystem } from '../../shared/hourSystems';
+import { DEFAULT_ZODIAC, getZodiac, zodiacs, type Zodiac } from '../../shared/zodiac';
+import { DEFAULT_TRANSIT_ORB } from '../../shared/transits';
+import { DEFAULT_TRANSIT_LEAD_HOURS } from '@/utils/transits';
+
+// Orbs in degrees and lead times in hours, as strings for the option chips
+const transitOrbOptions = ['1', '2', '3', '5'] as const;
+const transitLeadOptions = ['1', '6', '24', '72'] as const;
+
+const transitLeadLabels: Record<(typeof transitLeadOptions)[number], string> = {
+  '1': '1 hour',
+  '6': '6 hours',
+  '24': '1 day',
+  '72': '3 days',
+};
+
+const sunriseDefinitionLabels: Record<SunriseDefinition, string> = {
+  'upper-limb': 'Upper limb',
+  'center': 'Disk center',
+  'civil-dawn': 'Civil dawn',
+};
 
 export default function SettingsScreen() {
   const { colors, isDark, toggleTheme } = useTheme();
@@ -19,6 +43,17 @@ export default function SettingsScreen() {
   const { clearRituals } = useRitualStore();
   const { resetProfile } = useProfileStore();
   const { logout } = useAuthStore();
+  const { chart } = useNatalChartStore();
+  const [elevationText, setElevationText] = useState(String(settings?.elevation ?? 0));
+  const [ayanamsaText, setAyanamsaText] = useState(String(settings?.custom_ayanamsa ?? 0));
+  
+  useEffect(() => {
+    setElevationText(String(settings?.elevation ?? 0));
+  }, [settings?.elevation]);
+  
+  useEffect(() => {
+    setAyanamsaText(String(settings?.custom_ayanamsa ?? 0));
+  }, [settings?.custom_ayanamsa]);
   
   const handleToggleNotifications = () => {
     try {
@@ -42,7 +77,7 @@ export default function SettingsScreen() {
           
           if (hasPermission && settings.user_id) {
             // Schedule reminders for upcoming days
-            await scheduleUpcomingDayReminders(settings.user_id);
+            await scheduleUpcomingDayReminders(settings.user_id, 7, location, getPlanetaryHoursOptions(settings), settings.avoid_eclipses);
           } else if (!hasPermission) {
             Alert.alert(
               'Calendar Permission Required',
@@ -72,7 +107,7 @@ export default function SettingsScreen() {
           
           if (hasPermission && settings.user_id) {
             // Schedule reminders for upcoming days
-            await scheduleUpcomingDayReminders(settings.user_id);
+            await scheduleUpcomingDayReminders(settings.user_id, 7, location, getPlanetaryHoursOptions(settings), settings.avoid_eclipses);
           } else if (!hasPermission) {
             Alert.alert(
               'Notification Permission Required',
@@ -127,6 +162,61 @@ export default function SettingsScreen() {
     }
   };
   
+  const handleToggleAvoidEclipses = () => {
+    try {
+      if (settings) {
+        updateSettings({ avoid_eclipses: !settings.avoid_eclipses });
+      }
+    } catch (error) {
+      console.error('Error toggling eclipse avoidance:', error);
+    }
+  };
+  
+  // The root layout schedules the notifications while the setting is on
+  const handleToggleTransitNotifications = async () => {
+    try {
+      if (settings) {
+        const newValue = !settings.transit_notifications;
+        updateSettings({ transit_notifications: newValue });
+        
+        if (!newValue) {
+          await cancelTransitNotifications();
+          return;
+        }
+        
+        const hasPermission = await requestNotificationPermission();
+        if (!hasPermission) {
+          Alert.alert(
+            'Notification Permission Required',
+            'Please grant notification permission to be told about transits to your birth chart.',
+            [{ text: 'OK' }]
+          );
+          // Revert the setting if permission was denied
+          updateSettings({ transit_notifications: false });
+        }
+      }
+    } catch (error) {
+      console.error('Error toggling transit notifications:', error);
+      Alert.alert('Error', 'Failed to toggle transit notifications. Please try again.');
+    }
+  };
+  
+  const handleSelectTransitOrb = (orb: string) => {
+    try {
+      updateSettings({ transit_orb: Number(orb) });
+    } catch (error) {
+      console.error('Error updating transit orb:', error);
+    }
+  };
+  
+  const handleSelectTransitLead = (leadHours: string) => {
+    try {
+      updateSettings({ transit_lead_hours: Number(leadHours) });
+    } catch (error) {
+      console.error('Error updating transit lead time:', error);
+    }
+  };
+  
   const handleToggleHaptic = () => {
     try {
       if (settings) {
@@ -137,6 +227,73 @@ export default function SettingsScreen() {
     }
   };
   
+  const handleSelectSunriseDefinition = () => {
+    Alert.alert(
+      'Sunrise Definition',
+      'Choose which solar event starts the planetary day',
+      sunriseDefinitions.map(definition => ({
+        text: sunriseDefinitionLabels[definition],
+        onPress: () => {
+          try {
+            updateSettings({ sunrise_definition: definition });
+          } catch (error) {
+            console.error('Error updating sunrise definition:', error);
+          }
+        }
+      }))
+    );
+  };
+  
+  const handleSelectHourSystem = (hourSystem: HourSystem) => {
+    try {
+      updateSettings({ hour_system: hourSystem });
+    } catch (error) {
+      console.error('Error updating hour system:', error);
+    }
+  };
+  
+  // Positions are calculated in the chosen zodiac, so recalculate them once it is saved
+  const handleSelectZodiac = async (zodiac: Zodiac) => {
+    try {
+      await updateSettings({ zodiac });
+      await usePlanetaryStore.getState().fetchPlanetaryPositions();
+    } catch (error) {
+      console.error('Error updating zodiac:', error);
+    }
+  };
+  
+  const handleSubmitAyanamsa = async () => {
+    const ayanamsa = Number(ayanamsaText);
+    if (!ayanamsaText.trim() || !Number.isFinite(ayanamsa) || ayanamsa < 0 || ayanamsa > 45) {
+      Alert.alert('Invalid Ayanamsa', 'Please enter an ayanamsa in degrees between 0 and 45.');
+      setAyanamsaText(String(settings?.custom_ayanamsa ?? 0));
+      return;
+    }
+    
+    try {
+      await updateSettings({ custom_ayanamsa: ayanamsa });
+      await usePlanetaryStore.getState().fetchPlanetaryPositions();
+    } catch (error) {
+      console.error('Error updating ayanamsa:', error);
+    }
+  };
+  
+  const handleSubmitElevation = () => {
+    const elevation = Number(elevationText);
+    // Dead Sea shore to the top of Everest
+    if (!elevationText.trim() || !Number.isFinite(elevation) || elevation < -500 || elevation > 9000) {
+      Alert.alert('Invalid Elevation', 'Please enter an elevation in meters between -500 and 9000.');
+      setElevationText(String(settings?.elevation ?? 0));
+      return;
+    }
+    
+    try {
+      updateSettings({ elevation });
+    } catch (error) {
+      console.error('Error updating elevation:', error);
+    }
+  };
+  
   const handleResetData = () => {
     Alert.alert(
       'Reset All Data',
@@ -212,6 +369,50 @@ export default function SettingsScreen() {
     );
   };
   
+  const renderOptionsItem = <T extends string>(
+    icon: React.ReactNode,
+    title: string,
+    description: string,
+    options: readonly T[],
+    selected: T,
+    getLabel: (option: T) => string,
+    onSelect: (option: T) => void
+  ) => {
+    return (
+      <View style={[styles.optionsItem, { backgroundColor: colors.card }]}>
+        <View style={styles.optionsHeader}>
+          <View style={[styles.settingIcon, { backgroundColor: `${colors.text}10` }]}>
+            {icon}
+          </View>
+          <View style={styles.settingContent}>
+            <Text style={[styles.settingTitle, { color: colors.text, fontFamily: 'System' }]}>{title}</Text>
+            <Text style={[styles.settingDescription, { color: colors.textSecondary, fontFamily: 'System' }]}>{description}</Text>
+          </View>
+        </View>
+        <View style={styles.optionChips}>
+          {options.map(option => {
+            const isSelected = option === selected;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.optionChip,
+                  { borderColor: isSelected ? colors.primary : colors.border },
+                  isSelected && { backgroundColor: `${colors.primary}20` }
+                ]}
+                onPress={() => onSelect(option)}
+              >
+                <Text style={[styles.optionChipText, { color: isSelected ? colors.primary : colors.text, fontFamily: 'System' }]}>
+                  {getLabel(option)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+  
   const renderLinkItem = (
     icon: React.ReactNode,
     title: string,
@@ -324,6 +525,122 @@ export default function SettingsScreen() {
           )}
         </View>
         
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text, fontFamily: 'System' }]}>Planetary Hours</Text>
+          
+          {renderSettingItem(
+            <Sunrise size={24} color={colors.text} />,
+            'Sunrise Definition',
+            'The solar event that starts the first hour of the day',
+            <TouchableOpacity onPress={handleSelectSunriseDefinition}>
+              <Text style={[styles.settingValue, { color: colors.primary, fontFamily: 'System' }]}>
+                {sunriseDefinitionLabels[settings?.sunrise_definition ?? DEFAULT_SUNRISE_DEFINITION]}
+              </Text>
+            </TouchableOpacity>
+          )}
+          
+          {renderOptionsItem(
+            <Hourglass size={24} color={colors.text} />,
+            'Hour System',
+            getHourSystem(settings?.hour_system ?? DEFAULT_HOUR_SYSTEM).description,
+            hourSystems,
+            settings?.hour_system ?? DEFAULT_HOUR_SYSTEM,
+            hourSystem => getHourSystem(hourSystem).label,
+            handleSelectHourSystem
+          )}
+          
+          {renderSettingItem(
+            <Mountain size={24} color={colors.text} />,
+            'Elevation (m)',
+            'Height above the surrounding terrain; higher observers see the Sun rise earlier',
+            <TextInput
+              value={elevationText}
+              onChangeText={setElevationText}
+              onEndEditing={handleSubmitElevation}
+              keyboardType="numbers-and-punctuation"
+              returnKeyType="done"
+              style={[styles.settingInput, { color: colors.text, borderColor: colors.border }]}
+            />
+          )}
+          
+          {renderSettingItem(
+            <Eclipse size={24} color={colors.text} />,
+            'Avoid Eclipses',
+            'Leave eclipse windows out of the best-time search and reminders',
+            <Switch
+              value={settings?.avoid_eclipses ?? false}
+              onValueChange={handleToggleAvoidEclipses}
+              trackColor={{ false: '#3e3e3e', true: colors.primary }}
+              thumbColor={'#f4f3f4'}
+            />
+          )}
+        </View>
+        
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text, fontFamily: 'System' }]}>Zodiac</Text>
+          
+          {renderOptionsItem(
+            <Orbit size={24} color={colors.text} />,
+            'Zodiac',
+            getZodiac(settings?.zodiac ?? DEFAULT_ZODIAC).description,
+            zodiacs,
+            settings?.zodiac ?? DEFAULT_ZODIAC,
+            zodiac => getZodiac(zodiac).label,
+            handleSelectZodiac
+          )}
+          
+          {settings?.zodiac === 'custom' && renderSettingItem(
+            <Ruler size={24} color={colors.text} />,
+            'Ayanamsa (°)',
+            'Degrees between the tropical and your sidereal zodiac',
+            <TextInput
+              value={ayanamsaText}
+              onChangeText={setAyanamsaText}
+              onEndEditing={handleSubmitAyanamsa}
+              keyboardType="decimal-pad"
+              returnKeyType="done"
+              style={[styles.settingInput, { color: colors.text, borderColor: colors.border }]}
+            />
+          )}
+        </View>
+        
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text, fontFamily: 'System' }]}>Transits</Text>
+          
+          {Platform.OS !== 'web' && renderSettingItem(
+            <Sparkles size={24} color={colors.text} />,
+            'Transit Notifications',
+            chart ? 'Get notified before planets make exact aspects to your birth chart' : 'Enter your birth chart on the profile tab first',
+            <Switch
+              value={settings?.transit_notifications ?? false}
+              onValueChange={handleToggleTransitNotifications}
+              disabled={!chart}
+              trackColor={{ false: '#3e3e3e', true: colors.primary }}
+              thumbColor={'#f4f3f4'}
+            />
+          )}
+          
+          {renderOptionsItem(
+            <Target size={24} color={colors.text} />,
+            'Transit Orb',
+            'How close to exact a transit must be to show as active',
+            transitOrbOptions,
+            String(settings?.transit_orb ?? DEFAULT_TRANSIT_ORB) as (typeof transitOrbOptions)[number],
+            orb => `${orb}°`,
+            handleSelectTransitOrb
+          )}
+          
+          {Platform.OS !== 'web' && renderOptionsItem(
+            <AlarmClock size={24} color={colors.text} />,
+            'Notify Ahead',
+            'How long before a transit is exact to send its notification',
+            transitLeadOptions,
+            String(settings?.transit_lead_hours ?? DEFAULT_TRANSIT_LEAD_HOURS) as (typeof transitLeadOptions)[number],
+            leadHours => transitLeadLabels[leadHours],
+            handleSelectTransitLead
+          )}
+        </View>
+        
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text, fontFamily: 'System' }]}>About</Text>
           
@@ -405,6 +722,45 @@ const styles = StyleSheet.create({
   settingDescription: {
     fontSize: 14,
   },
+  settingValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  settingInput: {
+    width: 72,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 16,
+    textAlign: 'right',
+  },
+  optionsItem: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  optionsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  optionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+    marginLeft: 56,
+  },
+  optionChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipText: {
+    fontSize: 14,
+  },
   linkItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3,9 +3,12 @@ import { Stack, SplashScreen, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { ThemeProvider } from '../components/ThemeProvider';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { useSettingsStore } from '../stores/settingsStore';
+import { useSettingsStore, getTransitOptions } from '../stores/settingsStore';
 import { useAuthStore } from '../stores/authStore';
-import { useColorScheme, View, Text } from 'react-native';
+import { useNatalChartStore } from '../stores/natalChartStore';
+import { scheduleTransitReminders } from '../services/reminderService';
+import { DEFAULT_TRANSIT_LEAD_HOURS } from '../utils/transits';
+import { useColorScheme, View, Text, Platform } from 'react-native';
 import * as Font from 'expo-font';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
@@ -46,6 +49,7 @@ export default function RootLayout() {
   const colorScheme = useColorScheme();
   const { settings, initializeSettings } = useSettingsStore();
   const { user, initialize: initializeAuth } = useAuthStore();
+  const { chart } = useNatalChartStore();
   const [fontsLoaded, setFontsLoaded] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -101,6 +105,17 @@ export default function RootLayout() {
     initialize();
   }, [initializeSettings, initializeAuth, fontsLoaded]);
 
+  // Keep the transit notifications scheduled ahead; they cover the next two weeks only
+  const transitNotifications = settings?.transit_notifications ?? false;
+  const transitLeadHours = settings?.transit_lead_hours ?? DEFAULT_TRANSIT_LEAD_HOURS;
+  useEffect(() => {
+    if (Platform.OS === 'web' || !transitNotifications || !chart) return;
+
+    scheduleTransitReminders(chart, transitLeadHours, getTransitOptions(settings)).catch(error => {
+      console.error('Error refreshing transit notifications:', error);
+    });
+  }, [chart?.updatedAt, transitNotifications, transitLeadHours]);
+
   // Determine if dark mode should be used
   const isDarkMode = settings?.theme === 'system' 
     ? colorScheme === 'dark' 
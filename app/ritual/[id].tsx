@@ -1,19 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { StyleSheet, Text, View, ScrollView, TouchableOpacity, Alert } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { ArrowLeft, ArrowRight, Check } from 'lucide-react-native';
+import { ArrowLeft, ArrowRight, Check, Clock } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '@/components/ThemeProvider';
 import { usePlanetaryStore } from '@/stores/planetaryStore';
 import { useRitualStore } from '@/stores/ritualStore';
+import { useLocationStore } from '@/stores/locationStore';
+import { useSettingsStore, getPlanetaryHoursOptions, getZodiacOptions } from '@/stores/settingsStore';
 import Container from '@/components/ui/Container';
 import Card from '@/components/ui/Card';
 import PlanetSymbol from '@/components/ui/PlanetSymbol';
 import { getPlanetById } from '@/constants/planets';
 import { hymns } from '@/constants/hymns';
 import CandleAnimation from '@/components/CandleAnimation';
+import ElectionSheet from '@/components/ElectionSheet';
+import PlanetaryDignityModal from '@/components/PlanetaryDignityModal';
 import { getZodiacSymbol } from '@/constants/dignities';
-import { getPlanetaryDignity } from '@/utils/planetaryHours';
+import { formatDignityScore, getDignityColor, getDignityReport, getPrimaryDignity } from '@/utils/dignities';
+import { describeVoidPeriod, getCurrentVoidOfCourse } from '@/utils/voidOfCourse';
+import { isPlanetId } from '../../shared/planetary';
 
 export default function RitualScreen() {
   const { id } = useLocalSearchParams();
@@ -21,10 +27,14 @@ export default function RitualScreen() {
   const { colors } = useTheme();
   const { planetPositions, fetchPlanetaryPositions } = usePlanetaryStore();
   const { completeRitual } = useRitualStore();
+  const { location } = useLocationStore();
+  const { settings } = useSettingsStore();
   
   const [currentStep, setCurrentStep] = useState(0);
   const [showHymn, setShowHymn] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
+  const [showElection, setShowElection] = useState(false);
+  const [showDignity, setShowDignity] = useState(false);
   
   // Find the planet by ID with fallback
   const planetId = Array.isArray(id) ? id[0] : id || 'sun';
@@ -40,10 +50,13 @@ export default function RitualScreen() {
   const hymn = hymns.find(h => h.planetId === planetId);
   
   // Find the current position of the planet
-  const planetPosition = planetPositions.find(p => p.planetId === planetId);
+  const planetPosition = planetPositions.find(p => p.planet === planetId);
   
-  // Get the planetary dignity if position is available
-  const dignity = planetPosition ? getPlanetaryDignity(planetId, planetPosition.sign) : null;
+  // Get the essential dignities if position is available
+  const dignityReport = planetPosition
+    ? getDignityReport(planetPosition, { location, positions: planetPositions, zodiac: getZodiacOptions(settings) })
+    : null;
+  const dignity = dignityReport ? getPrimaryDignity(dignityReport) : null;
   
   // Fetch planetary positions when the component mounts
   useEffect(() => {
@@ -90,8 +103,7 @@ export default function RitualScreen() {
       setCurrentStep(currentStep + 1);
       setShowHymn(false);
     } else {
-      // Complete the ritual
-      handleCompleteRitual();
+      confirmCompleteRitual();
     }
   };
   
@@ -108,6 +120,24 @@ export default function RitualScreen() {
     setShowHymn(!showHymn);
   };
   
+  // Warn before completing while the Moon is void of course
+  const confirmCompleteRitual = () => {
+    const voidPeriod = getCurrentVoidOfCourse();
+    if (!voidPeriod) {
+      handleCompleteRitual();
+      return;
+    }
+    
+    Alert.alert(
+      'Moon Void of Course',
+      `${describeVoidPeriod(voidPeriod)} Workings begun now are said to come to nothing.`,
+      [
+        { text: 'Wait', style: 'cancel' },
+        { text: 'Complete Anyway', onPress: handleCompleteRitual }
+      ]
+    );
+  };
+  
   // Handle ritual completion
   const handleCompleteRitual = async () => {
     try {
@@ -134,22 +164,6 @@ export default function RitualScreen() {
     }
   };
   
-  // Helper function to get color based on dignity
-  const getDignityColor = (dignity: string): string => {
-    switch (dignity) {
-      case 'rulership':
-        return '#4CAF50';
-      case 'exaltation':
-        return '#2196F3';
-      case 'detriment':
-        return '#FF9800';
-      case 'fall':
-        return '#F44336';
-      default:
-        return '#9E9E9E';
-    }
-  };
-  
   return (
     <SafeAreaView style={{ flex: 1, backgroundColor: colors.background }}>
       <Container>
@@ -189,21 +203,36 @@ export default function RitualScreen() {
                   {getZodiacSymbol(planetPosition.sign)} Currently in {planetPosition.sign} {planetPosition.isRetrograde ? '℞' : ''}
                 </Text>
                 
-                {dignity && (
-                  <View style={[
-                    styles.dignityBadge,
-                    { backgroundColor: getDignityColor(dignity) }
-                  ]}>
+                {dignityReport && dignity && (
+                  <TouchableOpacity
+                    style={[
+                      styles.dignityBadge,
+                      { backgroundColor: getDignityColor(dignity) }
+                    ]}
+                    onPress={() => setShowDignity(true)}
+                  >
                     <Text style={[styles.dignityText, { fontFamily: 'System' }]}>
-                      {dignity}
+                      {dignity} {formatDignityScore(dignityReport.score)}
                     </Text>
-                  </View>
+                  </TouchableOpacity>
                 )}
               </View>
             )}
           </View>
         </View>
         
+        {isPlanetId(planetId) && (
+          <TouchableOpacity
+            style={[styles.electionButton, { borderColor: colors.border }]}
+            onPress={() => setShowElection(true)}
+          >
+            <Clock size={16} color={colors.primary} />
+            <Text style={[styles.electionButtonText, { color: colors.primary, fontFamily: 'System' }]}>
+              Find the best time for this ritual
+            </Text>
+          </TouchableOpacity>
+        )}
+        
         <View style={styles.candleContainer}>
           <CandleAnimation color={planet.color} planetId={planet.id} />
         </View>
@@ -288,6 +317,28 @@ export default function RitualScreen() {
           </TouchableOpacity>
         </View>
       </Container>
+      
+      {isPlanetId(planetId) && (
+        <ElectionSheet
+          visible={showElection}
+          planetId={planetId}
+          latitude={location?.latitude || 0}
+          longitude={location?.longitude || 0}
+          options={getPlanetaryHoursOptions(settings)}
+          zodiac={getZodiacOptions(settings)}
+          avoidEclipses={settings?.avoid_eclipses ?? false}
+          onClose={() => setShowElection(false)}
+        />
+      )}
+      
+      {planetPosition && dignityReport && (
+        <PlanetaryDignityModal
+          visible={showDignity}
+          onClose={() => setShowDignity(false)}
+          planetPosition={planetPosition}
+          report={dignityReport}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -349,6 +400,21 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     textTransform: 'capitalize',
   },
+  electionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    marginBottom: 24,
+  },
+  electionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   candleContainer: {
     alignItems: 'center',
     marginBottom: 24,
@@ -1,31 +1,17 @@
 import { DateTime } from 'luxon';
-import { chaldeanOrder, planetaryDayRulers, planetarySymbols } from '../constants/planets';
+import { calculatePlanetaryHours as calculateSchedule, type PlanetaryHoursOptions } from '../../shared/planetaryHours';
 import type { PlanetName, PlanetaryHour } from '../app-types';
 
-let SunCalc: any;
-try {
-  SunCalc = require('suncalc');
-} catch (error) {
-  SunCalc = {
-    getTimes: (date: Date, lat: number, lng: number) => {
-      const year = date.getFullYear();
-      const month = date.getMonth();
-      const day = date.getDate();
-      const sunrise = new Date(year, month, day, 6, 0, 0);
-      const sunset = new Date(year, month, day, 18, 0, 0);
-      return { sunrise, sunset };
-    }
-  };
-}
-
 /**
  * Calculates the planetary hours for a given date and location.
+ * Sunrise/sunset and hour boundaries come from the shared hours engine.
  * @param latitude - The latitude of the location
  * @param longitude - The longitude of the location
  * @param date - The date for which to calculate planetary hours
  * @param timezone - The timezone of the location (e.g., 'America/New_York')
  * @param wakingHourStart - Optional: The start of waking hours (0-23)
  * @param wakingHourEnd - Optional: The end of waking hours (0-23)
+ * @param options - Optional: sunrise definition, observer elevation and polar fallback
  * @returns An array of planetary hour objects
  */
 export const calculatePlanetaryHours = async (
@@ -35,29 +21,20 @@ export const calculatePlanetaryHours = async (
   timezone: string = 'UTC',
   wakingHourStart: number = 6,
   wakingHourEnd: number = 22,
-  now: Date = new Date()
+  now: Date = new Date(),
+  options: PlanetaryHoursOptions = {}
 ): Promise<PlanetaryHour[]> => {
   const validLatitude = !isNaN(latitude) && latitude >= -90 && latitude <= 90 ? latitude : 0;
   const validLongitude = !isNaN(longitude) && longitude >= -180 && longitude <= 180 ? longitude : 0;
   const validDate = date instanceof Date && !isNaN(date.getTime()) ? date : new Date();
 
-  const dayOfWeek = validDate.getDay();
-  const rulingPlanet = planetaryDayRulers[dayOfWeek] as PlanetName;
-  const startIndex = chaldeanOrder.indexOf(rulingPlanet);
-
-  const times = SunCalc.getTimes(validDate, validLatitude, validLongitude);
-  const sunrise = DateTime.fromJSDate(times.sunrise).setZone(timezone);
-  const sunset = DateTime.fromJSDate(times.sunset).setZone(timezone);
-
-  const nextDate = new Date(validDate);
-  nextDate.setDate(nextDate.getDate() + 1);
-  const nextTimes = SunCalc.getTimes(nextDate, validLatitude, validLongitude);
-  const nextSunrise = DateTime.fromJSDate(nextTimes.sunrise).setZone(timezone);
-
-  const dayDuration = sunset.diff(sunrise, 'minutes').minutes;
-  const nightDuration = nextSunrise.diff(sunset, 'minutes').minutes;
-  const dayHourLength = dayDuration / 12;
-  const nightHourLength = nightDuration / 12;
+  const schedule = calculateSchedule({
+    ...options,
+    date: validDate,
+    latitude: validLatitude,
+    longitude: validLongitude,
+    timezone,
+  });
 
   const nowDateTime = DateTime.fromJSDate(now).setZone(timezone);
   const today = nowDateTime.startOf('day');
@@ -77,50 +54,23 @@ export const calculatePlanetaryHours = async (
     return '';
   };
 
-  const planetaryHours: PlanetaryHour[] = [];
-
-  for (let i = 0; i < 24; i++) {
-    let startTime: DateTime, endTime: DateTime;
-    const isDayHour = i < 12;
-
-    if (isDayHour) {
-      startTime = sunrise.plus({ minutes: i * dayHourLength });
-      endTime = sunrise.plus({ minutes: (i + 1) * dayHourLength });
-
-      if (i === 11) {
-        endTime = sunset;
-      }
-    } else {
-      const nightIndex = i - 12;
-      startTime = sunset.plus({ minutes: nightIndex * nightHourLength });
-      endTime = sunset.plus({ minutes: (nightIndex + 1) * nightHourLength });
-
-      if (i === 23) {
-        endTime = nextSunrise;
-      }
-    }
+  return schedule.hours.map((slot) => {
+    const startTime = DateTime.fromJSDate(slot.start).setZone(timezone);
+    const endTime = DateTime.fromJSDate(slot.end).setZone(timezone);
+    const planetName = slot.ruler as PlanetName;
 
-    const label = dayLabel(startTime);
-
-    const planetName = chaldeanOrder[(startIndex + i) % 7] as PlanetName;
-
-    const dateTime = DateTime.fromJSDate(validDate).setZone(timezone);
-    const isToday = dateTime.hasSame(nowDateTime, 'day');
-    const isCurrentHour = isToday && (nowDateTime >= startTime && nowDateTime < endTime);
-
-    planetaryHours.push({
-      hourNumber: i + 1,
+    return {
+      hourNumber: slot.index,
       planet: planetName,
       planetId: planetName,
-      period: isDayHour ? 'day' : 'night',
-      isDayHour: isDayHour,
-      startTime: startTime.toJSDate(),
-      endTime: endTime.toJSDate(),
-      isCurrentHour,
-      label
-    });
-  }
-  return planetaryHours;
+      period: slot.isDay ? 'day' : 'night',
+      isDayHour: slot.isDay,
+      startTime: slot.start,
+      endTime: slot.end,
+      isCurrentHour: nowDateTime >= startTime && nowDateTime < endTime,
+      label: dayLabel(startTime)
+    };
+  });
 };
 
 /**
@@ -9,6 +9,9 @@ import type {
   Settings, 
   SettingsUpdate 
 } from '../types/database';
+import { DEFAULT_SUNRISE_DEFINITION } from '../../shared/planetaryHours';
+import { DEFAULT_HOUR_SYSTEM } from '../../shared/hourSystems';
+import { DEFAULT_ZODIAC } from '../../shared/zodiac';
 
 const { EXPO_PUBLIC_SUPABASE_URL, EXPO_PUBLIC_SUPABASE_ANON_KEY } = Constants.expoConfig?.extra || {};
 
@@ -265,7 +268,16 @@ export const defaultSettings: Omit<Settings, 'user_id'> = {
   language: 'en',
   units: 'metric',
   theme: 'system',
-  font_size: 'medium'
+  font_size: 'medium',
+  sunrise_definition: DEFAULT_SUNRISE_DEFINITION,
+  elevation: 0,
+  hour_system: DEFAULT_HOUR_SYSTEM,
+  zodiac: DEFAULT_ZODIAC,
+  custom_ayanamsa: 0,
+  avoid_eclipses: false,
+  transit_notifications: false,
+  transit_orb: 2,
+  transit_lead_hours: 24
 };
 
 // Settings
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import {
+  almanacToCsv,
+  almanacToJson,
+  AlmanacInputError,
+  formatAlmanacPosition,
+  generateAlmanac,
+  getAlmanacDayEvents,
+  parseAlmanacMonth
+} from '../../shared/almanac';
+import { calculatePlanetaryHours } from '../../shared/planetaryHours';
+
+jest.unmock('luxon');
+
+const SALT_LAKE_CITY = { latitude: 40.7608, longitude: -111.891, timezone: 'America/Denver' };
+
+describe('Monthly almanac', () => {
+  const almanac = generateAlmanac({ year: 2025, month: 1, ...SALT_LAKE_CITY });
+
+  it('has each local day with its ruler, sunrise, sunset and noon positions', () => {
+    expect(almanac.month).toBe('2025-01');
+    expect(almanac.days).toHaveLength(31);
+    expect(almanac.days[0].date).toBe('2025-01-01');
+    expect(almanac.days[30].date).toBe('2025-01-31');
+
+    const schedule = calculatePlanetaryHours({ ...SALT_LAKE_CITY, date: '2025-01-15' });
+    const day = almanac.days[14];
+    expect(day.dayRuler).toBe(schedule.dayRuler);
+    expect(day.sunrise).toEqual(schedule.sunrise);
+    expect(day.sunset).toEqual(schedule.sunset);
+    expect(day.noon.toISOString()).toBe('2025-01-15T19:00:00.000Z');
+    expect(day.positions.map(position => position.planet)).toEqual(['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn']);
+  });
+
+  it('lists the ingresses and Moon phases of the month', () => {
+    expect(almanac.moonPhases.map(phase => phase.phase)).toEqual(['first quarter', 'full', 'last quarter', 'new']);
+    expect(almanac.ingresses.every(event => event.type === 'ingress')).toBe(true);
+    expect(almanac.ingresses.find(event => event.planet === 'sun')?.sign).toBe('Aquarius');
+
+    const start = new Date('2025-01-01T07:00:00Z').getTime();
+    const end = new Date('2025-02-01T07:00:00Z').getTime();
+    [...almanac.ingresses, ...almanac.moonPhases].forEach(event => {
+      expect(event.date.getTime()).toBeGreaterThanOrEqual(start);
+      expect(event.date.getTime()).toBeLessThan(end);
+    });
+  });
+
+  it('exports CSV and JSON', () => {
+    const lines = almanacToCsv(almanac).trim().split('\n');
+    expect(lines).toHaveLength(32);
+    expect(lines[0]).toBe('date,day_ruler,sunrise,sunset,sun,moon,mercury,venus,mars,jupiter,saturn,events');
+    expect(lines[1]).toMatch(/^2025-01-01,mercury,07:51,17:11,11°37' Capricorn,/);
+    expect(lines[19]).toContain('13:00 Sun enters Aquarius');
+
+    const json = almanacToJson(almanac);
+    expect(json.days[0].sunrise).toMatch(/^2025-01-01T07:51:\d{2}\.\d{3}-07:00$/);
+    expect(JSON.parse(JSON.stringify(json)).moonPhases[1]).toMatchObject({ phase: 'full', title: 'Full Moon' });
+  });
+
+  it('writes positions and events with glyphs for the printed page', () => {
+    const glyphs = { planet: (planet: string) => planet.slice(0, 2), sign: (sign: string) => sign.slice(0, 3), retrograde: 'Rx' };
+    const mars = almanac.days[0].positions.find(position => position.planet === 'mars')!;
+
+    // Mars is retrograde through January 2025
+    expect(formatAlmanacPosition(mars)).toMatch(/^\d+°\d{2}' \w+ R$/);
+    const [degrees] = formatAlmanacPosition(mars).split(' ');
+    expect(formatAlmanacPosition(mars, glyphs)).toBe(`${degrees} ${mars.sign.slice(0, 3)} Rx`);
+    expect(getAlmanacDayEvents(almanac)['2025-01-19']).toContain('13:00 Sun enters Aquarius');
+    expect(getAlmanacDayEvents(almanac, glyphs)['2025-01-19']).toContain('13:00 su → Aqu');
+  });
+
+  it('rejects malformed months and timezones', () => {
+    expect(parseAlmanacMonth('2025-06')).toEqual({ year: 2025, month: 6 });
+    expect(parseAlmanacMonth('2025-13')).toBeNull();
+    expect(parseAlmanacMonth('June')).toBeNull();
+    expect(() => generateAlmanac({ year: 2025, month: 1, latitude: 0, longitude: 0, timezone: 'Not/AZone' })).toThrow(AlmanacInputError);
+  });
+});
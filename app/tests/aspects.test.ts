@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+import { calculateAspects, findAspects, getAllowedOrb, type AspectBody } from '../../shared/aspects';
+
+const body = (planet: AspectBody['planet'], longitude: number, speed: number): AspectBody => ({ planet, longitude, speed });
+
+describe('Aspects', () => {
+  it('finds aspects across 0° Aries and measures the orb', () => {
+    const [aspect] = calculateAspects([body('mars', 355, 0.6), body('jupiter', 57, 0.1)]);
+
+    expect(aspect.type).toBe('sextile');
+    expect(aspect.separation).toBeCloseTo(62);
+    expect(aspect.orb).toBeCloseTo(2);
+    expect(aspect.exact).toBe(false);
+  });
+
+  it('detects applying and separating aspects from the planets’ speeds', () => {
+    // The faster Moon behind Venus closes the gap of a conjunction
+    expect(calculateAspects([body('venus', 100, 1.2), body('moon', 96, 13)])[0].applying).toBe(true);
+    // ...and widens it once past Venus
+    expect(calculateAspects([body('venus', 100, 1.2), body('moon', 104, 13)])[0].applying).toBe(false);
+    // A separation just short of a square grows towards 90°
+    expect(calculateAspects([body('sun', 0, 1), body('moon', 86, 13)])[0].applying).toBe(true);
+    // The Sun moves towards the point opposite a retrograde Saturn, then past it
+    expect(calculateAspects([body('sun', 0, 1), body('saturn', 185, -0.05)])[0].applying).toBe(true);
+    expect(calculateAspects([body('sun', 0, 1), body('saturn', 175, -0.05)])[0].applying).toBe(false);
+  });
+
+  it('limits orbs per aspect and per planet, with overrides', () => {
+    expect(getAllowedOrb('conjunction', 'sun', 'moon')).toBe(8);
+    expect(getAllowedOrb('trine', 'mercury', 'venus')).toBe(7);
+
+    const bodies = [body('mercury', 0, 1.5), body('venus', 66, 1.2)];
+    expect(calculateAspects(bodies)).toHaveLength(0);
+    expect(calculateAspects(bodies, { orbs: { aspects: { sextile: 6 } } })).toHaveLength(1);
+    expect(calculateAspects(bodies, { orbs: { aspects: { sextile: 6 }, planets: { venus: 4 } } })).toHaveLength(0);
+  });
+
+  it('finds the exact aspects of the sky', () => {
+    // Mars opposed the Sun on 16 January 2025 and the Moon was new on 29 January 2025
+    const marsOpposition = findAspects(new Date('2025-01-16T02:38:00Z'))
+      .find(aspect => aspect.planet1 === 'sun' && aspect.planet2 === 'mars');
+    expect(marsOpposition?.type).toBe('opposition');
+    expect(marsOpposition?.exact).toBe(true);
+
+    const newMoon = findAspects(new Date('2025-01-29T06:00:00Z'))
+      .find(aspect => aspect.planet1 === 'sun' && aspect.planet2 === 'moon');
+    expect(newMoon?.type).toBe('conjunction');
+    expect(newMoon?.applying).toBe(true);
+  });
+});
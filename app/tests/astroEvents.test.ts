@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { findAstroEvents, type AstroEvent } from '../../shared/events';
+
+const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / 60000;
+
+const findEvent = (events: AstroEvent[], type: AstroEvent['type'], planet: AstroEvent['planet']) =>
+  events.find(event => event.type === type && event.planet === planet);
+
+describe('Astrological events', () => {
+  const events = findAstroEvents(new Date('2025-01-01T00:00:00Z'), new Date('2025-03-01T00:00:00Z'));
+
+  it('returns events in time order within the range', () => {
+    expect(events.length).toBeGreaterThan(0);
+    events.forEach((event, i) => {
+      expect(event.date.getTime()).toBeGreaterThanOrEqual(Date.parse('2025-01-01T00:00:00Z'));
+      expect(event.date.getTime()).toBeLessThan(Date.parse('2025-03-01T00:00:00Z'));
+      if (i > 0) {
+        expect(event.date.getTime()).toBeGreaterThanOrEqual(events[i - 1].date.getTime());
+      }
+    });
+  });
+
+  it('finds sign ingresses, including retrograde ones', () => {
+    const sunIngress = findEvent(events, 'ingress', 'sun');
+    expect(sunIngress?.sign).toBe('Aquarius');
+    expect(minutesBetween(sunIngress!.date, new Date('2025-01-19T20:00:00Z'))).toBeLessThan(10);
+
+    // Retrograde Mars falls back from Leo into Cancer
+    const marsIngress = findEvent(events, 'ingress', 'mars');
+    expect(marsIngress?.sign).toBe('Cancer');
+    expect(marsIngress?.title).toBe('Mars enters Cancer');
+  });
+
+  it('finds retrograde and direct stations', () => {
+    const jupiterDirect = findEvent(events, 'direct', 'jupiter');
+    expect(jupiterDirect?.sign).toBe('Gemini');
+    // Stations are slow, so allow a few hours
+    expect(minutesBetween(jupiterDirect!.date, new Date('2025-02-04T09:40:00Z'))).toBeLessThan(6 * 60);
+
+    const marsDirect = findEvent(events, 'direct', 'mars');
+    expect(minutesBetween(marsDirect!.date, new Date('2025-02-24T02:00:00Z'))).toBeLessThan(6 * 60);
+  });
+
+  it('finds conjunctions and oppositions with the Sun', () => {
+    const fullMoon = findEvent(events, 'opposition', 'moon');
+    expect(fullMoon?.title).toBe('Full Moon in Cancer');
+    expect(minutesBetween(fullMoon!.date, new Date('2025-01-13T22:27:00Z'))).toBeLessThan(5);
+
+    const marsOpposition = findEvent(events, 'opposition', 'mars');
+    expect(marsOpposition?.title).toBe('Sun opposite Mars');
+    expect(minutesBetween(marsOpposition!.date, new Date('2025-01-16T02:32:00Z'))).toBeLessThan(10);
+
+    const mercuryConjunction = findEvent(events, 'conjunction', 'mercury');
+    expect(mercuryConjunction?.description).toContain('superior conjunction');
+  });
+
+  it('filters by planet and type', () => {
+    const stations = findAstroEvents(new Date('2025-01-01T00:00:00Z'), new Date('2025-04-01T00:00:00Z'), {
+      planets: ['mercury'],
+      types: ['retrograde', 'direct']
+    });
+
+    expect(stations.map(event => event.type)).toEqual(['retrograde']);
+    expect(minutesBetween(stations[0].date, new Date('2025-03-15T06:46:00Z'))).toBeLessThan(6 * 60);
+  });
+});
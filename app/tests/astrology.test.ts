@@ -0,0 +1,35 @@
+/**
+ * @jest-environment node
+ */
+import { getCurrentPlanetaryPositions, getPlanetaryPositions } from '../services/astrology';
+
+describe('Offline planetary positions', () => {
+  it('matches the reference longitudes for 2025-01-01T00:00Z', () => {
+    const positions = getPlanetaryPositions(new Date('2025-01-01T00:00:00.000Z'));
+    const byPlanet = Object.fromEntries(positions.map(position => [position.planet, position]));
+
+    expect(positions).toHaveLength(7);
+    expect(byPlanet.sun.longitude).toBeCloseTo(280.813782275972, 6);
+    expect(byPlanet.sun.sign).toBe('Capricorn');
+    expect(byPlanet.sun.degree).toBeCloseTo(10.813782275972, 6);
+    expect(byPlanet.jupiter.sign).toBe('Gemini');
+    expect(byPlanet.jupiter.isRetrograde).toBe(true);
+    expect(byPlanet.mars.isRetrograde).toBe(true);
+    expect(byPlanet.venus.isRetrograde).toBe(false);
+  });
+
+  it('calculates the current positions without a network call', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    const positions = await getCurrentPlanetaryPositions();
+
+    expect(positions.map(position => position.planet)).toEqual([
+      'sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn'
+    ]);
+    positions.forEach(position => {
+      expect(position.degree).toBeGreaterThanOrEqual(0);
+      expect(position.degree).toBeLessThan(30);
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+});
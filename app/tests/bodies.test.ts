@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import {
+  BodyError,
+  calculateBodyPosition,
+  calculateBodyPositions,
+  meanNodeLongitude,
+  partOfFortuneLongitude,
+  trueNodeLongitude
+} from '../../shared/bodies';
+import { normalizeAngle360, normalizeDelta180 } from '../../shared/astro';
+import { calculateChartAngles } from '../../shared/houses';
+import { geocentricEclipticLongitude } from '../../shared/positions';
+import { calculateNatalChart, getNatalChartBodies } from '../../utils/natalChart';
+
+jest.unmock('luxon');
+
+const time = new Date('2025-01-01T00:00:00.000Z');
+const location = { latitude: 40.7608, longitude: -111.891 };
+
+describe('Extra chart bodies', () => {
+  it('places the outer planets on New Year 2025', () => {
+    const [uranus, neptune, pluto] = ['uranus', 'neptune', 'pluto'].map(body =>
+      calculateBodyPosition(body as 'uranus' | 'neptune' | 'pluto', time)
+    );
+
+    expect(uranus).toMatchObject({ sign: 'Taurus', isRetrograde: true });
+    expect(uranus.degreeInSign).toBeCloseTo(23.64, 1);
+    expect(neptune.sign).toBe('Pisces');
+    expect(pluto.sign).toBe('Aquarius');
+  });
+
+  it('keeps the true node near the mean node and the south nodes opposite', () => {
+    // The mean node entered Pisces in January 2025
+    expect(meanNodeLongitude(time)).toBeCloseTo(1.5, 1);
+    for (const date of ['2024-06-01', '2024-09-01', '2025-01-01', '2025-03-01']) {
+      const at = new Date(`${date}T00:00:00Z`);
+      expect(Math.abs(normalizeDelta180(trueNodeLongitude(at) - meanNodeLongitude(at)))).toBeLessThan(1.8);
+    }
+
+    const positions = calculateBodyPositions(time, ['mean-node', 'mean-south-node']);
+    expect(positions.map(p => p.planet)).toEqual([
+      'sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'mean-node', 'mean-south-node'
+    ]);
+    expect(positions[7].isRetrograde).toBe(true);
+    expect(positions[8].longitude).toBeCloseTo(normalizeAngle360(positions[7].longitude + 180), 6);
+  });
+
+  it('reverses the Part of Fortune by night', () => {
+    const fortuneAt = (date: Date) => {
+      const ascendant = calculateChartAngles(date, location.latitude, location.longitude).ascendant;
+      return {
+        actual: partOfFortuneLongitude(date, location.latitude, location.longitude),
+        day: normalizeAngle360(ascendant + geocentricEclipticLongitude('moon', date) - geocentricEclipticLongitude('sun', date)),
+        night: normalizeAngle360(ascendant + geocentricEclipticLongitude('sun', date) - geocentricEclipticLongitude('moon', date))
+      };
+    };
+
+    // Noon and 11 PM in Salt Lake City
+    const noon = fortuneAt(new Date('2025-01-01T19:00:00Z'));
+    expect(noon.actual).toBeCloseTo(noon.day, 6);
+    const night = fortuneAt(new Date('2025-01-02T06:00:00Z'));
+    expect(night.actual).toBeCloseTo(night.night, 6);
+
+    expect(() => calculateBodyPosition('part-of-fortune', time)).toThrow(BodyError);
+  });
+
+  it('adds the extras to a birth chart with their houses', () => {
+    const chart = calculateNatalChart({
+      name: 'Test',
+      birthDate: '2024-12-31',
+      birthTime: '17:00',
+      birthLocation: 'Salt Lake City',
+      ...location,
+      timezone: 'America/Denver',
+      houseSystem: 'whole-sign'
+    });
+    const bodies = Object.fromEntries(getNatalChartBodies(chart).map(body => [body.planet, body]));
+
+    expect(Object.keys(bodies)).toEqual(['uranus', 'neptune', 'pluto', 'mean-node', 'mean-south-node', 'part-of-fortune']);
+    expect(bodies['part-of-fortune'].longitude).toBeCloseTo(112.81, 1);
+    // Whole-sign houses from a Cancer Ascendant
+    expect(bodies['part-of-fortune'].house).toBe(1);
+    expect(bodies.uranus.house).toBe(11);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import * as Astronomy from 'astronomy-engine';
+import { calculateChart } from '../../shared/chart';
+import { calculateChartAngles, calculateHouses, findHouse, HouseSystemError, houseSystems } from '../../shared/houses';
+import { normalizeAngle360 } from '../../shared/astro';
+import { calculateNatalChart, getBirthInstant, getChartSigns } from '../../utils/natalChart';
+
+jest.unmock('luxon');
+
+const DEG = Math.PI / 180;
+const time = new Date('2025-01-01T18:00:00Z');
+const latitude = 40.7608;
+const longitude = -111.891;
+
+// Altitude and azimuth of a point on the ecliptic, seen from the chart's place
+const horizonOf = (eclipticLongitude: number, obliquity: number) => {
+  const l = eclipticLongitude * DEG;
+  const e = obliquity * DEG;
+  const ra = normalizeAngle360(Math.atan2(Math.sin(l) * Math.cos(e), Math.cos(l)) / DEG) / 15;
+  const dec = Math.asin(Math.sin(e) * Math.sin(l)) / DEG;
+  return Astronomy.Horizon(time, new Astronomy.Observer(latitude, longitude, 0), ra, dec);
+};
+
+describe('Houses', () => {
+  it('puts the Ascendant on the eastern horizon and the Midheaven on the meridian', () => {
+    const angles = calculateChartAngles(time, latitude, longitude);
+
+    const ascendant = horizonOf(angles.ascendant, angles.obliquity);
+    expect(Math.abs(ascendant.altitude)).toBeLessThan(0.01);
+    expect(ascendant.azimuth).toBeGreaterThan(0);
+    expect(ascendant.azimuth).toBeLessThan(180);
+
+    const midheaven = horizonOf(angles.midheaven, angles.obliquity);
+    expect(midheaven.altitude).toBeGreaterThan(0);
+    expect(midheaven.azimuth).toBeCloseTo(180, 1);
+  });
+
+  it('builds twelve cusps in zodiacal order for every house system', () => {
+    const { ascendant, midheaven } = calculateChartAngles(time, latitude, longitude);
+
+    houseSystems.forEach(system => {
+      const { cusps } = calculateHouses(time, latitude, longitude, system);
+      expect(cusps.map(cusp => cusp.house)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+
+      const span = cusps.reduce((total, cusp, i) => total + normalizeAngle360(cusps[(i + 1) % 12].longitude - cusp.longitude), 0);
+      expect(span).toBeCloseTo(360);
+
+      if (system === 'placidus' || system === 'porphyry') {
+        expect(cusps[0].longitude).toBeCloseTo(ascendant);
+        expect(cusps[9].longitude).toBeCloseTo(midheaven);
+      }
+    });
+
+    const wholeSign = calculateHouses(time, latitude, longitude, 'whole-sign').cusps;
+    expect(wholeSign[0].degreeInSign).toBe(0);
+    expect(findHouse(ascendant, wholeSign)).toBe(1);
+
+    const equal = calculateHouses(time, latitude, longitude, 'equal').cusps;
+    expect(normalizeAngle360(equal[3].longitude - ascendant)).toBeCloseTo(90);
+  });
+
+  it('divides the semi-arcs for Placidus and refuses the polar circles', () => {
+    // On the equator every semi-arc is 90°, so the cusps are 30° of right ascension apart
+    const angles = calculateChartAngles(time, 0, longitude);
+    const { cusps } = calculateHouses(time, 0, longitude, 'placidus');
+    const ra11 = Math.atan2(Math.sin(cusps[10].longitude * DEG) * Math.cos(angles.obliquity * DEG), Math.cos(cusps[10].longitude * DEG)) / DEG;
+    expect(normalizeAngle360(ra11 - angles.ramc)).toBeCloseTo(30);
+
+    expect(() => calculateHouses(time, 70, longitude, 'placidus')).toThrow(HouseSystemError);
+    expect(calculateHouses(time, 70, longitude, 'porphyry').cusps).toHaveLength(12);
+  });
+});
+
+describe('Chart', () => {
+  it('places the planets in houses and finds their aspects', () => {
+    const chart = calculateChart({ date: time, latitude, longitude, houseSystem: 'whole-sign' });
+
+    const sun = chart.positions.find(position => position.planet === 'sun')!;
+    expect(sun.sign).toBe('Capricorn');
+    expect(sun.house).toBe(findHouse(sun.longitude, chart.houses));
+    chart.positions.forEach(position => {
+      expect(position.house).toBeGreaterThanOrEqual(1);
+      expect(position.house).toBeLessThanOrEqual(12);
+    });
+
+    expect(chart.aspects.some(aspect => aspect.planet1 === 'jupiter' && aspect.planet2 === 'saturn')).toBe(true);
+  });
+});
+
+describe('Natal chart', () => {
+  it('reads the birth time in the birth place timezone', () => {
+    expect(getBirthInstant('1990-07-15', '14:30', 'America/New_York')?.toISOString()).toBe('1990-07-15T18:30:00.000Z');
+    expect(getBirthInstant('1990-02-30', '14:30', 'America/New_York')).toBeNull();
+    expect(getBirthInstant('1990-07-15', '14:30', 'Not/AZone')).toBeNull();
+  });
+
+  it('derives the Sun, Moon and rising signs from the chart', () => {
+    const chart = calculateNatalChart({
+      name: 'Test',
+      birthDate: '2025-01-01',
+      birthTime: '11:00',
+      birthLocation: 'Salt Lake City',
+      latitude,
+      longitude,
+      timezone: 'America/Denver',
+      houseSystem: 'placidus'
+    });
+
+    expect(chart.houses).toHaveLength(12);
+    expect(chart.houses[0].cusp).toBeCloseTo(chart.ascendant);
+    expect(getChartSigns(chart)).toEqual({
+      sunSign: 'Capricorn',
+      moonSign: chart.positions.find(position => position.planet === 'moon')!.sign,
+      risingSign: chart.houses[0].sign
+    });
+  });
+});
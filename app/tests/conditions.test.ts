@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import { calculateConditions, getAngularity, getSolarPhase } from '../../shared/conditions';
+import { getConditionBadges } from '../../utils/dignities';
+
+const time = new Date('2025-01-01T00:00:00.000Z');
+const location = { latitude: 40.7608, longitude: -111.891 };
+
+describe('Accidental conditions', () => {
+  it('grades nearness to the Sun and angularity', () => {
+    expect(getSolarPhase(0.2)).toBe('cazimi');
+    expect(getSolarPhase(-5)).toBe('combust');
+    expect(getSolarPhase(12)).toBe('under the beams');
+    expect(getSolarPhase(-20)).toBeNull();
+    expect([1, 2, 3, 10, 11, 12].map(getAngularity)).toEqual([
+      'angular', 'succedent', 'cadent', 'angular', 'succedent', 'cadent'
+    ]);
+  });
+
+  it('describes each planet on New Year 2025', () => {
+    const conditions = Object.fromEntries(calculateConditions(time, undefined, location).map(c => [c.planet, c]));
+
+    expect(conditions.sun).toMatchObject({ solarPhase: null, orientation: null, house: 7, angularity: 'angular' });
+    // The day after New Moon
+    expect(conditions.moon).toMatchObject({ solarPhase: 'under the beams', orientation: 'occidental' });
+    expect(conditions.mercury.orientation).toBe('oriental');
+    expect(conditions.mars).toMatchObject({ isRetrograde: true, isFast: false, isStationary: false });
+    expect(conditions.mars.dailyMotion).toBeLessThan(0);
+
+    expect(calculateConditions(time).every(c => c.house === undefined)).toBe(true);
+  });
+
+  it('finds Mercury stationary as it turns retrograde', () => {
+    const [mercury] = calculateConditions(new Date('2025-03-15T06:46:00Z'), ['mercury']);
+    expect(mercury.isStationary).toBe(true);
+    expect(mercury.isFast).toBe(false);
+    expect(getConditionBadges(mercury).map(badge => badge.label)).toContain('Stationary');
+  });
+});
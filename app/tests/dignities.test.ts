@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { zodiacSigns, type PlanetId } from '../../shared/astro';
+import { chaldeanOrder } from '../../shared/planetary';
+import {
+  getEssentialDignities,
+  getEssentialDignity,
+  getFaceRuler,
+  getTermRuler,
+  getTriplicityRulers,
+  isDayChart
+} from '../../shared/dignities';
+import { getPlanetaryDignity } from '../services/astrology';
+
+describe('Essential dignities', () => {
+  it('gives each planet its traditional share of the Egyptian terms', () => {
+    const degrees = Object.fromEntries(chaldeanOrder.map(planet => [planet, 0])) as Record<PlanetId, number>;
+    for (let longitude = 0.5; longitude < 360; longitude += 1) {
+      degrees[getTermRuler(longitude)] += 1;
+    }
+
+    expect(degrees).toEqual({ saturn: 57, jupiter: 79, mars: 66, sun: 0, venus: 82, mercury: 76, moon: 0 });
+    expect(getTermRuler(0)).toBe('jupiter');
+    expect(getTermRuler(13)).toBe('mercury');
+    expect(getTermRuler(13, 'ptolemaic')).toBe('venus');
+  });
+
+  it('rules the faces in Chaldean order from Mars at the start of Aries', () => {
+    expect(getFaceRuler(0)).toBe('mars');
+    expect(getFaceRuler(15)).toBe('sun');
+    expect(getFaceRuler(25)).toBe('venus');
+    // Pisces ends on Mars and Aries begins with it again
+    expect(getFaceRuler(359)).toBe('mars');
+    expect(getTriplicityRulers('Scorpio')).toEqual({ day: 'venus', night: 'mars', participating: 'moon' });
+    expect(zodiacSigns.filter(sign => getTriplicityRulers(sign).day === 'sun')).toEqual(['Aries', 'Leo', 'Sagittarius']);
+  });
+
+  it('scores a planet by every dignity it holds', () => {
+    // 10° Leo: Sun in its own sign, fire triplicity by day, Venus's term and Jupiter's face
+    const sun = getEssentialDignities('sun', 130, { isDayChart: true });
+    expect(sun.dignities).toEqual(['rulership']);
+    expect(sun.factors.map(factor => factor.dignity)).toEqual(['rulership', 'triplicity']);
+    expect(sun.score).toBe(8);
+    expect(getEssentialDignities('sun', 130, { isDayChart: false }).score).toBe(5);
+
+    // Mercury is ruler and exalted in Virgo, and in its own term in the first degrees
+    const mercury = getEssentialDignities('mercury', 152);
+    expect(mercury.dignities).toEqual(['rulership', 'exaltation']);
+    expect(mercury.score).toBe(11);
+    expect(getEssentialDignity('mercury', 'Pisces')).toBe('detriment');
+    expect(getEssentialDignities('mercury', 335).dignities).toEqual(['detriment', 'fall']);
+  });
+
+  it('marks a planet without dignity as peregrine', () => {
+    // 5° Gemini: Mars has no rulership, exaltation, air triplicity, term or face
+    const mars = getEssentialDignities('mars', 65);
+    expect(mars.isPeregrine).toBe(true);
+    expect(mars.score).toBe(-5);
+
+    // 5° Cancer: in fall, yet in its own term, and by day not the water triplicity ruler
+    const marsInCancer = getEssentialDignities('mars', 95, { isDayChart: true });
+    expect(marsInCancer.isPeregrine).toBe(false);
+    expect(marsInCancer.score).toBe(-2);
+    expect(getEssentialDignities('mars', 95, { isDayChart: false }).score).toBe(1);
+
+    expect(isDayChart(100, 10)).toBe(false);
+    expect(isDayChart(300, 10)).toBe(true);
+  });
+
+  it('agrees with the dignity shown on the learn tab', () => {
+    expect(getPlanetaryDignity('mercury', 'Virgo')).toEqual({
+      status: 'Domicile',
+      description: 'mercury is in its own sign and exalted in Virgo'
+    });
+    expect(getPlanetaryDignity('mercury', 'Pisces').status).toBe('Detriment');
+    expect(getPlanetaryDignity('venus', 'Gemini').status).toBe('Peregrine');
+  });
+});
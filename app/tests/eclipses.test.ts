@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+// The election engine needs real time zone math rather than the global luxon mock
+jest.unmock('luxon');
+
+import { findEclipses, isDuringEclipse } from '../../shared/eclipses';
+import { findElectionWindows } from '../../shared/election';
+import { getAstrologicalEvents } from '../../utils/astroEvents';
+
+const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / 60000;
+
+const SALT_LAKE_CITY = { latitude: 40.7608, longitude: -111.891 };
+
+describe('Eclipses', () => {
+  it('finds the eclipses of 2025 with their magnitude and zodiac degree', () => {
+    const eclipses = findEclipses(new Date('2025-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'));
+
+    expect(eclipses.map(e => `${e.kind}:${e.type}`)).toEqual([
+      'lunar:total', 'solar:partial', 'lunar:total', 'solar:partial'
+    ]);
+
+    // The March blood moon peaks at 06:58 UTC in Virgo
+    const [bloodMoon, solar] = eclipses;
+    expect(minutesBetween(bloodMoon.peak, new Date('2025-03-14T06:58:43Z'))).toBeLessThan(2);
+    expect(bloodMoon.magnitude).toBeCloseTo(1.18, 1);
+    expect(bloodMoon.sign).toBe('Virgo');
+    expect(bloodMoon.start < bloodMoon.peak && bloodMoon.peak < bloodMoon.end).toBe(true);
+
+    expect(minutesBetween(solar.peak, new Date('2025-03-29T10:47:00Z'))).toBeLessThan(5);
+    expect(solar.magnitude).toBeCloseTo(0.94, 1);
+    expect(solar.sign).toBe('Aries');
+  });
+
+  it('reports local visibility for the saved location', () => {
+    const eclipses = findEclipses(new Date('2025-03-01T00:00:00Z'), new Date('2025-04-01T00:00:00Z'), {
+      location: SALT_LAKE_CITY
+    });
+    const [bloodMoon, solar] = eclipses;
+
+    // Salt Lake City sees the whole lunar eclipse but not the European solar eclipse
+    expect(bloodMoon.local?.visible).toBe(true);
+    expect(solar.local).toBeNull();
+
+    // The 2024 total solar eclipse was only partial in Salt Lake City
+    const [april2024] = findEclipses(new Date('2024-04-01T00:00:00Z'), new Date('2024-04-15T00:00:00Z'), {
+      kinds: ['solar'],
+      location: SALT_LAKE_CITY
+    });
+    expect(april2024.type).toBe('total');
+    expect(april2024.local?.type).toBe('partial');
+    expect(april2024.local?.magnitude).toBeGreaterThan(0.5);
+    expect(april2024.local?.magnitude).toBeLessThan(0.7);
+
+    const event = getAstrologicalEvents(new Date('2025-03-14T00:00:00Z'), new Date('2025-03-15T00:00:00Z'), {
+      location: SALT_LAKE_CITY
+    }).find(e => e.type === 'eclipse');
+    expect(event?.title).toBe('Total lunar eclipse in Virgo');
+    expect(event?.description).toContain('Visible from your location');
+  });
+
+  it('leaves eclipse hours out of the election search when asked', () => {
+    const input = {
+      ...SALT_LAKE_CITY,
+      timezone: 'America/Denver',
+      from: new Date('2025-03-13T15:00:00Z'),
+      planet: 'venus' as const,
+      days: 2,
+      count: 100
+    };
+    const eclipses = findEclipses(input.from, new Date('2025-03-16T00:00:00Z'));
+
+    const during = (windows: ReturnType<typeof findElectionWindows>) =>
+      windows.filter(window => isDuringEclipse(window.hour.start, window.hour.end, eclipses));
+
+    const all = findElectionWindows(input);
+    const avoiding = findElectionWindows({ ...input, avoidEclipses: true });
+
+    expect(during(all)).toHaveLength(1);
+    expect(during(avoiding)).toHaveLength(0);
+    expect(avoiding).toHaveLength(all.length - 1);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+// The engine needs real time zone math rather than the global luxon mock
+jest.unmock('luxon');
+
+import { electionWeights, findElectionWindows, isMoonWaxing } from '../../shared/election';
+import { getEssentialDignity } from '../../shared/dignities';
+import { calculatePlanetPosition } from '../../shared/positions';
+
+const SALT_LAKE_CITY = {
+  latitude: 40.7608,
+  longitude: -111.891,
+  timezone: 'America/Denver'
+};
+
+// Wednesday, Jan 1 2025, 08:00 in Denver
+const FROM = new Date('2025-01-01T15:00:00Z');
+
+describe('Election finder', () => {
+  it('ranks only the hours of the chosen planet, best first', () => {
+    const windows = findElectionWindows({ ...SALT_LAKE_CITY, from: FROM, planet: 'venus', count: 10 });
+
+    expect(windows).toHaveLength(10);
+    windows.forEach((window, i) => {
+      expect(window.hour.ruler).toBe('venus');
+      expect(window.hour.end.getTime()).toBeGreaterThan(FROM.getTime());
+      expect(window.score).toBe(window.factors.reduce((sum, factor) => sum + factor.points, 0));
+      if (i > 0) {
+        expect(window.score).toBeLessThanOrEqual(windows[i - 1].score);
+      }
+    });
+  });
+
+  it('rewards the day of the planet', () => {
+    const [best] = findElectionWindows({ ...SALT_LAKE_CITY, from: FROM, planet: 'venus' });
+    const dayRuler = best.factors.find(factor => factor.factor === 'dayRuler');
+
+    // Friday Jan 3 2025 is the only Venus day in the week
+    expect(best.date).toBe('2025-01-03');
+    expect(dayRuler?.points).toBe(electionWeights.dayRuler);
+  });
+
+  it('scores the Moon phase against the preference', () => {
+    // New Moon on Dec 30 2024, so the week after is waxing
+    expect(isMoonWaxing(FROM)).toBe(true);
+
+    const [waxing] = findElectionWindows({ ...SALT_LAKE_CITY, from: FROM, planet: 'venus', moonPhase: 'waxing' });
+    const [waning] = findElectionWindows({ ...SALT_LAKE_CITY, from: FROM, planet: 'venus', moonPhase: 'waning' });
+
+    expect(waxing.factors.find(factor => factor.factor === 'moonPhase')?.points).toBe(electionWeights.moonPhase);
+    expect(waning.factors.find(factor => factor.factor === 'moonPhase')?.points).toBe(-electionWeights.moonPhase);
+  });
+
+  it('scores dignity and retrograde motion of the planet', () => {
+    // Jupiter is retrograde in Gemini, its detriment, in early January 2025
+    const jupiter = calculatePlanetPosition('jupiter', FROM);
+    expect(jupiter.sign).toBe('Gemini');
+    expect(jupiter.isRetrograde).toBe(true);
+    expect(getEssentialDignity('jupiter', jupiter.sign)).toBe('detriment');
+
+    const [best] = findElectionWindows({ ...SALT_LAKE_CITY, from: FROM, planet: 'jupiter' });
+    const points = Object.fromEntries(best.factors.map(factor => [factor.factor, factor.points]));
+
+    expect(points.dignity).toBe(electionWeights.dignity.detriment);
+    expect(points.retrograde).toBe(electionWeights.retrograde);
+  });
+
+  it('reads the dignity in the chosen zodiac', () => {
+    // Mars is retrograde in early Leo tropically, but still in Cancer, its fall, sidereally
+    const tropical = findElectionWindows({ ...SALT_LAKE_CITY, from: FROM, planet: 'mars', days: 3, count: 50 });
+    const lahiri = findElectionWindows({
+      ...SALT_LAKE_CITY,
+      from: FROM,
+      planet: 'mars',
+      days: 3,
+      count: 50,
+      zodiac: { zodiac: 'lahiri' }
+    });
+
+    expect(lahiri).toHaveLength(tropical.length);
+    tropical.forEach(window => {
+      const dignity = window.factors.find(factor => factor.factor === 'dignity');
+      expect(dignity?.description).toBe('Mars in Leo');
+      expect(dignity?.points).toBe(0);
+    });
+    lahiri.forEach(window => {
+      const dignity = window.factors.find(factor => factor.factor === 'dignity');
+      expect(dignity?.description).toBe('Mars in Cancer (fall)');
+      expect(dignity?.points).toBe(electionWeights.dignity.fall);
+    });
+  });
+});
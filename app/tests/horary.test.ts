@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import { castHoraryChart, getHourAgreement } from '../../shared/horary';
+import { findPlanetaryHourAt, getPlanetaryDay } from '../../shared/planetaryHours';
+import { getVoidOfCourse } from '../../shared/voidOfCourse';
+
+jest.unmock('luxon');
+
+const SALT_LAKE_CITY = { latitude: 40.7608, longitude: -111.891, timezone: 'America/Denver' };
+
+const cast = (iso: string) => castHoraryChart({ date: new Date(iso), ...SALT_LAKE_CITY });
+const considerationIds = (iso: string) => cast(iso).considerations.map(consideration => consideration.id);
+
+describe('Horary charts', () => {
+  it('takes the day and hour rulers from the hours engine', () => {
+    const date = new Date('2025-01-01T02:17:00Z');
+    const horary = castHoraryChart({ date, ...SALT_LAKE_CITY });
+    const day = getPlanetaryDay(date, SALT_LAKE_CITY);
+
+    // Still Tuesday evening in Salt Lake City
+    expect(horary.dayRuler).toBe('mars');
+    expect(horary.dayRuler).toBe(day.dayRuler);
+    expect(horary.hourRuler).toBe(findPlanetaryHourAt(day, date)!.ruler);
+    expect(horary.chart.houses).toHaveLength(12);
+  });
+
+  it('judges the hour ruler against the ascendant', () => {
+    expect(getHourAgreement('mars', 'Aries')).toBe('same');
+    expect(getHourAgreement('jupiter', 'Leo')).toBe('triplicity');
+    expect(getHourAgreement('saturn', 'Virgo')).toBe('nature');
+    expect(getHourAgreement('saturn', 'Cancer')).toBeNull();
+    // Mercury is convertible, with no nature of its own
+    expect(getHourAgreement('mercury', 'Cancer')).toBeNull();
+
+    const radical = cast('2025-01-01T02:17:00Z');
+    expect(radical.ascendantSign).toBe('Leo');
+    expect(radical.hourAgreement).toBe('triplicity');
+    expect(radical.considerations[0]).toMatchObject({ id: 'hour-ruler', caution: false });
+
+    const notRadical = cast('2025-01-01T00:17:00Z');
+    expect(notRadical.hourRuler).toBe('saturn');
+    expect(notRadical.ascendantRuler).toBe('moon');
+    expect(notRadical.considerations[0]).toMatchObject({ id: 'hour-ruler', caution: true });
+  });
+
+  it('flags an early ascendant and Saturn in the 1st or 7th', () => {
+    expect(considerationIds('2025-01-01T04:17:00Z')).toEqual(['hour-ruler', 'early-ascendant', 'saturn-seventh', 'moon-void']);
+    expect(considerationIds('2025-01-01T16:17:00Z')).toEqual(['hour-ruler', 'saturn-first']);
+  });
+
+  it('reports the Moon\'s applying aspects and void-of-course status', () => {
+    const date = new Date('2025-01-01T00:17:00Z');
+    const horary = castHoraryChart({ date, ...SALT_LAKE_CITY });
+
+    expect(horary.voidOfCourse).toEqual(getVoidOfCourse(date));
+    expect(horary.considerations.some(consideration => consideration.id === 'moon-void')).toBe(true);
+    horary.moonAspects.forEach(aspect => {
+      expect(aspect.applying).toBe(true);
+      expect([aspect.planet1, aspect.planet2]).toContain('moon');
+    });
+
+    expect(cast('2025-01-01T16:17:00Z').voidOfCourse).toBeNull();
+  });
+});
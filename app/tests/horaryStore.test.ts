@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import type { HoraryChartRow } from '../types/database';
+import type { HorarySnapshot } from '../../types';
+
+jest.mock('../../services/supabase', () => ({
+  supabase: { auth: { getUser: jest.fn() } },
+  getHoraryCharts: jest.fn(),
+  saveHoraryChart: jest.fn(),
+  deleteHoraryChart: jest.fn()
+}));
+
+// The auth events are driven by hand here
+jest.mock('../../stores/events', () => ({
+  storeEvents: { on: jest.fn() }
+}));
+
+import { getHoraryCharts, saveHoraryChart, supabase } from '../../services/supabase';
+import { useHoraryStore } from '../../stores/horaryStore';
+
+const USER_ID = 'test-user-id';
+
+const row = (id: string, castAt: string, question: string): HoraryChartRow => ({
+  id,
+  user_id: USER_ID,
+  question,
+  cast_at: castAt,
+  latitude: 40.7608,
+  longitude: -111.891,
+  timezone: 'America/Denver',
+  location_name: 'Salt Lake City',
+  house_system: 'placidus',
+  hour_options: {},
+  created_at: castAt
+});
+
+// Saved while signed out, so it has no user and a device-made id
+const localSnapshot: HorarySnapshot = {
+  id: 'local-id',
+  question: 'Will the letter arrive?',
+  castAt: '2025-01-02T16:00:00.000Z',
+  latitude: 40.7608,
+  longitude: -111.891,
+  timezone: 'America/Denver',
+  locationName: 'Salt Lake City',
+  houseSystem: 'placidus',
+  hourOptions: {},
+  createdAt: '2025-01-02T16:00:00.000Z'
+};
+
+const serverRow = row('server-1', '2025-01-01T16:00:00.000Z', 'Is the job mine?');
+
+describe('Horary store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (supabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: USER_ID } } });
+    useHoraryStore.setState({ snapshots: [localSnapshot], error: null });
+  });
+
+  it('uploads charts saved while signed out before loading the server list', async () => {
+    const uploaded = row('server-2', localSnapshot.castAt, localSnapshot.question);
+    (saveHoraryChart as jest.Mock).mockResolvedValue({ data: uploaded, error: null });
+    (getHoraryCharts as jest.Mock).mockResolvedValue({ data: [uploaded, serverRow], error: null });
+
+    await useHoraryStore.getState().fetchSnapshots();
+
+    expect(saveHoraryChart).toHaveBeenCalledTimes(1);
+    expect(saveHoraryChart).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: USER_ID,
+      question: localSnapshot.question,
+      cast_at: localSnapshot.castAt
+    }));
+    const { snapshots, error } = useHoraryStore.getState();
+    expect(snapshots.map(snapshot => snapshot.id)).toEqual(['server-2', 'server-1']);
+    expect(snapshots.every(snapshot => snapshot.userId === USER_ID)).toBe(true);
+    expect(error).toBeNull();
+  });
+
+  it('keeps charts that could not be uploaded alongside the server ones', async () => {
+    (saveHoraryChart as jest.Mock).mockResolvedValue({ data: null, error: new Error('offline') });
+    (getHoraryCharts as jest.Mock).mockResolvedValue({ data: [serverRow], error: null });
+
+    await useHoraryStore.getState().fetchSnapshots();
+
+    const { snapshots, error } = useHoraryStore.getState();
+    expect(snapshots.map(snapshot => snapshot.id)).toEqual(['local-id', 'server-1']);
+    expect(error).toBe('Some horary charts saved on this device could not be uploaded');
+  });
+
+  it('leaves the device charts alone while signed out', async () => {
+    (supabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: null } });
+
+    await useHoraryStore.getState().fetchSnapshots();
+
+    expect(saveHoraryChart).not.toHaveBeenCalled();
+    expect(getHoraryCharts).not.toHaveBeenCalled();
+    expect(useHoraryStore.getState().snapshots).toEqual([localSnapshot]);
+  });
+});
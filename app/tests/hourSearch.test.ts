@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+// The engine needs real time zone math rather than the global luxon mock
+jest.unmock('luxon');
+
+import { findNextPlanetaryHours, parseTimeOfDay } from '../../shared/hourSearch';
+
+const SALT_LAKE_CITY = {
+  latitude: 40.7608,
+  longitude: -111.891,
+  timezone: 'America/Denver'
+};
+
+// Wednesday, Jan 1 2025, 08:00 in Denver
+const FROM = new Date('2025-01-01T15:00:00Z');
+
+describe('Planetary hour search', () => {
+  it('finds the next hours of a planet in order', () => {
+    const matches = findNextPlanetaryHours({ ...SALT_LAKE_CITY, from: FROM, ruler: 'jupiter', count: 3 });
+
+    expect(matches).toHaveLength(3);
+    matches.forEach(match => {
+      expect(match.hour.ruler).toBe('jupiter');
+      expect(match.hour.end.getTime()).toBeGreaterThan(FROM.getTime());
+    });
+    expect(matches[0].hour.start.getTime()).toBeLessThan(matches[1].hour.start.getTime());
+  });
+
+  it('includes the hour in progress', () => {
+    // Hour 1 of Wednesday (Mercury) runs from sunrise to 08:38
+    const [match] = findNextPlanetaryHours({ ...SALT_LAKE_CITY, from: FROM, ruler: 'mercury' });
+
+    expect(match.date).toBe('2025-01-01');
+    expect(match.hour.index).toBe(1);
+  });
+
+  it('filters by day ruler and daylight', () => {
+    const matches = findNextPlanetaryHours({
+      ...SALT_LAKE_CITY,
+      from: FROM,
+      ruler: 'jupiter',
+      dayRuler: 'jupiter',
+      period: 'day',
+      count: 2
+    });
+
+    // Thursday's daylight Jupiter hours are the 1st and the 8th
+    expect(matches.map(match => [match.date, match.hour.index])).toEqual([
+      ['2025-01-02', 1],
+      ['2025-01-02', 8]
+    ]);
+    matches.forEach(match => {
+      expect(match.dayRuler).toBe('jupiter');
+      expect(match.hour.isDay).toBe(true);
+    });
+  });
+
+  it('keeps hours inside a local time window and above a minimum length', () => {
+    const matches = findNextPlanetaryHours({
+      ...SALT_LAKE_CITY,
+      from: FROM,
+      ruler: 'venus',
+      timeWindow: { start: 22 * 60, end: 2 * 60 },
+      minMinutes: 70,
+      count: 5
+    });
+
+    expect(matches.length).toBeGreaterThan(0);
+    matches.forEach(match => {
+      expect(match.minutes).toBeGreaterThanOrEqual(70);
+      expect(match.hour.isDay).toBe(false);
+    });
+  });
+
+  it('parses local times of day', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+    expect(parseTimeOfDay('9:75')).toBeNull();
+    expect(parseTimeOfDay('noon')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+// The hour search needs real time zone math rather than the global luxon mock
+jest.unmock('luxon');
+
+import { lunarMansions } from '../../constants/lunarMansions';
+import { findNextPlanetaryHours } from '../../shared/hourSearch';
+import {
+  calculateLunarMansion,
+  getLunarMansionNumber,
+  getMoonMansion,
+  isLunarMansion
+} from '../../shared/lunarMansions';
+
+const time = new Date('2025-01-01T00:00:00.000Z');
+
+describe('Lunar mansions', () => {
+  it('divides the zodiac into 28 mansions from 0° Aries', () => {
+    expect(getLunarMansionNumber(0)).toBe(1);
+    expect(getLunarMansionNumber(12.8)).toBe(1);
+    expect(getLunarMansionNumber(12.9)).toBe(2);
+    expect(getLunarMansionNumber(90)).toBe(8);
+    expect(getLunarMansionNumber(359.9)).toBe(28);
+    expect(getLunarMansionNumber(-1)).toBe(28);
+    expect(isLunarMansion(28)).toBe(true);
+    expect(isLunarMansion(0)).toBe(false);
+    expect(lunarMansions.map(entry => entry.number)).toEqual(Array.from({ length: 28 }, (_, i) => i + 1));
+  });
+
+  it('finds the Moon in Sa\'d Bula on New Year 2025 and when it moves on', () => {
+    const mansion = calculateLunarMansion(time);
+
+    // Moon at 23°55′ Capricorn
+    expect(mansion.mansion).toBe(23);
+    expect(mansion.nextMansion).toBe(24);
+    expect(Math.abs(mansion.nextChange.getTime() - Date.parse('2025-01-01T03:13:00Z'))).toBeLessThan(2 * 60 * 1000);
+    expect(getMoonMansion(new Date(mansion.nextChange.getTime() + 60 * 1000))).toBe(24);
+  });
+
+  it('counts sidereal mansions with an ayanamsa', () => {
+    const mansion = calculateLunarMansion(time, { zodiac: 'custom', ayanamsa: 24.2 });
+
+    expect(mansion.mansion).toBe(21);
+    expect(mansion.longitude).toBeCloseTo(calculateLunarMansion(time).longitude - 24.2, 6);
+    expect(calculateLunarMansion(time, { zodiac: 'lahiri' }).mansion).toBe(21);
+  });
+
+  it('combines the hour ruler with the Moon\'s mansion', () => {
+    const matches = findNextPlanetaryHours({
+      latitude: 40.7608,
+      longitude: -111.891,
+      timezone: 'America/Denver',
+      from: new Date('2025-01-01T15:00:00Z'),
+      ruler: 'venus',
+      mansion: 26,
+      count: 2
+    });
+
+    expect(matches.map(match => `${match.date}/${match.hour.index}`)).toEqual(['2025-01-02/18', '2025-01-03/1']);
+    matches.forEach(match => {
+      expect(getMoonMansion(match.hour.start)).toBe(26);
+      expect(getMoonMansion(new Date(match.hour.end.getTime() - 1))).toBe(26);
+    });
+  });
+
+  it('counts the searched mansion in the chosen zodiac', () => {
+    const zodiac = { zodiac: 'lahiri' as const };
+    const matches = findNextPlanetaryHours({
+      latitude: 40.7608,
+      longitude: -111.891,
+      timezone: 'America/Denver',
+      from: new Date('2025-01-01T15:00:00Z'),
+      ruler: 'venus',
+      mansion: 24,
+      zodiac,
+      count: 2
+    });
+
+    expect(matches).toHaveLength(2);
+    matches.forEach(match => {
+      expect(getMoonMansion(match.hour.start, zodiac)).toBe(24);
+      expect(getMoonMansion(new Date(match.hour.end.getTime() - 1), zodiac)).toBe(24);
+      // Tropically the Moon is already a mansion or two further on
+      expect(getMoonMansion(match.hour.start)).toBeGreaterThan(24);
+    });
+  });
+});
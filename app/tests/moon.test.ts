@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+// The engine needs real time zone math rather than the global luxon mock
+jest.unmock('luxon');
+
+import { getFullMoons, getMoonPhase, getNextMoonPhases } from '../../shared/moon';
+
+const minutesBetween = (a: Date, b: Date) => Math.abs(a.getTime() - b.getTime()) / 60000;
+
+describe('Moon phases', () => {
+  it('describes the Moon two days after the new moon of Dec 30 2024', () => {
+    const moon = getMoonPhase(new Date('2025-01-01T22:00:00Z'));
+
+    expect(moon.phase).toBe('waxing crescent');
+    expect(moon.age).toBeCloseTo(2, 0);
+    expect(moon.illumination).toBeGreaterThan(0.02);
+    expect(moon.illumination).toBeLessThan(0.1);
+    expect(moon.distance).toBeGreaterThan(356000);
+    expect(moon.distance).toBeLessThan(407000);
+    expect(moon.zodiacSign).toBe('Aquarius');
+    expect(moon.name).toBeUndefined();
+  });
+
+  it('names the full moon', () => {
+    const moon = getMoonPhase(new Date('2025-01-13T22:27:00Z'));
+
+    expect(moon.phase).toBe('full');
+    expect(moon.illumination).toBeGreaterThan(0.99);
+    expect(moon.name).toBe('Wolf Moon');
+  });
+
+  it('finds the next principal phases in order', () => {
+    const phases = getNextMoonPhases(new Date('2025-01-01T00:00:00Z'));
+
+    expect(phases.map(event => event.phase)).toEqual(['first quarter', 'full', 'last quarter', 'new']);
+    expect(minutesBetween(phases[0].date, new Date('2025-01-06T23:56:00Z'))).toBeLessThan(5);
+    expect(minutesBetween(phases[1].date, new Date('2025-01-13T22:27:00Z'))).toBeLessThan(5);
+    expect(minutesBetween(phases[2].date, new Date('2025-01-21T20:31:00Z'))).toBeLessThan(5);
+    expect(minutesBetween(phases[3].date, new Date('2025-01-29T12:36:00Z'))).toBeLessThan(5);
+  });
+
+  it('names the Harvest, Hunter’s and Blue Moons', () => {
+    const autumn = getFullMoons(new Date('2024-09-01T00:00:00Z'), new Date('2024-11-01T00:00:00Z'));
+    expect(autumn.map(moon => moon.name)).toEqual(['Harvest Moon', 'Hunter’s Moon']);
+
+    const august = getFullMoons(new Date('2023-08-01T00:00:00Z'), new Date('2023-09-01T00:00:00Z'));
+    expect(august.map(moon => moon.name)).toEqual(['Sturgeon Moon', 'Blue Moon']);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import type { NatalChartRow } from '../types/database';
+import type { AstrologicalChart } from '../../types';
+
+jest.mock('../../services/supabase', () => ({
+  supabase: { auth: { getUser: jest.fn() } },
+  getNatalChart: jest.fn(),
+  saveNatalChart: jest.fn()
+}));
+
+// The auth events are driven by hand here
+jest.mock('../../stores/events', () => ({
+  storeEvents: { on: jest.fn() }
+}));
+
+import { getNatalChart, saveNatalChart, supabase } from '../../services/supabase';
+import { useNatalChartStore } from '../../stores/natalChartStore';
+
+const USER_ID = 'test-user-id';
+
+// Saved while signed out, so it has no user yet
+const localChart: AstrologicalChart = {
+  id: 'local-id',
+  userId: '',
+  name: 'Me',
+  birthDate: '1990-06-15',
+  birthTime: '14:30',
+  birthLocation: 'Salt Lake City',
+  latitude: 40.7608,
+  longitude: -111.891,
+  timezone: 'America/Denver',
+  houseSystem: 'placidus',
+  ascendant: 200,
+  midheaven: 110,
+  positions: [],
+  houses: [],
+  aspects: [],
+  createdAt: '2025-01-02T16:00:00.000Z',
+  updatedAt: '2025-01-02T16:00:00.000Z'
+};
+
+const row = (id: string, name: string): NatalChartRow => ({
+  id,
+  user_id: USER_ID,
+  name,
+  birth_date: '1990-06-15',
+  birth_time: '14:30:00',
+  birth_location: 'Salt Lake City',
+  latitude: 40.7608,
+  longitude: -111.891,
+  timezone: 'America/Denver',
+  house_system: 'placidus',
+  ascendant: 200,
+  midheaven: 110,
+  positions: [],
+  houses: [],
+  aspects: [],
+  created_at: '2025-01-02T16:00:00.000Z',
+  updated_at: '2025-01-02T16:00:00.000Z'
+});
+
+describe('Natal chart store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (supabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: USER_ID } } });
+    useNatalChartStore.setState({ chart: localChart, error: null });
+  });
+
+  it('uploads a chart saved while signed out on sign-in', async () => {
+    (saveNatalChart as jest.Mock).mockResolvedValue({ data: row('server-id', 'Me'), error: null });
+
+    await useNatalChartStore.getState().fetchChart();
+
+    expect(saveNatalChart).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: USER_ID,
+      birth_date: localChart.birthDate,
+      birth_time: localChart.birthTime
+    }));
+    expect(getNatalChart).not.toHaveBeenCalled();
+    expect(useNatalChartStore.getState().chart).toMatchObject({ id: 'server-id', userId: USER_ID, birthTime: '14:30' });
+  });
+
+  it('keeps the device chart when the upload fails', async () => {
+    (saveNatalChart as jest.Mock).mockResolvedValue({ data: null, error: new Error('offline') });
+
+    await useNatalChartStore.getState().fetchChart();
+
+    const { chart, error } = useNatalChartStore.getState();
+    expect(chart).toEqual(localChart);
+    expect(error).toBe('offline');
+  });
+
+  it('loads the server chart once the device one is owned', async () => {
+    useNatalChartStore.setState({ chart: { ...localChart, userId: USER_ID } });
+    (getNatalChart as jest.Mock).mockResolvedValue({ data: row('server-id', 'Updated'), error: null });
+
+    await useNatalChartStore.getState().fetchChart();
+
+    expect(saveNatalChart).not.toHaveBeenCalled();
+    expect(useNatalChartStore.getState().chart?.name).toBe('Updated');
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ */
+// The engine needs real time zone math rather than the global luxon mock
+jest.unmock('luxon');
+
+import { calculatePlanetaryHours, findPlanetaryHourAt, getPlanetaryDay, SunEventsError } from '../../shared/planetaryHours';
+import { hourSystems } from '../../shared/hourSystems';
+
+// Same reference day as the PWA golden test (pwa-next/scripts/golden.test.mjs)
+const SALT_LAKE_CITY = {
+  date: '2025-01-01',
+  latitude: 40.7608,
+  longitude: -111.891,
+  timezone: 'America/Denver'
+};
+
+// Polar night: the Sun does not rise on the winter solstice
+const TROMSO_SOLSTICE = {
+  date: '2025-12-21',
+  latitude: 69.6496,
+  longitude: 18.956,
+  timezone: 'Europe/Oslo'
+};
+
+describe('Shared planetary hours engine', () => {
+  it('matches the golden sunrise/sunset schedule', () => {
+    const schedule = calculatePlanetaryHours(SALT_LAKE_CITY);
+
+    expect(schedule.date).toBe('2025-01-01');
+    expect(schedule.dayRuler).toBe('mercury');
+    expect(schedule.sunrise.toISOString()).toBe('2025-01-01T14:51:47.271Z');
+    expect(schedule.sunset.toISOString()).toBe('2025-01-02T00:11:08.436Z');
+    expect(schedule.nextSunrise.toISOString()).toBe('2025-01-02T14:51:51.824Z');
+
+    expect(schedule.hours).toHaveLength(24);
+    expect(schedule.hours[0].ruler).toBe('mercury');
+    expect(schedule.hours[0].end.toISOString()).toBe('2025-01-01T15:38:24.034Z');
+    expect(schedule.hours[11].end.getTime()).toBe(schedule.sunset.getTime());
+    expect(schedule.hours[23].end.getTime()).toBe(schedule.nextSunrise.getTime());
+
+    for (let i = 0; i < 23; i++) {
+      expect(schedule.hours[i].end.getTime()).toBe(schedule.hours[i + 1].start.getTime());
+    }
+  });
+
+  it('resolves a Date to its local day in the given timezone', () => {
+    // 03:00 UTC on Jan 2 is still Jan 1 in Denver
+    const schedule = calculatePlanetaryHours({
+      ...SALT_LAKE_CITY,
+      date: new Date('2025-01-02T03:00:00Z')
+    });
+
+    expect(schedule.date).toBe('2025-01-01');
+  });
+
+  it('finds the hour containing an instant', () => {
+    const schedule = calculatePlanetaryHours(SALT_LAKE_CITY);
+
+    expect(findPlanetaryHourAt(schedule, new Date('2025-01-01T15:00:00Z'))?.index).toBe(1);
+    expect(findPlanetaryHourAt(schedule, new Date('2025-01-01T12:00:00Z'))).toBeNull();
+  });
+
+  describe('planetary day', () => {
+    const { date, ...location } = SALT_LAKE_CITY;
+
+    it('keeps the hours before sunrise in the previous day', () => {
+      // 3 AM on Saturday in Denver is still Friday's Venus day
+      const day = getPlanetaryDay(new Date('2025-01-04T10:00:00Z'), location);
+
+      expect(day.date).toBe('2025-01-03');
+      expect(day.dayRuler).toBe('venus');
+      expect(findPlanetaryHourAt(day, new Date('2025-01-04T10:00:00Z'))).not.toBeNull();
+    });
+
+    it('starts the next day at sunrise', () => {
+      const day = getPlanetaryDay(new Date('2025-01-04T18:00:00Z'), location);
+
+      expect(day.date).toBe('2025-01-04');
+      expect(day.dayRuler).toBe('saturn');
+    });
+
+    it('starts the next day at sunset with the sunset-start system', () => {
+      // 8 PM on Friday already belongs to Saturday
+      const day = getPlanetaryDay(new Date('2025-01-04T03:00:00Z'), { ...location, hourSystem: 'sunset-start' });
+
+      expect(day.date).toBe('2025-01-04');
+      expect(day.dayRuler).toBe('saturn');
+    });
+  });
+
+  describe('sunrise definition', () => {
+    it('defaults to the upper limb at ground level', () => {
+      const schedule = calculatePlanetaryHours(SALT_LAKE_CITY);
+
+      expect(schedule.sunriseDefinition).toBe('upper-limb');
+      expect(schedule.elevation).toBe(0);
+    });
+
+    it('rises later by disk center and earlier by civil dawn', () => {
+      const upperLimb = calculatePlanetaryHours(SALT_LAKE_CITY);
+      const center = calculatePlanetaryHours({ ...SALT_LAKE_CITY, sunriseDefinition: 'center' });
+      const civilDawn = calculatePlanetaryHours({ ...SALT_LAKE_CITY, sunriseDefinition: 'civil-dawn' });
+
+      expect(center.sunriseDefinition).toBe('center');
+      expect(center.sunrise.getTime()).toBeGreaterThan(upperLimb.sunrise.getTime());
+      expect(center.sunset.getTime()).toBeLessThan(upperLimb.sunset.getTime());
+      expect(civilDawn.sunrise.getTime()).toBeLessThan(upperLimb.sunrise.getTime());
+      expect(civilDawn.sunset.getTime()).toBeGreaterThan(upperLimb.sunset.getTime());
+    });
+
+    it('widens the day for an elevated observer', () => {
+      const ground = calculatePlanetaryHours(SALT_LAKE_CITY);
+      const elevated = calculatePlanetaryHours({ ...SALT_LAKE_CITY, elevation: 1300 });
+
+      expect(elevated.elevation).toBe(1300);
+      expect(elevated.sunrise.getTime()).toBeLessThan(ground.sunrise.getTime());
+      expect(elevated.sunset.getTime()).toBeGreaterThan(ground.sunset.getTime());
+    });
+  });
+
+  describe('hour systems', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+
+    it('uses 60-minute clock hours from sunrise', () => {
+      const schedule = calculatePlanetaryHours({ ...SALT_LAKE_CITY, hourSystem: 'equal' });
+
+      expect(schedule.hourSystem).toBe('equal');
+      expect(schedule.hours[0].start.getTime()).toBe(schedule.sunrise.getTime());
+      expect(schedule.hours[0].end.getTime() - schedule.hours[0].start.getTime()).toBe(HOUR_MS);
+      expect(schedule.hours[23].end.getTime()).toBe(schedule.nextSunrise.getTime());
+      // Winter in Salt Lake City: fewer than 12 hours start before sunset
+      expect(schedule.hours.filter(hour => hour.isDay).length).toBe(10);
+    });
+
+    it('starts the day at the previous sunset with the night hours', () => {
+      const traditional = calculatePlanetaryHours(SALT_LAKE_CITY);
+      const schedule = calculatePlanetaryHours({ ...SALT_LAKE_CITY, hourSystem: 'sunset-start' });
+      const previousDay = calculatePlanetaryHours({ ...SALT_LAKE_CITY, date: '2024-12-31' });
+
+      expect(schedule.hours[0].start.getTime()).toBe(previousDay.sunset.getTime());
+      expect(schedule.hours[0].isDay).toBe(false);
+      expect(schedule.hours[0].ruler).toBe(traditional.dayRuler);
+      expect(schedule.hours[12].start.getTime()).toBe(schedule.sunrise.getTime());
+      expect(schedule.hours[23].end.getTime()).toBe(schedule.sunset.getTime());
+    });
+
+    it('divides sunrise to sunrise into 24 equal horas', () => {
+      const schedule = calculatePlanetaryHours({ ...SALT_LAKE_CITY, hourSystem: 'hora' });
+      const hora = (schedule.nextSunrise.getTime() - schedule.sunrise.getTime()) / 24;
+
+      schedule.hours.forEach(hour => {
+        expect(hour.end.getTime() - hour.start.getTime()).toBeCloseTo(hora, -1);
+      });
+    });
+
+    it('continues the Chaldean sequence from the day ruler in every system', () => {
+      for (const hourSystem of hourSystems) {
+        const schedule = calculatePlanetaryHours({ ...SALT_LAKE_CITY, hourSystem });
+        expect(schedule.hours.map(hour => hour.ruler).slice(0, 8)).toEqual([
+          'mercury', 'moon', 'saturn', 'jupiter', 'mars', 'sun', 'venus', 'mercury'
+        ]);
+      }
+    });
+  });
+
+  describe('polar fallback', () => {
+    it('reports standard mode when the Sun rises and sets', () => {
+      const schedule = calculatePlanetaryHours(SALT_LAKE_CITY);
+
+      expect(schedule.mode).toBe('standard');
+      expect(schedule.effectiveLatitude).toBe(SALT_LAKE_CITY.latitude);
+    });
+
+    it('uses the nearest latitude with a sunrise by default', () => {
+      const schedule = calculatePlanetaryHours(TROMSO_SOLSTICE);
+
+      expect(schedule.mode).toBe('nearest-latitude');
+      expect(schedule.effectiveLatitude).toBeLessThan(TROMSO_SOLSTICE.latitude);
+      expect(schedule.hours).toHaveLength(24);
+      schedule.hours.forEach(hour => {
+        expect(hour.end.getTime()).toBeGreaterThan(hour.start.getTime());
+      });
+    });
+
+    it('uses civil twilight as day boundaries', () => {
+      const schedule = calculatePlanetaryHours({ ...TROMSO_SOLSTICE, polarFallback: 'civil-twilight' });
+
+      expect(schedule.mode).toBe('civil-twilight');
+      expect(schedule.sunrise.getTime()).toBeLessThan(schedule.sunset.getTime());
+    });
+
+    it('uses equal 60-minute hours around solar noon', () => {
+      const schedule = calculatePlanetaryHours({ ...TROMSO_SOLSTICE, polarFallback: 'solar-noon' });
+
+      expect(schedule.mode).toBe('solar-noon');
+      schedule.hours.forEach(hour => {
+        expect(hour.end.getTime() - hour.start.getTime()).toBe(60 * 60 * 1000);
+      });
+    });
+
+    it('throws when fallback is disabled', () => {
+      expect(() => calculatePlanetaryHours({ ...TROMSO_SOLSTICE, polarFallback: 'none' })).toThrow(SunEventsError);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { normalizeDelta180 } from '../../shared/astro';
+import { calculateChart } from '../../shared/chart';
+import { calculatePlanetaryHours } from '../../shared/planetaryHours';
+import { geocentricEclipticLongitude } from '../../shared/positions';
+import { calculateReturn, findReturnHour, ReturnInputError } from '../../shared/returns';
+
+jest.unmock('luxon');
+
+const SALT_LAKE_CITY = { latitude: 40.7608, longitude: -111.891, timezone: 'America/Denver' };
+
+const natal = calculateChart({ date: new Date('1990-06-15T12:00:00Z'), ...SALT_LAKE_CITY });
+const natalSun = natal.positions.find(position => position.planet === 'sun')!.longitude;
+const natalMoon = natal.positions.find(position => position.planet === 'moon')!.longitude;
+
+describe('Solar and lunar returns', () => {
+  it('finds the solar return near the birthday with its chart', () => {
+    const solarReturn = calculateReturn({ kind: 'solar', natalLongitude: natalSun, year: 2025, ...SALT_LAKE_CITY });
+
+    expect(solarReturn.planet).toBe('sun');
+    expect(solarReturn.date.toISOString()).toMatch(/^2025-06-1[45]/);
+    expect(Math.abs(normalizeDelta180(geocentricEclipticLongitude('sun', solarReturn.date) - natalSun))).toBeLessThan(0.001);
+
+    // The chart is cast for the return instant, so its Sun is back at the natal place
+    const sun = solarReturn.chart.positions.find(position => position.planet === 'sun')!;
+    expect(Math.abs(normalizeDelta180(sun.longitude - natalSun))).toBeLessThan(0.001);
+    expect(solarReturn.chart.houses).toHaveLength(12);
+  });
+
+  it('finds a lunar return in every month', () => {
+    for (let month = 1; month <= 12; month++) {
+      const lunarReturn = calculateReturn({ kind: 'lunar', natalLongitude: natalMoon, year: 2025, month, ...SALT_LAKE_CITY });
+      const local = lunarReturn.date.toLocaleString('en-US', { timeZone: SALT_LAKE_CITY.timezone, month: 'numeric' });
+
+      expect(Number(local)).toBe(month);
+      expect(Math.abs(normalizeDelta180(geocentricEclipticLongitude('moon', lunarReturn.date) - natalMoon))).toBeLessThan(0.001);
+    }
+
+    expect(() => calculateReturn({ kind: 'lunar', natalLongitude: natalMoon, year: 2025, ...SALT_LAKE_CITY })).toThrow(ReturnInputError);
+  });
+
+  it('picks the Sun hour nearest the solar return for its ritual', () => {
+    const solarReturn = calculateReturn({ kind: 'solar', natalLongitude: natalSun, year: 2025, ...SALT_LAKE_CITY });
+    const hour = findReturnHour(solarReturn, SALT_LAKE_CITY);
+    const time = solarReturn.date.getTime();
+    const distance = (h: { start: Date; end: Date }) => Math.max(0, h.start.getTime() - time, time - h.end.getTime());
+
+    expect(hour.ruler).toBe('sun');
+    // No Sun hour on the days around the return is any closer
+    for (const date of ['2025-06-13', '2025-06-14', '2025-06-15']) {
+      calculatePlanetaryHours({ ...SALT_LAKE_CITY, date }).hours
+        .filter(h => h.ruler === 'sun')
+        .forEach(h => expect(distance(h)).toBeGreaterThanOrEqual(distance(hour)));
+    }
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { calculateRisings } from '../../shared/risings';
+import { getPlanetRisings } from '../services/astrology';
+
+jest.unmock('luxon');
+
+const location = { latitude: 40.7608, longitude: -111.891, timezone: 'America/Denver' };
+
+describe('Planet rise and set times', () => {
+  it('finds the Sun and Moon events of New Year 2025 in Salt Lake City', () => {
+    const risings = Object.fromEntries(
+      getPlanetRisings(location, new Date('2025-01-01T12:00:00Z'), { now: new Date('2025-01-01T19:00:00Z') })
+        .map(r => [r.planet, r])
+    );
+
+    expect(Object.keys(risings)).toEqual(['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn']);
+    // Sunrise 7:52 AM, noon 12:31 PM, sunset 5:11 PM MST
+    expect(risings.sun.rise!.toISOString()).toMatch(/^2025-01-01T14:5[12]/);
+    expect(risings.sun.culmination!.toISOString()).toMatch(/^2025-01-01T19:31/);
+    expect(risings.sun.set!.toISOString()).toMatch(/^2025-01-02T00:1[01]/);
+    expect(risings.sun.lowerCulmination!.toISOString()).toMatch(/^2025-01-01T07:31/);
+    expect(risings.moon.rise!.toISOString()).toMatch(/^2025-01-01T16:3[67]/);
+
+    // At noon the Sun and Venus are up while Mars, opposite the Sun, is down
+    expect(risings.sun.isAboveHorizon).toBe(true);
+    expect(risings.venus.isAboveHorizon).toBe(true);
+    expect(risings.mars.isAboveHorizon).toBe(false);
+    expect(risings.mars.altitude).toBeLessThan(0);
+  });
+
+  it('calculates only the planets asked for', () => {
+    const date = new Date('2025-01-01T12:00:00Z');
+    const only = getPlanetRisings(location, date, { planets: ['mars'] });
+
+    expect(only).toHaveLength(1);
+    expect(only[0]).toEqual(getPlanetRisings(location, date).find(r => r.planet === 'mars'));
+  });
+
+  it('keeps every event on the local day', () => {
+    const { planets } = calculateRisings({ ...location, date: '2025-03-09' });
+    const start = Date.parse('2025-03-09T07:00:00Z');
+    // Clocks spring forward, so the day is 23 hours long
+    const end = Date.parse('2025-03-10T06:00:00Z');
+
+    for (const p of planets) {
+      for (const event of [p.rise, p.culmination, p.set, p.lowerCulmination]) {
+        if (event) {
+          expect(event.getTime()).toBeGreaterThanOrEqual(start);
+          expect(event.getTime()).toBeLessThan(end);
+        }
+      }
+    }
+  });
+
+  it('reports the midnight sun as up without a rise or set', () => {
+    const [sun] = calculateRisings({
+      date: '2025-06-21',
+      latitude: 78.22,
+      longitude: 15.65,
+      timezone: 'Arctic/Longyearbyen',
+      at: new Date('2025-06-21T22:00:00Z'),
+      planets: ['sun']
+    }).planets;
+
+    expect(sun.rise).toBeNull();
+    expect(sun.set).toBeNull();
+    expect(sun.culmination).not.toBeNull();
+    expect(sun.isAboveHorizon).toBe(true);
+  });
+});
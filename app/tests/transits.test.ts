@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import { aspectAngles } from '../../shared/aspects';
+import { normalizeDelta180 } from '../../shared/astro';
+import { calculateChart } from '../../shared/chart';
+import { geocentricEclipticLongitude } from '../../shared/positions';
+import { findActiveTransits, findTransits, type NatalPosition } from '../../shared/transits';
+
+const chart = calculateChart({ date: new Date('1990-06-15T12:00:00Z'), latitude: 40.7608, longitude: -111.891 });
+const natal: NatalPosition[] = [
+  ...chart.positions.map(position => ({ point: position.planet, longitude: position.longitude })),
+  { point: 'ascendant', longitude: chart.angles.ascendant },
+  { point: 'midheaven', longitude: chart.angles.midheaven }
+];
+
+const JANUARY = new Date('2025-01-01T00:00:00Z');
+const FEBRUARY = new Date('2025-02-01T00:00:00Z');
+
+describe('Transits to the natal chart', () => {
+  const transits = findTransits(JANUARY, FEBRUARY, natal);
+
+  it('finds the instants each aspect is exact, in time order', () => {
+    expect(transits.length).toBeGreaterThan(0);
+    transits.forEach((transit, i) => {
+      const separation = Math.abs(normalizeDelta180(geocentricEclipticLongitude(transit.planet, transit.date) - transit.natalLongitude));
+      expect(Math.abs(separation - aspectAngles[transit.type])).toBeLessThan(0.02);
+      expect(transit.date.getTime()).toBeLessThan(FEBRUARY.getTime());
+      if (i > 0) {
+        expect(transit.date.getTime()).toBeGreaterThanOrEqual(transits[i - 1].date.getTime());
+      }
+    });
+
+    // Saturn in Pisces crosses the natal Moon at 15° Pisces
+    const saturn = transits.find(t => t.planet === 'saturn' && t.point === 'moon');
+    expect(saturn?.type).toBe('conjunction');
+    expect(saturn?.title).toBe('Saturn conjunction natal Moon');
+    expect(saturn?.date.toISOString()).toMatch(/^2025-01-11/);
+  });
+
+  it('filters by planet, point and aspect', () => {
+    const filtered = findTransits(JANUARY, FEBRUARY, natal, {
+      planets: ['sun'],
+      points: ['saturn', 'mars'],
+      types: ['conjunction', 'square']
+    });
+
+    expect(filtered.map(t => `${t.type}:${t.point}`)).toEqual(['square:mars', 'conjunction:saturn']);
+  });
+
+  it('reports the transits within the chosen orb', () => {
+    const at = new Date('2025-01-15T00:00:00Z');
+    const tight = findActiveTransits(at, natal, { orbs: { aspects: { conjunction: 1, sextile: 1, square: 1, trine: 1, opposition: 1 } } });
+    const wide = findActiveTransits(at, natal, { orbs: { aspects: { conjunction: 2, sextile: 2, square: 2, trine: 2, opposition: 2 } } });
+
+    expect(tight.length).toBeLessThan(wide.length);
+    wide.forEach((transit, i) => {
+      expect(transit.orb).toBeLessThanOrEqual(2);
+      if (i > 0) {
+        expect(transit.orb).toBeGreaterThanOrEqual(wide[i - 1].orb);
+      }
+    });
+
+    // Saturn has passed the natal Moon four days earlier and is now separating
+    const saturn = wide.find(t => t.planet === 'saturn' && t.point === 'moon');
+    expect(saturn?.applying).toBe(false);
+    // and is still closing in on the trine to natal Jupiter
+    expect(wide.find(t => t.planet === 'saturn' && t.point === 'jupiter')?.applying).toBe(true);
+  });
+});
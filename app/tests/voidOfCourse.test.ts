@@ -0,0 +1,30 @@
+/**
+ * @jest-environment node
+ */
+import { findVoidOfCoursePeriods, getVoidOfCourse } from '../../shared/voidOfCourse';
+import { isVoidDuring } from '../../utils/voidOfCourse';
+
+describe('Void-of-course Moon', () => {
+  it('runs from the last aspect in a sign to the next ingress', () => {
+    const periods = findVoidOfCoursePeriods(new Date('2025-01-01T00:00:00Z'), new Date('2025-01-04T00:00:00Z'));
+
+    expect(periods).toHaveLength(2);
+    // Published as 2:03 AM to 5:49 AM EST
+    const [first, second] = periods;
+    expect(first).toMatchObject({ sign: 'Capricorn', nextSign: 'Aquarius' });
+    expect(first.lastAspect).toMatchObject({ planet: 'saturn', type: 'sextile' });
+    expect(Math.abs(first.start.getTime() - Date.parse('2024-12-31T07:03:00Z'))).toBeLessThan(2 * 60 * 1000);
+    expect(Math.abs(first.end.getTime() - Date.parse('2025-01-01T10:50:00Z'))).toBeLessThan(2 * 60 * 1000);
+    expect(second).toMatchObject({ sign: 'Aquarius', nextSign: 'Pisces' });
+    expect(second.start.getTime()).toBeLessThan(second.end.getTime());
+  });
+
+  it('tells whether the Moon is void at an instant', () => {
+    expect(getVoidOfCourse(new Date('2025-01-01T08:00:00Z'))?.nextSign).toBe('Aquarius');
+    expect(getVoidOfCourse(new Date('2025-01-02T00:00:00Z'))).toBeNull();
+
+    const periods = findVoidOfCoursePeriods(new Date('2025-01-01T00:00:00Z'), new Date('2025-01-02T00:00:00Z'));
+    expect(isVoidDuring({ startTime: new Date('2025-01-01T10:00:00Z'), endTime: new Date('2025-01-01T11:00:00Z') }, periods)).toBe(true);
+    expect(isVoidDuring({ startTime: new Date('2025-01-01T11:00:00Z'), endTime: new Date('2025-01-01T12:00:00Z') }, periods)).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @jest-environment node
+ */
+import { getPlanetaryPositions } from '../services/astrology';
+import { getAyanamsa, toZodiacLongitude, ZodiacError } from '../../shared/zodiac';
+import { getDignityReport, getSect } from '../../utils/dignities';
+
+const time = new Date('2025-01-01T00:00:00.000Z');
+const location = { latitude: 40.7608, longitude: -111.891 };
+
+describe('Sidereal zodiacs', () => {
+  it('grows the ayanamsa with precession', () => {
+    expect(getAyanamsa(time)).toBe(0);
+    // Lahiri is about 24°12′ in 2025
+    expect(getAyanamsa(time, { zodiac: 'lahiri' })).toBeCloseTo(24.21, 2);
+    expect(getAyanamsa(time, { zodiac: 'fagan-bradley' })).toBeCloseTo(25.09, 2);
+    expect(getAyanamsa(time, { zodiac: 'raman' })).toBeCloseTo(22.76, 2);
+    expect(getAyanamsa(new Date('2100-01-01T00:00:00Z'), { zodiac: 'lahiri' })).toBeCloseTo(25.25, 2);
+
+    expect(getAyanamsa(time, { zodiac: 'custom', ayanamsa: 23.5 })).toBe(23.5);
+    expect(() => getAyanamsa(time, { zodiac: 'custom' })).toThrow(ZodiacError);
+    expect(toZodiacLongitude(10, time, { zodiac: 'custom', ayanamsa: 20 })).toBe(350);
+  });
+
+  it('moves the planets back into earlier signs', () => {
+    const tropical = Object.fromEntries(getPlanetaryPositions(time).map(p => [p.planet, p]));
+    const lahiri = Object.fromEntries(getPlanetaryPositions(time, { zodiac: 'lahiri' }).map(p => [p.planet, p]));
+
+    expect(tropical.sun.sign).toBe('Capricorn');
+    // Makar Sankranti, the sidereal Sun's entry into Capricorn, comes in mid-January
+    expect(lahiri.sun.sign).toBe('Sagittarius');
+    expect(tropical.mars.sign).toBe('Leo');
+    expect(lahiri.mars.sign).toBe('Cancer');
+    expect(lahiri.mars.degree).toBeCloseTo(7.71, 2);
+  });
+
+  it('looks up dignities in the chosen zodiac', () => {
+    const zodiac = { zodiac: 'lahiri' as const };
+    const positions = getPlanetaryPositions(time, zodiac);
+    const mars = positions.find(p => p.planet === 'mars')!;
+
+    expect(getDignityReport(mars, { date: time, location, positions, zodiac }).dignities).toEqual(['fall']);
+    // The Sun has just set in Salt Lake City whichever zodiac the positions are in
+    expect(getSect(time, location, positions, zodiac)).toBe(getSect(time, location, getPlanetaryPositions(time)));
+  });
+});
@@ -1,3 +1,9 @@
+import type { PlanetaryHoursOptions, SunriseDefinition } from '../../shared/planetaryHours';
+import type { HourSystem } from '../../shared/hourSystems';
+import type { Zodiac } from '../../shared/zodiac';
+import type { HouseSystem } from '../../shared/houses';
+import type { Aspect, House, PlanetaryPosition } from '../../types';
+
 export type Json =
   | string
   | number
@@ -6,21 +12,13 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
-// Define zodiac sign types
-export interface ZodiacInfo {
-  sunSign: string;
-  moonSign: string;
-  risingSign: string;
-}
-
-// Define location type with zodiac information
+// Define location type
 export interface LocationInfo {
   latitude?: number;
   longitude?: number;
   city?: string;
   country?: string;
   timezone?: string;
-  zodiac?: ZodiacInfo;
 }
 
 // Database types object for default export
@@ -106,6 +104,15 @@ export interface Database {
           units: string;
           theme: string;
           font_size: string;
+          sunrise_definition: SunriseDefinition;
+          elevation: number;
+          hour_system: HourSystem;
+          zodiac: Zodiac;
+          custom_ayanamsa: number;
+          avoid_eclipses: boolean;
+          transit_notifications: boolean;
+          transit_orb: number;
+          transit_lead_hours: number;
         };
         Insert: {
           user_id: string;
@@ -119,6 +126,15 @@ export interface Database {
           units?: string;
           theme?: string;
           font_size?: string;
+          sunrise_definition?: SunriseDefinition;
+          elevation?: number;
+          hour_system?: HourSystem;
+          zodiac?: Zodiac;
+          custom_ayanamsa?: number;
+          avoid_eclipses?: boolean;
+          transit_notifications?: boolean;
+          transit_orb?: number;
+          transit_lead_hours?: number;
         };
         Update: {
           user_id?: string;
@@ -132,6 +148,115 @@ export interface Database {
           units?: string;
           theme?: string;
           font_size?: string;
+          sunrise_definition?: SunriseDefinition;
+          elevation?: number;
+          hour_system?: HourSystem;
+          zodiac?: Zodiac;
+          custom_ayanamsa?: number;
+          avoid_eclipses?: boolean;
+          transit_notifications?: boolean;
+          transit_orb?: number;
+          transit_lead_hours?: number;
+        };
+      };
+      natal_charts: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          birth_date: string;
+          birth_time: string;
+          birth_location: string | null;
+          latitude: number;
+          longitude: number;
+          timezone: string;
+          house_system: HouseSystem;
+          ascendant: number;
+          midheaven: number;
+          positions: PlanetaryPosition[];
+          houses: House[];
+          aspects: Aspect[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          birth_date: string;
+          birth_time: string;
+          birth_location?: string | null;
+          latitude: number;
+          longitude: number;
+          timezone: string;
+          house_system?: HouseSystem;
+          ascendant: number;
+          midheaven: number;
+          positions: PlanetaryPosition[];
+          houses: House[];
+          aspects: Aspect[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          birth_date?: string;
+          birth_time?: string;
+          birth_location?: string | null;
+          latitude?: number;
+          longitude?: number;
+          timezone?: string;
+          house_system?: HouseSystem;
+          ascendant?: number;
+          midheaven?: number;
+          positions?: PlanetaryPosition[];
+          houses?: House[];
+          aspects?: Aspect[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      horary_charts: {
+        Row: {
+          id: string;
+          user_id: string;
+          question: string | null;
+          cast_at: string;
+          latitude: number;
+          longitude: number;
+          timezone: string;
+          location_name: string | null;
+          house_system: HouseSystem;
+          hour_options: PlanetaryHoursOptions;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          question?: string | null;
+          cast_at: string;
+          latitude: number;
+          longitude: number;
+          timezone: string;
+          location_name?: string | null;
+          house_system?: HouseSystem;
+          hour_options?: PlanetaryHoursOptions;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          question?: string | null;
+          cast_at?: string;
+          latitude?: number;
+          longitude?: number;
+          timezone?: string;
+          location_name?: string | null;
+          house_system?: HouseSystem;
+          hour_options?: PlanetaryHoursOptions;
+          created_at?: string;
         };
       };
     };
@@ -151,16 +276,22 @@ export interface Database {
 export type Profile = Database['public']['Tables']['profiles']['Row'];
 export type RitualLog = Database['public']['Tables']['ritual_logs']['Row'];
 export type Settings = Database['public']['Tables']['settings']['Row'];
+export type NatalChartRow = Database['public']['Tables']['natal_charts']['Row'];
+export type HoraryChartRow = Database['public']['Tables']['horary_charts']['Row'];
 
 // Type aliases for insert operations
 export type ProfileInsert = Database['public']['Tables']['profiles']['Insert'];
 export type RitualLogInsert = Database['public']['Tables']['ritual_logs']['Insert'];
 export type SettingsInsert = Database['public']['Tables']['settings']['Insert'];
+export type NatalChartInsert = Database['public']['Tables']['natal_charts']['Insert'];
+export type HoraryChartInsert = Database['public']['Tables']['horary_charts']['Insert'];
 
 // Type aliases for update operations
 export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
 export type RitualLogUpdate = Database['public']['Tables']['ritual_logs']['Update'];
 export type SettingsUpdate = Database['public']['Tables']['settings']['Update'];
+export type NatalChartUpdate = Database['public']['Tables']['natal_charts']['Update'];
+export type HoraryChartUpdate = Database['public']['Tables']['horary_charts']['Update'];
 
 // Default export for the database types
 export default DatabaseTypes;
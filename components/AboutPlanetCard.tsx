@@ -1,13 +1,16 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useTheme } from '@/components/ThemeProvider';
 import { Planet, PlanetaryPosition } from '@/types';
 import Card from '@/components/ui/Card';
 import PlanetSymbol from '@/components/ui/PlanetSymbol';
-import { getPlanetaryDignity } from '@/utils/planetaryHours';
+import { formatHourTime, getPlanetaryDignity } from '@/utils/planetaryHours';
 import { getZodiacSymbol } from '@/constants/dignities';
 import { usePlanetaryStore } from '@/stores/planetaryStore';
+import { useLocationStore } from '@/stores/locationStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { getPlanetRisings } from '@/app/services/astrology';
 
 interface AboutPlanetCardProps {
   planet: Planet;
@@ -20,7 +23,12 @@ const AboutPlanetCard = ({ planet, planetPosition }: AboutPlanetCardProps) => {
   
   // Get the correct planetary position for the current planet
   // This ensures we're using the position for the specific planet being displayed
-  const { planetPositions } = usePlanetaryStore();
+  const { planetPositions, lastUpdated } = usePlanetaryStore();
+  const { location } = useLocationStore();
+  const { settings } = useSettingsStore();
+  const latitude = location?.latitude;
+  const longitude = location?.longitude;
+  const elevation = settings?.elevation ?? 0;
   
   // Find the position for this specific planet
   const correctPlanetPosition = planetPositions && planetPositions.length > 0
@@ -34,6 +42,23 @@ const AboutPlanetCard = ({ planet, planetPosition }: AboutPlanetCardProps) => {
   const dignity = positionToUse ? getPlanetaryDignity(planet.id, positionToUse.sign) : null;
   const zodiacSymbol = positionToUse ? getZodiacSymbol(positionToUse.sign) : null;
   
+  // Today's rise, culminations and set, refreshed along with the positions
+  const risings = useMemo(() => {
+    if (latitude === undefined || longitude === undefined) return null;
+    try {
+      const [planetRisings] = getPlanetRisings({ latitude, longitude }, new Date(), { elevation, planets: [planet.id] });
+      return planetRisings ?? null;
+    } catch (error) {
+      console.error('Error calculating rise and set times:', error);
+      return null;
+    }
+  }, [planet.id, latitude, longitude, elevation, lastUpdated]);
+
+  const formatEvent = (date: Date | null) => (date ? formatHourTime(date) : '—');
+  const horizonStatus = risings?.isAboveHorizon
+    ? `Above the horizon now${risings.set && risings.set > new Date() ? ` · sets ${formatHourTime(risings.set)}` : ''}`
+    : `Below the horizon now${risings?.rise && risings.rise > new Date() ? ` · rises ${formatHourTime(risings.rise)}` : ''}`;
+  
   console.log(`AboutPlanetCard for ${planet.id}:`, positionToUse);
   
   // Helper function to get color based on dignity
@@ -118,6 +143,34 @@ const AboutPlanetCard = ({ planet, planetPosition }: AboutPlanetCardProps) => {
           </View>
         </View>
         
+        {risings && (
+          <View style={[styles.horizon, { borderColor: colors.border }]}>
+            <Text style={[
+              styles.horizonStatus,
+              { color: risings.isAboveHorizon ? colors.success : colors.textSecondary, fontFamily: 'System' }
+            ]}>
+              {horizonStatus}
+            </Text>
+            <View style={styles.infoRow}>
+              {([
+                ['Rises', risings.rise],
+                ['Culminates', risings.culmination],
+                ['Sets', risings.set],
+                ['Lower culmination', risings.lowerCulmination]
+              ] as const).map(([label, time]) => (
+                <View key={label} style={styles.infoItem}>
+                  <Text style={[styles.infoLabel, { color: colors.textSecondary, fontFamily: 'System' }]}>
+                    {label}
+                  </Text>
+                  <Text style={[styles.infoValue, { color: colors.text, fontFamily: 'System' }]}>
+                    {formatEvent(time)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+        
         <TouchableOpacity 
           style={[styles.button, { borderColor: colors.border }]}
           onPress={() => router.push(`/ritual/${planet.id}`)}
@@ -185,6 +238,7 @@ const styles = StyleSheet.create({
   },
   infoRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     marginBottom: 16,
   },
   infoItem: {
@@ -198,6 +252,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  horizon: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+  },
+  horizonStatus: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
   button: {
     borderWidth: 1,
     borderRadius: 8,
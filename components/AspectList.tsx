@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { getPlanetById } from '@/constants/planets';
+import { getActiveAspects, getAspectSymbol } from '@/utils/aspects';
+
+interface AspectListProps {
+  // Time to find aspects at; defaults to now
+  date?: Date;
+}
+
+// The exact and applying aspects between the planets, closest first
+const AspectList = ({ date }: AspectListProps) => {
+  const { colors } = useTheme();
+  const time = date?.getTime();
+
+  const { aspects, error } = useMemo(() => {
+    try {
+      return { aspects: getActiveAspects(time === undefined ? new Date() : new Date(time)), error: null };
+    } catch (err) {
+      console.error('Error calculating aspects:', err);
+      return { aspects: [], error: 'Could not calculate the aspects.' };
+    }
+  }, [time]);
+
+  if (error || aspects.length === 0) {
+    return (
+      <Text style={[styles.emptyText, { color: colors.textSecondary, fontFamily: 'System' }]}>
+        {error || 'No exact or applying aspects right now.'}
+      </Text>
+    );
+  }
+
+  return (
+    <View>
+      {aspects.map(aspect => {
+        const planet1 = getPlanetById(aspect.planet1);
+        const planet2 = getPlanetById(aspect.planet2);
+
+        return (
+          <View
+            key={`${aspect.planet1}-${aspect.planet2}`}
+            style={[styles.row, { borderBottomColor: colors.border }]}
+          >
+            <Text style={[styles.symbols, { color: colors.text, fontFamily: 'System' }]}>
+              <Text style={{ color: planet1.color }}>{planet1.symbol}</Text>
+              {` ${getAspectSymbol(aspect.type)} `}
+              <Text style={{ color: planet2.color }}>{planet2.symbol}</Text>
+            </Text>
+            <Text style={[styles.description, { color: colors.text, fontFamily: 'System' }]}>
+              {planet1.name} {aspect.type} {planet2.name}
+            </Text>
+            <View style={styles.orbInfo}>
+              <Text style={[styles.orb, { color: colors.textSecondary, fontFamily: 'System' }]}>
+                {aspect.orb.toFixed(1)}°
+              </Text>
+              <Text style={[styles.status, { color: aspect.exact ? colors.primary : colors.textSecondary, fontFamily: 'System' }]}>
+                {aspect.exact ? 'Exact' : 'Applying'}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  symbols: {
+    width: 64,
+    fontSize: 18,
+  },
+  description: {
+    flex: 1,
+    fontSize: 14,
+  },
+  orbInfo: {
+    alignItems: 'flex-end',
+  },
+  orb: {
+    fontSize: 14,
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    paddingVertical: 8,
+  },
+});
+
+export default AspectList;
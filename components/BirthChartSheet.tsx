@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, Modal, TouchableOpacity, ScrollView, TextInput, ActivityIndicator } from 'react-native';
+import { X, MapPin } from 'lucide-react-native';
+import * as Location from 'expo-location';
+import { useTheme } from './ThemeProvider';
+import { getBirthInstant, houseSystemLabels, type BirthDetails } from '../utils/natalChart';
+import { houseSystems, DEFAULT_HOUSE_SYSTEM, type HouseSystem } from '../shared/houses';
+import type { AstrologicalChart } from '../types';
+
+interface BirthChartSheetProps {
+  visible: boolean;
+  // Chart being edited, to prefill the form
+  chart: AstrologicalChart | null;
+  defaultName?: string;
+  onSave: (details: BirthDetails) => void;
+  onClose: () => void;
+}
+
+const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Birth date, time and place for calculating the natal chart
+const BirthChartSheet = ({ visible, chart, defaultName, onSave, onClose }: BirthChartSheetProps) => {
+  const { colors, isDark } = useTheme();
+  const [name, setName] = useState('');
+  const [birthDate, setBirthDate] = useState('');
+  const [birthTime, setBirthTime] = useState('');
+  const [birthLocation, setBirthLocation] = useState('');
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [timezone, setTimezone] = useState('');
+  const [houseSystem, setHouseSystem] = useState<HouseSystem>(DEFAULT_HOUSE_SYSTEM);
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form from the saved chart each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setName(chart?.name || defaultName || '');
+    setBirthDate(chart?.birthDate || '');
+    setBirthTime(chart?.birthTime || '');
+    setBirthLocation(chart?.birthLocation || '');
+    setLatitude(chart ? String(chart.latitude) : '');
+    setLongitude(chart ? String(chart.longitude) : '');
+    setTimezone(chart?.timezone || getDeviceTimezone());
+    setHouseSystem(chart?.houseSystem || DEFAULT_HOUSE_SYSTEM);
+    setError(null);
+  }, [visible, chart, defaultName]);
+
+  const findPlace = async () => {
+    if (!birthLocation.trim()) return;
+
+    try {
+      setIsLocating(true);
+      setError(null);
+      const [result] = await Location.geocodeAsync(birthLocation.trim());
+      if (!result) {
+        setError('Place not found. Enter its latitude and longitude instead.');
+        return;
+      }
+      setLatitude(result.latitude.toFixed(4));
+      setLongitude(result.longitude.toFixed(4));
+    } catch (err) {
+      console.error('Error finding birth place:', err);
+      setError('Could not look up the place. Enter its latitude and longitude instead.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleSave = () => {
+    const lat = Number(latitude);
+    const lon = Number(longitude);
+
+    if (!getBirthInstant(birthDate, birthTime, timezone)) {
+      setError('Enter the birth date as YYYY-MM-DD, the time as HH:mm and a timezone such as Europe/London.');
+      return;
+    }
+    if (!latitude || !longitude || !Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      setError('Enter the birth place, or its latitude and longitude.');
+      return;
+    }
+
+    onSave({
+      name: name.trim() || defaultName || 'My Chart',
+      birthDate,
+      birthTime,
+      birthLocation: birthLocation.trim(),
+      latitude: lat,
+      longitude: lon,
+      timezone: timezone.trim(),
+      houseSystem
+    });
+  };
+
+  const inputStyle = [styles.input, { color: colors.text, borderColor: colors.border }];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[
+          styles.sheet,
+          {
+            backgroundColor: isDark ? colors.card : colors.background,
+            borderColor: colors.border,
+          }
+        ]}>
+          <View style={styles.header}>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Birth Chart</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={[styles.label, { color: colors.textSecondary }]}>Name</Text>
+            <TextInput
+              style={inputStyle}
+              value={name}
+              onChangeText={setName}
+              placeholder="Chart name"
+              placeholderTextColor={colors.textTertiary}
+            />
+
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={[styles.label, { color: colors.textSecondary }]}>Birth date</Text>
+                <TextInput
+                  style={inputStyle}
+                  value={birthDate}
+                  onChangeText={setBirthDate}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={colors.textTertiary}
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={[styles.label, { color: colors.textSecondary }]}>Birth time</Text>
+                <TextInput
+                  style={inputStyle}
+                  value={birthTime}
+                  onChangeText={setBirthTime}
+                  placeholder="HH:mm"
+                  placeholderTextColor={colors.textTertiary}
+                />
+              </View>
+            </View>
+
+            <Text style={[styles.label, { color: colors.textSecondary }]}>Birth place</Text>
+            <View style={styles.placeRow}>
+              <TextInput
+                style={[...inputStyle, styles.placeInput]}
+                value={birthLocation}
+                onChangeText={setBirthLocation}
+                onSubmitEditing={findPlace}
+                placeholder="City, country"
+                placeholderTextColor={colors.textTertiary}
+              />
+              <TouchableOpacity
+                style={[styles.findButton, { backgroundColor: `${colors.primary}20` }]}
+                onPress={findPlace}
+                disabled={isLocating}
+              >
+                {isLocating ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <MapPin size={18} color={colors.primary} />
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={[styles.label, { color: colors.textSecondary }]}>Latitude</Text>
+                <TextInput
+                  style={inputStyle}
+                  value={latitude}
+                  onChangeText={setLatitude}
+                  placeholder="51.5074"
+                  placeholderTextColor={colors.textTertiary}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={[styles.label, { color: colors.textSecondary }]}>Longitude</Text>
+                <TextInput
+                  style={inputStyle}
+                  value={longitude}
+                  onChangeText={setLongitude}
+                  placeholder="-0.1278"
+                  placeholderTextColor={colors.textTertiary}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+            </View>
+
+            <Text style={[styles.label, { color: colors.textSecondary }]}>Timezone of the birth place</Text>
+            <TextInput
+              style={inputStyle}
+              value={timezone}
+              onChangeText={setTimezone}
+              placeholder="Europe/London"
+              placeholderTextColor={colors.textTertiary}
+              autoCapitalize="none"
+            />
+
+            <Text style={[styles.label, { color: colors.textSecondary }]}>House system</Text>
+            <View style={styles.chips}>
+              {houseSystems.map(system => {
+                const isSelected = houseSystem === system;
+                return (
+                  <TouchableOpacity
+                    key={system}
+                    style={[
+                      styles.chip,
+                      { borderColor: isSelected ? colors.primary : colors.border },
+                      isSelected && { backgroundColor: `${colors.primary}20` }
+                    ]}
+                    onPress={() => setHouseSystem(system)}
+                  >
+                    <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.text }]}>
+                      {houseSystemLabels[system]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {error && (
+              <Text style={[styles.errorText, { color: colors.error || '#ff3b30' }]}>{error}</Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: colors.primary }]}
+              onPress={handleSave}
+            >
+              <Text style={styles.saveButtonText}>Calculate Chart</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '90%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+  },
+  header: {
+    padding: 16,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    fontFamily: 'System',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  label: {
+    fontSize: 14,
+    marginTop: 12,
+    marginBottom: 6,
+    fontFamily: 'System',
+  },
+  input: {
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    fontSize: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  rowField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  placeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  placeInput: {
+    flex: 1,
+  },
+  findButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    marginLeft: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'System',
+  },
+  errorText: {
+    fontSize: 14,
+    marginTop: 12,
+    fontFamily: 'System',
+  },
+  saveButton: {
+    marginTop: 20,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+});
+
+export default BirthChartSheet;
@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { Eclipse as EclipseIcon } from 'lucide-react-native';
+import { useTheme } from './ThemeProvider';
+import { useLocationStore } from '@/stores/locationStore';
+import { useSettingsStore, getZodiacOptions } from '@/stores/settingsStore';
+import { formatHourTime } from '@/utils/planetaryHours';
+import { describeEclipse, describeEclipseVisibility, getEclipseTitle, getUpcomingEclipses } from '@/utils/eclipses';
+
+const formatEclipseDate = (date: Date) =>
+  `${date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })} ${formatHourTime(date)}`;
+
+// Eclipses over the coming year, with their visibility from the saved location
+const EclipseCard = () => {
+  const { colors } = useTheme();
+  const { location } = useLocationStore();
+  const { settings } = useSettingsStore();
+  const latitude = location?.latitude;
+  const longitude = location?.longitude;
+  const elevation = settings?.elevation ?? 0;
+  const zodiac = settings?.zodiac;
+  const customAyanamsa = settings?.custom_ayanamsa;
+
+  const { eclipses, error } = useMemo(() => {
+    try {
+      return {
+        eclipses: getUpcomingEclipses(new Date(), {
+          location: latitude !== undefined && longitude !== undefined ? { latitude, longitude, elevation } : undefined,
+          zodiac: getZodiacOptions(settings)
+        }),
+        error: null
+      };
+    } catch (err) {
+      console.error('Error finding eclipses:', err);
+      return { eclipses: [], error: 'Could not calculate the upcoming eclipses.' };
+    }
+  }, [latitude, longitude, elevation, zodiac, customAyanamsa]);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.card }]}>
+      <View style={styles.header}>
+        <EclipseIcon size={18} color={colors.primary} />
+        <Text style={[styles.title, { color: colors.text }]}>
+          Upcoming Eclipses
+        </Text>
+      </View>
+
+      <View style={styles.content}>
+        {error ? (
+          <Text style={[styles.errorText, { color: colors.textSecondary }]}>
+            {error}
+          </Text>
+        ) : eclipses.map((eclipse, index) => {
+          const visibility = describeEclipseVisibility(eclipse);
+          return (
+            <View
+              key={eclipse.id}
+              style={[styles.eclipse, index > 0 && { borderTopWidth: 1, borderTopColor: colors.border }]}
+            >
+              <Text style={[styles.eclipseTitle, { color: colors.text }]}>
+                {getEclipseTitle(eclipse)}
+              </Text>
+              <Text style={[styles.eclipseDate, { color: colors.textSecondary }]}>
+                {formatEclipseDate(eclipse.peak)}
+              </Text>
+              <Text style={[styles.eclipseDetails, { color: colors.textSecondary }]}>
+                {describeEclipse(eclipse)}
+              </Text>
+              {visibility !== '' && (
+                <Text
+                  style={[
+                    styles.eclipseDetails,
+                    { color: eclipse.local?.visible ? colors.primary : colors.textSecondary }
+                  ]}
+                >
+                  {visibility}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  content: {
+    padding: 16,
+    paddingTop: 0,
+  },
+  eclipse: {
+    paddingVertical: 10,
+  },
+  eclipseTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  eclipseDate: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  eclipseDetails: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  errorText: {
+    padding: 16,
+    textAlign: 'center',
+  },
+});
+
+export default EclipseCard;
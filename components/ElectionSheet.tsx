@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, View, Modal, TouchableOpacity, ScrollView } from 'react-native';
+import { X } from 'lucide-react-native';
+import { useTheme } from './ThemeProvider';
+import { getPlanetById } from '../constants/planets';
+import { formatHourTime } from '../utils/planetaryHours';
+import { findElectionWindows, type ElectionWindow, type MoonPhasePreference } from '../shared/election';
+import type { PlanetaryHoursOptions } from '../shared/planetaryHours';
+import type { ZodiacOptions } from '../shared/zodiac';
+import type { PlanetDay } from '../types';
+
+interface ElectionSheetProps {
+  visible: boolean;
+  planetId: PlanetDay;
+  latitude: number;
+  longitude: number;
+  options?: PlanetaryHoursOptions;
+  // Zodiac the planet's dignity is scored in
+  zodiac?: ZodiacOptions;
+  // Leave out hours that overlap a solar or lunar eclipse
+  avoidEclipses?: boolean;
+  onClose: () => void;
+}
+
+const SEARCH_DAYS = 7;
+const RESULT_COUNT = 5;
+
+const moonPhaseLabels: Record<MoonPhasePreference, string> = {
+  waxing: 'Waxing Moon (increase)',
+  waning: 'Waning Moon (banishing)',
+};
+
+// Rank the planet's hours over the coming week and explain each score
+const ElectionSheet = ({ visible, planetId, latitude, longitude, options, zodiac, avoidEclipses = false, onClose }: ElectionSheetProps) => {
+  const { colors, isDark } = useTheme();
+  const [moonPhase, setMoonPhase] = useState<MoonPhasePreference>('waxing');
+  const planet = getPlanetById(planetId);
+
+  const { windows, error } = useMemo((): { windows: ElectionWindow[]; error: string | null } => {
+    if (!visible) {
+      return { windows: [], error: null };
+    }
+
+    try {
+      return {
+        windows: findElectionWindows({
+          ...options,
+          latitude,
+          longitude,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          planet: planetId,
+          moonPhase,
+          avoidEclipses,
+          zodiac,
+          days: SEARCH_DAYS,
+          count: RESULT_COUNT,
+        }),
+        error: null
+      };
+    } catch (err) {
+      console.error('Error finding election windows:', err);
+      return { windows: [], error: err instanceof Error ? err.message : 'Failed to find the best times' };
+    }
+  }, [visible, latitude, longitude, options?.sunriseDefinition, options?.elevation, options?.hourSystem, planetId, moonPhase, avoidEclipses, zodiac?.zodiac, zodiac?.ayanamsa]);
+
+  const getPointsColor = (points: number): string => {
+    if (points > 0) return colors.success || '#4CAF50';
+    if (points < 0) return colors.error || '#F44336';
+    return colors.textSecondary;
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[
+          styles.sheet,
+          {
+            backgroundColor: isDark ? colors.card : colors.background,
+            borderColor: colors.border,
+          }
+        ]}>
+          <View style={styles.header}>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Best Times for {planet.name}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <View style={styles.chips}>
+              {(Object.keys(moonPhaseLabels) as MoonPhasePreference[]).map(key => {
+                const isSelected = moonPhase === key;
+                return (
+                  <TouchableOpacity
+                    key={key}
+                    style={[
+                      styles.chip,
+                      { borderColor: isSelected ? colors.primary : colors.border },
+                      isSelected && { backgroundColor: `${colors.primary}20` }
+                    ]}
+                    onPress={() => setMoonPhase(key)}
+                  >
+                    <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.text }]}>
+                      {moonPhaseLabels[key]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+              Hours of {planet.name} in the next {SEARCH_DAYS} days
+            </Text>
+            {error ? (
+              <Text style={[styles.emptyText, { color: colors.error || '#ff3b30' }]}>{error}</Text>
+            ) : windows.length === 0 ? (
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No hours of {planet.name} found</Text>
+            ) : (
+              windows.map(window => (
+                <View key={window.hour.start.toISOString()} style={[styles.result, { borderColor: colors.border }]}>
+                  <View style={styles.resultHeader}>
+                    <Text style={[styles.resultTitle, { color: colors.text }]}>
+                      {window.hour.start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      {' · '}
+                      {formatHourTime(window.hour.start)} – {formatHourTime(window.hour.end)}
+                    </Text>
+                    <Text style={[styles.score, { color: getPointsColor(window.score) }]}>
+                      {window.score > 0 ? `+${window.score}` : window.score}
+                    </Text>
+                  </View>
+                  {window.factors.map(factor => (
+                    <View key={factor.factor} style={styles.factor}>
+                      <Text style={[styles.factorText, { color: colors.textSecondary }]}>{factor.description}</Text>
+                      <Text style={[styles.factorText, { color: getPointsColor(factor.points) }]}>
+                        {factor.points > 0 ? `+${factor.points}` : factor.points}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+  },
+  header: {
+    padding: 16,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    fontFamily: 'System',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'System',
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+    fontFamily: 'System',
+  },
+  result: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+  score: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    fontFamily: 'System',
+  },
+  factor: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  factorText: {
+    fontSize: 13,
+    fontFamily: 'System',
+  },
+});
+
+export default ElectionSheet;
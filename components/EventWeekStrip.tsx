@@ -0,0 +1,113 @@
+import React from 'react';
+import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { eventTypeColors, toLocalDateKey } from '../utils/astroEvents';
+import type { AstrologicalEvent } from '../types';
+
+interface EventWeekStripProps {
+  selectedDate: Date;
+  // Events keyed by local date, YYYY-MM-DD
+  eventsByDate: Record<string, AstrologicalEvent[]>;
+  onSelectDate: (date: Date) => void;
+}
+
+const MAX_MARKERS = 4;
+
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+// The week (Sunday to Saturday) around the selected date, with a marker per event
+const EventWeekStrip = ({ selectedDate, eventsByDate, onSelectDate }: EventWeekStripProps) => {
+  const { colors } = useTheme();
+  const weekStart = getWeekStart(selectedDate);
+  const selectedKey = toLocalDateKey(selectedDate);
+
+  const days = Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(weekStart);
+    day.setDate(weekStart.getDate() + i);
+    return day;
+  });
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.card }]}>
+      {days.map(day => {
+        const key = toLocalDateKey(day);
+        const isSelected = key === selectedKey;
+        const events = eventsByDate[key] || [];
+
+        return (
+          <TouchableOpacity
+            key={key}
+            style={[
+              styles.day,
+              isSelected && { backgroundColor: `${colors.primary}20`, borderColor: colors.primary }
+            ]}
+            onPress={() => onSelectDate(day)}
+          >
+            <Text style={[styles.weekday, { color: colors.textSecondary }]}>
+              {day.toLocaleDateString(undefined, { weekday: 'narrow' })}
+            </Text>
+            <Text style={[styles.dayNumber, { color: isSelected ? colors.primary : colors.text }]}>
+              {day.getDate()}
+            </Text>
+            <View style={styles.markers}>
+              {events.slice(0, MAX_MARKERS).map(event => (
+                <View
+                  key={event.id}
+                  style={[styles.marker, { backgroundColor: eventTypeColors[event.type] }]}
+                />
+              ))}
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 12,
+  },
+  day: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    marginHorizontal: 2,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  weekday: {
+    fontSize: 12,
+    fontFamily: 'System',
+  },
+  dayNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 2,
+    fontFamily: 'System',
+  },
+  markers: {
+    flexDirection: 'row',
+    height: 6,
+    marginTop: 4,
+  },
+  marker: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    marginHorizontal: 1,
+  },
+});
+
+export default EventWeekStrip;
@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Text, View, Modal, TouchableOpacity, ScrollView, TextInput } from 'react-native';
+import { CircleCheck, TriangleAlert, X } from 'lucide-react-native';
+import { useTheme } from './ThemeProvider';
+import { getPlanetById } from '../constants/planets';
+import { longitudeToSign } from '../shared/astro';
+import { formatHourTime } from '../utils/planetaryHours';
+import { getHoraryChart, getMoonAspectSymbols } from '../utils/horary';
+import type { HorarySnapshot, NewHorarySnapshot } from '../types';
+
+interface HorarySheetProps {
+  visible: boolean;
+  // A chart just cast, or a saved one to review
+  snapshot: NewHorarySnapshot | HorarySnapshot | null;
+  onSave?: (question: string) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatMoment = (date: Date) =>
+  `${date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })} · ${formatHourTime(date)}`;
+
+const isSaved = (snapshot: NewHorarySnapshot | HorarySnapshot): snapshot is HorarySnapshot => 'id' in snapshot;
+
+// The chart of the moment a question is asked, with the considerations before judgment
+const HorarySheet = ({ visible, snapshot, onSave, onDelete, onClose }: HorarySheetProps) => {
+  const { colors, isDark } = useTheme();
+  const [question, setQuestion] = useState('');
+
+  useEffect(() => {
+    if (visible) setQuestion(snapshot?.question ?? '');
+  }, [visible, snapshot]);
+
+  const { horary, error } = useMemo(() => {
+    if (!visible || !snapshot) return { horary: null, error: null };
+
+    try {
+      return { horary: getHoraryChart(snapshot), error: null };
+    } catch (err) {
+      console.error('Error casting horary chart:', err);
+      return { horary: null, error: err instanceof Error ? err.message : 'Failed to cast the chart' };
+    }
+  }, [visible, snapshot]);
+
+  const saved = snapshot ? isSaved(snapshot) : false;
+  const ascendant = horary ? longitudeToSign(horary.chart.angles.ascendant) : null;
+  const midheaven = horary ? longitudeToSign(horary.chart.angles.midheaven) : null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[
+          styles.sheet,
+          {
+            backgroundColor: isDark ? colors.card : colors.background,
+            borderColor: colors.border,
+          }
+        ]}>
+          <View style={styles.header}>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Horary Chart</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {snapshot && (
+              <>
+                {saved ? (
+                  !!question && <Text style={[styles.question, { color: colors.text }]}>{question}</Text>
+                ) : (
+                  <TextInput
+                    style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                    value={question}
+                    onChangeText={setQuestion}
+                    placeholder="Your question (optional)"
+                    placeholderTextColor={colors.textTertiary}
+                    multiline
+                  />
+                )}
+                <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                  {formatMoment(new Date(snapshot.castAt))}
+                  {snapshot.locationName ? ` · ${snapshot.locationName}` : ''}
+                </Text>
+              </>
+            )}
+
+            {error ? (
+              <Text style={[styles.emptyText, { color: colors.error || '#ff3b30' }]}>{error}</Text>
+            ) : horary && ascendant && midheaven && (
+              <>
+                <Text style={[styles.rulers, { color: colors.text }]}>
+                  Day of {getPlanetById(horary.dayRuler).symbol} {getPlanetById(horary.dayRuler).name} · Hour of {getPlanetById(horary.hourRuler).symbol} {getPlanetById(horary.hourRuler).name}
+                </Text>
+
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Considerations</Text>
+                {horary.considerations.map(consideration => (
+                  <View key={consideration.id} style={styles.consideration}>
+                    {consideration.caution
+                      ? <TriangleAlert size={16} color={colors.warning} />
+                      : <CircleCheck size={16} color={colors.success} />}
+                    <View style={styles.considerationText}>
+                      <Text style={[styles.rowLabel, { color: colors.text }]}>{consideration.title}</Text>
+                      <Text style={[styles.rowValue, { color: colors.textSecondary }]}>{consideration.description}</Text>
+                    </View>
+                  </View>
+                ))}
+
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Moon</Text>
+                {horary.voidOfCourse && (
+                  <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                    Void of course until {formatHourTime(horary.voidOfCourse.end)}, entering {horary.voidOfCourse.nextSign}
+                  </Text>
+                )}
+                {horary.moonAspects.length === 0 ? (
+                  <Text style={[styles.rowValue, { color: colors.textSecondary }]}>No applying aspects within orb</Text>
+                ) : horary.moonAspects.map(aspect => (
+                  <View key={`${aspect.planet1}-${aspect.planet2}`} style={styles.row}>
+                    <Text style={[styles.rowLabel, { color: colors.text }]}>{getMoonAspectSymbols(aspect)}</Text>
+                    <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                      applying {aspect.type}, {aspect.orb.toFixed(1)}°
+                    </Text>
+                  </View>
+                ))}
+
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Chart</Text>
+                <View style={styles.row}>
+                  <Text style={[styles.rowLabel, { color: colors.text }]}>Ascendant</Text>
+                  <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                    {Math.floor(ascendant.degreeInSign)}° {ascendant.sign}
+                  </Text>
+                </View>
+                <View style={styles.row}>
+                  <Text style={[styles.rowLabel, { color: colors.text }]}>Midheaven</Text>
+                  <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                    {Math.floor(midheaven.degreeInSign)}° {midheaven.sign}
+                  </Text>
+                </View>
+                {horary.chart.positions.map(position => (
+                  <View key={position.planet} style={styles.row}>
+                    <Text style={[styles.rowLabel, { color: colors.text }]}>
+                      {getPlanetById(position.planet).symbol} {getPlanetById(position.planet).name}
+                    </Text>
+                    <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                      {Math.floor(position.degreeInSign)}° {position.sign}{position.isRetrograde ? ' ℞' : ''} · House {position.house}
+                    </Text>
+                  </View>
+                ))}
+              </>
+            )}
+
+            {snapshot && (saved ? onDelete && (
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: colors.error }]}
+                onPress={() => onDelete((snapshot as HorarySnapshot).id)}
+              >
+                <Text style={styles.actionButtonText}>Delete Chart</Text>
+              </TouchableOpacity>
+            ) : onSave && (
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: colors.primary }]}
+                onPress={() => onSave(question.trim())}
+              >
+                <Text style={styles.actionButtonText}>Save Chart</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+  },
+  header: {
+    padding: 16,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    fontFamily: 'System',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  input: {
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    fontSize: 16,
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  question: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    fontFamily: 'System',
+  },
+  meta: {
+    fontSize: 13,
+    marginTop: 8,
+    fontFamily: 'System',
+  },
+  rulers: {
+    fontSize: 16,
+    marginTop: 12,
+    fontFamily: 'System',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  consideration: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 4,
+  },
+  considerationText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontFamily: 'System',
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+    fontFamily: 'System',
+  },
+  actionButton: {
+    marginTop: 16,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+});
+
+export default HorarySheet;
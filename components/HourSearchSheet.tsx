@@ -0,0 +1,332 @@
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, View, Modal, TouchableOpacity, ScrollView, TextInput } from 'react-native';
+import { X } from 'lucide-react-native';
+import { useTheme } from './ThemeProvider';
+import { planets, getPlanetById } from '../constants/planets';
+import { lunarMansions } from '../constants/lunarMansions';
+import { formatHourTime } from '../utils/planetaryHours';
+import { findNextPlanetaryHours, parseTimeOfDay, type HourSearchMatch } from '../shared/hourSearch';
+import type { PlanetaryHoursOptions } from '../shared/planetaryHours';
+import type { ZodiacOptions } from '../shared/zodiac';
+import type { PlanetDay } from '../types';
+
+interface HourSearchSheetProps {
+  visible: boolean;
+  latitude: number;
+  longitude: number;
+  options?: PlanetaryHoursOptions;
+  // Zodiac the mansions are counted in, as on the Moon card
+  zodiac?: ZodiacOptions;
+  onClose: () => void;
+  // Called with the local date (YYYY-MM-DD) of the planetary day of the chosen hour
+  onSelectDate: (date: string) => void;
+}
+
+type PeriodFilter = 'any' | 'day' | 'night';
+
+const RESULT_COUNT = 5;
+
+const periodLabels: Record<PeriodFilter, string> = {
+  any: 'Any time',
+  day: 'Daylight',
+  night: 'Night',
+};
+
+// Minimum hour lengths offered, in minutes
+const MIN_LENGTHS = [30, 45, 60, 75];
+
+// Find the next hours of a planet, optionally on a given weekday, half of the day, time of day, length and lunar mansion
+const HourSearchSheet = ({ visible, latitude, longitude, options, zodiac, onClose, onSelectDate }: HourSearchSheetProps) => {
+  const { colors, isDark } = useTheme();
+  const [ruler, setRuler] = useState<PlanetDay>('jupiter');
+  const [dayRuler, setDayRuler] = useState<PlanetDay | null>(null);
+  const [period, setPeriod] = useState<PeriodFilter>('any');
+  const [mansion, setMansion] = useState<number | null>(null);
+  // Local times of day as typed, HH:mm; the window applies once both parse
+  const [windowStart, setWindowStart] = useState('');
+  const [windowEnd, setWindowEnd] = useState('');
+  const [minMinutes, setMinMinutes] = useState<number | null>(null);
+
+  const startMinutes = parseTimeOfDay(windowStart.trim());
+  const endMinutes = parseTimeOfDay(windowEnd.trim());
+  const timeWindow = startMinutes != null && endMinutes != null ? { start: startMinutes, end: endMinutes } : undefined;
+  const windowIncomplete = !timeWindow && (windowStart.trim() !== '' || windowEnd.trim() !== '');
+
+  const { matches, error } = useMemo((): { matches: HourSearchMatch[]; error: string | null } => {
+    if (!visible) {
+      return { matches: [], error: null };
+    }
+
+    try {
+      return {
+        matches: findNextPlanetaryHours({
+          ...options,
+          latitude,
+          longitude,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          ruler,
+          dayRuler: dayRuler ?? undefined,
+          period: period === 'any' ? undefined : period,
+          mansion: mansion ?? undefined,
+          timeWindow,
+          minMinutes: minMinutes ?? undefined,
+          zodiac,
+          count: RESULT_COUNT,
+        }),
+        error: null
+      };
+    } catch (err) {
+      console.error('Error searching planetary hours:', err);
+      return { matches: [], error: err instanceof Error ? err.message : 'Failed to search planetary hours' };
+    }
+  }, [visible, latitude, longitude, options?.sunriseDefinition, options?.elevation, options?.hourSystem, ruler, dayRuler, period, mansion, timeWindow?.start, timeWindow?.end, minMinutes, zodiac?.zodiac, zodiac?.ayanamsa]);
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? colors.primary : colors.border },
+        isSelected && { backgroundColor: `${colors.primary}20` }
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? colors.primary : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[
+          styles.sheet,
+          {
+            backgroundColor: isDark ? colors.card : colors.background,
+            borderColor: colors.border,
+          }
+        ]}>
+          <View style={styles.header}>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Find Next Hour</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Hour of</Text>
+            <View style={styles.chips}>
+              {planets.map(planet =>
+                renderChip(planet.id, `${planet.symbol} ${planet.name}`, ruler === planet.id, () => setRuler(planet.id))
+              )}
+            </View>
+
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>On</Text>
+            <View style={styles.chips}>
+              {renderChip('any', 'Any day', dayRuler === null, () => setDayRuler(null))}
+              {planets.map(planet =>
+                renderChip(planet.id, planet.day, dayRuler === planet.id, () => setDayRuler(planet.id))
+              )}
+            </View>
+
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>During</Text>
+            <View style={styles.chips}>
+              {(Object.keys(periodLabels) as PeriodFilter[]).map(key =>
+                renderChip(key, periodLabels[key], period === key, () => setPeriod(key))
+              )}
+            </View>
+
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Between</Text>
+            <View style={styles.timeWindow}>
+              <TextInput
+                style={[styles.timeInput, { color: colors.text, borderColor: colors.border }]}
+                value={windowStart}
+                onChangeText={setWindowStart}
+                placeholder="HH:mm"
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+              <Text style={[styles.windowSeparator, { color: colors.textSecondary }]}>and</Text>
+              <TextInput
+                style={[styles.timeInput, { color: colors.text, borderColor: colors.border }]}
+                value={windowEnd}
+                onChangeText={setWindowEnd}
+                placeholder="HH:mm"
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+            <Text style={[styles.hint, { color: windowIncomplete ? colors.warning : colors.textTertiary }]}>
+              {windowIncomplete
+                ? 'Enter both times as HH:mm to limit the time of day'
+                : 'The whole hour must fall inside; 22:00 and 02:00 wraps past midnight'}
+            </Text>
+
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>At least</Text>
+            <View style={styles.chips}>
+              {renderChip('any', 'Any length', minMinutes === null, () => setMinMinutes(null))}
+              {MIN_LENGTHS.map(minutes =>
+                renderChip(String(minutes), `${minutes} min`, minMinutes === minutes, () => setMinMinutes(minutes))
+              )}
+            </View>
+
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Moon in</Text>
+            <View style={styles.chips}>
+              {renderChip('any', 'Any mansion', mansion === null, () => setMansion(null))}
+              {lunarMansions.map(entry =>
+                renderChip(String(entry.number), `${entry.number}. ${entry.name}`, mansion === entry.number, () => setMansion(entry.number))
+              )}
+            </View>
+
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Next {RESULT_COUNT}</Text>
+            {error ? (
+              <Text style={[styles.emptyText, { color: colors.error || '#ff3b30' }]}>{error}</Text>
+            ) : matches.length === 0 ? (
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No matching hours in the next year</Text>
+            ) : (
+              matches.map(match => {
+                const planet = getPlanetById(match.hour.ruler);
+                return (
+                  <TouchableOpacity
+                    key={match.hour.start.toISOString()}
+                    style={[styles.result, { borderColor: colors.border }]}
+                    onPress={() => onSelectDate(match.date)}
+                  >
+                    <Text style={[styles.resultSymbol, { color: planet.color }]}>{planet.symbol}</Text>
+                    <View style={styles.resultContent}>
+                      <Text style={[styles.resultTitle, { color: colors.text }]}>
+                        {match.hour.start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </Text>
+                      <Text style={[styles.resultTime, { color: colors.textSecondary }]}>
+                        {formatHourTime(match.hour.start)} – {formatHourTime(match.hour.end)} · {Math.round(match.minutes)} min
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+  },
+  header: {
+    padding: 16,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    fontFamily: 'System',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'System',
+  },
+  timeWindow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeInput: {
+    width: 80,
+    marginRight: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+    borderRadius: 8,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  windowSeparator: {
+    fontSize: 14,
+    marginRight: 8,
+    fontFamily: 'System',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+    fontFamily: 'System',
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  resultSymbol: {
+    fontSize: 24,
+    width: 40,
+    textAlign: 'center',
+  },
+  resultContent: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+  resultTime: {
+    fontSize: 14,
+    marginTop: 2,
+    fontFamily: 'System',
+  },
+});
+
+export default HourSearchSheet;
@@ -0,0 +1,187 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { Moon } from 'lucide-react-native';
+import { useTheme } from './ThemeProvider';
+import { getZodiacSymbol } from '@/constants/dignities';
+import { useSettingsStore, getZodiacOptions } from '@/stores/settingsStore';
+import { formatHourTime } from '@/utils/planetaryHours';
+import { getCurrentLunarMansion } from '@/utils/lunarMansions';
+import { getMoonPhase, getMoonPhaseSymbol, getNextFullMoon, getUpcomingMoonPhases } from '@/utils/moonPhase';
+import { longitudeToSign } from '../shared/astro';
+
+interface MoonPhaseCardProps {
+  // Time to describe the Moon at; defaults to now
+  date?: Date;
+}
+
+const formatPhaseDate = (date: Date) =>
+  `${date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })} ${formatHourTime(date)}`;
+
+const MoonPhaseCard = ({ date }: MoonPhaseCardProps) => {
+  const { colors } = useTheme();
+  const { settings } = useSettingsStore();
+  const time = date?.getTime();
+  const zodiac = settings?.zodiac;
+  const customAyanamsa = settings?.custom_ayanamsa;
+
+  const { moonPhase, mansion, upcomingPhases, nextFullMoon, error } = useMemo(() => {
+    try {
+      const at = time === undefined ? new Date() : new Date(time);
+      return {
+        moonPhase: getMoonPhase(at),
+        // The sign and mansion follow the user's zodiac
+        mansion: getCurrentLunarMansion(at, getZodiacOptions(settings)),
+        upcomingPhases: getUpcomingMoonPhases(at),
+        nextFullMoon: getNextFullMoon(at),
+        error: null
+      };
+    } catch (err) {
+      console.error('Error calculating moon phase:', err);
+      return { moonPhase: null, mansion: null, upcomingPhases: [], nextFullMoon: null, error: 'Could not calculate the Moon phase.' };
+    }
+  }, [time, zodiac, customAyanamsa]);
+
+  if (error || !moonPhase || !mansion) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.card }]}>
+        <Text style={[styles.errorText, { color: colors.textSecondary }]}>
+          {error}
+        </Text>
+      </View>
+    );
+  }
+
+  const moonSign = longitudeToSign(mansion.longitude).sign;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.card }]}>
+      <View style={styles.header}>
+        <Moon size={18} color={colors.primary} />
+        <Text style={[styles.title, { color: colors.text }]}>
+          Moon Phase
+        </Text>
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.currentPhase}>
+          <Text style={styles.phaseSymbol}>{getMoonPhaseSymbol(moonPhase.phase)}</Text>
+          <View style={styles.phaseInfo}>
+            <Text style={[styles.phaseName, { color: colors.text }]}>
+              {moonPhase.name || moonPhase.phase}
+            </Text>
+            <Text style={[styles.phaseDetails, { color: colors.textSecondary }]}>
+              {Math.round(moonPhase.illumination * 100)}% lit · {moonPhase.age.toFixed(1)} days old · {getZodiacSymbol(moonSign)} {moonSign}
+            </Text>
+          </View>
+        </View>
+
+        <View style={[styles.mansion, { borderTopColor: colors.border }]}>
+          <Text style={[styles.mansionName, { color: colors.text }]}>
+            Mansion {mansion.mansion} · {mansion.info.name}
+            <Text style={{ color: colors.textSecondary }}> ({mansion.info.meaning})</Text>
+          </Text>
+          <Text style={[styles.mansionUses, { color: colors.textSecondary }]}>
+            {mansion.info.uses}
+          </Text>
+          <Text style={[styles.mansionUses, { color: colors.textSecondary }]}>
+            Enters {mansion.nextInfo.name} {formatPhaseDate(mansion.nextChange)}
+          </Text>
+        </View>
+
+        <View style={[styles.upcoming, { borderTopColor: colors.border }]}>
+          {upcomingPhases.map(event => (
+            <View key={event.date.toISOString()} style={styles.upcomingRow}>
+              <Text style={[styles.upcomingPhase, { color: colors.text }]}>
+                {getMoonPhaseSymbol(event.phase)} {event.phase}
+                {event.phase === 'full' && nextFullMoon?.date.getTime() === event.date.getTime() ? ` (${nextFullMoon.name})` : ''}
+              </Text>
+              <Text style={[styles.upcomingDate, { color: colors.textSecondary }]}>
+                {formatPhaseDate(event.date)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  content: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  currentPhase: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  phaseSymbol: {
+    fontSize: 40,
+    marginRight: 12,
+  },
+  phaseInfo: {
+    flex: 1,
+  },
+  phaseName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 4,
+    textTransform: 'capitalize',
+  },
+  phaseDetails: {
+    fontSize: 14,
+  },
+  mansion: {
+    paddingVertical: 12,
+    borderTopWidth: 1,
+  },
+  mansionName: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  mansionUses: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  upcoming: {
+    paddingTop: 12,
+    borderTopWidth: 1,
+  },
+  upcomingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  upcomingPhase: {
+    fontSize: 14,
+    textTransform: 'capitalize',
+  },
+  upcomingDate: {
+    fontSize: 14,
+  },
+  errorText: {
+    padding: 16,
+    textAlign: 'center',
+  },
+});
+
+export default MoonPhaseCard;
@@ -1,18 +1,38 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { StyleSheet, Text, View, TouchableOpacity, ScrollView } from 'react-native';
 import { useTheme } from '@/components/ThemeProvider';
 import { usePlanetaryStore } from '@/stores/planetaryStore';
+import { useLocationStore } from '@/stores/locationStore';
+import { useSettingsStore, getZodiacOptions } from '@/stores/settingsStore';
 import Card from '@/components/ui/Card';
 import PlanetSymbol from '@/components/ui/PlanetSymbol';
-import { planets } from '@/constants/planets';
+import PlanetaryDignityModal from '@/components/PlanetaryDignityModal';
+import { planets, getPlanetById } from '@/constants/planets';
 import { Info } from 'lucide-react-native';
-import { getPlanetaryDignity } from '@/utils/planetaryHours';
-import { getZodiacSymbol } from '@/constants/dignities';
+import { dignities, getZodiacSymbol } from '@/constants/dignities';
+import {
+  formatDignityScore,
+  getConditionBadges,
+  getDignityColor,
+  getDignityReport,
+  getPlanetConditions,
+  getPrimaryDignity,
+  type ConditionBadge
+} from '@/utils/dignities';
+import { DEFAULT_ZODIAC, getZodiac } from '../shared/zodiac';
+import type { PlanetaryPosition } from '@/types';
+import AspectList from '@/components/AspectList';
+
+const legend = ['rulership', 'exaltation', 'triplicity', 'term', 'face', 'detriment', 'fall', 'peregrine'] as const;
 
 const PlanetaryDignityChart = () => {
   const { colors } = useTheme();
   const { planetPositions, fetchPlanetaryPositions } = usePlanetaryStore();
+  const { location } = useLocationStore();
+  const { settings } = useSettingsStore();
+  const zodiac = settings?.zodiac ?? DEFAULT_ZODIAC;
   const [showInfo, setShowInfo] = useState(false);
+  const [selectedPosition, setSelectedPosition] = useState<PlanetaryPosition | null>(null);
   
   // Fetch planetary positions if not already loaded
   useEffect(() => {
@@ -25,28 +45,34 @@ const PlanetaryDignityChart = () => {
     setShowInfo(!showInfo);
   };
   
-  // Helper function to get color based on dignity
-  const getDignityColor = (dignity: string): string => {
-    switch (dignity) {
-      case 'Domicile':
-        return '#4CAF50';
-      case 'Exaltation':
-        return '#2196F3';
-      case 'Detriment':
-        return '#FF9800';
-      case 'Fall':
-        return '#F44336';
-      default:
-        return '#9E9E9E';
-    }
+  // Recalculated with the positions, which the store refreshes
+  const conditions = useMemo(
+    () => (planetPositions.length > 0 ? getPlanetConditions(new Date(), location) : []),
+    [planetPositions, location]
+  );
+  
+  const badgeColors: Record<ConditionBadge['tone'], string> = {
+    good: colors.success,
+    bad: colors.error,
+    neutral: colors.textSecondary,
   };
   
+  const getReport = (position: PlanetaryPosition) =>
+    getDignityReport(position, { location, positions: planetPositions, zodiac: getZodiacOptions(settings) });
+  
   return (
     <Card variant="elevated">
       <View style={styles.header}>
-        <Text style={[styles.title, { color: colors.text, fontFamily: 'System' }]}>
-          Current Planetary Dignities
-        </Text>
+        <View>
+          <Text style={[styles.title, { color: colors.text, fontFamily: 'System' }]}>
+            Current Planetary Dignities
+          </Text>
+          {zodiac !== 'tropical' && (
+            <Text style={[styles.zodiacLabel, { color: colors.textSecondary, fontFamily: 'System' }]}>
+              Sidereal zodiac · {getZodiac(zodiac).label}
+            </Text>
+          )}
+        </View>
         <TouchableOpacity 
           style={[styles.infoButton, { backgroundColor: colors.card }]}
           onPress={toggleInfo}
@@ -61,43 +87,40 @@ const PlanetaryDignityChart = () => {
             Planetary dignities show the strength of a planet in a particular zodiac sign:
           </Text>
           <View style={styles.dignityLegend}>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendColor, { backgroundColor: getDignityColor('Domicile') }]} />
-              <Text style={[styles.legendText, { color: colors.text, fontFamily: 'System' }]}>
-                Domicile: Planet is at home and strongest
-              </Text>
-            </View>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendColor, { backgroundColor: getDignityColor('Exaltation') }]} />
-              <Text style={[styles.legendText, { color: colors.text, fontFamily: 'System' }]}>
-                Exaltation: Planet is honored and powerful
-              </Text>
-            </View>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendColor, { backgroundColor: getDignityColor('Detriment') }]} />
-              <Text style={[styles.legendText, { color: colors.text, fontFamily: 'System' }]}>
-                Detriment: Planet is uncomfortable and weak
-              </Text>
-            </View>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendColor, { backgroundColor: getDignityColor('Fall') }]} />
-              <Text style={[styles.legendText, { color: colors.text, fontFamily: 'System' }]}>
-                Fall: Planet is in its lowest state
-              </Text>
-            </View>
+            {legend.map(dignity => (
+              <View key={dignity} style={styles.legendItem}>
+                <View style={[styles.legendColor, { backgroundColor: getDignityColor(dignity) }]} />
+                <Text style={[styles.legendText, { color: colors.text, fontFamily: 'System' }]}>
+                  {dignities[dignity].name}: {dignities[dignity].effect}
+                </Text>
+              </View>
+            ))}
           </View>
+          <Text style={[styles.legendText, { color: colors.textSecondary, fontFamily: 'System' }]}>
+            The score adds +5 for rulership, +4 exaltation, +3 triplicity, +2 term and +1 face, and takes 5 for detriment, 4 for fall and 5 for a peregrine planet. Tap a planet for the details.
+          </Text>
+          <Text style={[styles.legendText, { color: colors.textSecondary, fontFamily: 'System' }]}>
+            The badges below show accidental conditions: closeness to the Sun (cazimi, combust, under the beams), motion, whether the planet rises before the Sun (oriental) or after it (occidental) and, with your location, its house.
+          </Text>
         </View>
       )}
       
       <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.scrollView}>
         <View style={styles.chartContainer}>
           {planets.map(planet => {
-            const position = planetPositions.find(p => p.planetId === planet.id);
-            const dignity = position ? getPlanetaryDignity(planet.id, position.sign) : null;
+            const position = planetPositions.find(p => p.planet === planet.id);
+            const report = position ? getReport(position) : null;
+            const dignity = report ? getPrimaryDignity(report) : null;
             const zodiacSymbol = position ? getZodiacSymbol(position.sign) : null;
+            const planetConditions = conditions.find(c => c.planet === planet.id);
             
             return (
-              <View key={planet.id} style={styles.planetColumn}>
+              <TouchableOpacity
+                key={planet.id}
+                style={styles.planetColumn}
+                onPress={() => position && setSelectedPosition(position)}
+                disabled={!position}
+              >
                 <View style={[styles.planetHeader, { borderBottomColor: colors.border }]}>
                   <PlanetSymbol 
                     planetId={planet.id} 
@@ -118,19 +141,36 @@ const PlanetaryDignityChart = () => {
                       <Text style={[styles.signText, { color: colors.text, fontFamily: 'System' }]}>
                         {position.sign}
                       </Text>
-                      {position.isRetrograde && (
-                        <Text style={[styles.retrogradeText, { color: colors.warning, fontFamily: 'System' }]}>
-                          ℞
-                        </Text>
-                      )}
-                      {dignity && (
-                        <View style={[
-                          styles.dignityBadge,
-                          { backgroundColor: getDignityColor(dignity) }
-                        ]}>
-                          <Text style={[styles.dignityText, { fontFamily: 'System' }]}>
-                            {dignity}
+                      {report && dignity && (
+                        <>
+                          <View style={[
+                            styles.dignityBadge,
+                            { backgroundColor: getDignityColor(dignity) }
+                          ]}>
+                            <Text style={[styles.dignityText, { fontFamily: 'System' }]}>
+                              {dignity}
+                            </Text>
+                          </View>
+                          <Text style={[styles.scoreText, { color: colors.text, fontFamily: 'System' }]}>
+                            {formatDignityScore(report.score)}
                           </Text>
+                          <Text style={[styles.rulersText, { color: colors.textSecondary, fontFamily: 'System' }]}>
+                            Term {getPlanetById(report.termRuler).symbol} · Face {getPlanetById(report.faceRuler).symbol}
+                          </Text>
+                        </>
+                      )}
+                      {planetConditions && (
+                        <View style={styles.conditionBadges}>
+                          {getConditionBadges(planetConditions).map(badge => (
+                            <View
+                              key={badge.label}
+                              style={[styles.conditionBadge, { borderColor: badgeColors[badge.tone] }]}
+                            >
+                              <Text style={[styles.conditionText, { color: badgeColors[badge.tone], fontFamily: 'System' }]}>
+                                {badge.label}
+                              </Text>
+                            </View>
+                          ))}
                         </View>
                       )}
                     </>
@@ -140,11 +180,27 @@ const PlanetaryDignityChart = () => {
                     </Text>
                   )}
                 </View>
-              </View>
+              </TouchableOpacity>
             );
           })}
         </View>
       </ScrollView>
+      
+      {selectedPosition && (
+        <PlanetaryDignityModal
+          visible={!!selectedPosition}
+          onClose={() => setSelectedPosition(null)}
+          planetPosition={selectedPosition}
+          report={getReport(selectedPosition)}
+        />
+      )}
+      
+      <View style={styles.aspectsSection}>
+        <Text style={[styles.aspectsTitle, { color: colors.text, fontFamily: 'System' }]}>
+          Today's Aspects
+        </Text>
+        <AspectList />
+      </View>
     </Card>
   );
 };
@@ -161,6 +217,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  zodiacLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   infoButton: {
     width: 32,
     height: 32,
@@ -195,6 +255,7 @@ const styles = StyleSheet.create({
   },
   legendText: {
     fontSize: 12,
+    flexShrink: 1,
   },
   scrollView: {
     paddingBottom: 16,
@@ -236,11 +297,6 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: 4,
   },
-  retrogradeText: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    marginBottom: 4,
-  },
   dignityBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -251,11 +307,46 @@ const styles = StyleSheet.create({
     color: 'white',
     fontSize: 12,
     fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
+  scoreText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  rulersText: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  conditionBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 6,
+  },
+  conditionBadge: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    margin: 2,
+  },
+  conditionText: {
+    fontSize: 10,
   },
   loadingText: {
     fontSize: 14,
     fontStyle: 'italic',
   },
+  aspectsSection: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  aspectsTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
 });
 
 export default PlanetaryDignityChart;
\ No newline at end of file
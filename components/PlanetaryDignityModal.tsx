@@ -2,52 +2,43 @@ import React from 'react';
 import { StyleSheet, Text, View, Modal, TouchableOpacity, ScrollView } from 'react-native';
 import { X } from 'lucide-react-native';
 import { useTheme } from '@/components/ThemeProvider';
-import { PlanetPosition } from '@/types';
-import { getZodiacSymbol, getDignityDescription } from '@/constants/dignities';
+import { PlanetaryPosition } from '@/types';
+import { dignities, getZodiacSymbol, getDignityDescription } from '@/constants/dignities';
 import PlanetSymbol from '@/components/ui/PlanetSymbol';
 import { getPlanetById } from '@/constants/planets';
+import { formatDignityScore, getDignityColor, getPrimaryDignity } from '@/utils/dignities';
+import { getTriplicityRulers, type DignityKind, type DignityReport, type TriplicityRole } from '../shared/dignities';
 
 interface PlanetaryDignityModalProps {
   visible: boolean;
   onClose: () => void;
-  planetPosition: PlanetPosition;
-  dignity: string | null;
+  planetPosition: PlanetaryPosition;
+  report: DignityReport;
 }
 
+const triplicityRoles: TriplicityRole[] = ['day', 'night', 'participating'];
+
 const PlanetaryDignityModal: React.FC<PlanetaryDignityModalProps> = ({
   visible,
   onClose,
   planetPosition,
-  dignity,
+  report,
 }) => {
   const { colors } = useTheme();
   
   if (!planetPosition) return null;
   
-  const planet = getPlanetById(planetPosition.planetId);
+  const planet = getPlanetById(planetPosition.planet);
   const zodiacSymbol = getZodiacSymbol(planetPosition.sign);
+  const dignity = getPrimaryDignity(report);
+  const dignityColor = getDignityColor(dignity);
+  const triplicityRulers = getTriplicityRulers(report.sign);
   
-  // Get color based on dignity
-  const getDignityColor = (dignityType: string | null): string => {
-    if (!dignityType) return '#9E9E9E'; // Grey for null
-    
-    switch (dignityType) {
-      case 'Domicile':
-        return '#4CAF50'; // Green
-      case 'Exaltation':
-        return '#2196F3'; // Blue
-      case 'Detriment':
-        return '#FF9800'; // Orange
-      case 'Fall':
-        return '#F44336'; // Red
-      default:
-        return '#9E9E9E'; // Grey for peregrine
-    }
+  const rulerName = (planetId: DignityReport['termRuler']) => {
+    const ruler = getPlanetById(planetId);
+    return `${ruler.symbol} ${ruler.name}`;
   };
   
-  const dignityColor = getDignityColor(dignity);
-  const dignityDescription = dignity ? getDignityDescription(dignity) : 'No specific dignity in this sign.';
-  
   return (
     <Modal
       visible={visible}
@@ -70,7 +61,7 @@ const PlanetaryDignityModal: React.FC<PlanetaryDignityModalProps> = ({
             <View style={styles.planetInfo}>
               <View style={styles.planetSymbolContainer}>
                 <PlanetSymbol
-                  planetId={planetPosition.planetId}
+                  planetId={planetPosition.planet}
                   size={48}
                   color={planet.color}
                   variant="glowing"
@@ -100,13 +91,57 @@ const PlanetaryDignityModal: React.FC<PlanetaryDignityModalProps> = ({
             <View style={[styles.dignitySection, { borderColor: dignityColor }]}>
               <View style={[styles.dignityHeader, { backgroundColor: dignityColor }]}>
                 <Text style={[styles.dignityTitle, { fontFamily: 'System' }]}>
-                  {dignity ? dignity.toUpperCase() : 'PEREGRINE'}
+                  {dignity.toUpperCase()} · {formatDignityScore(report.score)}
                 </Text>
               </View>
               
               <Text style={[styles.dignityDescription, { color: colors.text, fontFamily: 'System' }]}>
-                {dignityDescription}
+                {getDignityDescription(dignity)}
               </Text>
+              
+              {report.factors.map(factor => (
+                <View key={factor.dignity} style={styles.factorRow}>
+                  <Text style={[styles.factorName, { color: colors.text, fontFamily: 'System' }]}>
+                    {dignities[factor.dignity].name}
+                  </Text>
+                  <Text style={[styles.factorPoints, { color: getDignityColor(factor.dignity), fontFamily: 'System' }]}>
+                    {formatDignityScore(factor.points)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+            
+            <View style={styles.rulersSection}>
+              <Text style={[styles.sectionTitle, { color: colors.text, fontFamily: 'System' }]}>
+                Rulers of this Degree
+              </Text>
+              
+              {triplicityRoles.map(role => (
+                <View key={role} style={styles.rulerRow}>
+                  <Text style={[styles.factorName, { color: colors.textSecondary, fontFamily: 'System' }]}>
+                    Triplicity ({role})
+                  </Text>
+                  <Text style={[styles.factorName, { color: colors.text, fontFamily: 'System' }]}>
+                    {rulerName(triplicityRulers[role])}
+                  </Text>
+                </View>
+              ))}
+              <View style={styles.rulerRow}>
+                <Text style={[styles.factorName, { color: colors.textSecondary, fontFamily: 'System' }]}>
+                  Term
+                </Text>
+                <Text style={[styles.factorName, { color: colors.text, fontFamily: 'System' }]}>
+                  {rulerName(report.termRuler)}
+                </Text>
+              </View>
+              <View style={styles.rulerRow}>
+                <Text style={[styles.factorName, { color: colors.textSecondary, fontFamily: 'System' }]}>
+                  Face
+                </Text>
+                <Text style={[styles.factorName, { color: colors.text, fontFamily: 'System' }]}>
+                  {rulerName(report.faceRuler)}
+                </Text>
+              </View>
             </View>
             
             <View style={styles.effectsSection}>
@@ -125,7 +160,7 @@ const PlanetaryDignityModal: React.FC<PlanetaryDignityModalProps> = ({
               </Text>
               
               <Text style={[styles.adviceText, { color: colors.text, fontFamily: 'System' }]}>
-                {getDignityAdvice(dignity, planetPosition.planetId)}
+                {getDignityAdvice(report.score, planetPosition.planet)}
               </Text>
             </View>
           </ScrollView>
@@ -136,31 +171,33 @@ const PlanetaryDignityModal: React.FC<PlanetaryDignityModalProps> = ({
 };
 
 // Helper function to get effects based on dignity
-const getDignityEffects = (dignity: string | null): string => {
-  if (!dignity) return 'When a planet is peregrine (without essential dignity), rituals will have a neutral effect, neither enhanced nor diminished.';
-  
+const getDignityEffects = (dignity: DignityKind): string => {
   switch (dignity) {
-    case 'Domicile':
+    case 'rulership':
       return 'Rituals performed when a planet is in rulership are significantly enhanced. The planet\'s energy flows naturally and powerfully, making this an ideal time for major workings.';
-    case 'Exaltation':
+    case 'exaltation':
       return 'When a planet is exalted, rituals receive a strong boost. The planet\'s energy is elevated and refined, making this excellent for spiritual and transformative work.';
-    case 'Detriment':
+    case 'triplicity':
+    case 'term':
+    case 'face':
+      return 'A planet with only minor dignity lends rituals modest support. Its energy is steady, though less forceful than in its own sign or exaltation.';
+    case 'detriment':
       return 'Rituals performed when a planet is in detriment may face challenges. The energy is less cooperative and may require more focus and preparation to achieve desired results.';
-    case 'Fall':
+    case 'fall':
       return 'When a planet is in fall, its energy is at its weakest. Rituals may require additional support, such as corresponding stones or herbs, to compensate for the diminished planetary influence.';
     default:
       return 'When a planet is peregrine (without essential dignity), rituals will have a neutral effect, neither enhanced nor diminished.';
   }
 };
 
-// Helper function to get advice based on dignity and planet
-const getDignityAdvice = (dignity: string | null, planetId: string): string => {
+// Helper function to get advice based on the dignity score and planet
+const getDignityAdvice = (score: number, planetId: string): string => {
   let baseAdvice = '';
   
-  if (!dignity || dignity === 'Peregrine') {
-    baseAdvice = 'Focus on the basics of the ritual without expecting extraordinary results. Use supporting correspondences to strengthen the working.';
-  } else if (dignity === 'Domicile' || dignity === 'Exaltation') {
+  if (score >= 4) {
     baseAdvice = 'This is an excellent time for rituals involving this planet. Take advantage of the enhanced energy by setting ambitious intentions.';
+  } else if (score > -4) {
+    baseAdvice = 'Focus on the basics of the ritual without expecting extraordinary results. Use supporting correspondences to strengthen the working.';
   } else {
     baseAdvice = 'Consider postponing major rituals if possible. If you must proceed, add extra protective measures and be thorough in your preparations.';
   }
@@ -270,6 +307,27 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 24,
   },
+  factorRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  factorName: {
+    fontSize: 15,
+  },
+  factorPoints: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  rulersSection: {
+    marginBottom: 20,
+  },
+  rulerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
   effectsSection: {
     marginBottom: 20,
   },
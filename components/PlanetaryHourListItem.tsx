@@ -7,9 +7,11 @@ import { getPlanetById } from '../constants/planets';
 
 interface PlanetaryHourListItemProps {
   hour: PlanetaryHour;
+  // The Moon is void of course for some of the hour
+  isVoidOfCourse?: boolean;
 }
 
-const PlanetaryHourListItem = ({ hour }: PlanetaryHourListItemProps) => {
+const PlanetaryHourListItem = ({ hour, isVoidOfCourse = false }: PlanetaryHourListItemProps) => {
   const { colors } = useTheme();
   
   // Get planet info
@@ -53,6 +55,11 @@ const PlanetaryHourListItem = ({ hour }: PlanetaryHourListItemProps) => {
           <Text style={[styles.timeText, { color: colors.textSecondary }]}>
             {formatHourTime(hour.startTime)} - {formatHourTime(hour.endTime)}
           </Text>
+          {isVoidOfCourse && (
+            <Text style={[styles.labelText, { color: colors.warning }]}>
+              Moon void
+            </Text>
+          )}
         </View>
       </View>
       
@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Text, View, Modal, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react-native';
+import { useTheme } from './ThemeProvider';
+import { getPlanetById } from '../constants/planets';
+import { longitudeToSign } from '../shared/astro';
+import type { ReturnKind } from '../shared/returns';
+import type { PlanetaryHoursOptions } from '../shared/planetaryHours';
+import { formatHourTime } from '../utils/planetaryHours';
+import {
+  getNextReturnPeriod,
+  getReturn,
+  getReturnRitualHour,
+  returnLabels,
+  shiftReturnPeriod,
+  type ReturnLocation,
+  type ReturnPeriod
+} from '../utils/returns';
+import { scheduleReturnRitualReminder } from '../services/reminderService';
+import type { AstrologicalChart } from '../types';
+
+interface ReturnSheetProps {
+  visible: boolean;
+  kind: ReturnKind;
+  chart: AstrologicalChart;
+  // Where the return chart is cast; the native's current place
+  location: ReturnLocation;
+  options?: PlanetaryHoursOptions;
+  userId?: string;
+  onClose: () => void;
+}
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatPeriod = (kind: ReturnKind, period: ReturnPeriod) =>
+  kind === 'solar'
+    ? String(period.year)
+    : new Date(period.year, (period.month ?? 1) - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+// The return chart for a year or month, with the nearest Sun or Moon hour for its ritual
+const ReturnSheet = ({ visible, kind, chart, location, options, userId, onClose }: ReturnSheetProps) => {
+  const { colors, isDark } = useTheme();
+  const [period, setPeriod] = useState<ReturnPeriod | null>(null);
+
+  // Start at the next return each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    try {
+      setPeriod(getNextReturnPeriod(chart, kind, location));
+    } catch (err) {
+      console.error('Error finding the next return:', err);
+      setPeriod(null);
+    }
+  }, [visible, kind, chart, location.latitude, location.longitude, location.timezone]);
+
+  const { planetReturn, ritualHour, error } = useMemo(() => {
+    if (!visible || !period) {
+      return { planetReturn: null, ritualHour: null, error: null };
+    }
+
+    try {
+      const planetReturn = getReturn(chart, kind, period, location);
+      return { planetReturn, ritualHour: getReturnRitualHour(planetReturn, location, options), error: null };
+    } catch (err) {
+      console.error('Error calculating return:', err);
+      return { planetReturn: null, ritualHour: null, error: err instanceof Error ? err.message : 'Failed to calculate the return' };
+    }
+  }, [visible, period, kind, chart, location.latitude, location.longitude, location.timezone, options?.sunriseDefinition, options?.elevation, options?.hourSystem]);
+
+  const planet = getPlanetById(kind === 'solar' ? 'sun' : 'moon');
+
+  const handleScheduleReminder = async () => {
+    if (!planetReturn || !ritualHour || !userId) return;
+
+    try {
+      const scheduled = await scheduleReturnRitualReminder(userId, planetReturn, ritualHour);
+      Alert.alert(
+        scheduled ? 'Ritual Scheduled' : 'Reminders Are Off',
+        scheduled
+          ? `You will be reminded at ${formatHourTime(ritualHour.start)} on ${formatDay(ritualHour.start)}.`
+          : 'Turn on calendar or push notification reminders in Settings to schedule rituals.'
+      );
+    } catch (err) {
+      console.error('Error scheduling ritual reminder:', err);
+      Alert.alert('Error', 'Failed to schedule the ritual reminder. Please try again.');
+    }
+  };
+
+  const ascendant = planetReturn ? longitudeToSign(planetReturn.chart.angles.ascendant) : null;
+  const midheaven = planetReturn ? longitudeToSign(planetReturn.chart.angles.midheaven) : null;
+  const canSchedule = !!userId && !!ritualHour && ritualHour.start > new Date();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={[
+          styles.sheet,
+          {
+            backgroundColor: isDark ? colors.card : colors.background,
+            borderColor: colors.border,
+          }
+        ]}>
+          <View style={styles.header}>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>{returnLabels[kind]}</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {period && (
+              <View style={styles.periodRow}>
+                <TouchableOpacity onPress={() => setPeriod(shiftReturnPeriod(kind, period, -1))} style={styles.periodButton}>
+                  <ChevronLeft size={20} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={[styles.periodText, { color: colors.text }]}>{formatPeriod(kind, period)}</Text>
+                <TouchableOpacity onPress={() => setPeriod(shiftReturnPeriod(kind, period, 1))} style={styles.periodButton}>
+                  <ChevronRight size={20} color={colors.text} />
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {error ? (
+              <Text style={[styles.emptyText, { color: colors.error || '#ff3b30' }]}>{error}</Text>
+            ) : planetReturn && ascendant && midheaven && (
+              <>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  {planet.symbol} {planet.name} returns to {Math.floor(longitudeToSign(planetReturn.natalLongitude).degreeInSign)}° {longitudeToSign(planetReturn.natalLongitude).sign}
+                </Text>
+                <Text style={[styles.returnTime, { color: colors.text }]}>
+                  {formatDay(planetReturn.date)} · {formatHourTime(planetReturn.date)}
+                </Text>
+
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Return chart</Text>
+                <View style={styles.row}>
+                  <Text style={[styles.rowLabel, { color: colors.text }]}>Ascendant</Text>
+                  <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                    {Math.floor(ascendant.degreeInSign)}° {ascendant.sign}
+                  </Text>
+                </View>
+                <View style={styles.row}>
+                  <Text style={[styles.rowLabel, { color: colors.text }]}>Midheaven</Text>
+                  <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                    {Math.floor(midheaven.degreeInSign)}° {midheaven.sign}
+                  </Text>
+                </View>
+                {planetReturn.chart.positions.map(position => (
+                  <View key={position.planet} style={styles.row}>
+                    <Text style={[styles.rowLabel, { color: colors.text }]}>
+                      {getPlanetById(position.planet).symbol} {getPlanetById(position.planet).name}
+                    </Text>
+                    <Text style={[styles.rowValue, { color: colors.textSecondary }]}>
+                      {Math.floor(position.degreeInSign)}° {position.sign}{position.isRetrograde ? ' ℞' : ''} · House {position.house}
+                    </Text>
+                  </View>
+                ))}
+
+                {ritualHour && (
+                  <>
+                    <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Ritual hour</Text>
+                    <Text style={[styles.returnTime, { color: colors.text }]}>
+                      {planet.name} hour · {formatDay(ritualHour.start)} · {formatHourTime(ritualHour.start)} – {formatHourTime(ritualHour.end)}
+                    </Text>
+                    <TouchableOpacity
+                      style={[styles.scheduleButton, { backgroundColor: canSchedule ? colors.primary : colors.border }]}
+                      onPress={handleScheduleReminder}
+                      disabled={!canSchedule}
+                    >
+                      <Text style={styles.scheduleButtonText}>Schedule Ritual Reminder</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+  },
+  header: {
+    padding: 16,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    fontFamily: 'System',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    padding: 4,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  periodButton: {
+    padding: 8,
+  },
+  periodText: {
+    fontSize: 16,
+    fontWeight: '600',
+    minWidth: 140,
+    textAlign: 'center',
+    fontFamily: 'System',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 8,
+    fontFamily: 'System',
+  },
+  returnTime: {
+    fontSize: 16,
+    fontFamily: 'System',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontFamily: 'System',
+  },
+  emptyText: {
+    fontSize: 14,
+    paddingVertical: 12,
+    fontFamily: 'System',
+  },
+  scheduleButton: {
+    marginTop: 16,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  scheduleButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'System',
+  },
+});
+
+export default ReturnSheet;
@@ -1,8 +1,9 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useColorScheme } from 'react-native';
 import { dayThemes } from '../constants/dayThemes';
-import { getPlanetaryDayRuler } from '../utils/planetaryHours';
-import { useSettingsStore } from '../stores/settingsStore';
+import { getPlanetaryDayRuler, getPlanetaryDayBounds } from '../utils/planetaryHours';
+import { useSettingsStore, getPlanetaryHoursOptions } from '../stores/settingsStore';
+import { useLocationStore } from '../stores/locationStore';
 import type { PlanetDay } from '../types';
 import type { DayTheme } from '../app/types/index';
 
@@ -93,6 +94,10 @@ export const useTheme = () => useContext(ThemeContext);
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const colorScheme = useColorScheme();
   const { settings } = useSettingsStore();
+  const { location } = useLocationStore();
+  const hoursOptions = getPlanetaryHoursOptions(settings);
+  // Bumped when the next planetary day begins to switch the day theme
+  const [dayBoundaryTick, setDayBoundaryTick] = useState(0);
   
   // Use system preference as initial value, but respect user settings if available
   const [isDark, setIsDark] = useState(() => {
@@ -105,7 +110,7 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   // Get current day's planetary ruler with error handling
   const [currentDayTheme, setCurrentDayTheme] = useState<DayTheme>(() => {
     try {
-      const planetId = asPlanetDay(getPlanetaryDayRuler());
+      const planetId = asPlanetDay(getPlanetaryDayRuler(new Date(), location, hoursOptions));
       
       // Ensure dayThemes is defined
       if (!dayThemes) {
@@ -215,18 +220,17 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   }, [settings]);
   
-  // Update day theme based on current day
+  // Update day theme based on the current planetary day, which begins at sunrise
   useEffect(() => {
+    const now = new Date();
+    
     try {
-      const planetId = getPlanetaryDayRuler() as PlanetDay;
+      const planetId = getPlanetaryDayRuler(now, location, hoursOptions) as PlanetDay;
       
       // Ensure dayThemes is defined and has the planetId as a key
       if (!dayThemes) {
         console.error('dayThemes is undefined');
-        return; // Don't update if dayThemes is undefined
-      }
-      
-      if (planetId) {
+      } else if (planetId) {
         // Access dayThemes by key directly, not using find()
         const theme = dayThemes[planetId];
         if (theme) {
@@ -243,7 +247,19 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     } catch (error) {
       console.error('Error setting day theme:', error);
     }
-  }, []);
+    
+    // Switch the theme again when the next planetary day begins
+    const { end } = getPlanetaryDayBounds(now, location, hoursOptions);
+    const timeout = setTimeout(() => setDayBoundaryTick(tick => tick + 1), end.getTime() - now.getTime());
+    return () => clearTimeout(timeout);
+  }, [
+    location?.latitude,
+    location?.longitude,
+    hoursOptions.sunriseDefinition,
+    hoursOptions.elevation,
+    hoursOptions.hourSystem,
+    dayBoundaryTick
+  ]);
   
   const toggleTheme = () => {
     setIsDark(!isDark);
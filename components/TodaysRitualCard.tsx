@@ -5,6 +5,9 @@ import { useTheme } from '@/components/ThemeProvider';
 import Card from '@/components/ui/Card';
 import PlanetSymbol from '@/components/ui/PlanetSymbol';
 import { useRitualStore } from '@/stores/ritualStore';
+import { useLocationStore } from '@/stores/locationStore';
+import { useSettingsStore, getPlanetaryHoursOptions } from '@/stores/settingsStore';
+import { getPlanetaryDayBounds } from '@/utils/planetaryHours';
 
 // Define the Planet interface locally
 interface Planet {
@@ -34,16 +37,17 @@ const TodaysRitualCard = ({ planet, planetPosition }: TodaysRitualCardProps) =>
   const router = useRouter();
   const { colors, currentDayTheme } = useTheme();
   const { completedRituals } = useRitualStore();
+  const { location } = useLocationStore();
+  const { settings } = useSettingsStore();
   
-  // Check if this ritual has been completed today
+  // Check if this ritual has been completed during the current planetary day (sunrise to sunrise)
+  const planetaryDay = getPlanetaryDayBounds(new Date(), location, getPlanetaryHoursOptions(settings));
   const isCompletedToday = completedRituals?.some(ritual => {
     const ritualDate = new Date(ritual.completedAt);
-    const today = new Date();
     return (
       ritual.ritualId === planet.id &&
-      ritualDate.getDate() === today.getDate() &&
-      ritualDate.getMonth() === today.getMonth() &&
-      ritualDate.getFullYear() === today.getFullYear()
+      ritualDate >= planetaryDay.start &&
+      ritualDate < planetaryDay.end
     );
   });
   
@@ -33,6 +33,24 @@ export const dignities: Record<string, Dignity> = {
     effect: 'The planet is weakened and diminished',
     color: '#F44336' // Red
   },
+  triplicity: {
+    name: 'Triplicity',
+    description: 'A planet ruling the element of its sign for the sect of the chart',
+    effect: 'The planet is supported, like a guest among friends',
+    color: '#8BC34A' // Light green
+  },
+  term: {
+    name: 'Term',
+    description: 'A planet in the degrees of a sign that it rules as term lord',
+    effect: 'The planet has a modest share of dignity',
+    color: '#00BCD4' // Cyan
+  },
+  face: {
+    name: 'Face',
+    description: 'A planet ruling the decan it occupies',
+    effect: 'The planet has the least dignity, enough to keep up appearances',
+    color: '#9C27B0' // Purple
+  },
   peregrine: {
     name: 'Peregrine',
     description: 'A planet in a sign where it has no essential dignity',
@@ -63,80 +81,6 @@ export const getZodiacSymbol = (signName: string): string => {
   return sign ? sign.symbol : '';
 };
 
-// Planetary dignities chart
-// Which planet rules which sign
-export const dignityChart = {
-  sun: {
-    rulership: ['Leo'],
-    exaltation: ['Aries'],
-    detriment: ['Aquarius'],
-    fall: ['Libra']
-  },
-  moon: {
-    rulership: ['Cancer'],
-    exaltation: ['Taurus'],
-    detriment: ['Capricorn'],
-    fall: ['Scorpio']
-  },
-  mercury: {
-    rulership: ['Gemini', 'Virgo'],
-    exaltation: ['Virgo'], // Added Virgo as exaltation for Mercury
-    detriment: ['Sagittarius', 'Pisces'],
-    fall: ['Pisces'] // Added Pisces as fall for Mercury
-  },
-  venus: {
-    rulership: ['Taurus', 'Libra'],
-    exaltation: ['Pisces'],
-    detriment: ['Scorpio', 'Aries'],
-    fall: ['Virgo']
-  },
-  mars: {
-    rulership: ['Aries', 'Scorpio'],
-    exaltation: ['Capricorn'],
-    detriment: ['Libra', 'Taurus'],
-    fall: ['Cancer']
-  },
-  jupiter: {
-    rulership: ['Sagittarius', 'Pisces'],
-    exaltation: ['Cancer'],
-    detriment: ['Gemini', 'Virgo'],
-    fall: ['Capricorn']
-  },
-  saturn: {
-    rulership: ['Capricorn', 'Aquarius'],
-    exaltation: ['Libra'],
-    detriment: ['Cancer', 'Leo'],
-    fall: ['Aries']
-  }
-};
-
-// Get the dignity of a planet in a sign
-export const getDignity = (planet: string, sign: string): string => {
-  if (!planet || !sign || !dignityChart[planet]) {
-    return 'peregrine';
-  }
-  
-  const lowerSign = sign.toLowerCase();
-  
-  if (dignityChart[planet].rulership.some(s => s.toLowerCase() === lowerSign)) {
-    return 'rulership';
-  }
-  
-  if (dignityChart[planet].exaltation.some(s => s.toLowerCase() === lowerSign)) {
-    return 'exaltation';
-  }
-  
-  if (dignityChart[planet].detriment.some(s => s.toLowerCase() === lowerSign)) {
-    return 'detriment';
-  }
-  
-  if (dignityChart[planet].fall.some(s => s.toLowerCase() === lowerSign)) {
-    return 'fall';
-  }
-  
-  return 'peregrine';
-};
-
 // Get description for a dignity type
 export const getDignityDescription = (dignityType: string): string => {
   const type = dignityType.toLowerCase();
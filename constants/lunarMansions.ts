@@ -0,0 +1,241 @@
+// The 28 lunar mansions (manazil al-qamar)
+// Each spans 12°51′ of the zodiac from 0° Aries; uses follow Agrippa's Three Books of Occult Philosophy
+
+export type MansionNature = 'favourable' | 'unfavourable' | 'mixed';
+
+export interface LunarMansionInfo {
+  number: number;
+  name: string;
+  meaning: string;
+  range: string;
+  nature: MansionNature;
+  uses: string;
+}
+
+// Array of mansions, in zodiacal order
+export const lunarMansions: LunarMansionInfo[] = [
+  {
+    number: 1,
+    name: 'Al Sharatain',
+    meaning: 'The Two Signs',
+    range: '0°00′ Aries – 12°51′ Aries',
+    nature: 'unfavourable',
+    uses: 'Causes discord and journeys.'
+  },
+  {
+    number: 2,
+    name: 'Al Butain',
+    meaning: 'The Little Belly',
+    range: '12°51′ Aries – 25°43′ Aries',
+    nature: 'mixed',
+    uses: 'Finding treasures and retaining captives.'
+  },
+  {
+    number: 3,
+    name: 'Al Thurayya',
+    meaning: 'The Pleiades',
+    range: '25°43′ Aries – 8°34′ Taurus',
+    nature: 'favourable',
+    uses: 'Good fortune for sailors, hunters and alchemists.'
+  },
+  {
+    number: 4,
+    name: 'Al Dabaran',
+    meaning: 'The Follower',
+    range: '8°34′ Taurus – 21°26′ Taurus',
+    nature: 'unfavourable',
+    uses: 'Destruction and hindrance of buildings, fountains and wells; causes discord.'
+  },
+  {
+    number: 5,
+    name: "Al Haq'ah",
+    meaning: 'The White Spot',
+    range: '21°26′ Taurus – 4°17′ Gemini',
+    nature: 'favourable',
+    uses: 'Favour of kings and officers, safe return from journeys, and learning.'
+  },
+  {
+    number: 6,
+    name: "Al Han'ah",
+    meaning: 'The Brand Mark',
+    range: '4°17′ Gemini – 17°09′ Gemini',
+    nature: 'mixed',
+    uses: 'Love between two, hunting, and revenge on enemies.'
+  },
+  {
+    number: 7,
+    name: 'Al Dhira',
+    meaning: 'The Forearm',
+    range: '17°09′ Gemini – 0°00′ Cancer',
+    nature: 'favourable',
+    uses: 'Gain and friendship; good for lovers.'
+  },
+  {
+    number: 8,
+    name: 'Al Nathrah',
+    meaning: 'The Gap',
+    range: '0°00′ Cancer – 12°51′ Cancer',
+    nature: 'favourable',
+    uses: "Love, friendship and travellers' company; drives away mice and bugs."
+  },
+  {
+    number: 9,
+    name: 'Al Tarf',
+    meaning: 'The Glance',
+    range: '12°51′ Cancer – 25°43′ Cancer',
+    nature: 'unfavourable',
+    uses: 'Hinders harvests and travellers; causes discord.'
+  },
+  {
+    number: 10,
+    name: 'Al Jabhah',
+    meaning: 'The Forehead',
+    range: '25°43′ Cancer – 8°34′ Leo',
+    nature: 'favourable',
+    uses: 'Strengthens buildings, brings love and goodwill, and helps against enemies.'
+  },
+  {
+    number: 11,
+    name: 'Al Zubrah',
+    meaning: 'The Mane',
+    range: '8°34′ Leo – 21°26′ Leo',
+    nature: 'favourable',
+    uses: 'Voyages, gain through merchandise, and the redemption of captives.'
+  },
+  {
+    number: 12,
+    name: 'Al Sarfah',
+    meaning: 'The Changer',
+    range: '21°26′ Leo – 4°17′ Virgo',
+    nature: 'mixed',
+    uses: 'Prospers harvests and plantations; hinders sailors.'
+  },
+  {
+    number: 13,
+    name: 'Al Awwa',
+    meaning: 'The Barker',
+    range: '4°17′ Virgo – 17°09′ Virgo',
+    nature: 'favourable',
+    uses: 'Benevolence, gain, voyages, harvests and the freeing of captives.'
+  },
+  {
+    number: 14,
+    name: 'Al Simak',
+    meaning: 'The Unarmed',
+    range: '17°09′ Virgo – 0°00′ Libra',
+    nature: 'mixed',
+    uses: 'Love between married people and curing the sick; hinders journeys by land.'
+  },
+  {
+    number: 15,
+    name: 'Al Ghafr',
+    meaning: 'The Covering',
+    range: '0°00′ Libra – 12°51′ Libra',
+    nature: 'mixed',
+    uses: 'Finding treasure and digging pits; divorce, discord and the destruction of enemies.'
+  },
+  {
+    number: 16,
+    name: 'Al Zubana',
+    meaning: 'The Claws',
+    range: '12°51′ Libra – 25°43′ Libra',
+    nature: 'unfavourable',
+    uses: 'Hinders journeys, wedlock, harvests and merchandise.'
+  },
+  {
+    number: 17,
+    name: 'Al Iklil',
+    meaning: 'The Crown',
+    range: '25°43′ Libra – 8°34′ Scorpio',
+    nature: 'favourable',
+    uses: 'Betters ill fortune, makes love durable, strengthens buildings and helps sailors.'
+  },
+  {
+    number: 18,
+    name: 'Al Qalb',
+    meaning: 'The Heart',
+    range: '8°34′ Scorpio – 21°26′ Scorpio',
+    nature: 'mixed',
+    uses: 'Discord, sedition and revenge; strengthens buildings and frees captives.'
+  },
+  {
+    number: 19,
+    name: 'Al Shaulah',
+    meaning: 'The Sting',
+    range: '21°26′ Scorpio – 4°17′ Sagittarius',
+    nature: 'unfavourable',
+    uses: 'Besieging cities, driving men from their places, and the destruction of sailors.'
+  },
+  {
+    number: 20,
+    name: "Al Na'am",
+    meaning: 'The Ostriches',
+    range: '4°17′ Sagittarius – 17°09′ Sagittarius',
+    nature: 'mixed',
+    uses: 'Taming wild beasts and strengthening prisons; destroys the wealth of companions.'
+  },
+  {
+    number: 21,
+    name: 'Al Baldah',
+    meaning: 'The City',
+    range: '17°09′ Sagittarius – 0°00′ Capricorn',
+    nature: 'mixed',
+    uses: 'Harvests, gain, buildings and travellers; causes divorce.'
+  },
+  {
+    number: 22,
+    name: "Sa'd al Dhabih",
+    meaning: 'Luck of the Slaughterer',
+    range: '0°00′ Capricorn – 12°51′ Capricorn',
+    nature: 'mixed',
+    uses: 'The flight of servants and captives, and the curing of diseases.'
+  },
+  {
+    number: 23,
+    name: "Sa'd Bula",
+    meaning: 'Luck of the Swallower',
+    range: '12°51′ Capricorn – 25°43′ Capricorn',
+    nature: 'mixed',
+    uses: 'Destruction and wasting, divorce, liberty of captives and healing of the sick.'
+  },
+  {
+    number: 24,
+    name: "Sa'd al Su'ud",
+    meaning: 'Luck of Lucks',
+    range: '25°43′ Capricorn – 8°34′ Aquarius',
+    nature: 'favourable',
+    uses: 'Goodwill between married people and victory for soldiers.'
+  },
+  {
+    number: 25,
+    name: "Sa'd al Akhbiyah",
+    meaning: 'Luck of the Tents',
+    range: '8°34′ Aquarius – 21°26′ Aquarius',
+    nature: 'mixed',
+    uses: 'Revenge, besieging and imprisonment; speeds messengers and spies.'
+  },
+  {
+    number: 26,
+    name: 'Al Fargh al Muqaddam',
+    meaning: 'The First Spout',
+    range: '21°26′ Aquarius – 4°17′ Pisces',
+    nature: 'favourable',
+    uses: 'Union and love between people; destroys prisons and buildings.'
+  },
+  {
+    number: 27,
+    name: "Al Fargh al Mu'akhkhar",
+    meaning: 'The Second Spout',
+    range: '4°17′ Pisces – 17°09′ Pisces',
+    nature: 'mixed',
+    uses: 'Increases harvests and gain and heals infirmities; endangers sailors.'
+  },
+  {
+    number: 28,
+    name: 'Batn al Hut',
+    meaning: 'Belly of the Fish',
+    range: '17°09′ Pisces – 0°00′ Aries',
+    nature: 'favourable',
+    uses: 'Increases harvests and merchandise, brings travellers safely through danger and joy to married people.'
+  }
+];
@@ -1,5 +1,6 @@
 import { colors } from './colors';
 import { Planet, PlanetDay } from '../types';
+import type { ExtraBodyId } from '../shared/bodies';
 
 // Ensure the planets array is properly initialized
 export const planets: Planet[] = [
@@ -139,6 +140,18 @@ export const getPlanetById = (id: PlanetDay): Planet => {
   }
 };
 
+// Bodies charts can show besides the seven planets; they rule no days or hours
+export const extraBodyLabels: Record<ExtraBodyId, { name: string; symbol: string }> = {
+  uranus: { name: 'Uranus', symbol: '♅' },
+  neptune: { name: 'Neptune', symbol: '♆' },
+  pluto: { name: 'Pluto', symbol: '♇' },
+  'mean-node': { name: 'North Node', symbol: '☊' },
+  'true-node': { name: 'True Node', symbol: '☊' },
+  'mean-south-node': { name: 'South Node', symbol: '☋' },
+  'true-south-node': { name: 'True South Node', symbol: '☋' },
+  'part-of-fortune': { name: 'Part of Fortune', symbol: '⊗' }
+};
+
 // Chaldean order of planets for planetary hours
 export const chaldeanOrder: PlanetDay[] = [
   'saturn', 'jupiter', 'mars', 'sun', 'venus', 'mercury', 'moon'
@@ -3,6 +3,15 @@ import path from "node:path";
 
 const nextConfig: NextConfig = {
   outputFileTracingRoot: path.join(__dirname),
+  experimental: {
+    // The planetary engines live in ../shared and are compiled as part of this app.
+    externalDir: true,
+  },
+  webpack: (config) => {
+    // Resolve bare imports from ../shared against this app's node_modules.
+    config.resolve.modules = [...(config.resolve.modules ?? ["node_modules"]), path.join(__dirname, "node_modules")];
+    return config;
+  },
 };
 
 export default nextConfig;
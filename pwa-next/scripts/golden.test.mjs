@@ -97,6 +97,18 @@ const GOLDEN = {
       hour24EndUtc: '2025-01-02T14:51:51.824Z',
     },
   },
+  // Polar night in Tromsø: the Sun does not rise, so the default fallback must kick in.
+  polarHours: {
+    date: '2025-12-21',
+    tz: 'Europe/Oslo',
+    lat: 69.6496,
+    lon: 18.956,
+    expected: {
+      mode: 'nearest-latitude',
+      effectiveLatitude: 67,
+      dayRuler: 'sun',
+    },
+  },
 };
 
 async function run() {
@@ -187,6 +199,317 @@ async function run() {
       );
     }
 
+    // ---- /api/planetary-hours (polar fallback)
+    const polar = await fetchJson(
+      `${BASE}/api/planetary-hours?date=${encodeURIComponent(GOLDEN.polarHours.date)}&tz=${encodeURIComponent(
+        GOLDEN.polarHours.tz
+      )}&lat=${encodeURIComponent(String(GOLDEN.polarHours.lat))}&lon=${encodeURIComponent(
+        String(GOLDEN.polarHours.lon)
+      )}`
+    );
+
+    assert(polar.mode === GOLDEN.polarHours.expected.mode, 'polarHours.mode mismatch');
+    assert(
+      polar.effectiveLatitude === GOLDEN.polarHours.expected.effectiveLatitude,
+      'polarHours.effectiveLatitude mismatch'
+    );
+    assert(polar.dayRuler === GOLDEN.polarHours.expected.dayRuler, 'polarHours.dayRuler mismatch');
+    assert(Array.isArray(polar.hours) && polar.hours.length === 24, 'polar hours must be length 24');
+    for (let i = 0; i < 23; i++) {
+      assert(
+        polar.hours[i].endUtc === polar.hours[i + 1].startUtc,
+        `Polar hour boundary mismatch: ${i + 1} endUtc != ${i + 2} startUtc`
+      );
+    }
+
+    // ---- /api/planetary-hours/range
+    const range = await fetchJson(
+      `${BASE}/api/planetary-hours/range?start=2024-12-31&end=2025-01-02&tz=${encodeURIComponent(
+        GOLDEN.planetaryHours.tz
+      )}&lat=${encodeURIComponent(String(GOLDEN.planetaryHours.lat))}&lon=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lon)
+      )}`
+    );
+
+    assert(Array.isArray(range.days) && range.days.length === 3, 'range.days must be length 3');
+    assert(
+      range.days.map((d) => d.date).join(',') === '2024-12-31,2025-01-01,2025-01-02',
+      'range dates mismatch'
+    );
+    const rangeDay = range.days[1];
+    assert(rangeDay.sunriseUtc === GOLDEN.planetaryHours.expected.sunriseUtc, 'range sunriseUtc mismatch');
+    assert(rangeDay.sunsetUtc === GOLDEN.planetaryHours.expected.sunsetUtc, 'range sunsetUtc mismatch');
+    assert(rangeDay.hours[0].endUtc === GOLDEN.planetaryHours.expected.hour1.endUtc, 'range hour1.endUtc mismatch');
+
+    const tooLong = await fetch(
+      `${BASE}/api/planetary-hours/range?start=2025-01-01&end=2025-03-05&lat=0&lon=0`
+    );
+    assert(tooLong.status === 400, `range over the day limit must be rejected (got ${tooLong.status})`);
+
+    // ---- /api/planetary-hours/next
+    const next = await fetchJson(
+      `${BASE}/api/planetary-hours/next?from=${encodeURIComponent('2025-01-01T08:00:00')}&tz=${encodeURIComponent(
+        GOLDEN.planetaryHours.tz
+      )}&lat=${encodeURIComponent(String(GOLDEN.planetaryHours.lat))}&lon=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lon)
+      )}&ruler=jupiter&dayRuler=jupiter&period=day&count=2`
+    );
+
+    assert(Array.isArray(next.matches) && next.matches.length === 2, 'next.matches must be length 2');
+    assert(
+      next.matches.every((m) => m.date === '2025-01-02' && m.ruler === 'jupiter' && m.isDay),
+      'next matches must be daylight Jupiter hours on Thursday 2025-01-02'
+    );
+    assert(
+      next.matches.map((m) => m.index).join(',') === '1,8',
+      'next matches must be hours 1 and 8'
+    );
+
+    // Venus hours with the Moon in Al Fargh al Muqaddam (mansion 26) two days later
+    const mansionHours = await fetchJson(
+      `${BASE}/api/planetary-hours/next?from=${encodeURIComponent('2025-01-01T08:00:00')}&tz=${encodeURIComponent(
+        GOLDEN.planetaryHours.tz
+      )}&lat=${encodeURIComponent(String(GOLDEN.planetaryHours.lat))}&lon=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lon)
+      )}&ruler=venus&mansion=26&count=2`
+    );
+
+    assert(
+      mansionHours.matches?.map((m) => `${m.date}/${m.index}`).join(',') === '2025-01-02/18,2025-01-03/1',
+      'mansion matches must be the Venus hours 18 on 2025-01-02 and 1 on 2025-01-03'
+    );
+
+    // The same mansion counted sidereally is reached a day or so later
+    const siderealMansionHours = await fetchJson(
+      `${BASE}/api/planetary-hours/next?from=${encodeURIComponent('2025-01-01T08:00:00')}&tz=${encodeURIComponent(
+        GOLDEN.planetaryHours.tz
+      )}&lat=${encodeURIComponent(String(GOLDEN.planetaryHours.lat))}&lon=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lon)
+      )}&ruler=venus&mansion=26&count=2&zodiac=lahiri`
+    );
+    assert(siderealMansionHours.zodiac === 'lahiri', 'sidereal mansion search must echo its zodiac');
+    assert(
+      siderealMansionHours.matches?.[0]?.startUtc > mansionHours.matches[0].startUtc,
+      'sidereal mansion 26 must come after tropical mansion 26'
+    );
+
+    const badMansion = await fetch(`${BASE}/api/planetary-hours/next?lat=0&lon=0&mansion=29`);
+    assert(badMansion.status === 400, `mansion 29 must be rejected (got ${badMansion.status})`);
+
+    // ---- /api/moon
+    const moon = await fetchJson(`${BASE}/api/moon?timestamp=${encodeURIComponent(GOLDEN.positions.timestampUtc)}`);
+
+    // A day after the Dec 30 new moon the elongation is still inside the `new` sector.
+    assert(moon.moon?.phase === 'new', 'moon phase at 2025-01-01 must be new');
+    assert(
+      moon.nextPhases?.map((p) => p.phase).join(',') === 'first quarter,full,last quarter,new',
+      'moon.nextPhases must start with the first quarter'
+    );
+    assertClose(
+      new Date(moon.nextPhases[1].dateUtc).getTime(),
+      Date.parse('2025-01-13T22:27:00Z'),
+      5 * 60 * 1000,
+      'moon full moon instant'
+    );
+    assert(moon.fullMoons?.[0]?.name === 'Wolf Moon', 'first full moon of 2025 must be the Wolf Moon');
+
+    // ---- /api/events
+    const events = await fetchJson(`${BASE}/api/events?start=2025-01-01&end=2025-01-31`);
+
+    assert(Array.isArray(events.events) && events.events.length > 0, 'events.events must not be empty');
+    const sunIngress = events.events.find((e) => e.type === 'ingress' && e.planet === 'sun');
+    assert(sunIngress?.sign === 'Aquarius', 'Sun must enter Aquarius in January 2025');
+    assertClose(Date.parse(sunIngress.dateUtc), Date.parse('2025-01-19T20:00:00Z'), 10 * 60 * 1000, 'Sun ingress instant');
+    assert(
+      events.events.some((e) => e.type === 'opposition' && e.planet === 'mars'),
+      'Sun opposite Mars must be found in January 2025'
+    );
+
+    const tooLongEvents = await fetch(`${BASE}/api/events?start=2025-01-01&end=2026-01-02`);
+    assert(tooLongEvents.status === 400, 'events range over 366 days must be rejected');
+
+    // ---- /api/void-of-course
+    const voidOfCourse = await fetchJson(`${BASE}/api/void-of-course?start=2025-01-01&end=2025-01-03&tz=America%2FNew_York`);
+    const firstVoid = voidOfCourse.periods?.[0];
+
+    assert(firstVoid?.sign === 'Capricorn' && firstVoid.nextSign === 'Aquarius', 'first void period must end at the Aquarius ingress');
+    assert(firstVoid.lastAspect?.planet === 'saturn' && firstVoid.lastAspect.type === 'sextile', 'last aspect must be the Saturn sextile');
+    assertClose(Date.parse(firstVoid.startUtc), Date.parse('2024-12-31T07:03:00Z'), 2 * 60 * 1000, 'void start');
+    assertClose(Date.parse(firstVoid.endUtc), Date.parse('2025-01-01T10:50:00Z'), 2 * 60 * 1000, 'void end');
+
+    // ---- /api/risings
+    const { tz: risingsTz, lat: risingsLat, lon: risingsLon } = GOLDEN.planetaryHours;
+    const risings = await fetchJson(
+      `${BASE}/api/risings?date=2025-01-01&tz=${encodeURIComponent(risingsTz)}&lat=${risingsLat}&lon=${risingsLon}&timestamp=2025-01-01T19:00:00.000Z`
+    );
+    const risingsByPlanet = Object.fromEntries((risings.planets ?? []).map((p) => [p.planet, p]));
+
+    assert(risings.planets?.length === 7, 'risings must cover the Sun, Moon and five planets');
+    assertClose(Date.parse(risingsByPlanet.sun.riseUtc), Date.parse('2025-01-01T14:51:47Z'), 60 * 1000, 'sunrise');
+    assertClose(Date.parse(risingsByPlanet.sun.culminationUtc), Date.parse('2025-01-01T19:31:23Z'), 60 * 1000, 'Sun culmination');
+    assertClose(Date.parse(risingsByPlanet.sun.setUtc), Date.parse('2025-01-02T00:11:08Z'), 60 * 1000, 'sunset');
+    assertClose(Date.parse(risingsByPlanet.moon.riseUtc), Date.parse('2025-01-01T16:36:49Z'), 60 * 1000, 'moonrise');
+    assert(risingsByPlanet.sun.isAboveHorizon && risingsByPlanet.venus.isAboveHorizon, 'Sun and Venus must be up at noon');
+    assert(!risingsByPlanet.mars.isAboveHorizon && risingsByPlanet.mars.altitude < 0, 'Mars must be below the horizon at noon');
+
+    const invalidRisingsDate = await fetch(`${BASE}/api/risings?date=2025-13-01&lat=${risingsLat}&lon=${risingsLon}`);
+    assert(invalidRisingsDate.status === 400, 'invalid risings date must be rejected');
+
+    // ---- /api/aspects
+    const aspects = await fetchJson(`${BASE}/api/aspects?timestamp=${encodeURIComponent(GOLDEN.positions.timestampUtc)}`);
+
+    const jupiterSaturn = aspects.aspects?.find((a) => a.planet1 === 'jupiter' && a.planet2 === 'saturn');
+    assert(jupiterSaturn?.type === 'square', 'Jupiter must square Saturn at 2025-01-01');
+    assertClose(jupiterSaturn.orb, 1.3076, 0.01, 'Jupiter square Saturn orb');
+    assert(jupiterSaturn.applying === false, 'Jupiter square Saturn must be separating');
+    assert(
+      aspects.aspects.every((a, i) => i === 0 || a.orb >= aspects.aspects[i - 1].orb),
+      'aspects must be sorted by orb'
+    );
+
+    // ---- /api/positions?include=conditions
+    const conditions = await fetchJson(
+      `${BASE}/api/positions?timestamp=${encodeURIComponent(GOLDEN.positions.timestampUtc)}&include=conditions&lat=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lat)
+      )}&lon=${encodeURIComponent(String(GOLDEN.planetaryHours.lon))}`
+    );
+    const conditionsOf = (planet) => conditions.positions.find((p) => p.planet === planet)?.conditions;
+
+    assert(conditionsOf('moon')?.solarPhase === 'under the beams', 'Moon must be under the beams at 2025-01-01');
+    assert(conditionsOf('mercury')?.orientation === 'oriental', 'Mercury must be oriental at 2025-01-01');
+    assert(conditionsOf('mars')?.isRetrograde === true && conditionsOf('mars')?.isFast === false, 'Mars must be retrograde and slow');
+    assert(conditionsOf('sun')?.house === 7 && conditionsOf('sun')?.angularity === 'angular', 'Sun must be setting in the 7th house');
+
+    // ---- /api/positions?zodiac=
+    const sidereal = await fetchJson(
+      `${BASE}/api/positions?timestamp=${encodeURIComponent(GOLDEN.positions.timestampUtc)}&zodiac=lahiri`
+    );
+    const siderealMars = sidereal.positions?.find((p) => p.planet === 'mars');
+
+    assertClose(sidereal.ayanamsa, 24.2063, 0.001, 'Lahiri ayanamsa at 2025-01-01');
+    assert(siderealMars?.sign === 'Cancer', 'sidereal Mars must be in Cancer at 2025-01-01');
+    assertClose(siderealMars.degreeInSign, 7.711, 0.01, 'sidereal Mars degreeInSign');
+
+    const custom = await fetchJson(
+      `${BASE}/api/positions?timestamp=${encodeURIComponent(GOLDEN.positions.timestampUtc)}&zodiac=custom&ayanamsa=20`
+    );
+    assertClose(
+      custom.positions?.find((p) => p.planet === 'mars')?.longitude,
+      121.9173 - 20,
+      0.001,
+      'custom zodiac Mars longitude'
+    );
+
+    const missingAyanamsa = await fetch(`${BASE}/api/positions?zodiac=custom`);
+    assert(missingAyanamsa.status === 400, `custom zodiac without ayanamsa must be rejected (got ${missingAyanamsa.status})`);
+
+    // ---- /api/positions?bodies=
+    const withBodies = await fetchJson(
+      `${BASE}/api/positions?timestamp=${encodeURIComponent(
+        GOLDEN.positions.timestampUtc
+      )}&bodies=uranus,mean-node,true-south-node,part-of-fortune&lat=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lat)
+      )}&lon=${encodeURIComponent(String(GOLDEN.planetaryHours.lon))}`
+    );
+    const bodyOf = (planet) => withBodies.positions?.find((p) => p.planet === planet);
+
+    assert(withBodies.positions?.length === 11, 'positions with 4 extra bodies must be length 11');
+    assert(bodyOf('uranus')?.sign === 'Taurus' && bodyOf('uranus')?.isRetrograde, 'Uranus must be retrograde in Taurus');
+    assertClose(bodyOf('mean-node')?.longitude, 1.497, 0.01, 'mean node longitude');
+    assertClose(bodyOf('true-south-node')?.longitude, 180.874, 0.05, 'true south node longitude');
+    assertClose(bodyOf('part-of-fortune')?.longitude, 112.808, 0.05, 'Part of Fortune longitude');
+
+    const fortuneWithoutPlace = await fetch(`${BASE}/api/positions?bodies=part-of-fortune`);
+    assert(fortuneWithoutPlace.status === 400, `Part of Fortune without lat/lon must be rejected (got ${fortuneWithoutPlace.status})`);
+
+    // ---- /api/eclipses
+    const eclipses = await fetchJson(
+      `${BASE}/api/eclipses?start=2025-01-01&end=2025-12-31&tz=${encodeURIComponent(GOLDEN.planetaryHours.tz)}&lat=${
+        GOLDEN.planetaryHours.lat
+      }&lon=${GOLDEN.planetaryHours.lon}`
+    );
+
+    assert(
+      eclipses.eclipses?.map((e) => `${e.kind}:${e.type}`).join(',') ===
+        'lunar:total,solar:partial,lunar:total,solar:partial',
+      'the eclipses of 2025 must be two total lunar and two partial solar eclipses'
+    );
+    const [bloodMoon, marchSolar] = eclipses.eclipses;
+    assertClose(Date.parse(bloodMoon.peakUtc), Date.parse('2025-03-14T06:58:43Z'), 2 * 60 * 1000, 'March lunar eclipse peak');
+    assertClose(bloodMoon.magnitude, 1.18, 0.02, 'March lunar eclipse umbral magnitude');
+    assert(bloodMoon.sign === 'Virgo', 'March lunar eclipse must fall in Virgo');
+    assert(bloodMoon.local?.visible === true, 'March lunar eclipse must be visible from Salt Lake City');
+    assertClose(marchSolar.magnitude, 0.938, 0.01, 'March solar eclipse magnitude');
+    assert(marchSolar.sign === 'Aries' && marchSolar.local === null, 'March solar eclipse must miss Salt Lake City');
+
+    const invalidEclipseKind = await fetch(`${BASE}/api/eclipses?start=2025-01-01&end=2025-12-31&kind=annular`);
+    assert(invalidEclipseKind.status === 400, 'invalid eclipse kind must be rejected');
+
+    // ---- /api/election
+    const election = await fetchJson(
+      `${BASE}/api/election?planet=venus&from=${encodeURIComponent('2025-01-01T08:00:00')}&tz=${encodeURIComponent(
+        GOLDEN.planetaryHours.tz
+      )}&lat=${encodeURIComponent(String(GOLDEN.planetaryHours.lat))}&lon=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lon)
+      )}`
+    );
+
+    assert(Array.isArray(election.windows) && election.windows.length === 5, 'election.windows must be length 5');
+    assert(election.windows.every((w) => w.ruler === 'venus'), 'election windows must be Venus hours');
+    assert(election.windows[0].date === '2025-01-03', 'best election window must be on Friday 2025-01-03');
+
+    // Mars is in early Leo tropically but still in Cancer, its fall, sidereally
+    const siderealElection = await fetchJson(
+      `${BASE}/api/election?planet=mars&days=3&zodiac=lahiri&from=${encodeURIComponent('2025-01-01T08:00:00')}&tz=${encodeURIComponent(
+        GOLDEN.planetaryHours.tz
+      )}&lat=${encodeURIComponent(String(GOLDEN.planetaryHours.lat))}&lon=${encodeURIComponent(
+        String(GOLDEN.planetaryHours.lon)
+      )}`
+    );
+    assert(siderealElection.zodiac === 'lahiri', 'sidereal election must echo its zodiac');
+    assert(
+      siderealElection.windows.every((w) => w.factors.some((f) => f.factor === 'dignity' && f.points === -2)),
+      'sidereal election must score Mars in its fall'
+    );
+
+    // ---- /api/almanac
+    const almanacQuery = `month=2025-01&tz=${encodeURIComponent(GOLDEN.planetaryHours.tz)}&lat=${
+      GOLDEN.planetaryHours.lat
+    }&lon=${GOLDEN.planetaryHours.lon}`;
+    const almanac = await fetchJson(`${BASE}/api/almanac?${almanacQuery}`);
+
+    assert(almanac.days?.length === 31, 'the January almanac must have 31 days');
+    assert(almanac.days[0].dayRuler === 'mercury', '2025-01-01 must be ruled by Mercury');
+    assertClose(Date.parse(almanac.days[0].sunrise), Date.parse('2025-01-01T14:51:47Z'), 60 * 1000, 'almanac sunrise');
+    assertClose(almanac.days[0].positions[0].longitude, 281.621, 0.01, 'almanac noon Sun longitude');
+    assert(
+      almanac.moonPhases?.map((p) => p.phase).join(',') === 'first quarter,full,last quarter,new',
+      'January 2025 must have one of each principal Moon phase'
+    );
+    const almanacSunIngress = almanac.ingresses?.find((e) => e.planet === 'sun');
+    assert(almanacSunIngress?.sign === 'Aquarius', 'the Sun must enter Aquarius in January 2025');
+    assertClose(Date.parse(almanacSunIngress.dateUtc), Date.parse('2025-01-19T20:00:28Z'), 2 * 60 * 1000, 'Sun enters Aquarius');
+
+    const almanacCsv = await fetch(`${BASE}/api/almanac?${almanacQuery}&format=csv`);
+    const csvLines = (await almanacCsv.text()).trim().split('\n');
+    assert(almanacCsv.headers.get('content-type')?.startsWith('text/csv'), 'almanac CSV must be served as text/csv');
+    assert(csvLines.length === 32, 'almanac CSV must have a header and 31 rows');
+    assert(csvLines[1].startsWith('2025-01-01,mercury,07:51,17:11,'), 'almanac CSV must start with 2025-01-01');
+
+    const invalidAlmanacMonth = await fetch(`${BASE}/api/almanac?month=2025-13&lat=0&lon=0`);
+    assert(invalidAlmanacMonth.status === 400, 'invalid almanac month must be rejected');
+
+    const almanacPage = await fetch(`${BASE}/almanac/2025-01?${almanacQuery}`);
+    const almanacHtml = await almanacPage.text();
+    assert(almanacPage.ok && almanacHtml.includes('☉') && almanacHtml.includes('♄'), 'almanac page must render the planet glyphs');
+
+    const badTzAlmanacPage = await fetch(`${BASE}/almanac/2025-01?tz=Not%2FAZone&lat=0&lon=0`);
+    const badTzAlmanacHtml = await badTzAlmanacPage.text();
+    assert(
+      !badTzAlmanacHtml.includes('Invalid DateTime') && badTzAlmanacHtml.includes('Invalid tz'),
+      'almanac page must report an invalid tz without an invalid month'
+    );
+
     console.log('golden tests: PASS');
   } finally {
     kill();
@@ -0,0 +1,29 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+// Reloads the almanac with the browser's coordinates and timezone.
+export default function LocationRedirect({ month }: { month: string }) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    navigator.geolocation?.getCurrentPosition(
+      (pos) => {
+        const params = new URLSearchParams({
+          lat: pos.coords.latitude.toFixed(4),
+          lon: pos.coords.longitude.toFixed(4),
+          tz,
+        });
+        router.replace(`/almanac/${month}?${params}`);
+      },
+      () => {
+        setError('Location permission denied. Add lat, lon and tz query params to the URL.');
+      }
+    );
+  }, [month, router]);
+
+  return <p className="mt-6 text-sm text-zinc-600">{error ?? 'Finding your location…'}</p>;
+}
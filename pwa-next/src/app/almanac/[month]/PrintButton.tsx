@@ -0,0 +1,9 @@
+'use client';
+
+export default function PrintButton() {
+  return (
+    <button className="rounded bg-black px-3 py-2 text-sm text-white" onClick={() => window.print()}>
+      Print
+    </button>
+  );
+}
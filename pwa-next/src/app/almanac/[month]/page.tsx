@@ -0,0 +1,157 @@
+import Link from 'next/link';
+import { DateTime } from 'luxon';
+import type { Metadata } from 'next';
+import type { PlanetId } from '@shared/astro';
+import {
+  formatAlmanacPosition,
+  generateAlmanac,
+  getAlmanacDayEvents,
+  parseAlmanacMonth,
+  type Almanac,
+  type AlmanacGlyphs,
+} from '@shared/almanac';
+import { classicalPlanets } from '@shared/positions';
+import { getPlanetById } from '@constants/planets';
+import { getZodiacSymbol } from '@constants/dignities';
+import { parseNumber } from '@/lib/planetaryHoursApi';
+import LocationRedirect from './LocationRedirect';
+import PrintButton from './PrintButton';
+
+type AlmanacPageProps = {
+  params: Promise<{ month: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const glyph = (planet: PlanetId) => getPlanetById(planet).symbol;
+
+// e.g. 12°07' ♊ ℞ and ♂ → ♋
+const glyphs: AlmanacGlyphs = { planet: glyph, sign: getZodiacSymbol, retrograde: '℞' };
+
+function param(value: string | string[] | undefined): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+export async function generateMetadata({ params }: AlmanacPageProps): Promise<Metadata> {
+  const { month } = await params;
+  return { title: `Almanac ${month} · Kronos` };
+}
+
+export default async function AlmanacPage({ params, searchParams }: AlmanacPageProps) {
+  const { month: monthParam } = await params;
+  const query = await searchParams;
+  const month = parseAlmanacMonth(monthParam);
+
+  const tz = param(query.tz) || 'UTC';
+  const lat = parseNumber(param(query.lat));
+  const lon = parseNumber(param(query.lon));
+  const hasLocation = lat != null && lon != null && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+  let almanac: Almanac | null = null;
+  let error: string | null = null;
+  if (!month) {
+    error = 'Invalid month, expected YYYY-MM';
+  } else if (!DateTime.now().setZone(tz).isValid) {
+    error = 'Invalid tz, expected an IANA timezone name';
+  } else if (hasLocation) {
+    try {
+      almanac = generateAlmanac({ ...month, latitude: lat, longitude: lon, timezone: tz });
+    } catch (e: unknown) {
+      error = e instanceof Error ? e.message : 'Failed to generate the almanac';
+    }
+  }
+
+  // Invalid with an unknown tz, and then no month to step from
+  const monthStart = month ? DateTime.fromObject(month, { zone: tz }) : null;
+  const start = monthStart?.isValid ? monthStart : null;
+  const location = hasLocation ? `?${new URLSearchParams({ lat: String(lat), lon: String(lon), tz })}` : '';
+  const monthHref = (offset: number) => `/almanac/${start!.plus({ months: offset }).toFormat('yyyy-LL')}${location}`;
+  const apiHref = (format: string) =>
+    `/api/almanac?${new URLSearchParams({ month: monthParam, lat: String(lat), lon: String(lon), tz, format })}`;
+  const localTime = (date: Date | null) => (date ? DateTime.fromJSDate(date, { zone: tz }).toFormat('HH:mm') : '—');
+  const entries = almanac ? getAlmanacDayEvents(almanac, glyphs) : {};
+
+  return (
+    <main className="mx-auto max-w-5xl p-6 print:max-w-none print:p-0">
+      <div className="flex items-center justify-between print:hidden">
+        <Link className="text-sm underline" href="/calendar">
+          Calendar
+        </Link>
+        {start && (
+          <div className="flex gap-4 text-sm">
+            <Link className="underline" href={monthHref(-1)}>
+              Previous
+            </Link>
+            <Link className="underline" href={monthHref(1)}>
+              Next
+            </Link>
+          </div>
+        )}
+      </div>
+
+      <h1 className="mt-4 text-2xl font-semibold">Almanac · {start ? start.toFormat('LLLL yyyy') : monthParam}</h1>
+
+      {error && <p className="mt-6 text-sm text-red-600">{error}</p>}
+
+      {!error && !hasLocation && <LocationRedirect month={monthParam} />}
+
+      {almanac && (
+        <>
+          <div className="mt-1 text-sm text-zinc-600">
+            {lat!.toFixed(4)}, {lon!.toFixed(4)} · {tz} · Noon positions, tropical zodiac
+          </div>
+
+          <div className="mt-4 flex gap-2 print:hidden">
+            <PrintButton />
+            <a className="rounded border px-3 py-2 text-sm" href={apiHref('csv')}>
+              CSV
+            </a>
+            <a className="rounded border px-3 py-2 text-sm" href={apiHref('json')}>
+              JSON
+            </a>
+          </div>
+
+          <table className="mt-6 w-full border-collapse text-sm print:mt-2 print:text-xs">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-1 pr-2">Date</th>
+                <th className="py-1 pr-2">Ruler</th>
+                <th className="py-1 pr-2">Rise</th>
+                <th className="py-1 pr-2">Set</th>
+                {classicalPlanets.map((planet) => (
+                  <th key={planet} className="py-1 pr-2" title={getPlanetById(planet).name}>
+                    {glyph(planet)}
+                  </th>
+                ))}
+                <th className="py-1">Events</th>
+              </tr>
+            </thead>
+            <tbody>
+              {almanac.days.map((day) => (
+                <tr key={day.date} className="break-inside-avoid border-b align-top">
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {DateTime.fromISO(day.date).toFormat('ccc d')}
+                  </td>
+                  <td className="py-1 pr-2">{glyph(day.dayRuler)}</td>
+                  <td className="py-1 pr-2 tabular-nums">{localTime(day.sunrise)}</td>
+                  <td className="py-1 pr-2 tabular-nums">{localTime(day.sunset)}</td>
+                  {day.positions.map((position) => (
+                    <td key={position.planet} className="py-1 pr-2 whitespace-nowrap tabular-nums">
+                      {formatAlmanacPosition(position, glyphs)}
+                    </td>
+                  ))}
+                  <td className="py-1">
+                    {(entries[day.date] ?? []).map((entry) => (
+                      <div key={entry} className="whitespace-nowrap tabular-nums">
+                        {entry}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import { almanacToCsv, almanacToJson, generateAlmanac, parseAlmanacMonth, type Almanac } from '@shared/almanac';
+import { parseNumber } from '@/lib/planetaryHoursApi';
+import { roundCoord, TtlCache } from '@/lib/ttlCache';
+
+const almanacFormats = ['json', 'csv'] as const;
+
+type AlmanacFormat = (typeof almanacFormats)[number];
+
+const almanacCache = new TtlCache<Almanac>();
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+function isAlmanacFormat(value: string): value is AlmanacFormat {
+  return (almanacFormats as readonly string[]).includes(value);
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const tz = url.searchParams.get('tz') || 'UTC';
+
+  if (!DateTime.now().setZone(tz).isValid) {
+    return badRequest('Invalid tz, expected an IANA timezone name');
+  }
+
+  const lat = parseNumber(url.searchParams.get('lat'));
+  const lon = parseNumber(url.searchParams.get('lon'));
+  if (lat == null || lon == null || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return badRequest('Missing or invalid lat/lon query params');
+  }
+
+  const elevationParam = url.searchParams.get('elevation');
+  const elevation = elevationParam ? parseNumber(elevationParam) : 0;
+  if (elevation == null || elevation < -500 || elevation > 9000) {
+    return badRequest('Invalid elevation, expected meters between -500 and 9000');
+  }
+
+  const monthParam = url.searchParams.get('month');
+  const now = DateTime.now().setZone(tz);
+  const month = monthParam ? parseAlmanacMonth(monthParam) : { year: now.year, month: now.month };
+  if (!month) {
+    return badRequest('Invalid month, expected YYYY-MM');
+  }
+
+  const format = url.searchParams.get('format') || 'json';
+  if (!isAlmanacFormat(format)) {
+    return badRequest(`Invalid format, expected one of: ${almanacFormats.join(', ')}`);
+  }
+
+  const cacheKey = [month.year, month.month, tz, roundCoord(lat, 4), roundCoord(lon, 4), elevation].join('|');
+
+  almanacCache.prune();
+  let almanac = almanacCache.get(cacheKey);
+
+  if (!almanac) {
+    try {
+      almanac = generateAlmanac({ ...month, latitude: lat, longitude: lon, timezone: tz, elevation });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Failed to generate the almanac';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+
+    // A month's almanac never changes for a fixed place.
+    almanacCache.set(cacheKey, almanac, 7 * 24 * 60 * 60 * 1000);
+  }
+
+  const cacheControl = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+  if (format === 'csv') {
+    return new NextResponse(almanacToCsv(almanac), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="almanac-${almanac.month}.csv"`,
+        'Cache-Control': cacheControl,
+      },
+    });
+  }
+
+  return NextResponse.json(almanacToJson(almanac), {
+    headers: {
+      'Cache-Control': cacheControl,
+    },
+  });
+}
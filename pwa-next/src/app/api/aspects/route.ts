@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { findAspects, type PlanetAspect } from '@shared/aspects';
+import { parseTimestamp } from '@/lib/timestamp';
+import { TtlCache } from '@/lib/ttlCache';
+
+type AspectsResponse = {
+  timestampUtc: string;
+  aspects: PlanetAspect[];
+};
+
+const aspectsCache = new TtlCache<AspectsResponse>();
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const timestampParam = url.searchParams.get('timestamp');
+  const time = parseTimestamp(timestampParam);
+
+  const isNowRequest = !timestampParam;
+  const cacheKey = isNowRequest ? 'now' : time.toISOString();
+  const cacheControl = isNowRequest
+    ? 'public, max-age=30, s-maxage=60, stale-while-revalidate=300'
+    : 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+  aspectsCache.prune();
+  let payload = aspectsCache.get(cacheKey);
+
+  if (!payload) {
+    try {
+      payload = {
+        timestampUtc: time.toISOString(),
+        aspects: findAspects(time),
+      };
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Failed to calculate aspects';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+
+    // Cache "now" briefly and fixed timestamps longer.
+    aspectsCache.set(cacheKey, payload, isNowRequest ? 30_000 : 7 * 24 * 60 * 60 * 1000);
+  }
+
+  return NextResponse.json(payload, {
+    headers: {
+      'Cache-Control': cacheControl,
+    },
+  });
+}
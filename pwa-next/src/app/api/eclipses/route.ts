@@ -0,0 +1,188 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import type { ZodiacSign } from '@shared/astro';
+import {
+  eclipseKinds,
+  findEclipses,
+  MAX_ECLIPSE_RANGE_DAYS,
+  type EclipseKind,
+  type EclipseType,
+} from '@shared/eclipses';
+import type { Zodiac } from '@shared/zodiac';
+import { parseNumber, parseZodiacParams } from '@/lib/planetaryHoursApi';
+import { parseLocalDate } from '@/lib/timestamp';
+import { roundCoord, TtlCache } from '@/lib/ttlCache';
+
+type LocalEclipseResponse = {
+  visible: boolean;
+  type: EclipseType;
+  magnitude: number;
+  startUtc: string;
+  peakUtc: string;
+  endUtc: string;
+  startLocal: string;
+  peakLocal: string;
+  endLocal: string;
+  peakAltitude: number;
+};
+
+type EclipseResponse = {
+  id: string;
+  kind: EclipseKind;
+  type: EclipseType;
+  peakUtc: string;
+  startUtc: string;
+  endUtc: string;
+  peakLocal: string;
+  startLocal: string;
+  endLocal: string;
+  magnitude: number;
+  longitude: number;
+  sign: ZodiacSign;
+  degreeInSign: number;
+  // Only with lat/lon; null when a solar eclipse is not seen there
+  local?: LocalEclipseResponse | null;
+};
+
+type EclipsesResponse = {
+  start: string; // first local date, YYYY-MM-DD
+  end: string; // last local date (inclusive), YYYY-MM-DD
+  timezone: string;
+  zodiac: Zodiac;
+  eclipses: EclipseResponse[];
+};
+
+const eclipsesCache = new TtlCache<EclipsesResponse>();
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const tz = url.searchParams.get('tz') || 'UTC';
+
+  if (!DateTime.now().setZone(tz).isValid) {
+    return badRequest('Invalid tz, expected an IANA timezone name');
+  }
+
+  const start = parseLocalDate(url.searchParams.get('start'), tz);
+  const end = parseLocalDate(url.searchParams.get('end'), tz);
+
+  if (!start || !end) {
+    return badRequest('Missing or invalid start/end query params, expected YYYY-MM-DD');
+  }
+
+  if (end < start) {
+    return badRequest('end must not be before start');
+  }
+
+  const dayCount = Math.round(end.diff(start, 'days').days) + 1;
+  if (dayCount > MAX_ECLIPSE_RANGE_DAYS) {
+    return badRequest(`Range too long: ${dayCount} days, at most ${MAX_ECLIPSE_RANGE_DAYS} allowed`);
+  }
+
+  const kind = url.searchParams.get('kind');
+  if (kind != null && !(eclipseKinds as string[]).includes(kind)) {
+    return badRequest(`Invalid kind, expected one of: ${eclipseKinds.join(', ')}`);
+  }
+
+  // Local circumstances need a place
+  const latParam = url.searchParams.get('lat');
+  const lonParam = url.searchParams.get('lon');
+  const lat = parseNumber(latParam);
+  const lon = parseNumber(lonParam);
+  const hasLocation = latParam != null || lonParam != null;
+  if (hasLocation && (lat == null || lon == null || Math.abs(lat) > 90 || Math.abs(lon) > 180)) {
+    return badRequest('Invalid lat/lon query params');
+  }
+
+  const elevationParam = url.searchParams.get('elevation');
+  const elevation = elevationParam ? parseNumber(elevationParam) : 0;
+  if (elevation == null || elevation < -500 || elevation > 9000) {
+    return badRequest('Invalid elevation, expected meters between -500 and 9000');
+  }
+
+  const parsedZodiac = parseZodiacParams(url.searchParams);
+  if ('error' in parsedZodiac) {
+    return badRequest(parsedZodiac.error);
+  }
+  const zodiacOptions = parsedZodiac.zodiac;
+  const { zodiac, ayanamsa } = zodiacOptions;
+
+  const startStr = start.toFormat('yyyy-LL-dd');
+  const endStr = end.toFormat('yyyy-LL-dd');
+  const cacheKey = [
+    startStr,
+    endStr,
+    tz,
+    kind ?? '',
+    zodiac === 'custom' ? `custom:${ayanamsa}` : zodiac,
+    hasLocation ? `${roundCoord(lat!, 4)},${roundCoord(lon!, 4)},${elevation}` : '',
+  ].join('|');
+
+  eclipsesCache.prune();
+  let payload = eclipsesCache.get(cacheKey);
+
+  if (!payload) {
+    try {
+      const toLocal = (date: Date) => DateTime.fromJSDate(date, { zone: tz }).toISO()!;
+      const eclipses = findEclipses(start.toJSDate(), end.plus({ days: 1 }).toJSDate(), {
+        kinds: kind ? [kind as EclipseKind] : eclipseKinds,
+        location: hasLocation ? { latitude: lat!, longitude: lon!, elevation } : undefined,
+        zodiac: zodiacOptions,
+      });
+
+      payload = {
+        start: startStr,
+        end: endStr,
+        timezone: tz,
+        zodiac,
+        eclipses: eclipses.map((eclipse) => ({
+          id: eclipse.id,
+          kind: eclipse.kind,
+          type: eclipse.type,
+          peakUtc: eclipse.peak.toISOString(),
+          startUtc: eclipse.start.toISOString(),
+          endUtc: eclipse.end.toISOString(),
+          peakLocal: toLocal(eclipse.peak),
+          startLocal: toLocal(eclipse.start),
+          endLocal: toLocal(eclipse.end),
+          magnitude: eclipse.magnitude,
+          longitude: eclipse.longitude,
+          sign: eclipse.sign,
+          degreeInSign: eclipse.degreeInSign,
+          ...(hasLocation && {
+            local: eclipse.local && {
+              visible: eclipse.local.visible,
+              type: eclipse.local.type,
+              magnitude: eclipse.local.magnitude,
+              startUtc: eclipse.local.start.toISOString(),
+              peakUtc: eclipse.local.peak.toISOString(),
+              endUtc: eclipse.local.end.toISOString(),
+              startLocal: toLocal(eclipse.local.start),
+              peakLocal: toLocal(eclipse.local.peak),
+              endLocal: toLocal(eclipse.local.end),
+              peakAltitude: eclipse.local.peakAltitude,
+            },
+          }),
+        })),
+      };
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Failed to find eclipses';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+
+    // Eclipses never change for fixed dates.
+    eclipsesCache.set(cacheKey, payload, 7 * 24 * 60 * 60 * 1000);
+  }
+
+  return NextResponse.json(payload, {
+    headers: {
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
+    },
+  });
+}
@@ -0,0 +1,160 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import type { PlanetId } from '@shared/astro';
+import { chaldeanOrder, isPlanetId } from '@shared/planetary';
+import {
+  findElectionWindows,
+  MAX_ELECTION_COUNT,
+  MAX_ELECTION_DAYS,
+  type ElectionFactor,
+  type MoonPhasePreference,
+} from '@shared/election';
+import type { Zodiac } from '@shared/zodiac';
+import { parseNumber, parsePlanetaryHoursParams, parseZodiacParams } from '@/lib/planetaryHoursApi';
+
+type ElectionWindowResponse = {
+  date: string; // local date of the planetary day, YYYY-MM-DD
+  dayRuler: PlanetId;
+  index: number;
+  ruler: PlanetId;
+  isDay: boolean;
+  startUtc: string;
+  endUtc: string;
+  startLocal: string;
+  endLocal: string;
+  minutes: number;
+  score: number;
+  factors: ElectionFactor[];
+};
+
+type ElectionResponse = {
+  planet: PlanetId;
+  moonPhase: MoonPhasePreference;
+  avoidEclipses: boolean;
+  zodiac: Zodiac;
+  fromUtc: string;
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  windows: ElectionWindowResponse[];
+};
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+
+  const parsed = parsePlanetaryHoursParams(url.searchParams);
+  if ('error' in parsed) {
+    return badRequest(parsed.error);
+  }
+  const { params } = parsed;
+
+  if (!DateTime.now().setZone(params.tz).isValid) {
+    return badRequest('Invalid tz, expected an IANA timezone name');
+  }
+
+  const planet = url.searchParams.get('planet');
+  if (!planet || !isPlanetId(planet)) {
+    return badRequest(`Missing or invalid planet, expected one of: ${chaldeanOrder.join(', ')}`);
+  }
+
+  const moonPhaseParam = url.searchParams.get('moonPhase') ?? 'waxing';
+  if (moonPhaseParam !== 'waxing' && moonPhaseParam !== 'waning') {
+    return badRequest('Invalid moonPhase, expected waxing or waning');
+  }
+  const moonPhase: MoonPhasePreference = moonPhaseParam;
+
+  const avoidEclipsesParam = url.searchParams.get('avoidEclipses') ?? 'false';
+  if (avoidEclipsesParam !== 'true' && avoidEclipsesParam !== 'false') {
+    return badRequest('Invalid avoidEclipses, expected true or false');
+  }
+  const avoidEclipses = avoidEclipsesParam === 'true';
+
+  const parsedZodiac = parseZodiacParams(url.searchParams);
+  if ('error' in parsedZodiac) {
+    return badRequest(parsedZodiac.error);
+  }
+  const zodiacOptions = parsedZodiac.zodiac;
+  const { zodiac } = zodiacOptions;
+
+  const daysParam = url.searchParams.get('days');
+  const days = daysParam ? parseNumber(daysParam) : 7;
+  if (days == null || !Number.isInteger(days) || days < 1 || days > MAX_ELECTION_DAYS) {
+    return badRequest(`Invalid days, expected an integer between 1 and ${MAX_ELECTION_DAYS}`);
+  }
+
+  const countParam = url.searchParams.get('count');
+  const count = countParam ? parseNumber(countParam) : 5;
+  if (count == null || !Number.isInteger(count) || count < 1 || count > MAX_ELECTION_COUNT) {
+    return badRequest(`Invalid count, expected an integer between 1 and ${MAX_ELECTION_COUNT}`);
+  }
+
+  const fromParam = url.searchParams.get('from');
+  const from = fromParam ? DateTime.fromISO(fromParam, { zone: params.tz }) : DateTime.utc();
+  if (!from.isValid) {
+    return badRequest('Invalid from, expected an ISO 8601 date-time');
+  }
+
+  let payload: ElectionResponse;
+  try {
+    const windows = findElectionWindows({
+      latitude: params.lat,
+      longitude: params.lon,
+      timezone: params.tz,
+      elevation: params.elevation,
+      sunriseDefinition: params.sunriseDefinition,
+      hourSystem: params.hourSystem,
+      polarFallback: params.fallback,
+      planet,
+      moonPhase,
+      avoidEclipses,
+      zodiac: zodiacOptions,
+      from: from.toJSDate(),
+      days,
+      count,
+    });
+
+    payload = {
+      planet,
+      moonPhase,
+      avoidEclipses,
+      zodiac,
+      fromUtc: from.toUTC().toISO()!,
+      timezone: params.tz,
+      latitude: params.lat,
+      longitude: params.lon,
+      windows: windows.map(({ date, dayRuler, hour, minutes, score, factors }) => ({
+        date,
+        dayRuler,
+        index: hour.index,
+        ruler: hour.ruler,
+        isDay: hour.isDay,
+        startUtc: hour.start.toISOString(),
+        endUtc: hour.end.toISOString(),
+        startLocal: DateTime.fromJSDate(hour.start, { zone: params.tz }).toISO()!,
+        endLocal: DateTime.fromJSDate(hour.end, { zone: params.tz }).toISO()!,
+        minutes,
+        score,
+        factors,
+      })),
+    };
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Failed to calculate sunrise/sunset';
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(payload, {
+    headers: {
+      // Without `from` the answer moves with the clock.
+      'Cache-Control': fromParam
+        ? 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800'
+        : 'public, max-age=30, s-maxage=60, stale-while-revalidate=300',
+    },
+  });
+}
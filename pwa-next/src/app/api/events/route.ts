@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import type { PlanetId, ZodiacSign } from '@shared/astro';
+import { chaldeanOrder, isPlanetId } from '@shared/planetary';
+import { astroEventTypes, findAstroEvents, MAX_EVENT_RANGE_DAYS, type AstroEventType } from '@shared/events';
+import { parseLocalDate } from '@/lib/timestamp';
+import { TtlCache } from '@/lib/ttlCache';
+
+type AstroEventResponse = {
+  id: string;
+  type: AstroEventType;
+  planet: PlanetId;
+  sign: ZodiacSign;
+  longitude: number;
+  title: string;
+  description: string;
+  dateUtc: string;
+  dateLocal: string;
+};
+
+type EventsResponse = {
+  start: string; // first local date, YYYY-MM-DD
+  end: string; // last local date (inclusive), YYYY-MM-DD
+  timezone: string;
+  events: AstroEventResponse[];
+};
+
+const eventsCache = new TtlCache<EventsResponse>();
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+function isAstroEventType(value: string): value is AstroEventType {
+  return (astroEventTypes as string[]).includes(value);
+}
+
+// Comma-separated list param; null when absent, undefined when any item is invalid.
+function parseList<T extends string>(value: string | null, isValid: (item: string) => item is T): T[] | null | undefined {
+  if (!value) return null;
+  const items = value.split(',').map((item) => item.trim());
+  return items.every(isValid) ? (items as T[]) : undefined;
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const tz = url.searchParams.get('tz') || 'UTC';
+
+  if (!DateTime.now().setZone(tz).isValid) {
+    return badRequest('Invalid tz, expected an IANA timezone name');
+  }
+
+  const start = parseLocalDate(url.searchParams.get('start'), tz);
+  const end = parseLocalDate(url.searchParams.get('end'), tz);
+
+  if (!start || !end) {
+    return badRequest('Missing or invalid start/end query params, expected YYYY-MM-DD');
+  }
+
+  if (end < start) {
+    return badRequest('end must not be before start');
+  }
+
+  // Calendar days, not 24-hour spans, so DST transitions do not shorten the count.
+  const dayCount = Math.round(end.diff(start, 'days').days) + 1;
+  if (dayCount > MAX_EVENT_RANGE_DAYS) {
+    return badRequest(`Range too long: ${dayCount} days, at most ${MAX_EVENT_RANGE_DAYS} allowed`);
+  }
+
+  const planets = parseList(url.searchParams.get('planets'), isPlanetId);
+  if (planets === undefined) {
+    return badRequest(`Invalid planets, expected a comma-separated list of: ${chaldeanOrder.join(', ')}`);
+  }
+
+  const types = parseList(url.searchParams.get('types'), isAstroEventType);
+  if (types === undefined) {
+    return badRequest(`Invalid types, expected a comma-separated list of: ${astroEventTypes.join(', ')}`);
+  }
+
+  const startStr = start.toFormat('yyyy-LL-dd');
+  const endStr = end.toFormat('yyyy-LL-dd');
+  const cacheKey = [startStr, endStr, tz, planets?.join(',') ?? '', types?.join(',') ?? ''].join('|');
+
+  eventsCache.prune();
+  let payload = eventsCache.get(cacheKey);
+
+  if (!payload) {
+    try {
+      const events = findAstroEvents(start.toJSDate(), end.plus({ days: 1 }).toJSDate(), {
+        planets: planets ?? undefined,
+        types: types ?? undefined,
+      });
+
+      payload = {
+        start: startStr,
+        end: endStr,
+        timezone: tz,
+        events: events.map(({ date, ...event }) => ({
+          ...event,
+          dateUtc: date.toISOString(),
+          dateLocal: DateTime.fromJSDate(date, { zone: tz }).toISO()!,
+        })),
+      };
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Failed to search for events';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+
+    // Events never change for fixed dates.
+    eventsCache.set(cacheKey, payload, 7 * 24 * 60 * 60 * 1000);
+  }
+
+  return NextResponse.json(payload, {
+    headers: {
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
+    },
+  });
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import {
+  getFullMoons,
+  getMoonPhase,
+  getNextMoonPhases,
+  type MoonPhaseInfo,
+  type PrincipalMoonPhase,
+} from '@shared/moon';
+import { parseTimestamp } from '@/lib/timestamp';
+import { TtlCache } from '@/lib/ttlCache';
+
+type MoonResponse = {
+  timestampUtc: string;
+  timezone: string;
+  moon: MoonPhaseInfo;
+  nextPhases: Array<{
+    phase: PrincipalMoonPhase;
+    dateUtc: string;
+    dateLocal: string;
+  }>;
+  // Named full moons over the following year
+  fullMoons: Array<{
+    name: string;
+    dateUtc: string;
+    dateLocal: string;
+  }>;
+};
+
+const moonCache = new TtlCache<MoonResponse>();
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const timestampParam = url.searchParams.get('timestamp');
+  const time = parseTimestamp(timestampParam);
+  // Full moon names depend on the calendar month, so on the timezone.
+  const tz = url.searchParams.get('tz') || 'UTC';
+
+  if (!DateTime.now().setZone(tz).isValid) {
+    return NextResponse.json(
+      { error: 'Invalid tz, expected an IANA timezone name' },
+      { status: 400 }
+    );
+  }
+
+  const isNowRequest = !timestampParam;
+  const cacheKey = `${isNowRequest ? 'now' : time.toISOString()}|${tz}`;
+  const cacheControl = isNowRequest
+    ? 'public, max-age=30, s-maxage=60, stale-while-revalidate=300'
+    : 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+  moonCache.prune();
+  const cached = moonCache.get(cacheKey);
+  if (cached) {
+    return NextResponse.json(cached, {
+      headers: {
+        'Cache-Control': cacheControl,
+      },
+    });
+  }
+
+  const toLocal = (date: Date) => DateTime.fromJSDate(date, { zone: tz }).toISO()!;
+
+  let payload: MoonResponse;
+  try {
+    const yearLater = DateTime.fromJSDate(time).plus({ years: 1 }).toJSDate();
+
+    payload = {
+      timestampUtc: time.toISOString(),
+      timezone: tz,
+      moon: getMoonPhase(time, tz),
+      nextPhases: getNextMoonPhases(time).map(({ phase, date }) => ({
+        phase,
+        dateUtc: date.toISOString(),
+        dateLocal: toLocal(date),
+      })),
+      fullMoons: getFullMoons(time, yearLater, tz).map(({ name, date }) => ({
+        name,
+        dateUtc: date.toISOString(),
+        dateLocal: toLocal(date),
+      })),
+    };
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Failed to calculate the Moon phase';
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+
+  // Cache "now" briefly and fixed timestamps longer.
+  moonCache.set(cacheKey, payload, isNowRequest ? 30_000 : 7 * 24 * 60 * 60 * 1000);
+
+  return NextResponse.json(payload, {
+    headers: {
+      'Cache-Control': cacheControl,
+    },
+  });
+}
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import type { PlanetId } from '@shared/astro';
+import { chaldeanOrder, isPlanetId } from '@shared/planetary';
+import {
+  findNextPlanetaryHours,
+  MAX_SEARCH_COUNT,
+  MAX_SEARCH_DAYS,
+  parseTimeOfDay,
+  type HourSearchFilters,
+} from '@shared/hourSearch';
+import { isLunarMansion, LUNAR_MANSION_COUNT } from '@shared/lunarMansions';
+import type { Zodiac } from '@shared/zodiac';
+import { parseNumber, parsePlanetaryHoursParams, parseZodiacParams } from '@/lib/planetaryHoursApi';
+
+type HourMatchResponse = {
+  date: string; // local date of the planetary day, YYYY-MM-DD
+  dayRuler: PlanetId;
+  index: number;
+  ruler: PlanetId;
+  isDay: boolean;
+  startUtc: string;
+  endUtc: string;
+  startLocal: string;
+  endLocal: string;
+  minutes: number;
+};
+
+type NextHoursResponse = {
+  zodiac: Zodiac;
+  fromUtc: string;
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  matches: HourMatchResponse[];
+};
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+
+  const parsed = parsePlanetaryHoursParams(url.searchParams);
+  if ('error' in parsed) {
+    return badRequest(parsed.error);
+  }
+  const { params } = parsed;
+
+  if (!DateTime.now().setZone(params.tz).isValid) {
+    return badRequest('Invalid tz, expected an IANA timezone name');
+  }
+
+  const filters: HourSearchFilters = {};
+
+  const ruler = url.searchParams.get('ruler');
+  if (ruler) {
+    if (!isPlanetId(ruler)) return badRequest(`Invalid ruler, expected one of: ${chaldeanOrder.join(', ')}`);
+    filters.ruler = ruler;
+  }
+
+  const dayRuler = url.searchParams.get('dayRuler');
+  if (dayRuler) {
+    if (!isPlanetId(dayRuler)) return badRequest(`Invalid dayRuler, expected one of: ${chaldeanOrder.join(', ')}`);
+    filters.dayRuler = dayRuler;
+  }
+
+  const period = url.searchParams.get('period');
+  if (period) {
+    if (period !== 'day' && period !== 'night') return badRequest('Invalid period, expected day or night');
+    filters.period = period;
+  }
+
+  const windowParam = url.searchParams.get('window');
+  if (windowParam) {
+    const [start, end] = windowParam.split('-').map(parseTimeOfDay);
+    if (start == null || end == null) return badRequest('Invalid window, expected HH:mm-HH:mm');
+    filters.timeWindow = { start, end };
+  }
+
+  const minMinutesParam = url.searchParams.get('minMinutes');
+  if (minMinutesParam) {
+    const minMinutes = parseNumber(minMinutesParam);
+    if (minMinutes == null || minMinutes < 0) return badRequest('Invalid minMinutes, expected a non-negative number');
+    filters.minMinutes = minMinutes;
+  }
+
+  const mansionParam = url.searchParams.get('mansion');
+  if (mansionParam) {
+    const mansion = parseNumber(mansionParam);
+    if (mansion == null || !isLunarMansion(mansion)) {
+      return badRequest(`Invalid mansion, expected an integer between 1 and ${LUNAR_MANSION_COUNT}`);
+    }
+    filters.mansion = mansion;
+  }
+
+  // Mansions are counted in the chosen zodiac
+  const parsedZodiac = parseZodiacParams(url.searchParams);
+  if ('error' in parsedZodiac) {
+    return badRequest(parsedZodiac.error);
+  }
+  const zodiacOptions = parsedZodiac.zodiac;
+  const { zodiac } = zodiacOptions;
+
+  const countParam = url.searchParams.get('count');
+  const count = countParam ? parseNumber(countParam) : 5;
+  if (count == null || !Number.isInteger(count) || count < 1 || count > MAX_SEARCH_COUNT) {
+    return badRequest(`Invalid count, expected an integer between 1 and ${MAX_SEARCH_COUNT}`);
+  }
+
+  const maxDaysParam = url.searchParams.get('maxDays');
+  const maxDays = maxDaysParam ? parseNumber(maxDaysParam) : MAX_SEARCH_DAYS;
+  if (maxDays == null || !Number.isInteger(maxDays) || maxDays < 1 || maxDays > MAX_SEARCH_DAYS) {
+    return badRequest(`Invalid maxDays, expected an integer between 1 and ${MAX_SEARCH_DAYS}`);
+  }
+
+  const fromParam = url.searchParams.get('from');
+  const from = fromParam ? DateTime.fromISO(fromParam, { zone: params.tz }) : DateTime.utc();
+  if (!from.isValid) {
+    return badRequest('Invalid from, expected an ISO 8601 date-time');
+  }
+
+  let payload: NextHoursResponse;
+  try {
+    const matches = findNextPlanetaryHours({
+      latitude: params.lat,
+      longitude: params.lon,
+      timezone: params.tz,
+      elevation: params.elevation,
+      sunriseDefinition: params.sunriseDefinition,
+      hourSystem: params.hourSystem,
+      polarFallback: params.fallback,
+      ...filters,
+      zodiac: zodiacOptions,
+      from: from.toJSDate(),
+      count,
+      maxDays,
+    });
+
+    payload = {
+      zodiac,
+      fromUtc: from.toUTC().toISO()!,
+      timezone: params.tz,
+      latitude: params.lat,
+      longitude: params.lon,
+      matches: matches.map(({ date, dayRuler, hour, minutes }) => ({
+        date,
+        dayRuler,
+        index: hour.index,
+        ruler: hour.ruler,
+        isDay: hour.isDay,
+        startUtc: hour.start.toISOString(),
+        endUtc: hour.end.toISOString(),
+        startLocal: DateTime.fromJSDate(hour.start, { zone: params.tz }).toISO()!,
+        endLocal: DateTime.fromJSDate(hour.end, { zone: params.tz }).toISO()!,
+        minutes,
+      })),
+    };
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Failed to calculate sunrise/sunset';
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(payload, {
+    headers: {
+      // Without `from` the answer moves with the clock.
+      'Cache-Control': fromParam
+        ? 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800'
+        : 'public, max-age=30, s-maxage=60, stale-while-revalidate=300',
+    },
+  });
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import type { HourSystem } from '@shared/hourSystems';
+import type { SunriseDefinition } from '@shared/planetaryHours';
+import {
+  getDaySchedule,
+  parsePlanetaryHoursParams,
+  planetaryHoursCacheControl,
+  prunePlanetaryHoursCache,
+  withCurrentFlags,
+  type PlanetaryHoursResponse,
+} from '@/lib/planetaryHoursApi';
+import { parseLocalDate } from '@/lib/timestamp';
+
+// Two full months, whichever months they are.
+const MAX_RANGE_DAYS = 62;
+
+type PlanetaryHoursRangeResponse = {
+  start: string; // first local date, YYYY-MM-DD
+  end: string; // last local date (inclusive), YYYY-MM-DD
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  sunriseDefinition: SunriseDefinition;
+  hourSystem: HourSystem;
+  days: PlanetaryHoursResponse[];
+};
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+
+  const parsed = parsePlanetaryHoursParams(url.searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: parsed.error },
+      { status: 400 }
+    );
+  }
+  const { params } = parsed;
+
+  if (!DateTime.now().setZone(params.tz).isValid) {
+    return NextResponse.json(
+      { error: 'Invalid tz, expected an IANA timezone name' },
+      { status: 400 }
+    );
+  }
+
+  const start = parseLocalDate(url.searchParams.get('start'), params.tz);
+  const end = parseLocalDate(url.searchParams.get('end'), params.tz);
+
+  if (!start || !end) {
+    return NextResponse.json(
+      { error: 'Missing or invalid start/end query params, expected YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+
+  if (end < start) {
+    return NextResponse.json(
+      { error: 'end must not be before start' },
+      { status: 400 }
+    );
+  }
+
+  // Calendar days, not 24-hour spans, so DST transitions do not shorten the count.
+  const dayCount = Math.round(end.diff(start, 'days').days) + 1;
+  if (dayCount > MAX_RANGE_DAYS) {
+    return NextResponse.json(
+      { error: `Range too long: ${dayCount} days, at most ${MAX_RANGE_DAYS} allowed` },
+      { status: 400 }
+    );
+  }
+
+  const startStr = start.toFormat('yyyy-LL-dd');
+  const endStr = end.toFormat('yyyy-LL-dd');
+  const todayStr = DateTime.now().setZone(params.tz).toFormat('yyyy-LL-dd');
+  const cacheControl = planetaryHoursCacheControl(startStr <= todayStr && todayStr <= endStr);
+
+  prunePlanetaryHoursCache();
+
+  const nowUtc = DateTime.utc();
+  const days: PlanetaryHoursResponse[] = [];
+  try {
+    for (let i = 0; i < dayCount; i++) {
+      const dateStr = start.plus({ days: i }).toFormat('yyyy-LL-dd');
+      days.push(withCurrentFlags(getDaySchedule(dateStr, params), nowUtc));
+    }
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Failed to calculate sunrise/sunset';
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    );
+  }
+
+  const payload: PlanetaryHoursRangeResponse = {
+    start: startStr,
+    end: endStr,
+    timezone: params.tz,
+    latitude: params.lat,
+    longitude: params.lon,
+    elevation: params.elevation,
+    sunriseDefinition: params.sunriseDefinition,
+    hourSystem: params.hourSystem,
+    days,
+  };
+
+  return NextResponse.json(payload, {
+    headers: {
+      'Cache-Control': cacheControl,
+    },
+  });
+}
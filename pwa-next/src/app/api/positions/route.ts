@@ -1,64 +1,34 @@
 import { NextResponse } from 'next/server';
-import * as Astronomy from 'astronomy-engine';
-import { longitudeToSign, normalizeDelta180, normalizeAngle360, type PlanetId } from '@/lib/astro';
+import { BodyError, calculateBodyPosition, extraBodies, isExtraBody, type BodyId } from '@shared/bodies';
+import { calculateConditions, type PlanetConditions } from '@shared/conditions';
+import { DEFAULT_HOUSE_SYSTEM, HouseSystemError, houseSystems, isHouseSystem, type HouseSystem } from '@shared/houses';
+import { calculatePlanetPositions } from '@shared/positions';
+import { getAyanamsa, type Zodiac, type ZodiacOptions } from '@shared/zodiac';
+import { parseNumber, parseZodiacParams } from '@/lib/planetaryHoursApi';
+import { parseTimestamp } from '@/lib/timestamp';
 import { TtlCache } from '@/lib/ttlCache';
 
 type PlanetPositionResponse = {
   timestampUtc: string;
+  zodiac: Zodiac;
+  // Degrees subtracted from tropical longitudes
+  ayanamsa: number;
   positions: Array<{
-    planet: PlanetId;
+    planet: BodyId;
     longitude: number;
     sign: string;
     degreeInSign: number;
     isRetrograde: boolean;
+    conditions?: PlanetConditions;
   }>;
 };
 
-const positionsCache = new TtlCache<PlanetPositionResponse>();
-
-const planetBodyMap: Record<PlanetId, Astronomy.Body> = {
-  sun: Astronomy.Body.Sun,
-  moon: Astronomy.Body.Moon,
-  mercury: Astronomy.Body.Mercury,
-  venus: Astronomy.Body.Venus,
-  mars: Astronomy.Body.Mars,
-  jupiter: Astronomy.Body.Jupiter,
-  saturn: Astronomy.Body.Saturn,
-};
-
-function geocentricEclipticLongitude(planet: PlanetId, body: Astronomy.Body, time: Date): number {
-  if (planet === 'sun') {
-    // Apparent geocentric true ecliptic coordinates of date.
-    return Astronomy.SunPosition(time).elon;
-  }
-
-  if (planet === 'moon') {
-    // Spherical ecliptic geocentric position of the Moon.
-    return Astronomy.EclipticGeoMoon(time).lon;
-  }
-
-  // Geocentric EQJ vector -> true ecliptic of date.
-  const vec = Astronomy.GeoVector(body, time, true);
-  return Astronomy.Ecliptic(vec).elon;
-}
+const includeOptions = ['conditions'];
 
-function parseTimestamp(param: string | null): Date {
-  if (!param) return new Date();
-  const d = new Date(param);
-  if (!isNaN(d.getTime())) return d;
-  const ms = Number(param);
-  if (!Number.isNaN(ms) && Number.isFinite(ms)) return new Date(ms);
-  return new Date();
-}
+const positionsCache = new TtlCache<PlanetPositionResponse>();
 
-function isRetrograde(planet: PlanetId, body: Astronomy.Body, time: Date): boolean {
-  // Use a small time delta and compare geocentric longitudes.
-  // Negative delta indicates apparent retrograde motion.
-  const dtMs = 60 * 60 * 1000; // 1 hour
-  const lon1 = geocentricEclipticLongitude(planet, body, time);
-  const lon2 = geocentricEclipticLongitude(planet, body, new Date(time.getTime() + dtMs));
-  const delta = normalizeDelta180(lon2 - lon1);
-  return delta < 0;
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
 }
 
 export async function GET(request: Request) {
@@ -66,50 +36,104 @@ export async function GET(request: Request) {
   const timestampParam = url.searchParams.get('timestamp');
   const time = parseTimestamp(timestampParam);
 
-  const isNowRequest = !timestampParam;
-  const cacheKey = isNowRequest ? 'now' : time.toISOString();
+  const include = (url.searchParams.get('include') || '').split(',').filter(Boolean);
+  const unknownInclude = include.find((option) => !includeOptions.includes(option));
+  if (unknownInclude) {
+    return badRequest(`Invalid include, expected one of: ${includeOptions.join(', ')}`);
+  }
+  const withConditions = include.includes('conditions');
 
-  positionsCache.prune();
-  const cached = positionsCache.get(cacheKey);
-  if (cached) {
-    return NextResponse.json(cached, {
-      headers: {
-        'Cache-Control': isNowRequest
-          ? 'public, max-age=30, s-maxage=60, stale-while-revalidate=300'
-          : 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
-      },
-    });
+  // The seven planets always come first; these are added after them
+  const bodies = (url.searchParams.get('bodies') || '').split(',').filter(Boolean);
+  const unknownBody = bodies.find((body) => !isExtraBody(body));
+  if (unknownBody) {
+    return badRequest(`Invalid bodies, expected any of: ${extraBodies.join(', ')}`);
   }
 
-  const planets: PlanetId[] = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn'];
+  // Angularity and the Part of Fortune need a place; without one the conditions leave angularity out.
+  const latParam = url.searchParams.get('lat');
+  const lonParam = url.searchParams.get('lon');
+  const lat = parseNumber(latParam);
+  const lon = parseNumber(lonParam);
+  const hasLocation = latParam != null || lonParam != null;
+  if (hasLocation && (lat == null || lon == null || Math.abs(lat) > 90 || Math.abs(lon) > 180)) {
+    return badRequest('Invalid lat/lon query params');
+  }
 
-  const positions = planets.map((planet) => {
-    const body = planetBodyMap[planet];
-    const lon = normalizeAngle360(geocentricEclipticLongitude(planet, body, time));
-    const { sign, degreeInSign } = longitudeToSign(lon);
+  const houseSystem = url.searchParams.get('houseSystem') || DEFAULT_HOUSE_SYSTEM;
+  if (!isHouseSystem(houseSystem)) {
+    return badRequest(`Invalid houseSystem, expected one of: ${houseSystems.join(', ')}`);
+  }
 
-    return {
-      planet,
-      longitude: lon,
-      sign,
-      degreeInSign,
-      isRetrograde: planet === 'sun' || planet === 'moon' ? false : isRetrograde(planet, body, time),
-    };
-  });
+  const parsedZodiac = parseZodiacParams(url.searchParams);
+  if ('error' in parsedZodiac) {
+    return badRequest(parsedZodiac.error);
+  }
+  const zodiacOptions = parsedZodiac.zodiac;
+  const { zodiac, ayanamsa } = zodiacOptions;
 
-  const payload: PlanetPositionResponse = {
-    timestampUtc: time.toISOString(),
-    positions,
-  };
+  const isNowRequest = !timestampParam;
+  const cacheKey = [
+    isNowRequest ? 'now' : time.toISOString(),
+    zodiac === 'custom' ? `custom:${ayanamsa}` : zodiac,
+    withConditions ? `conditions:${hasLocation ? `${lat},${lon},${houseSystem}` : ''}` : '',
+    bodies.length > 0 ? `bodies:${bodies.join(',')}${hasLocation ? `:${lat},${lon}` : ''}` : '',
+  ].join('|');
+  const cacheControl = isNowRequest
+    ? 'public, max-age=30, s-maxage=60, stale-while-revalidate=300'
+    : 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
 
-  // Cache "now" briefly and fixed timestamps longer.
-  positionsCache.set(cacheKey, payload, isNowRequest ? 30_000 : 7 * 24 * 60 * 60 * 1000);
+  positionsCache.prune();
+  let payload = positionsCache.get(cacheKey);
+
+  if (!payload) {
+    try {
+      const location = hasLocation ? { latitude: lat!, longitude: lon! } : undefined;
+      const planets = withConditions
+        ? withPlanetConditions(time, zodiacOptions, location && { ...location, houseSystem })
+        : calculatePlanetPositions(time, undefined, zodiacOptions);
+      const extras = bodies
+        .filter(isExtraBody)
+        .map((body) => calculateBodyPosition(body, time, { zodiac: zodiacOptions, location }));
+
+      payload = {
+        timestampUtc: time.toISOString(),
+        zodiac,
+        ayanamsa: getAyanamsa(time, zodiacOptions),
+        positions: [...planets, ...extras],
+      };
+    } catch (e: unknown) {
+      if (e instanceof HouseSystemError || e instanceof BodyError) {
+        return badRequest(e.message);
+      }
+      const message = e instanceof Error ? e.message : 'Failed to calculate positions';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+
+    // Cache "now" briefly and fixed timestamps longer.
+    positionsCache.set(cacheKey, payload, isNowRequest ? 30_000 : 7 * 24 * 60 * 60 * 1000);
+  }
 
   return NextResponse.json(payload, {
     headers: {
-      'Cache-Control': isNowRequest
-        ? 'public, max-age=30, s-maxage=60, stale-while-revalidate=300'
-        : 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
+      'Cache-Control': cacheControl,
     },
   });
 }
+
+// Conditions only compare planets, the Sun and the houses, so they do not depend on the zodiac.
+function withPlanetConditions(
+  time: Date,
+  zodiac: ZodiacOptions,
+  location?: { latitude: number; longitude: number; houseSystem: HouseSystem }
+): PlanetPositionResponse['positions'] {
+  const conditions = calculateConditions(time, undefined, location);
+
+  return calculatePlanetPositions(time, undefined, zodiac).map((position, i) => ({
+    ...position,
+    conditions: conditions[i],
+  }));
+}
@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import type { PlanetId } from '@shared/astro';
+import { calculateRisings } from '@shared/risings';
+import { parseNumber } from '@/lib/planetaryHoursApi';
+import { parseLocalDate, parseTimestamp } from '@/lib/timestamp';
+import { roundCoord, TtlCache } from '@/lib/ttlCache';
+
+type PlanetRisingsResponse = {
+  planet: PlanetId;
+  // null when the event does not happen on the local day
+  riseUtc: string | null;
+  riseLocal: string | null;
+  culminationUtc: string | null;
+  culminationLocal: string | null;
+  setUtc: string | null;
+  setLocal: string | null;
+  lowerCulminationUtc: string | null;
+  lowerCulminationLocal: string | null;
+  isAboveHorizon: boolean;
+  altitude: number; // degrees at timestampUtc
+};
+
+type RisingsResponse = {
+  date: string; // local date requested, YYYY-MM-DD
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  timestampUtc: string; // moment isAboveHorizon and altitude refer to
+  planets: PlanetRisingsResponse[];
+};
+
+const risingsCache = new TtlCache<RisingsResponse>();
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const tz = url.searchParams.get('tz') || 'UTC';
+
+  if (!DateTime.now().setZone(tz).isValid) {
+    return badRequest('Invalid tz, expected an IANA timezone name');
+  }
+
+  const lat = parseNumber(url.searchParams.get('lat'));
+  const lon = parseNumber(url.searchParams.get('lon'));
+  if (lat == null || lon == null || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return badRequest('Missing or invalid lat/lon query params');
+  }
+
+  const elevationParam = url.searchParams.get('elevation');
+  const elevation = elevationParam ? parseNumber(elevationParam) : 0;
+  if (elevation == null || elevation < -500 || elevation > 9000) {
+    return badRequest('Invalid elevation, expected meters between -500 and 9000');
+  }
+
+  const dateParam = url.searchParams.get('date');
+  const localDay = dateParam ? parseLocalDate(dateParam, tz) : DateTime.now().setZone(tz).startOf('day');
+  if (!localDay) {
+    return badRequest('Invalid date, expected YYYY-MM-DD');
+  }
+  const dateStr = localDay.toFormat('yyyy-LL-dd');
+
+  const timestampParam = url.searchParams.get('timestamp');
+  const time = parseTimestamp(timestampParam);
+
+  const isNowRequest = !timestampParam;
+  const cacheKey = [
+    dateStr,
+    tz,
+    roundCoord(lat, 4),
+    roundCoord(lon, 4),
+    elevation,
+    isNowRequest ? 'now' : time.toISOString(),
+  ].join('|');
+  const cacheControl = isNowRequest
+    ? 'public, max-age=30, s-maxage=60, stale-while-revalidate=300'
+    : 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+  risingsCache.prune();
+  let payload = risingsCache.get(cacheKey);
+
+  if (!payload) {
+    try {
+      const schedule = calculateRisings({
+        date: dateStr,
+        latitude: lat,
+        longitude: lon,
+        timezone: tz,
+        elevation,
+        at: time,
+      });
+      const toUtc = (date: Date | null) => date && date.toISOString();
+      const toLocal = (date: Date | null) => date && DateTime.fromJSDate(date, { zone: tz }).toISO()!;
+
+      payload = {
+        date: schedule.date,
+        timezone: tz,
+        latitude: lat,
+        longitude: lon,
+        elevation,
+        timestampUtc: time.toISOString(),
+        planets: schedule.planets.map((p) => ({
+          planet: p.planet,
+          riseUtc: toUtc(p.rise),
+          riseLocal: toLocal(p.rise),
+          culminationUtc: toUtc(p.culmination),
+          culminationLocal: toLocal(p.culmination),
+          setUtc: toUtc(p.set),
+          setLocal: toLocal(p.set),
+          lowerCulminationUtc: toUtc(p.lowerCulmination),
+          lowerCulminationLocal: toLocal(p.lowerCulmination),
+          isAboveHorizon: p.isAboveHorizon,
+          altitude: p.altitude,
+        })),
+      };
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Failed to calculate rise and set times';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+
+    // Cache "now" briefly and fixed timestamps longer.
+    risingsCache.set(cacheKey, payload, isNowRequest ? 30_000 : 7 * 24 * 60 * 60 * 1000);
+  }
+
+  return NextResponse.json(payload, {
+    headers: {
+      'Cache-Control': cacheControl,
+    },
+  });
+}
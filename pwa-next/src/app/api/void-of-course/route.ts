@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import type { PlanetId, ZodiacSign } from '@shared/astro';
+import type { AspectType } from '@shared/aspects';
+import { findVoidOfCoursePeriods, MAX_VOID_RANGE_DAYS } from '@shared/voidOfCourse';
+import { parseLocalDate } from '@/lib/timestamp';
+import { TtlCache } from '@/lib/ttlCache';
+
+type VoidOfCoursePeriodResponse = {
+  startUtc: string;
+  endUtc: string;
+  startLocal: string;
+  endLocal: string;
+  sign: ZodiacSign;
+  nextSign: ZodiacSign;
+  lastAspect: {
+    planet: PlanetId;
+    type: AspectType;
+    dateUtc: string;
+  } | null;
+};
+
+type VoidOfCourseResponse = {
+  start: string; // first local date, YYYY-MM-DD
+  end: string; // last local date (inclusive), YYYY-MM-DD
+  timezone: string;
+  periods: VoidOfCoursePeriodResponse[];
+};
+
+const voidOfCourseCache = new TtlCache<VoidOfCourseResponse>();
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const tz = url.searchParams.get('tz') || 'UTC';
+
+  if (!DateTime.now().setZone(tz).isValid) {
+    return badRequest('Invalid tz, expected an IANA timezone name');
+  }
+
+  const start = parseLocalDate(url.searchParams.get('start'), tz);
+  const end = parseLocalDate(url.searchParams.get('end'), tz);
+
+  if (!start || !end) {
+    return badRequest('Missing or invalid start/end query params, expected YYYY-MM-DD');
+  }
+
+  if (end < start) {
+    return badRequest('end must not be before start');
+  }
+
+  const dayCount = Math.round(end.diff(start, 'days').days) + 1;
+  if (dayCount > MAX_VOID_RANGE_DAYS) {
+    return badRequest(`Range too long: ${dayCount} days, at most ${MAX_VOID_RANGE_DAYS} allowed`);
+  }
+
+  const startStr = start.toFormat('yyyy-LL-dd');
+  const endStr = end.toFormat('yyyy-LL-dd');
+  const cacheKey = [startStr, endStr, tz].join('|');
+
+  voidOfCourseCache.prune();
+  let payload = voidOfCourseCache.get(cacheKey);
+
+  if (!payload) {
+    try {
+      const periods = findVoidOfCoursePeriods(start.toJSDate(), end.plus({ days: 1 }).toJSDate());
+      const toLocal = (date: Date) => DateTime.fromJSDate(date, { zone: tz }).toISO()!;
+
+      payload = {
+        start: startStr,
+        end: endStr,
+        timezone: tz,
+        periods: periods.map((period) => ({
+          startUtc: period.start.toISOString(),
+          endUtc: period.end.toISOString(),
+          startLocal: toLocal(period.start),
+          endLocal: toLocal(period.end),
+          sign: period.sign,
+          nextSign: period.nextSign,
+          lastAspect: period.lastAspect && {
+            planet: period.lastAspect.planet,
+            type: period.lastAspect.type,
+            dateUtc: period.lastAspect.date.toISOString(),
+          },
+        })),
+      };
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : 'Failed to find void-of-course periods';
+      return NextResponse.json(
+        { error: message },
+        { status: 500 }
+      );
+    }
+
+    // Void periods never change for fixed dates.
+    voidOfCourseCache.set(cacheKey, payload, 7 * 24 * 60 * 60 * 1000);
+  }
+
+  return NextResponse.json(payload, {
+    headers: {
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800',
+    },
+  });
+}
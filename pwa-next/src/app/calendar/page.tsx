@@ -17,15 +17,82 @@ type PlanetaryHoursResponse = {
   timezone: string;
   latitude: number;
   longitude: number;
+  mode: string;
+  effectiveLatitude: number;
   dayRuler: string;
   hours: PlanetaryHourInterval[];
 };
 
+type AstroEventItem = {
+  id: string;
+  type: string;
+  planet: string;
+  sign: string;
+  title: string;
+  description: string;
+  dateLocal: string;
+};
+
+type EventsResponse = {
+  events: AstroEventItem[];
+};
+
+type VoidOfCoursePeriod = {
+  startLocal: string;
+  endLocal: string;
+  sign: string;
+  nextSign: string;
+  lastAspect: { planet: string; type: string } | null;
+};
+
+type VoidOfCourseResponse = {
+  periods: VoidOfCoursePeriod[];
+};
+
+const eventTypeColors: Record<string, string> = {
+  ingress: 'bg-sky-500',
+  retrograde: 'bg-red-500',
+  direct: 'bg-emerald-500',
+  conjunction: 'bg-amber-500',
+  opposition: 'bg-violet-500',
+};
+
+const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const modeLabels: Record<string, string> = {
+  'nearest-latitude': 'No sunrise/sunset here today; using the nearest latitude where the Sun rises',
+  'civil-twilight': 'No sunrise/sunset here today; using civil twilight as day boundaries',
+  'nautical-twilight': 'No sunrise/sunset here today; using nautical twilight as day boundaries',
+  'solar-noon': 'No sunrise/sunset here today; using equal hours around local solar noon',
+};
+
 function formatLocal(iso: string): string {
   const d = new Date(iso);
   return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 }
 
+// True when the Moon is void of course for some of the interval
+function overlapsVoid(startIso: string, endIso: string, periods: VoidOfCoursePeriod[]): boolean {
+  const start = new Date(startIso).getTime();
+  const end = new Date(endIso).getTime();
+  return periods.some((p) => new Date(p.startLocal).getTime() < end && start < new Date(p.endLocal).getTime());
+}
+
+// YYYY-MM-DD for each day of a YYYY-MM month, padded with nulls to whole weeks.
+function monthGrid(yearMonth: string): Array<string | null> {
+  if (!/^\d{4}-\d{2}$/.test(yearMonth)) return [];
+  const [year, month] = yearMonth.split('-').map(Number);
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  const cells: Array<string | null> = Array(firstWeekday).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(`${yearMonth}-${String(day).padStart(2, '0')}`);
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+  return cells;
+}
+
 export default function CalendarPage() {
   const timezone = useMemo(
     () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
@@ -42,6 +109,21 @@ export default function CalendarPage() {
   const [data, setData] = useState<PlanetaryHoursResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [events, setEvents] = useState<AstroEventItem[]>([]);
+  const [eventsError, setEventsError] = useState<string | null>(null);
+  const [voidPeriods, setVoidPeriods] = useState<VoidOfCoursePeriod[]>([]);
+
+  const month = date.slice(0, 7);
+  const days = useMemo(() => monthGrid(month), [month]);
+
+  const eventsByDate = useMemo(() => {
+    const byDate: Record<string, AstroEventItem[]> = {};
+    for (const event of events) {
+      const day = event.dateLocal.slice(0, 10);
+      (byDate[day] ??= []).push(event);
+    }
+    return byDate;
+  }, [events]);
 
   useEffect(() => {
     navigator.geolocation?.getCurrentPosition(
@@ -90,13 +172,84 @@ export default function CalendarPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [lat, lon, date]);
 
+  useEffect(() => {
+    if (days.length === 0) return;
+
+    const lastDay = days.filter((d): d is string => d != null).at(-1)!;
+    let cancelled = false;
+    setEventsError(null);
+    fetch(
+      `/api/events?start=${encodeURIComponent(`${month}-01`)}&end=${encodeURIComponent(lastDay)}&tz=${encodeURIComponent(
+        timezone
+      )}`
+    )
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) {
+          throw new Error(json?.error || 'Failed to load events');
+        }
+        if (!cancelled) setEvents((json as EventsResponse).events);
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        setEventsError(e instanceof Error ? e.message : 'Failed to load events');
+        setEvents([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [month, days, timezone]);
+
+  // The planetary day runs past midnight, so include the next date too.
+  useEffect(() => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    let cancelled = false;
+    fetch(
+      `/api/void-of-course?start=${encodeURIComponent(date)}&end=${encodeURIComponent(
+        next.toISOString().slice(0, 10)
+      )}&tz=${encodeURIComponent(timezone)}`
+    )
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) {
+          throw new Error(json?.error || 'Failed to load void-of-course periods');
+        }
+        if (!cancelled) setVoidPeriods((json as VoidOfCourseResponse).periods);
+      })
+      .catch(() => {
+        if (!cancelled) setVoidPeriods([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [date, timezone]);
+
+  const selectedEvents = eventsByDate[date] ?? [];
+
   return (
     <main className="mx-auto max-w-3xl p-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold">Planetary Hours</h1>
-        <Link className="text-sm underline" href="/">
-          Today
-        </Link>
+        <div className="flex gap-4 text-sm">
+          <Link
+            className="underline"
+            href={
+              lat != null && lon != null
+                ? `/almanac/${month}?${new URLSearchParams({ lat: String(lat), lon: String(lon), tz: timezone })}`
+                : `/almanac/${month}`
+            }
+          >
+            Almanac
+          </Link>
+          <Link className="underline" href="/">
+            Today
+          </Link>
+        </div>
       </div>
 
       <div className="mt-6 grid gap-4 rounded-xl border p-4">
@@ -145,12 +298,84 @@ export default function CalendarPage() {
         {error && <div className="text-sm text-red-600">{error}</div>}
       </div>
 
+      <section className="mt-8">
+        <h2 className="text-lg font-semibold">Events</h2>
+        <div className="mt-3 grid grid-cols-7 gap-1 text-center text-sm">
+          {weekdayLabels.map((label) => (
+            <div key={label} className="text-xs text-zinc-500">
+              {label}
+            </div>
+          ))}
+          {days.map((day, i) =>
+            day ? (
+              <button
+                key={day}
+                className={
+                  'flex h-12 flex-col items-center justify-center rounded border ' +
+                  (day === date ? 'border-black bg-zinc-50' : 'border-zinc-200')
+                }
+                onClick={() => setDate(day)}
+              >
+                <span>{Number(day.slice(8))}</span>
+                <span className="mt-1 flex gap-0.5">
+                  {(eventsByDate[day] ?? []).slice(0, 4).map((event) => (
+                    <span
+                      key={event.id}
+                      title={event.title}
+                      className={'h-1.5 w-1.5 rounded-full ' + (eventTypeColors[event.type] ?? 'bg-zinc-400')}
+                    />
+                  ))}
+                </span>
+              </button>
+            ) : (
+              <div key={`empty-${i}`} />
+            )
+          )}
+        </div>
+
+        {eventsError && <div className="mt-2 text-sm text-red-600">{eventsError}</div>}
+
+        <div className="mt-4 grid gap-2">
+          {selectedEvents.length === 0 ? (
+            <div className="text-sm text-zinc-600">No events on {date}.</div>
+          ) : (
+            selectedEvents.map((event) => (
+              <div key={event.id} className="flex items-center gap-3 rounded border border-zinc-200 px-3 py-2">
+                <span className={'h-2 w-2 rounded-full ' + (eventTypeColors[event.type] ?? 'bg-zinc-400')} />
+                <div className="flex-1 text-sm">
+                  <div className="font-medium">{event.title}</div>
+                  <div className="text-zinc-600">{event.description}</div>
+                </div>
+                <div className="text-sm text-zinc-600">{formatLocal(event.dateLocal)}</div>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+
       {data && (
         <section className="mt-8">
           <div className="text-sm text-zinc-600">
             Day ruler: <span className="font-medium text-zinc-900">{data.dayRuler}</span>
           </div>
 
+          {data.mode !== 'standard' && (
+            <div className="mt-2 text-sm text-amber-700">
+              {modeLabels[data.mode] ?? data.mode}
+              {data.mode === 'nearest-latitude' && ` (${data.effectiveLatitude.toFixed(1)}°)`}
+            </div>
+          )}
+
+          {voidPeriods
+            .filter((p) => data.hours.length > 0 && overlapsVoid(data.hours[0].startLocal, data.hours.at(-1)!.endLocal, [p]))
+            .map((p) => (
+              <div key={p.endLocal} className="mt-2 rounded border-l-4 border-amber-500 bg-amber-50 px-3 py-2 text-sm">
+                Moon void of course in {p.sign} from {formatLocal(p.startLocal)}
+                {p.lastAspect && ` (last ${p.lastAspect.type} with ${p.lastAspect.planet})`} until it enters {p.nextSign} at{' '}
+                {formatLocal(p.endLocal)}
+              </div>
+            ))}
+
           <div className="mt-4 grid gap-2">
             {data.hours.map((h) => (
               <div
@@ -163,7 +388,12 @@ export default function CalendarPage() {
                 <div className="text-sm">
                   <span className="font-medium">#{h.index}</span> {h.isDay ? 'Day' : 'Night'}
                 </div>
-                <div className="text-sm font-medium">{h.ruler}</div>
+                <div className="text-sm font-medium">
+                  {h.ruler}
+                  {overlapsVoid(h.startLocal, h.endLocal, voidPeriods) && (
+                    <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">Moon void</span>
+                  )}
+                </div>
                 <div className="text-sm text-zinc-600">
                   {formatLocal(h.startLocal)}–{formatLocal(h.endLocal)}
                 </div>
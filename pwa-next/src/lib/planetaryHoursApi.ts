@@ -0,0 +1,218 @@
+import { DateTime } from 'luxon';
+import type { PlanetId } from '@shared/astro';
+import {
+  calculatePlanetaryHours,
+  DEFAULT_POLAR_FALLBACK,
+  DEFAULT_SUNRISE_DEFINITION,
+  isPolarFallback,
+  isSunriseDefinition,
+  polarFallbacks,
+  sunriseDefinitions,
+  type PlanetaryHoursSchedule,
+  type PolarFallback,
+  type ScheduleMode,
+  type SunriseDefinition,
+} from '@shared/planetaryHours';
+import { DEFAULT_HOUR_SYSTEM, hourSystems, isHourSystem, type HourSystem } from '@shared/hourSystems';
+import { DEFAULT_ZODIAC, isZodiac, zodiacs, type Zodiac } from '@shared/zodiac';
+import { roundCoord, TtlCache } from '@/lib/ttlCache';
+
+// Shared by the single-day and range planetary hours routes.
+
+export type PlanetaryHourInterval = {
+  index: number; // 1..24
+  ruler: PlanetId;
+  isDay: boolean;
+  startUtc: string;
+  endUtc: string;
+  startLocal: string;
+  endLocal: string;
+  isCurrent: boolean;
+};
+
+export type PlanetaryHoursResponse = {
+  date: string; // local date requested, YYYY-MM-DD
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  sunriseDefinition: SunriseDefinition;
+  hourSystem: HourSystem;
+  mode: ScheduleMode; // 'standard' unless a polar fallback was needed
+  effectiveLatitude: number;
+  sunriseUtc: string;
+  sunsetUtc: string;
+  nextSunriseUtc: string;
+  dayRuler: PlanetId;
+  hours: PlanetaryHourInterval[];
+};
+
+export type PlanetaryHoursParams = {
+  tz: string;
+  lat: number;
+  lon: number;
+  fallback: PolarFallback;
+  sunriseDefinition: SunriseDefinition;
+  hourSystem: HourSystem;
+  elevation: number;
+};
+
+export type ZodiacParams = {
+  zodiac: Zodiac;
+  // Degrees, with the custom zodiac only
+  ayanamsa?: number;
+};
+
+export function parseNumber(value: string | null): number | null {
+  if (value == null) return null;
+  const n = Number(value);
+  if (Number.isNaN(n) || !Number.isFinite(n)) return null;
+  return n;
+}
+
+// Parse the location and calculation options; returns an error message for a 400 response.
+export function parsePlanetaryHoursParams(
+  searchParams: URLSearchParams
+): { params: PlanetaryHoursParams } | { error: string } {
+  const tz = searchParams.get('tz') || 'UTC';
+  const lat = parseNumber(searchParams.get('lat'));
+  const lon = parseNumber(searchParams.get('lon'));
+  const fallback = searchParams.get('fallback') || DEFAULT_POLAR_FALLBACK;
+  const sunriseDefinition = searchParams.get('sunriseDefinition') || DEFAULT_SUNRISE_DEFINITION;
+  const hourSystem = searchParams.get('hourSystem') || DEFAULT_HOUR_SYSTEM;
+  const elevationParam = searchParams.get('elevation');
+  const elevation = elevationParam ? parseNumber(elevationParam) : 0;
+
+  if (lat == null || lon == null) {
+    return { error: 'Missing or invalid lat/lon query params' };
+  }
+
+  if (!isPolarFallback(fallback)) {
+    return { error: `Invalid fallback, expected one of: ${polarFallbacks.join(', ')}` };
+  }
+
+  if (!isSunriseDefinition(sunriseDefinition)) {
+    return { error: `Invalid sunriseDefinition, expected one of: ${sunriseDefinitions.join(', ')}` };
+  }
+
+  if (!isHourSystem(hourSystem)) {
+    return { error: `Invalid hourSystem, expected one of: ${hourSystems.join(', ')}` };
+  }
+
+  // Dead Sea shore to the top of Everest.
+  if (elevation == null || elevation < -500 || elevation > 9000) {
+    return { error: 'Invalid elevation, expected meters between -500 and 9000' };
+  }
+
+  return { params: { tz, lat, lon, fallback, sunriseDefinition, hourSystem, elevation } };
+}
+
+// Parse the zodiac and, for a custom one, its ayanamsa; returns an error message for a 400 response.
+export function parseZodiacParams(searchParams: URLSearchParams): { zodiac: ZodiacParams } | { error: string } {
+  const zodiac = searchParams.get('zodiac') || DEFAULT_ZODIAC;
+  if (!isZodiac(zodiac)) {
+    return { error: `Invalid zodiac, expected one of: ${zodiacs.join(', ')}` };
+  }
+
+  // A custom zodiac takes its ayanamsa in degrees
+  const ayanamsaParam = searchParams.get('ayanamsa');
+  const ayanamsa = parseNumber(ayanamsaParam);
+  if (zodiac === 'custom' && (ayanamsa == null || ayanamsa < 0 || ayanamsa > 45)) {
+    return { error: 'Invalid ayanamsa, expected degrees between 0 and 45 for zodiac=custom' };
+  }
+  if (zodiac !== 'custom' && ayanamsaParam != null) {
+    return { error: 'ayanamsa is only used with zodiac=custom' };
+  }
+
+  return { zodiac: { zodiac, ayanamsa: ayanamsa ?? undefined } };
+}
+
+export function withCurrentFlags(payload: PlanetaryHoursResponse, nowUtc: DateTime): PlanetaryHoursResponse {
+  return {
+    ...payload,
+    hours: payload.hours.map((h) => ({
+      ...h,
+      isCurrent: nowUtc >= DateTime.fromISO(h.startUtc) && nowUtc < DateTime.fromISO(h.endUtc),
+    })),
+  };
+}
+
+function toResponse(schedule: PlanetaryHoursSchedule): PlanetaryHoursResponse {
+  const tz = schedule.timezone;
+  return {
+    date: schedule.date,
+    timezone: tz,
+    latitude: schedule.latitude,
+    longitude: schedule.longitude,
+    elevation: schedule.elevation,
+    sunriseDefinition: schedule.sunriseDefinition,
+    hourSystem: schedule.hourSystem,
+    mode: schedule.mode,
+    effectiveLatitude: schedule.effectiveLatitude,
+    sunriseUtc: schedule.sunrise.toISOString(),
+    sunsetUtc: schedule.sunset.toISOString(),
+    nextSunriseUtc: schedule.nextSunrise.toISOString(),
+    dayRuler: schedule.dayRuler,
+    hours: schedule.hours.map((h) => ({
+      index: h.index,
+      ruler: h.ruler,
+      isDay: h.isDay,
+      startUtc: h.start.toISOString(),
+      endUtc: h.end.toISOString(),
+      startLocal: DateTime.fromJSDate(h.start, { zone: tz }).toISO()!,
+      endLocal: DateTime.fromJSDate(h.end, { zone: tz }).toISO()!,
+      isCurrent: false,
+    })),
+  };
+}
+
+const planetaryHoursCache = new TtlCache<PlanetaryHoursResponse>();
+
+/**
+ * Schedule of one local day (`YYYY-MM-DD` in `params.tz`) with all isCurrent flags cleared.
+ * Days are cached per process, so the range route and the single-day route share entries.
+ * Throws `SunEventsError` when the Sun does not rise or set and the fallback is `none`.
+ */
+export function getDaySchedule(dateStr: string, params: PlanetaryHoursParams): PlanetaryHoursResponse {
+  const cacheKey = JSON.stringify({
+    date: dateStr,
+    tz: params.tz,
+    lat: roundCoord(params.lat, 4),
+    lon: roundCoord(params.lon, 4),
+    fallback: params.fallback,
+    sunriseDefinition: params.sunriseDefinition,
+    elevation: params.elevation,
+    hourSystem: params.hourSystem,
+  });
+
+  const cached = planetaryHoursCache.get(cacheKey);
+  if (cached) return cached;
+
+  const payload = toResponse(
+    calculatePlanetaryHours({
+      date: dateStr,
+      latitude: params.lat,
+      longitude: params.lon,
+      timezone: params.tz,
+      elevation: params.elevation,
+      sunriseDefinition: params.sunriseDefinition,
+      hourSystem: params.hourSystem,
+      polarFallback: params.fallback,
+    })
+  );
+
+  planetaryHoursCache.set(cacheKey, payload, 24 * 60 * 60 * 1000);
+  return payload;
+}
+
+export function prunePlanetaryHoursCache(): void {
+  planetaryHoursCache.prune();
+}
+
+// Short-lived while a range includes today; past and future days never change.
+export function planetaryHoursCacheControl(includesToday: boolean): string {
+  if (includesToday) {
+    return 'public, max-age=30, s-maxage=60, stale-while-revalidate=300';
+  }
+  return 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+}
@@ -0,0 +1,18 @@
+import { DateTime } from 'luxon';
+
+// Parse a `timestamp` query param given as an ISO string or epoch milliseconds; defaults to now.
+export function parseTimestamp(param: string | null): Date {
+  if (!param) return new Date();
+  const d = new Date(param);
+  if (!isNaN(d.getTime())) return d;
+  const ms = Number(param);
+  if (!Number.isNaN(ms) && Number.isFinite(ms)) return new Date(ms);
+  return new Date();
+}
+
+// Parse a local calendar date `YYYY-MM-DD` as the start of that day in `tz`.
+export function parseLocalDate(value: string | null, tz: string): DateTime | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const dt = DateTime.fromISO(value, { zone: tz });
+  return dt.isValid ? dt.startOf('day') : null;
+}
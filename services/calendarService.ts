@@ -8,6 +8,18 @@ export interface PlanetaryDayEvent {
     name: string;
   };
   date: string;
+  // Sunrise that ends the planetary day; without it the day is a civil (all-day) day
+  endDate?: string;
+}
+
+// A ritual planned for a chosen time, such as a planetary hour near a solar return
+export interface RitualReminderEvent {
+  id: string;
+  title: string;
+  notes: string;
+  startDate: Date;
+  endDate: Date;
+  planetId: PlanetDayType;
 }
 
 /**
@@ -51,14 +63,16 @@ export const addPlanetaryDayToCalendar = async (
     const calendarId = await getDefaultCalendarId();
     
     const startDate = new Date(planetaryDay.date);
-    const endDate = new Date(planetaryDay.date);
-    endDate.setDate(endDate.getDate() + 1); // End date is exclusive
+    const endDate = planetaryDay.endDate ? new Date(planetaryDay.endDate) : new Date(planetaryDay.date);
+    if (!planetaryDay.endDate) {
+      endDate.setDate(endDate.getDate() + 1); // End date is exclusive
+    }
     const eventDetails = {
       title: `${planetaryDay.planet.name} Day`,
       notes: `This is a ${planetaryDay.planet.name} day. Rituals and activities associated with ${planetaryDay.planet.name} are more effective today.`,
       startDate,
       endDate,
-      allDay: true,
+      allDay: !planetaryDay.endDate,
       timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     };
     const eventId = await Calendar.createEventAsync(calendarId, eventDetails);
@@ -97,3 +111,30 @@ export const addPlanetaryHourToCalendar = async (
     throw error;
   }
 };
+
+/**
+ * Add a ritual reminder event to the calendar
+ * @param reminder - The ritual to add
+ * @returns Promise<string> - Event ID
+ */
+export const addRitualReminderToCalendar = async (
+  reminder: RitualReminderEvent
+): Promise<string> => {
+  try {
+    const calendarId = await getDefaultCalendarId();
+    
+    const eventDetails = {
+      title: reminder.title,
+      notes: reminder.notes,
+      startDate: reminder.startDate,
+      endDate: reminder.endDate,
+      allDay: false,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+    const eventId = await Calendar.createEventAsync(calendarId, eventDetails);
+    return eventId;
+  } catch (error) {
+    console.error('Error adding ritual reminder to calendar:', error);
+    throw error;
+  }
+};
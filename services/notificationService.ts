@@ -1,6 +1,8 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { PlanetaryHour, PlanetDay, Planet } from '@/types';
+import type { Transit } from '../shared/transits';
+import type { RitualReminderEvent } from './calendarService';
 
 // Define a proper interface for the notification trigger
 interface NotificationTrigger {
@@ -14,6 +16,8 @@ interface PlanetaryDayEvent {
     name: string;
   };
   date: string;
+  // Sunrise that ends the planetary day; without it the day is a civil day
+  endDate?: string;
 }
 
 /**
@@ -47,9 +51,11 @@ export const schedulePlanetaryDayNotification = async (
   planetaryDay: PlanetaryDayEvent
 ): Promise<string> => {
   try {
-    // Set notification for the beginning of the day (midnight)
+    // Set notification for the beginning of the day (sunrise, or midnight for a civil day)
     const triggerDate = new Date(planetaryDay.date);
-    triggerDate.setHours(0, 0, 0, 0);
+    if (!planetaryDay.endDate) {
+      triggerDate.setHours(0, 0, 0, 0);
+    }
     
     // Ensure the notification is for the future
     if (triggerDate <= new Date()) {
@@ -125,6 +131,108 @@ export const schedulePlanetaryHourNotification = async (
   }
 };
 
+/**
+ * Schedule a notification ahead of an exact transit to the natal chart
+ * @param transit - The transit to notify about
+ * @param leadHours - How many hours before exactness to notify
+ * @returns Promise<string> - Notification ID
+ */
+export const scheduleTransitNotification = async (
+  transit: Transit,
+  leadHours: number
+): Promise<string> => {
+  try {
+    const triggerDate = new Date(transit.date.getTime() - leadHours * 60 * 60 * 1000);
+    
+    // Ensure the notification is for the future
+    if (triggerDate <= new Date()) {
+      console.warn('Cannot schedule notification for past time');
+      return '';
+    }
+    
+    // Create notification content
+    const planetName = transit.planet.charAt(0).toUpperCase() + transit.planet.slice(1);
+    const exactAt = transit.date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+    const content = {
+      title: transit.title,
+      body: `Exact ${exactAt}, with ${planetName}${transit.isRetrograde ? ' retrograde' : ''} in ${transit.sign}.`,
+      data: { type: 'transit', transitId: transit.id },
+    };
+    
+    // Create notification trigger
+    const trigger: any = {
+      date: triggerDate
+    };
+    
+    // The transit ID as identifier replaces a notification already scheduled for it
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      identifier: transit.id,
+      content,
+      trigger,
+    });
+    
+    return notificationId;
+  } catch (error) {
+    console.error('Error scheduling transit notification:', error);
+    throw error;
+  }
+};
+
+/**
+ * Schedule a notification for the start of a planned ritual
+ * @param reminder - The ritual to notify about
+ * @returns Promise<string> - Notification ID
+ */
+export const scheduleRitualReminderNotification = async (
+  reminder: RitualReminderEvent
+): Promise<string> => {
+  try {
+    const triggerDate = new Date(reminder.startDate);
+    
+    // Ensure the notification is for the future
+    if (triggerDate <= new Date()) {
+      console.warn('Cannot schedule notification for past time');
+      return '';
+    }
+    
+    // Create notification content
+    const content = {
+      title: reminder.title,
+      body: reminder.notes,
+      data: { type: 'ritual', planetId: reminder.planetId },
+    };
+    
+    // Create notification trigger
+    const trigger: any = {
+      date: triggerDate
+    };
+    
+    // Scheduling the same ritual again replaces its notification
+    const notificationId = await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content,
+      trigger,
+    });
+    
+    return notificationId;
+  } catch (error) {
+    console.error('Error scheduling ritual reminder notification:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel the scheduled transit notifications, leaving the planetary day and hour ones
+ */
+export const cancelTransitNotifications = async (): Promise<void> => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(notification => notification.content.data?.type === 'transit')
+      .map(notification => Notifications.cancelScheduledNotificationAsync(notification.identifier))
+  );
+};
+
 /**
  * Cancel all scheduled notifications
  */
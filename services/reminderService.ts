@@ -1,8 +1,27 @@
-import { PlanetDay } from '@/types';
-import { getPlanetaryDayRuler } from '@/utils/planetaryHours';
-import { addPlanetaryDayToCalendar, addPlanetaryHourToCalendar, requestCalendarPermission } from './calendarService';
-import { requestNotificationPermission, schedulePlanetaryDayNotification, schedulePlanetaryHourNotification } from './notificationService';
-import { calculatePlanetaryHours } from '@/utils/planetaryHours';
+import { AstrologicalChart, PlanetDay } from '@/types';
+import { getPlanetaryDayRuler, type PlanetaryDayLocation } from '@/utils/planetaryHours';
+import {
+  addPlanetaryDayToCalendar,
+  addPlanetaryHourToCalendar,
+  addRitualReminderToCalendar,
+  requestCalendarPermission,
+  type RitualReminderEvent
+} from './calendarService';
+import {
+  cancelTransitNotifications,
+  requestNotificationPermission,
+  schedulePlanetaryDayNotification,
+  schedulePlanetaryHourNotification,
+  scheduleRitualReminderNotification,
+  scheduleTransitNotification
+} from './notificationService';
+import { calculatePlanetaryHours, getPlanetaryDay } from '@/utils/planetaryHours';
+import type { PlanetaryHourSlot, PlanetaryHoursOptions } from '../shared/planetaryHours';
+import type { PlanetReturn } from '../shared/returns';
+import { findEclipsesDuring, isDuringEclipse, type Eclipse } from '../shared/eclipses';
+import type { TransitOptions } from '../shared/transits';
+import { getUpcomingTransits } from '@/utils/transits';
+import { returnLabels } from '@/utils/returns';
 import { supabase } from './supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -74,9 +93,35 @@ export const updateReminderSettings = async (
 /**
  * Create a planetary day object for the given date
  * @param date - Date to create planetary day for
- * @returns Object with planet and date
+ * @param location - Optional location; the day then runs from sunrise to the next sunrise
+ * @param options - Sunrise definition and observer elevation for the day boundaries
+ * @returns Object with planet, start date and, with a location, end date
  */
-export const createPlanetaryDay = (date: Date) => {
+export const createPlanetaryDay = (
+  date: Date,
+  location?: PlanetaryDayLocation | null,
+  options: PlanetaryHoursOptions = {}
+) => {
+  if (location) {
+    try {
+      // Anchor at local noon so the day found is the one starting at this date's sunrise
+      const noon = new Date(date);
+      noon.setHours(12, 0, 0, 0);
+      const { dayRuler, hours } = getPlanetaryDay(noon, location, options);
+      
+      return {
+        planet: {
+          id: dayRuler,
+          name: dayRuler.charAt(0).toUpperCase() + dayRuler.slice(1)
+        },
+        date: hours[0].start.toISOString(),
+        endDate: hours[hours.length - 1].end.toISOString()
+      };
+    } catch (error) {
+      console.error('Error finding planetary day:', error);
+    }
+  }
+  
   const planetId = getPlanetaryDayRuler(date);
   const planet = {
     id: planetId,
@@ -93,11 +138,17 @@ export const createPlanetaryDay = (date: Date) => {
  * Schedule reminders for upcoming planetary days
  * @param userId - User ID
  * @param daysToSchedule - Number of days to schedule reminders for
+ * @param location - Optional location for sunrise-to-sunrise planetary days
+ * @param options - Sunrise definition and observer elevation for the day boundaries
+ * @param avoidEclipses - Skip days during which a solar or lunar eclipse takes place
  * @returns Promise<void>
  */
 export const scheduleUpcomingDayReminders = async (
   userId: string,
-  daysToSchedule: number = 7
+  daysToSchedule: number = 7,
+  location?: PlanetaryDayLocation | null,
+  options: PlanetaryHoursOptions = {},
+  avoidEclipses: boolean = false
 ): Promise<void> => {
   try {
     // Get user reminder settings
@@ -111,11 +162,25 @@ export const scheduleUpcomingDayReminders = async (
     // Schedule reminders for upcoming days
     const today = new Date();
     
+    // A sunrise-to-sunrise day can run into the morning after the last date
+    const searchEnd = new Date(today);
+    searchEnd.setDate(searchEnd.getDate() + daysToSchedule + 1);
+    const eclipses: Eclipse[] = avoidEclipses ? findEclipsesDuring(today, searchEnd) : [];
+    
     for (let i = 0; i < daysToSchedule; i++) {
       const date = new Date(today);
       date.setDate(date.getDate() + i);
       
-      const planetaryDay = createPlanetaryDay(date);
+      const planetaryDay = createPlanetaryDay(date, location, options);
+      
+      // Without a location the day is the calendar day
+      const dayStart = new Date(planetaryDay.date);
+      const dayEnd = 'endDate' in planetaryDay && planetaryDay.endDate
+        ? new Date(planetaryDay.endDate)
+        : new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+      if (isDuringEclipse(dayStart, dayEnd, eclipses)) {
+        continue;
+      }
       
       // Add to calendar if enabled
       if (settings.calendar_reminders) {
@@ -139,13 +204,17 @@ export const scheduleUpcomingDayReminders = async (
  * @param date - Date to schedule reminders for
  * @param latitude - Latitude for calculating planetary hours
  * @param longitude - Longitude for calculating planetary hours
+ * @param options - Sunrise definition and observer elevation for the hours
+ * @param avoidEclipses - Skip hours that overlap a solar or lunar eclipse
  * @returns Promise<void>
  */
 export const scheduleHourReminders = async (
   userId: string,
   date: Date,
   latitude: number,
-  longitude: number
+  longitude: number,
+  options: PlanetaryHoursOptions = {},
+  avoidEclipses: boolean = false
 ): Promise<void> => {
   try {
     // Get user reminder settings
@@ -156,8 +225,18 @@ export const scheduleHourReminders = async (
       return;
     }
     
-    // Calculate planetary hours for the day
-    const planetaryHours = calculatePlanetaryHours(date, latitude, longitude);
+    // Calculate planetary hours for the day with the shared hours engine
+    const planetaryHours = calculatePlanetaryHours(
+      date,
+      latitude,
+      longitude,
+      Intl.DateTimeFormat().resolvedOptions().timeZone,
+      options
+    );
+    
+    const eclipses: Eclipse[] = avoidEclipses && planetaryHours.length > 0
+      ? findEclipsesDuring(planetaryHours[0].startTime, planetaryHours[planetaryHours.length - 1].endTime)
+      : [];
     
     // Schedule reminders for each hour
     for (const hour of planetaryHours) {
@@ -166,6 +245,10 @@ export const scheduleHourReminders = async (
         continue;
       }
       
+      if (isDuringEclipse(hour.startTime, hour.endTime, eclipses)) {
+        continue;
+      }
+      
       // Add to calendar if enabled
       if (settings.calendar_reminders) {
         await addPlanetaryHourToCalendar(hour);
@@ -181,3 +264,83 @@ export const scheduleHourReminders = async (
     throw error;
   }
 };
+
+/**
+ * Schedule notifications ahead of the transits to a birth chart, replacing those scheduled before
+ * @param chart - Birth chart the transits are measured to
+ * @param leadHours - How many hours before exactness to notify
+ * @param options - Orbs and planets for the transit search
+ * @param daysToSchedule - Number of days ahead to schedule notifications for
+ * @returns Promise<number> - Number of notifications scheduled
+ */
+export const scheduleTransitReminders = async (
+  chart: AstrologicalChart,
+  leadHours: number,
+  options: TransitOptions = {},
+  daysToSchedule: number = 14
+): Promise<number> => {
+  try {
+    // A changed chart or lead time moves every transit notification
+    await cancelTransitNotifications();
+    
+    const transits = getUpcomingTransits(chart, new Date(), options, daysToSchedule);
+    let scheduled = 0;
+    for (const transit of transits) {
+      if (await scheduleTransitNotification(transit, leadHours)) {
+        scheduled++;
+      }
+    }
+    return scheduled;
+  } catch (error) {
+    console.error('Error scheduling transit reminders:', error);
+    throw error;
+  }
+};
+
+/**
+ * Schedule a reminder for a solar or lunar return ritual in the given planetary hour
+ * @param userId - User ID
+ * @param planetReturn - The return the ritual marks
+ * @param hour - The Sun or Moon hour to perform the ritual in
+ * @returns Promise<boolean> - False when neither calendar nor push reminders are enabled
+ */
+export const scheduleReturnRitualReminder = async (
+  userId: string,
+  planetReturn: PlanetReturn,
+  hour: Pick<PlanetaryHourSlot, 'start' | 'end'>
+): Promise<boolean> => {
+  try {
+    const settings = await getReminderSettings(userId);
+    
+    // If no reminders are enabled, there is nowhere to put the ritual
+    if (!settings.calendar_reminders && !settings.push_notification_reminders) {
+      return false;
+    }
+    
+    const label = returnLabels[planetReturn.kind];
+    const planetName = planetReturn.planet.charAt(0).toUpperCase() + planetReturn.planet.slice(1);
+    const reminder: RitualReminderEvent = {
+      id: `${planetReturn.kind}-return-${planetReturn.date.toISOString()}`,
+      title: `${label} Ritual`,
+      notes: `The ${planetName} returns to its natal place at ${planetReturn.date.toLocaleString()}. This ${planetName} hour is the nearest to it.`,
+      startDate: hour.start,
+      endDate: hour.end,
+      planetId: planetReturn.planet
+    };
+    
+    // Add to calendar if enabled
+    if (settings.calendar_reminders) {
+      await addRitualReminderToCalendar(reminder);
+    }
+    
+    // Schedule notification if enabled
+    if (settings.push_notification_reminders) {
+      await scheduleRitualReminderNotification(reminder);
+    }
+    
+    return true;
+  } catch (error) {
+    console.error('Error scheduling return ritual reminder:', error);
+    throw error;
+  }
+};
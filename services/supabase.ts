@@ -1,7 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createClient } from '@supabase/supabase-js';
 import { Platform } from 'react-native';
-import { RitualLog, Settings as AppSettings, Profile } from '../app/types/database';
+import { RitualLog, Settings as AppSettings, Profile, NatalChartInsert, HoraryChartInsert } from '../app/types/database';
+import { DEFAULT_SUNRISE_DEFINITION } from '../shared/planetaryHours';
+import { DEFAULT_HOUR_SYSTEM } from '../shared/hourSystems';
+import { DEFAULT_ZODIAC } from '../shared/zodiac';
 
 // Use the provided Supabase URL and anon key
 const supabaseUrl = 'https://ddayngewhgmynensehmg.supabase.co';
@@ -259,20 +262,22 @@ export const getDefaultSettings = (userId: string): AppSettings => ({
   dark_mode: true,
   notifications: true,
   auto_detect_location: true,
-  location: {
-    // Add zodiac sign information to the location object
-    zodiac: {
-      sunSign: 'aries',
-      moonSign: 'taurus',
-      risingSign: 'gemini'
-    }
-  },
+  location: null,
   sound_enabled: true,
   haptic_feedback_enabled: true,
   language: 'en',
   units: 'metric',
   theme: 'dark',
-  font_size: 'medium'
+  font_size: 'medium',
+  sunrise_definition: DEFAULT_SUNRISE_DEFINITION,
+  elevation: 0,
+  hour_system: DEFAULT_HOUR_SYSTEM,
+  zodiac: DEFAULT_ZODIAC,
+  custom_ayanamsa: 0,
+  avoid_eclipses: false,
+  transit_notifications: false,
+  transit_orb: 2,
+  transit_lead_hours: 24
 });
 
 // Settings - real API calls
@@ -313,4 +318,86 @@ export const updateUserSettings = async (userId: string, updates: Partial<AppSet
     console.error('Error in updateUserSettings:', err);
     return { data: null, error: err };
   }
-};
\ No newline at end of file
+};
+
+// Natal charts
+export const getNatalChart = async (userId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('natal_charts')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (err) {
+    console.error('Error in getNatalChart:', err);
+    return { data: null, error: err };
+  }
+};
+
+export const saveNatalChart = async (chart: NatalChartInsert) => {
+  try {
+    // One chart per user: replace the existing one
+    const { data, error } = await supabase
+      .from('natal_charts')
+      .upsert([{ ...chart, updated_at: new Date().toISOString() }], { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (err) {
+    console.error('Error in saveNatalChart:', err);
+    return { data: null, error: err };
+  }
+};
+
+// Horary charts
+export const getHoraryCharts = async (userId: string) => {
+  try {
+    const { data, error } = await supabase
+      .from('horary_charts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('cast_at', { ascending: false });
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (err) {
+    console.error('Error in getHoraryCharts:', err);
+    return { data: null, error: err };
+  }
+};
+
+export const saveHoraryChart = async (chart: HoraryChartInsert) => {
+  try {
+    const { data, error } = await supabase
+      .from('horary_charts')
+      .insert([chart])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data, error: null };
+  } catch (err) {
+    console.error('Error in saveHoraryChart:', err);
+    return { data: null, error: err };
+  }
+};
+
+export const deleteHoraryChart = async (id: string) => {
+  try {
+    const { error } = await supabase
+      .from('horary_charts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Error in deleteHoraryChart:', err);
+    return { error: err };
+  }
+};
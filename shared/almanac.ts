@@ -0,0 +1,213 @@
+import { DateTime } from 'luxon';
+import type { PlanetId, ZodiacSign } from './astro';
+import { findAstroEvents, type AstroEvent } from './events';
+import { getNextMoonPhases, type MoonPhaseEvent } from './moon';
+import { calculatePlanetaryHours, type PlanetaryHoursOptions } from './planetaryHours';
+import { calculatePlanetPositions, classicalPlanets, type PlanetPosition } from './positions';
+
+/**
+ * A printable almanac for one calendar month at one place: the noon positions of
+ * the seven planets for each local day with its ruler, sunrise and sunset, and the
+ * month's sign ingresses and principal Moon phases. Positions are tropical, like
+ * the ingresses found by the event search.
+ */
+
+export type AlmanacInput = PlanetaryHoursOptions & {
+  year: number;
+  // 1 to 12
+  month: number;
+  latitude: number;
+  longitude: number;
+  // IANA timezone the month and its days are read in; defaults to UTC
+  timezone?: string;
+};
+
+export type AlmanacDay = {
+  date: string; // local date, YYYY-MM-DD
+  dayRuler: PlanetId;
+  // Null when the Sun does not rise or set that day
+  sunrise: Date | null;
+  sunset: Date | null;
+  noon: Date;
+  positions: PlanetPosition[];
+};
+
+export type Almanac = {
+  month: string; // YYYY-MM
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  days: AlmanacDay[];
+  ingresses: AstroEvent[];
+  moonPhases: MoonPhaseEvent[];
+};
+
+// Symbols for the printed page; without them signs and planets are written out
+export type AlmanacGlyphs = {
+  planet: (planet: PlanetId) => string;
+  sign: (sign: ZodiacSign) => string;
+  retrograde: string;
+};
+
+export class AlmanacInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlmanacInputError';
+  }
+}
+
+// At most one of each quarter and a second of one of them fit in a month
+const MAX_PHASES_PER_MONTH = 6;
+
+// "YYYY-MM" to its year and month, or null when malformed
+export function parseAlmanacMonth(value: string | null | undefined): { year: number; month: number } | null {
+  const match = value ? /^(\d{4})-(\d{2})$/.exec(value) : null;
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? { year, month } : null;
+}
+
+export function generateAlmanac(input: AlmanacInput): Almanac {
+  const { year, month, latitude, longitude, timezone = 'UTC', ...options } = input;
+
+  if (!Number.isInteger(year) || year < 1 || year > 9999) {
+    throw new AlmanacInputError('Invalid year');
+  }
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new AlmanacInputError('Invalid month, expected 1 to 12');
+  }
+
+  const start = DateTime.fromObject({ year, month, day: 1 }, { zone: timezone });
+  if (!start.isValid) {
+    throw new AlmanacInputError('Invalid timezone');
+  }
+  const end = start.plus({ months: 1 });
+
+  const days: AlmanacDay[] = [];
+  for (let day = start; day < end; day = day.plus({ days: 1 })) {
+    const date = day.toFormat('yyyy-LL-dd');
+    const schedule = calculatePlanetaryHours({ ...options, date, latitude, longitude, timezone });
+    const noon = day.set({ hour: 12 }).toJSDate();
+    // Polar fallbacks stand in for sunrise and sunset but are not the Sun's own
+    const standard = schedule.mode === 'standard';
+
+    days.push({
+      date,
+      dayRuler: schedule.dayRuler,
+      sunrise: standard ? schedule.sunrise : null,
+      sunset: standard ? schedule.sunset : null,
+      noon,
+      positions: calculatePlanetPositions(noon, classicalPlanets),
+    });
+  }
+
+  const moonPhases = getNextMoonPhases(start.toJSDate(), MAX_PHASES_PER_MONTH)
+    .filter((phase) => phase.date < end.toJSDate());
+
+  return {
+    month: start.toFormat('yyyy-LL'),
+    timezone,
+    latitude,
+    longitude,
+    days,
+    ingresses: findAstroEvents(start.toJSDate(), end.toJSDate(), { types: ['ingress'] }),
+    moonPhases,
+  };
+}
+
+const phaseLabels: Record<MoonPhaseEvent['phase'], string> = {
+  new: 'New Moon',
+  'first quarter': 'First Quarter',
+  full: 'Full Moon',
+  'last quarter': 'Last Quarter',
+};
+
+export function getMoonPhaseLabel(phase: MoonPhaseEvent['phase']): string {
+  return phaseLabels[phase];
+}
+
+// e.g. 12°07' Gemini, with R while retrograde
+export function formatAlmanacPosition(position: PlanetPosition, glyphs?: AlmanacGlyphs): string {
+  const totalMinutes = Math.floor(position.degreeInSign * 60);
+  const degrees = Math.floor(totalMinutes / 60);
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+  const sign = glyphs ? glyphs.sign(position.sign) : position.sign;
+  const retrograde = position.isRetrograde ? ` ${glyphs ? glyphs.retrograde : 'R'}` : '';
+  return `${degrees}°${minutes}' ${sign}${retrograde}`;
+}
+
+const localTime = (date: Date | null, timezone: string) =>
+  date ? DateTime.fromJSDate(date, { zone: timezone }).toFormat('HH:mm') : '';
+
+// The ingresses and phases that fall on each local day, as "HH:mm title" lines
+export function getAlmanacDayEvents(almanac: Almanac, glyphs?: AlmanacGlyphs): Record<string, string[]> {
+  const byDate: Record<string, string[]> = {};
+  const entries = [
+    ...almanac.ingresses.map((event) => ({
+      date: event.date,
+      title: glyphs ? `${glyphs.planet(event.planet)} → ${glyphs.sign(event.sign)}` : event.title,
+    })),
+    ...almanac.moonPhases.map((phase) => ({ date: phase.date, title: getMoonPhaseLabel(phase.phase) })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const entry of entries) {
+    const local = DateTime.fromJSDate(entry.date, { zone: almanac.timezone });
+    const key = local.toFormat('yyyy-LL-dd');
+    if (!byDate[key]) byDate[key] = [];
+    byDate[key].push(`${local.toFormat('HH:mm')} ${entry.title}`);
+  }
+  return byDate;
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per day; times are local to the almanac's timezone.
+export function almanacToCsv(almanac: Almanac): string {
+  const events = getAlmanacDayEvents(almanac);
+  const header = ['date', 'day_ruler', 'sunrise', 'sunset', ...classicalPlanets, 'events'];
+  const rows = almanac.days.map((day) => [
+    day.date,
+    day.dayRuler,
+    localTime(day.sunrise, almanac.timezone),
+    localTime(day.sunset, almanac.timezone),
+    ...day.positions.map((position) => formatAlmanacPosition(position)),
+    (events[day.date] ?? []).join('; '),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+const localIso = (date: Date | null, timezone: string) =>
+  date ? DateTime.fromJSDate(date, { zone: timezone }).toISO() : null;
+
+// Plain JSON with local ISO instants, the shape the almanac API returns
+export function almanacToJson(almanac: Almanac) {
+  const { timezone } = almanac;
+  return {
+    month: almanac.month,
+    timezone,
+    latitude: almanac.latitude,
+    longitude: almanac.longitude,
+    days: almanac.days.map((day) => ({
+      ...day,
+      sunrise: localIso(day.sunrise, timezone),
+      sunset: localIso(day.sunset, timezone),
+      noon: localIso(day.noon, timezone),
+    })),
+    ingresses: almanac.ingresses.map(({ date, ...event }) => ({
+      ...event,
+      dateUtc: date.toISOString(),
+      dateLocal: localIso(date, timezone),
+    })),
+    moonPhases: almanac.moonPhases.map(({ date, phase }) => ({
+      phase,
+      title: getMoonPhaseLabel(phase),
+      dateUtc: date.toISOString(),
+      dateLocal: localIso(date, timezone),
+    })),
+  };
+}
@@ -0,0 +1,131 @@
+import { normalizeDelta180, type PlanetId } from './astro';
+import { calculatePlanetPositions, classicalPlanets, getDailyMotion } from './positions';
+
+/**
+ * Ptolemaic aspects between the planets. Two planets are in aspect when their
+ * angular distance is within the allowed orb of the aspect's angle. The aspect is
+ * applying while the planets' daily motions bring it closer to exact.
+ */
+
+export type AspectType = 'conjunction' | 'sextile' | 'square' | 'trine' | 'opposition';
+
+export const aspectTypes: AspectType[] = ['conjunction', 'sextile', 'square', 'trine', 'opposition'];
+
+export const aspectAngles: Record<AspectType, number> = {
+  conjunction: 0,
+  sextile: 60,
+  square: 90,
+  trine: 120,
+  opposition: 180,
+};
+
+export type AspectOrbs = {
+  // Largest orb allowed for each aspect, in degrees
+  aspects: Record<AspectType, number>;
+  // Orb of each planet; a pair may be at most the mean of their two orbs from exact
+  planets: Record<PlanetId, number>;
+};
+
+export type AspectOrbOverrides = {
+  aspects?: Partial<Record<AspectType, number>>;
+  planets?: Partial<Record<PlanetId, number>>;
+};
+
+export const defaultAspectOrbs: AspectOrbs = {
+  aspects: { conjunction: 8, sextile: 5, square: 7, trine: 7, opposition: 8 },
+  // Traditional orbs of the planets, after Lilly
+  planets: { sun: 15, moon: 12, mercury: 7, venus: 7, mars: 7.5, jupiter: 9, saturn: 9 },
+};
+
+// Aspects within this many degrees are treated as exact
+export const EXACT_ORB = 1;
+
+export type AspectBody = {
+  planet: PlanetId;
+  longitude: number;
+  // Degrees per day, negative while retrograde
+  speed: number;
+};
+
+export type PlanetAspect = {
+  planet1: PlanetId;
+  planet2: PlanetId;
+  type: AspectType;
+  // Angular distance between the two planets, 0 to 180
+  separation: number;
+  // Distance from the exact aspect angle
+  orb: number;
+  applying: boolean;
+  exact: boolean;
+};
+
+export type AspectOptions = {
+  orbs?: AspectOrbOverrides;
+  exactOrb?: number;
+};
+
+export function resolveAspectOrbs(overrides: AspectOrbOverrides = {}): AspectOrbs {
+  return {
+    aspects: { ...defaultAspectOrbs.aspects, ...overrides.aspects },
+    planets: { ...defaultAspectOrbs.planets, ...overrides.planets },
+  };
+}
+
+export function getAllowedOrb(type: AspectType, planet1: PlanetId, planet2: PlanetId, orbs: AspectOrbs = defaultAspectOrbs): number {
+  return Math.min(orbs.aspects[type], (orbs.planets[planet1] + orbs.planets[planet2]) / 2);
+}
+
+function findAspect(a: AspectBody, b: AspectBody, orbs: AspectOrbs, exactOrb: number): PlanetAspect | null {
+  const delta = normalizeDelta180(b.longitude - a.longitude);
+  const separation = Math.abs(delta);
+
+  for (const type of aspectTypes) {
+    const offset = separation - aspectAngles[type];
+    const orb = Math.abs(offset);
+    if (orb > getAllowedOrb(type, a.planet, b.planet, orbs)) continue;
+
+    // The separation grows when the leading planet is the faster one;
+    // the aspect applies when that change moves the separation towards the aspect angle.
+    const separationRate = Math.sign(delta) * (b.speed - a.speed);
+    const orbRate = Math.sign(offset) * separationRate;
+
+    return {
+      planet1: a.planet,
+      planet2: b.planet,
+      type,
+      separation,
+      orb,
+      applying: orbRate < 0,
+      exact: orb <= exactOrb,
+    };
+  }
+
+  return null;
+}
+
+// Aspects between every pair of bodies, closest to exact first.
+export function calculateAspects(bodies: AspectBody[], options: AspectOptions = {}): PlanetAspect[] {
+  const orbs = resolveAspectOrbs(options.orbs);
+  const exactOrb = options.exactOrb ?? EXACT_ORB;
+  const aspects: PlanetAspect[] = [];
+
+  bodies.forEach((a, i) => {
+    bodies.slice(i + 1).forEach((b) => {
+      const aspect = findAspect(a, b, orbs, exactOrb);
+      if (aspect) aspects.push(aspect);
+    });
+  });
+
+  return aspects.sort((x, y) => x.orb - y.orb);
+}
+
+export function findAspects(time: Date, options: AspectOptions & { planets?: PlanetId[] } = {}): PlanetAspect[] {
+  const { planets = classicalPlanets, ...aspectOptions } = options;
+  const bodies = calculatePlanetPositions(time, planets).map(({ planet, longitude }) => ({
+    planet,
+    longitude,
+    speed: getDailyMotion(planet, time),
+  }));
+
+  return calculateAspects(bodies, aspectOptions);
+}
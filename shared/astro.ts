@@ -1,5 +1,8 @@
 export type PlanetId = 'sun' | 'moon' | 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn';
 
+// The modern planets, outside the Chaldean order and the planetary hours
+export type OuterPlanetId = 'uranus' | 'neptune' | 'pluto';
+
 export const zodiacSigns = [
   'Aries',
   'Taurus',
@@ -0,0 +1,132 @@
+import * as Astronomy from 'astronomy-engine';
+import { longitudeToSign, normalizeAngle360, normalizeDelta180, type OuterPlanetId, type PlanetId, type ZodiacSign } from './astro';
+import { isDayChart } from './dignities';
+import { calculateChartAngles } from './houses';
+import { calculatePlanetPositions, classicalPlanets, geocentricEclipticLongitude, isRetrograde } from './positions';
+import { toZodiacLongitude, type ZodiacOptions } from './zodiac';
+
+/**
+ * Optional chart bodies beyond the seven classical planets: the modern planets,
+ * the Moon's nodes and the Part of Fortune. They are opt-in so the hours, days
+ * and dignities keep working with the seven planets alone.
+ */
+
+export type LunarNodeId = 'mean-node' | 'true-node' | 'mean-south-node' | 'true-south-node';
+
+export type ExtraBodyId = OuterPlanetId | LunarNodeId | 'part-of-fortune';
+
+export type BodyId = PlanetId | ExtraBodyId;
+
+export type BodyPosition = {
+  planet: BodyId;
+  longitude: number;
+  sign: ZodiacSign;
+  degreeInSign: number;
+  isRetrograde: boolean;
+};
+
+export type BodyOptions = {
+  zodiac?: ZodiacOptions;
+  // Needed for the Part of Fortune
+  location?: { latitude: number; longitude: number };
+};
+
+export const extraBodies: ExtraBodyId[] = [
+  'uranus',
+  'neptune',
+  'pluto',
+  'mean-node',
+  'true-node',
+  'mean-south-node',
+  'true-south-node',
+  'part-of-fortune',
+];
+
+export class BodyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BodyError';
+  }
+}
+
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const MS_PER_CENTURY = 36525 * 24 * 60 * 60 * 1000;
+
+export function isExtraBody(value: string): value is ExtraBodyId {
+  return (extraBodies as string[]).includes(value);
+}
+
+// Mean ascending node of the Moon's orbit (Meeus, Astronomical Algorithms 47.7)
+export function meanNodeLongitude(time: Date): number {
+  const t = (time.getTime() - J2000_MS) / MS_PER_CENTURY;
+  return normalizeAngle360(
+    125.0445479 - 1934.1362891 * t + 0.0020754 * t * t + (t * t * t) / 467441 - (t * t * t * t) / 60616000
+  );
+}
+
+// True (osculating) ascending node: where the plane of the Moon's instantaneous
+// orbit around the Earth crosses the true ecliptic of date going north.
+export function trueNodeLongitude(time: Date): number {
+  const state = Astronomy.RotateState(Astronomy.Rotation_EQJ_ECT(time), Astronomy.GeoMoonState(time));
+  // Orbital angular momentum r × v; the ascending node lies along z × h
+  const hx = state.y * state.vz - state.z * state.vy;
+  const hy = state.z * state.vx - state.x * state.vz;
+  return normalizeAngle360((Math.atan2(hx, -hy) * 180) / Math.PI);
+}
+
+// Part of Fortune: Ascendant + Moon - Sun by day, reversed by night
+export function partOfFortuneLongitude(time: Date, latitude: number, longitude: number): number {
+  const { ascendant } = calculateChartAngles(time, latitude, longitude);
+  const sun = geocentricEclipticLongitude('sun', time);
+  const moon = geocentricEclipticLongitude('moon', time);
+  return normalizeAngle360(isDayChart(sun, ascendant) ? ascendant + moon - sun : ascendant + sun - moon);
+}
+
+// Tropical longitude of a body that moves on its own, i.e. anything but the Part of Fortune
+function movingBodyLongitude(body: Exclude<ExtraBodyId, 'part-of-fortune'>, time: Date): number {
+  switch (body) {
+    case 'mean-node':
+      return meanNodeLongitude(time);
+    case 'true-node':
+      return trueNodeLongitude(time);
+    case 'mean-south-node':
+      return normalizeAngle360(meanNodeLongitude(time) + 180);
+    case 'true-south-node':
+      return normalizeAngle360(trueNodeLongitude(time) + 180);
+    default:
+      return geocentricEclipticLongitude(body, time);
+  }
+}
+
+function toBodyPosition(planet: BodyId, tropicalLongitude: number, retrograde: boolean, time: Date, zodiac?: ZodiacOptions): BodyPosition {
+  const longitude = toZodiacLongitude(tropicalLongitude, time, zodiac);
+  return { planet, longitude, ...longitudeToSign(longitude), isRetrograde: retrograde };
+}
+
+export function calculateBodyPosition(body: ExtraBodyId, time: Date, options: BodyOptions = {}): BodyPosition {
+  const { zodiac, location } = options;
+
+  if (body === 'part-of-fortune') {
+    if (!location) {
+      throw new BodyError('The Part of Fortune needs a location for the Ascendant and the sect of the chart');
+    }
+    return toBodyPosition(body, partOfFortuneLongitude(time, location.latitude, location.longitude), false, time, zodiac);
+  }
+
+  if (body === 'uranus' || body === 'neptune' || body === 'pluto') {
+    return toBodyPosition(body, geocentricEclipticLongitude(body, time), isRetrograde(body, time), time, zodiac);
+  }
+
+  // The nodes usually move backwards, but the true node stands still and turns direct at times
+  const longitude = movingBodyLongitude(body, time);
+  const later = movingBodyLongitude(body, new Date(time.getTime() + 60 * 60 * 1000));
+  return toBodyPosition(body, longitude, normalizeDelta180(later - longitude) < 0, time, zodiac);
+}
+
+// The seven classical planets followed by the requested extra bodies
+export function calculateBodyPositions(time: Date, bodies: ExtraBodyId[] = [], options: BodyOptions = {}): BodyPosition[] {
+  return [
+    ...calculatePlanetPositions(time, classicalPlanets, options.zodiac),
+    ...bodies.map((body) => calculateBodyPosition(body, time, options)),
+  ];
+}
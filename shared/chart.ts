@@ -0,0 +1,48 @@
+import { findAspects, type AspectOptions, type PlanetAspect } from './aspects';
+import { calculateHouses, findHouse, DEFAULT_HOUSE_SYSTEM, type ChartAngles, type HouseCusp, type HouseSystem } from './houses';
+import { calculatePlanetPositions, type PlanetPosition } from './positions';
+
+/**
+ * A horoscope for an instant and place: the classical planets with the houses
+ * they fall in, the house cusps and angles, and the aspects between the planets.
+ */
+
+export type ChartInput = {
+  date: Date;
+  latitude: number;
+  longitude: number;
+  houseSystem?: HouseSystem;
+  aspects?: AspectOptions;
+};
+
+export type ChartPosition = PlanetPosition & {
+  house: number;
+};
+
+export type Chart = {
+  date: Date;
+  latitude: number;
+  longitude: number;
+  houseSystem: HouseSystem;
+  angles: ChartAngles;
+  positions: ChartPosition[];
+  houses: HouseCusp[];
+  aspects: PlanetAspect[];
+};
+
+export function calculateChart(input: ChartInput): Chart {
+  const { date, latitude, longitude, houseSystem = DEFAULT_HOUSE_SYSTEM } = input;
+  const { angles, cusps } = calculateHouses(date, latitude, longitude, houseSystem);
+  const positions = calculatePlanetPositions(date);
+
+  return {
+    date,
+    latitude,
+    longitude,
+    houseSystem,
+    angles,
+    positions: positions.map((position) => ({ ...position, house: findHouse(position.longitude, cusps) })),
+    houses: cusps,
+    aspects: findAspects(date, input.aspects),
+  };
+}
@@ -0,0 +1,109 @@
+import { normalizeDelta180, type PlanetId } from './astro';
+import { calculateHouses, findHouse, DEFAULT_HOUSE_SYSTEM, type HouseSystem } from './houses';
+import { calculatePlanetPosition, classicalPlanets, getDailyMotion, type PlanetPosition } from './positions';
+
+/**
+ * Accidental conditions of a planet: its phase with the Sun, direction and
+ * speed of motion and, for a place, its angularity.
+ */
+
+export type SolarPhase = 'cazimi' | 'combust' | 'under the beams';
+
+export type Angularity = 'angular' | 'succedent' | 'cadent';
+
+export type PlanetConditions = {
+  planet: PlanetId;
+  // Longitude east of the Sun, -180..180
+  elongation: number;
+  // Null for the Sun and for planets clear of its beams
+  solarPhase: SolarPhase | null;
+  // Rises before the Sun; null for the Sun itself
+  orientation: 'oriental' | 'occidental' | null;
+  dailyMotion: number;
+  isRetrograde: boolean;
+  isStationary: boolean;
+  // Moving faster than its mean daily motion
+  isFast: boolean;
+  // Only with a location
+  house?: number;
+  angularity?: Angularity;
+};
+
+export type ConditionsLocation = {
+  latitude: number;
+  longitude: number;
+  houseSystem?: HouseSystem;
+};
+
+// Mean daily motions in degrees, after Lilly
+export const meanDailyMotion: Record<PlanetId, number> = {
+  sun: 0.9856,
+  moon: 13.1764,
+  mercury: 0.9856,
+  venus: 0.9856,
+  mars: 0.5242,
+  jupiter: 0.0831,
+  saturn: 0.0335,
+};
+
+// Distances from the Sun, in degrees
+export const CAZIMI_ORB = 17 / 60;
+export const COMBUST_ORB = 8.5;
+export const UNDER_THE_BEAMS_ORB = 17;
+
+// Below this share of the mean motion a planet is stationary
+const STATION_RATIO = 0.1;
+
+export function getSolarPhase(elongation: number): SolarPhase | null {
+  const distance = Math.abs(elongation);
+  if (distance <= CAZIMI_ORB) return 'cazimi';
+  if (distance <= COMBUST_ORB) return 'combust';
+  if (distance <= UNDER_THE_BEAMS_ORB) return 'under the beams';
+  return null;
+}
+
+export function getAngularity(house: number): Angularity {
+  return (['angular', 'succedent', 'cadent'] as const)[(house - 1) % 3];
+}
+
+function conditionsOf(position: PlanetPosition, sunLongitude: number, time: Date): PlanetConditions {
+  const { planet } = position;
+  const isSun = planet === 'sun';
+  const elongation = isSun ? 0 : normalizeDelta180(position.longitude - sunLongitude);
+  const dailyMotion = getDailyMotion(planet, time);
+  const speed = Math.abs(dailyMotion) / meanDailyMotion[planet];
+
+  return {
+    planet,
+    elongation,
+    solarPhase: isSun ? null : getSolarPhase(elongation),
+    // West of the Sun in the zodiac, so above the horizon before it
+    orientation: isSun ? null : elongation < 0 ? 'oriental' : 'occidental',
+    dailyMotion,
+    isRetrograde: position.isRetrograde,
+    // The lights never station
+    isStationary: !isSun && planet !== 'moon' && speed < STATION_RATIO,
+    isFast: speed > 1,
+  };
+}
+
+// Conditions of each planet at an instant; angularity needs a location.
+export function calculateConditions(
+  time: Date,
+  planets: PlanetId[] = classicalPlanets,
+  location?: ConditionsLocation
+): PlanetConditions[] {
+  const sunLongitude = calculatePlanetPosition('sun', time).longitude;
+  const cusps = location
+    ? calculateHouses(time, location.latitude, location.longitude, location.houseSystem ?? DEFAULT_HOUSE_SYSTEM).cusps
+    : null;
+
+  return planets.map((planet) => {
+    const position = calculatePlanetPosition(planet, time);
+    const conditions = conditionsOf(position, sunLongitude, time);
+    if (!cusps) return conditions;
+
+    const house = findHouse(position.longitude, cusps);
+    return { ...conditions, house, angularity: getAngularity(house) };
+  });
+}
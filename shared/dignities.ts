@@ -0,0 +1,212 @@
+import { longitudeToSign, normalizeAngle360, zodiacSigns, type PlanetId, type ZodiacSign } from './astro';
+import { chaldeanOrder } from './planetary';
+
+/**
+ * Essential dignities of the seven classical planets: rulership, exaltation,
+ * triplicity, terms and faces, with detriment and fall, scored after Lilly
+ * (+5, +4, +3, +2, +1; detriment -5, fall -4, peregrine -5).
+ */
+
+export type EssentialDignity = 'rulership' | 'exaltation' | 'detriment' | 'fall';
+
+export type DignityKind = EssentialDignity | 'triplicity' | 'term' | 'face' | 'peregrine';
+
+export type TriplicityRole = 'day' | 'night' | 'participating';
+
+export type TermSystem = 'egyptian' | 'ptolemaic';
+
+export type DignityFactor = {
+  dignity: DignityKind;
+  points: number;
+};
+
+export type DignityReport = {
+  planet: PlanetId;
+  sign: ZodiacSign;
+  degreeInSign: number;
+  // Sign-based dignities; Mercury in Virgo is both ruler and exalted
+  dignities: EssentialDignity[];
+  triplicity: TriplicityRole | null;
+  termRuler: PlanetId;
+  faceRuler: PlanetId;
+  // No rulership, exaltation, triplicity, term or face
+  isPeregrine: boolean;
+  score: number;
+  factors: DignityFactor[];
+};
+
+export type DignityOptions = {
+  // Sun above the horizon; when unknown, either sect's triplicity ruler scores
+  isDayChart?: boolean;
+  terms?: TermSystem;
+};
+
+export const dignityPoints: Record<DignityKind, number> = {
+  rulership: 5,
+  exaltation: 4,
+  triplicity: 3,
+  term: 2,
+  face: 1,
+  detriment: -5,
+  fall: -4,
+  peregrine: -5,
+};
+
+const signRulers: Record<ZodiacSign, PlanetId> = {
+  Aries: 'mars',
+  Taurus: 'venus',
+  Gemini: 'mercury',
+  Cancer: 'moon',
+  Leo: 'sun',
+  Virgo: 'mercury',
+  Libra: 'venus',
+  Scorpio: 'mars',
+  Sagittarius: 'jupiter',
+  Capricorn: 'saturn',
+  Aquarius: 'saturn',
+  Pisces: 'jupiter',
+};
+
+// Sign and degree of each planet's exaltation
+export const exaltations: Record<PlanetId, { sign: ZodiacSign; degree: number }> = {
+  sun: { sign: 'Aries', degree: 19 },
+  moon: { sign: 'Taurus', degree: 3 },
+  mercury: { sign: 'Virgo', degree: 15 },
+  venus: { sign: 'Pisces', degree: 27 },
+  mars: { sign: 'Capricorn', degree: 28 },
+  jupiter: { sign: 'Cancer', degree: 15 },
+  saturn: { sign: 'Libra', degree: 21 },
+};
+
+// Dorothean triplicity rulers by element: day, night, participating
+const triplicityRulers: Record<'fire' | 'earth' | 'air' | 'water', [PlanetId, PlanetId, PlanetId]> = {
+  fire: ['sun', 'jupiter', 'saturn'],
+  earth: ['venus', 'moon', 'mars'],
+  air: ['saturn', 'mercury', 'jupiter'],
+  water: ['venus', 'mars', 'moon'],
+};
+
+const signElements = ['fire', 'earth', 'air', 'water'] as const;
+
+// Each sign's terms as [ruler, end degree] in order
+type Terms = Array<[PlanetId, number]>;
+
+const egyptianTerms: Record<ZodiacSign, Terms> = {
+  Aries: [['jupiter', 6], ['venus', 12], ['mercury', 20], ['mars', 25], ['saturn', 30]],
+  Taurus: [['venus', 8], ['mercury', 14], ['jupiter', 22], ['saturn', 27], ['mars', 30]],
+  Gemini: [['mercury', 6], ['jupiter', 12], ['venus', 17], ['mars', 24], ['saturn', 30]],
+  Cancer: [['mars', 7], ['venus', 13], ['mercury', 19], ['jupiter', 26], ['saturn', 30]],
+  Leo: [['jupiter', 6], ['venus', 11], ['saturn', 18], ['mercury', 24], ['mars', 30]],
+  Virgo: [['mercury', 7], ['venus', 17], ['jupiter', 21], ['mars', 28], ['saturn', 30]],
+  Libra: [['saturn', 6], ['mercury', 14], ['jupiter', 21], ['venus', 28], ['mars', 30]],
+  Scorpio: [['mars', 7], ['venus', 11], ['mercury', 19], ['jupiter', 24], ['saturn', 30]],
+  Sagittarius: [['jupiter', 12], ['venus', 17], ['mercury', 21], ['saturn', 26], ['mars', 30]],
+  Capricorn: [['mercury', 7], ['jupiter', 14], ['venus', 22], ['saturn', 26], ['mars', 30]],
+  Aquarius: [['mercury', 7], ['venus', 13], ['jupiter', 20], ['mars', 25], ['saturn', 30]],
+  Pisces: [['venus', 12], ['jupiter', 16], ['mercury', 19], ['mars', 28], ['saturn', 30]],
+};
+
+// As printed by Lilly
+const ptolemaicTerms: Record<ZodiacSign, Terms> = {
+  Aries: [['jupiter', 6], ['venus', 14], ['mercury', 21], ['mars', 26], ['saturn', 30]],
+  Taurus: [['venus', 8], ['mercury', 15], ['jupiter', 22], ['saturn', 26], ['mars', 30]],
+  Gemini: [['mercury', 7], ['jupiter', 14], ['venus', 21], ['saturn', 25], ['mars', 30]],
+  Cancer: [['mars', 6], ['jupiter', 13], ['mercury', 20], ['venus', 27], ['saturn', 30]],
+  Leo: [['saturn', 6], ['mercury', 13], ['venus', 19], ['jupiter', 25], ['mars', 30]],
+  Virgo: [['mercury', 7], ['venus', 13], ['jupiter', 18], ['saturn', 24], ['mars', 30]],
+  Libra: [['saturn', 6], ['venus', 11], ['jupiter', 19], ['mercury', 24], ['mars', 30]],
+  Scorpio: [['mars', 6], ['jupiter', 14], ['venus', 21], ['mercury', 27], ['saturn', 30]],
+  Sagittarius: [['jupiter', 8], ['venus', 14], ['mercury', 19], ['saturn', 25], ['mars', 30]],
+  Capricorn: [['venus', 6], ['mercury', 12], ['jupiter', 19], ['mars', 25], ['saturn', 30]],
+  Aquarius: [['saturn', 6], ['mercury', 12], ['venus', 20], ['jupiter', 25], ['mars', 30]],
+  Pisces: [['venus', 8], ['jupiter', 14], ['mercury', 20], ['mars', 26], ['saturn', 30]],
+};
+
+const termTables: Record<TermSystem, Record<ZodiacSign, Terms>> = {
+  egyptian: egyptianTerms,
+  ptolemaic: ptolemaicTerms,
+};
+
+const oppositeSign = (sign: ZodiacSign): ZodiacSign => zodiacSigns[(zodiacSigns.indexOf(sign) + 6) % 12];
+
+// The Sun is above the horizon when it lies in the houses from the Descendant round to the Ascendant
+export function isDayChart(sunLongitude: number, ascendant: number): boolean {
+  return normalizeAngle360(sunLongitude - ascendant) >= 180;
+}
+
+export function getSignRuler(sign: ZodiacSign): PlanetId {
+  return signRulers[sign];
+}
+
+export function getTriplicityRulers(sign: ZodiacSign): Record<TriplicityRole, PlanetId> {
+  const [day, night, participating] = triplicityRulers[signElements[zodiacSigns.indexOf(sign) % 4]];
+  return { day, night, participating };
+}
+
+export function getTermRuler(longitude: number, system: TermSystem = 'egyptian'): PlanetId {
+  const { sign, degreeInSign } = longitudeToSign(longitude);
+  const terms = termTables[system][sign];
+  return (terms.find(([, end]) => degreeInSign < end) ?? terms[terms.length - 1])[0];
+}
+
+// Chaldean faces: ten-degree decans ruled in Chaldean order, starting with Mars at 0° Aries
+export function getFaceRuler(longitude: number): PlanetId {
+  const { sign, degreeInSign } = longitudeToSign(longitude);
+  const decan = zodiacSigns.indexOf(sign) * 3 + Math.min(Math.floor(degreeInSign / 10), 2);
+  return chaldeanOrder[(chaldeanOrder.indexOf('mars') + decan) % 7];
+}
+
+// Rulership, exaltation, detriment and fall of a planet in a sign, strongest first.
+export function getSignDignities(planet: PlanetId, sign: string): EssentialDignity[] {
+  if (!(zodiacSigns as readonly string[]).includes(sign)) return [];
+  const zodiacSign = sign as ZodiacSign;
+  const dignities: EssentialDignity[] = [];
+
+  if (signRulers[zodiacSign] === planet) dignities.push('rulership');
+  if (exaltations[planet].sign === zodiacSign) dignities.push('exaltation');
+  if (signRulers[oppositeSign(zodiacSign)] === planet) dignities.push('detriment');
+  if (exaltations[planet].sign === oppositeSign(zodiacSign)) dignities.push('fall');
+
+  return dignities;
+}
+
+// Strongest of rulership, exaltation, detriment or fall of a planet in a sign; null when none.
+export function getEssentialDignity(planet: PlanetId, sign: string): EssentialDignity | null {
+  return getSignDignities(planet, sign)[0] ?? null;
+}
+
+export function getEssentialDignities(planet: PlanetId, longitude: number, options: DignityOptions = {}): DignityReport {
+  const { isDayChart, terms = 'egyptian' } = options;
+  const { sign, degreeInSign } = longitudeToSign(longitude);
+  const dignities = getSignDignities(planet, sign);
+
+  const triplicity = getTriplicityRulers(sign);
+  const role = (['day', 'night', 'participating'] as TriplicityRole[]).find((r) => triplicity[r] === planet) ?? null;
+  // Only the ruler of the chart's sect holds the triplicity
+  const holdsTriplicity =
+    role !== null && role !== 'participating' && (isDayChart === undefined || (role === 'day') === isDayChart);
+
+  const termRuler = getTermRuler(longitude, terms);
+  const faceRuler = getFaceRuler(longitude);
+
+  const factors: DignityFactor[] = dignities.map((dignity) => ({ dignity, points: dignityPoints[dignity] }));
+  if (holdsTriplicity) factors.push({ dignity: 'triplicity', points: dignityPoints.triplicity });
+  if (termRuler === planet) factors.push({ dignity: 'term', points: dignityPoints.term });
+  if (faceRuler === planet) factors.push({ dignity: 'face', points: dignityPoints.face });
+
+  const isPeregrine = !factors.some((factor) => factor.points > 0);
+  if (isPeregrine) factors.push({ dignity: 'peregrine', points: dignityPoints.peregrine });
+
+  return {
+    planet,
+    sign,
+    degreeInSign,
+    dignities,
+    triplicity: role,
+    termRuler,
+    faceRuler,
+    isPeregrine,
+    score: factors.reduce((total, factor) => total + factor.points, 0),
+    factors,
+  };
+}
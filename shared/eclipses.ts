@@ -0,0 +1,301 @@
+import * as Astronomy from 'astronomy-engine';
+import type { PlanetId, ZodiacSign } from './astro';
+import { calculatePlanetPosition } from './positions';
+import type { ZodiacOptions } from './zodiac';
+
+/**
+ * Solar and lunar eclipse search. Each eclipse is found with astronomy-engine and
+ * measured in the plane of the shadow: the magnitude is the fraction of the eclipsed
+ * body's diameter inside the umbra (lunar) or covered by the Moon at greatest eclipse
+ * (solar), and the eclipse runs from the first to the last penumbral contact.
+ */
+
+export type EclipseKind = 'solar' | 'lunar';
+
+export type EclipseType = 'penumbral' | 'partial' | 'annular' | 'total';
+
+export type LocalEclipse = {
+  // Whether the Sun or Moon is above the horizon for any part of the eclipse
+  visible: boolean;
+  type: EclipseType;
+  magnitude: number;
+  start: Date;
+  peak: Date;
+  end: Date;
+  // Altitude of the eclipsed body at the local peak, in degrees
+  peakAltitude: number;
+};
+
+export type Eclipse = {
+  id: string;
+  kind: EclipseKind;
+  type: EclipseType;
+  // Greatest eclipse
+  peak: Date;
+  start: Date;
+  end: Date;
+  // Umbral magnitude of a lunar eclipse (penumbral for a penumbral one); for a solar
+  // eclipse the covered fraction of the Sun's diameter, or the Moon-to-Sun diameter ratio
+  // where it is total or annular, at the place of greatest eclipse
+  magnitude: number;
+  // Position of the eclipsed body, the Sun or the Moon, at the peak
+  longitude: number;
+  sign: ZodiacSign;
+  degreeInSign: number;
+  // Only with a location; null when a solar eclipse is not seen there at all
+  local?: LocalEclipse | null;
+};
+
+export type EclipseSearchOptions = {
+  kinds?: EclipseKind[];
+  location?: { latitude: number; longitude: number; elevation?: number };
+  zodiac?: ZodiacOptions;
+};
+
+export const eclipseKinds: EclipseKind[] = ['solar', 'lunar'];
+
+// Ten years and a few days, enough for a decade in any timezone
+export const MAX_ECLIPSE_RANGE_DAYS = 3660;
+
+const SUN_RADIUS_KM = 695700;
+const MOON_RADIUS_KM = 1737.4;
+const EARTH_RADIUS_KM = 6378.1366;
+// The Earth's shadow is enlarged by its atmosphere, as in astronomy-engine's lunar eclipse search.
+const EARTH_SHADOW_RADIUS_KM = 6371 + 88;
+
+const PRECISION_MS = 60 * 1000;
+// No eclipse lasts longer than this on either side of its peak
+const HALF_SPAN_MS = 5 * 60 * 60 * 1000;
+
+type Shadow = {
+  // Distance of the target from the shadow axis, and the umbra and penumbra radii there, in km
+  r: number;
+  k: number;
+  p: number;
+};
+
+// Shadow cast by a body of radius `bodyRadiusKm` along `dir`, measured at `target`, both relative to the body.
+function shadowAt(bodyRadiusKm: number, target: Astronomy.Vector, dir: Astronomy.Vector): Shadow {
+  const u = (dir.x * target.x + dir.y * target.y + dir.z * target.z) / (dir.x * dir.x + dir.y * dir.y + dir.z * dir.z);
+  const r = Astronomy.KM_PER_AU * Math.hypot(u * dir.x - target.x, u * dir.y - target.y, u * dir.z - target.z);
+  return {
+    r,
+    k: SUN_RADIUS_KM - (1 + u) * (SUN_RADIUS_KM - bodyRadiusKm),
+    p: -SUN_RADIUS_KM + (1 + u) * (SUN_RADIUS_KM + bodyRadiusKm),
+  };
+}
+
+function earthShadow(time: Date): Shadow {
+  const sun = Astronomy.GeoVector(Astronomy.Body.Sun, time, true);
+  const moon = Astronomy.GeoMoon(time);
+  return shadowAt(EARTH_SHADOW_RADIUS_KM, moon, new Astronomy.Vector(-sun.x, -sun.y, -sun.z, sun.t));
+}
+
+// The Moon's shadow at `from`, a geocentric position; the Earth's center by default.
+function moonShadow(time: Date, from?: Astronomy.Vector): Shadow {
+  const sun = Astronomy.GeoVector(Astronomy.Body.Sun, time, true);
+  const moon = Astronomy.GeoMoon(time);
+  const target = new Astronomy.Vector((from?.x ?? 0) - moon.x, (from?.y ?? 0) - moon.y, (from?.z ?? 0) - moon.z, moon.t);
+  return shadowAt(MOON_RADIUS_KM, target, new Astronomy.Vector(moon.x - sun.x, moon.y - sun.y, moon.z - sun.z, moon.t));
+}
+
+// Magnitude seen from `shadow.r` km off the Moon's shadow axis: the covered fraction of the
+// Sun's diameter, or inside the umbra or antumbra the ratio of the Moon's diameter to the Sun's
+function solarMagnitude(shadow: Shadow): number {
+  const { r, k, p } = shadow;
+  return r <= Math.abs(k) ? (p + k) / (p - k) : (p - r) / (p - k);
+}
+
+// Geocentric point on the Earth's surface nearest the Moon's shadow axis, where the eclipse is greatest
+function greatestEclipsePoint(time: Date): Astronomy.Vector {
+  const sun = Astronomy.GeoVector(Astronomy.Body.Sun, time, true);
+  const moon = Astronomy.GeoMoon(time);
+  const dir = new Astronomy.Vector(moon.x - sun.x, moon.y - sun.y, moon.z - sun.z, moon.t);
+  const length = dir.Length();
+  const [dx, dy, dz] = [dir.x / length, dir.y / length, dir.z / length];
+  const radius = EARTH_RADIUS_KM / Astronomy.KM_PER_AU;
+
+  // Along the axis from the Moon: closest approach to the Earth's center, then the first hit on the surface
+  const along = -(moon.x * dx + moon.y * dy + moon.z * dz);
+  const closest = [moon.x + along * dx, moon.y + along * dy, moon.z + along * dz];
+  const miss = Math.hypot(closest[0], closest[1], closest[2]);
+  if (miss < radius) {
+    const back = Math.sqrt(radius * radius - miss * miss);
+    return new Astronomy.Vector(closest[0] - back * dx, closest[1] - back * dy, closest[2] - back * dz, moon.t);
+  }
+  const scale = radius / miss;
+  return new Astronomy.Vector(closest[0] * scale, closest[1] * scale, closest[2] * scale, moon.t);
+}
+
+// Narrow down the instant where `inside(t)` flips between `outside` and `within`.
+function refine(outside: number, within: number, inside: (time: number) => boolean): Date {
+  let out = outside;
+  let ins = within;
+  while (Math.abs(ins - out) > PRECISION_MS) {
+    const mid = (out + ins) / 2;
+    if (inside(mid)) {
+      ins = mid;
+    } else {
+      out = mid;
+    }
+  }
+  return new Date(ins);
+}
+
+function toEclipseType(kind: Astronomy.EclipseKind): EclipseType {
+  return kind as string as EclipseType;
+}
+
+function makeEclipse(
+  kind: EclipseKind,
+  type: EclipseType,
+  peak: Date,
+  start: Date,
+  end: Date,
+  magnitude: number,
+  zodiac?: ZodiacOptions
+): Eclipse {
+  const body: PlanetId = kind === 'solar' ? 'sun' : 'moon';
+  const { longitude, sign, degreeInSign } = calculatePlanetPosition(body, peak, zodiac);
+  return {
+    id: `${kind}-eclipse-${peak.toISOString()}`,
+    kind,
+    type,
+    peak,
+    start,
+    end,
+    magnitude,
+    longitude,
+    sign,
+    degreeInSign,
+  };
+}
+
+function lunarEclipse(info: Astronomy.LunarEclipseInfo, zodiac?: ZodiacOptions): Eclipse {
+  const peak = info.peak.date;
+  const shadow = earthShadow(peak);
+  const type = toEclipseType(info.kind);
+  const radius = type === 'penumbral' ? shadow.p : shadow.k;
+  const halfSpan = info.sd_penum * 60 * 1000;
+
+  return makeEclipse(
+    'lunar',
+    type,
+    peak,
+    new Date(peak.getTime() - halfSpan),
+    new Date(peak.getTime() + halfSpan),
+    (radius + MOON_RADIUS_KM - shadow.r) / (2 * MOON_RADIUS_KM),
+    zodiac
+  );
+}
+
+function solarEclipse(info: Astronomy.GlobalSolarEclipseInfo, zodiac?: ZodiacOptions): Eclipse {
+  const peak = info.peak.date;
+  // The penumbra touches the Earth from the first to the last contact.
+  const touches = (time: number) => {
+    const { r, p } = moonShadow(new Date(time));
+    return r < p + EARTH_RADIUS_KM;
+  };
+
+  return makeEclipse(
+    'solar',
+    toEclipseType(info.kind),
+    peak,
+    refine(peak.getTime() - HALF_SPAN_MS, peak.getTime(), touches),
+    refine(peak.getTime() + HALF_SPAN_MS, peak.getTime(), touches),
+    solarMagnitude(moonShadow(peak, greatestEclipsePoint(peak))),
+    zodiac
+  );
+}
+
+function altitudeOf(body: Astronomy.Body, time: Date, observer: Astronomy.Observer): number {
+  const equator = Astronomy.Equator(body, time, observer, true, true);
+  return Astronomy.Horizon(time, observer, equator.ra, equator.dec, 'normal').altitude;
+}
+
+// A body that rises during the eclipse is up at its end, one that sets is up at its start.
+function isUpDuring(body: Astronomy.Body, times: Date[], observer: Astronomy.Observer): boolean {
+  return times.some((time) => altitudeOf(body, time, observer) > 0);
+}
+
+function localLunarEclipse(eclipse: Eclipse, observer: Astronomy.Observer): LocalEclipse {
+  const body = Astronomy.Body.Moon;
+  return {
+    visible: isUpDuring(body, [eclipse.start, eclipse.peak, eclipse.end], observer),
+    type: eclipse.type,
+    magnitude: eclipse.magnitude,
+    start: eclipse.start,
+    peak: eclipse.peak,
+    end: eclipse.end,
+    peakAltitude: altitudeOf(body, eclipse.peak, observer),
+  };
+}
+
+function localSolarEclipse(eclipse: Eclipse, observer: Astronomy.Observer): LocalEclipse | null {
+  const info = Astronomy.SearchLocalSolarEclipse(eclipse.start, observer);
+  if (Math.abs(info.peak.time.date.getTime() - eclipse.peak.getTime()) > HALF_SPAN_MS) {
+    // The penumbra misses the location; the next local eclipse is another one
+    return null;
+  }
+
+  const peak = info.peak.time.date;
+  return {
+    visible: [info.partial_begin, info.peak, info.partial_end].some((event) => event.altitude > 0),
+    type: toEclipseType(info.kind),
+    magnitude: solarMagnitude(moonShadow(peak, Astronomy.ObserverVector(peak, observer, false))),
+    start: info.partial_begin.time.date,
+    peak,
+    end: info.partial_end.time.date,
+    peakAltitude: info.peak.altitude,
+  };
+}
+
+/**
+ * Eclipses with their greatest eclipse from `start` up to (excluding) `end`, in time order.
+ * With a location each eclipse also carries its local circumstances.
+ */
+export function findEclipses(start: Date, end: Date, options: EclipseSearchOptions = {}): Eclipse[] {
+  const { kinds = eclipseKinds, location, zodiac } = options;
+  const eclipses: Eclipse[] = [];
+
+  if (kinds.includes('lunar')) {
+    for (
+      let info = Astronomy.SearchLunarEclipse(start);
+      info.peak.date < end;
+      info = Astronomy.NextLunarEclipse(info.peak)
+    ) {
+      eclipses.push(lunarEclipse(info, zodiac));
+    }
+  }
+
+  if (kinds.includes('solar')) {
+    for (
+      let info = Astronomy.SearchGlobalSolarEclipse(start);
+      info.peak.date < end;
+      info = Astronomy.NextGlobalSolarEclipse(info.peak)
+    ) {
+      eclipses.push(solarEclipse(info, zodiac));
+    }
+  }
+
+  if (location) {
+    const observer = new Astronomy.Observer(location.latitude, location.longitude, location.elevation ?? 0);
+    for (const eclipse of eclipses) {
+      eclipse.local = eclipse.kind === 'lunar'
+        ? localLunarEclipse(eclipse, observer)
+        : localSolarEclipse(eclipse, observer);
+    }
+  }
+
+  return eclipses.sort((a, b) => a.peak.getTime() - b.peak.getTime());
+}
+
+// Eclipses in progress at any time from `start` to `end`, counting each from its first to its last contact
+export function findEclipsesDuring(start: Date, end: Date, options: EclipseSearchOptions = {}): Eclipse[] {
+  return findEclipses(new Date(start.getTime() - HALF_SPAN_MS), new Date(end.getTime() + HALF_SPAN_MS), options)
+    .filter((eclipse) => isDuringEclipse(start, end, [eclipse]));
+}
+
+export function isDuringEclipse(start: Date, end: Date, eclipses: Eclipse[]): boolean {
+  return eclipses.some((eclipse) => eclipse.start < end && start < eclipse.end);
+}
@@ -0,0 +1,161 @@
+import * as Astronomy from 'astronomy-engine';
+import { DateTime } from 'luxon';
+import type { PlanetId } from './astro';
+import { getEssentialDignity, type EssentialDignity } from './dignities';
+import { findEclipsesDuring, isDuringEclipse, type Eclipse } from './eclipses';
+import {
+  calculatePlanetaryHours,
+  getPlanetaryDay,
+  type PlanetaryHourSlot,
+  type PlanetaryHoursInput,
+} from './planetaryHours';
+import { calculatePlanetPosition } from './positions';
+import type { ZodiacOptions } from './zodiac';
+
+/**
+ * Election finder: ranks the hours of a planet over the coming planetary days by how
+ * well the rest of the sky supports working with it. Each candidate hour is scored at
+ * its midpoint on the day ruler, the Moon's phase, and the planet's essential dignity
+ * and retrograde status, and keeps the breakdown so callers can explain the ranking.
+ */
+
+export type MoonPhasePreference = 'waxing' | 'waning';
+
+export type ElectionFactor = {
+  factor: 'dayRuler' | 'moonPhase' | 'dignity' | 'retrograde';
+  points: number;
+  description: string;
+};
+
+export type ElectionInput = Omit<PlanetaryHoursInput, 'date'> & {
+  // Planet of the working; only its hours are candidates.
+  planet: PlanetId;
+  from?: Date;
+  // Number of planetary days to search, starting with the one containing `from`.
+  days?: number;
+  // Number of windows to return.
+  count?: number;
+  // Increase is worked under a waxing Moon, banishing under a waning one.
+  moonPhase?: MoonPhasePreference;
+  // Leave out hours during a solar or lunar eclipse, from its first to its last contact.
+  avoidEclipses?: boolean;
+  // Zodiac the planet's sign, and so its dignity, is read in; tropical by default.
+  zodiac?: ZodiacOptions;
+};
+
+export type ElectionWindow = {
+  date: string; // local date of the planetary day, YYYY-MM-DD
+  dayRuler: PlanetId;
+  hour: PlanetaryHourSlot;
+  minutes: number;
+  score: number;
+  factors: ElectionFactor[];
+};
+
+export const MAX_ELECTION_DAYS = 31;
+export const MAX_ELECTION_COUNT = 50;
+
+export const electionWeights = {
+  dayRuler: 2,
+  moonPhase: 1,
+  retrograde: -2,
+  dignity: {
+    rulership: 2,
+    exaltation: 1,
+    detriment: -1,
+    fall: -2,
+  } satisfies Record<EssentialDignity, number>,
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// The Moon waxes while its elongation from the Sun runs from 0 (new) to 180 (full) degrees.
+export function isMoonWaxing(time: Date): boolean {
+  return Astronomy.MoonPhase(time) < 180;
+}
+
+function scoreHour(
+  planet: PlanetId,
+  dayRuler: PlanetId,
+  hour: PlanetaryHourSlot,
+  moonPhase: MoonPhasePreference,
+  zodiac: ZodiacOptions
+): ElectionFactor[] {
+  const midpoint = new Date((hour.start.getTime() + hour.end.getTime()) / 2);
+  const position = calculatePlanetPosition(planet, midpoint, zodiac);
+  const dignity = getEssentialDignity(planet, position.sign);
+  const phase: MoonPhasePreference = isMoonWaxing(midpoint) ? 'waxing' : 'waning';
+
+  return [
+    {
+      factor: 'dayRuler',
+      points: dayRuler === planet ? electionWeights.dayRuler : 0,
+      description: `Day of ${capitalize(dayRuler)}`,
+    },
+    {
+      factor: 'moonPhase',
+      points: phase === moonPhase ? electionWeights.moonPhase : -electionWeights.moonPhase,
+      description: `${capitalize(phase)} Moon`,
+    },
+    {
+      factor: 'dignity',
+      points: dignity ? electionWeights.dignity[dignity] : 0,
+      description: `${capitalize(planet)} in ${position.sign}${dignity ? ` (${dignity})` : ''}`,
+    },
+    {
+      factor: 'retrograde',
+      points: position.isRetrograde ? electionWeights.retrograde : 0,
+      description: position.isRetrograde ? `${capitalize(planet)} retrograde` : `${capitalize(planet)} direct`,
+    },
+  ];
+}
+
+export function findElectionWindows(input: ElectionInput): ElectionWindow[] {
+  const {
+    planet,
+    from = new Date(),
+    days = 7,
+    count = 5,
+    moonPhase = 'waxing',
+    avoidEclipses = false,
+    zodiac = {},
+    ...location
+  } = input;
+  const timezone = location.timezone || 'UTC';
+  const dayLimit = Math.min(Math.max(1, days), MAX_ELECTION_DAYS);
+  const limit = Math.min(Math.max(1, count), MAX_ELECTION_COUNT);
+
+  const first = getPlanetaryDay(from, location);
+  const firstDay = DateTime.fromISO(first.date, { zone: timezone });
+  const windows: ElectionWindow[] = [];
+  // Planetary days run from sunrise, so the last one can end after the last calendar day.
+  const eclipses: Eclipse[] = avoidEclipses
+    ? findEclipsesDuring(from, firstDay.plus({ days: dayLimit + 1 }).toJSDate())
+    : [];
+
+  for (let i = 0; i < dayLimit; i++) {
+    const schedule =
+      i === 0
+        ? first
+        : calculatePlanetaryHours({ ...location, date: firstDay.plus({ days: i }).toFormat('yyyy-LL-dd') });
+
+    for (const hour of schedule.hours) {
+      if (hour.ruler !== planet || hour.end.getTime() <= from.getTime()) continue;
+      if (isDuringEclipse(hour.start, hour.end, eclipses)) continue;
+
+      const factors = scoreHour(planet, schedule.dayRuler, hour, moonPhase, zodiac);
+      windows.push({
+        date: schedule.date,
+        dayRuler: schedule.dayRuler,
+        hour,
+        minutes: (hour.end.getTime() - hour.start.getTime()) / 60000,
+        score: factors.reduce((sum, factor) => sum + factor.points, 0),
+        factors,
+      });
+    }
+  }
+
+  // Best first; among equals the soonest.
+  windows.sort((a, b) => b.score - a.score || a.hour.start.getTime() - b.hour.start.getTime());
+  return windows.slice(0, limit);
+}
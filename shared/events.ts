@@ -0,0 +1,188 @@
+import { longitudeToSign, normalizeAngle360, normalizeDelta180, type PlanetId, type ZodiacSign } from './astro';
+import { classicalPlanets, geocentricEclipticLongitude } from './positions';
+
+/**
+ * Astrological event search over a time range for the seven classical planets:
+ * sign ingresses, retrograde and direct stations, and conjunctions and oppositions
+ * with the Sun. The range is sampled every few hours and each change between two
+ * samples is refined by bisection to within a minute.
+ */
+
+export type AstroEventType = 'ingress' | 'retrograde' | 'direct' | 'conjunction' | 'opposition';
+
+export type AstroEvent = {
+  id: string;
+  type: AstroEventType;
+  planet: PlanetId;
+  date: Date;
+  // Sign entered for ingresses, otherwise the sign the planet is in
+  sign: ZodiacSign;
+  longitude: number;
+  title: string;
+  description: string;
+};
+
+export const astroEventTypes: AstroEventType[] = ['ingress', 'retrograde', 'direct', 'conjunction', 'opposition'];
+
+// A year and a day, so a whole year can be requested in any timezone
+export const MAX_EVENT_RANGE_DAYS = 366;
+
+// Fine enough for the Moon, which moves about 3 degrees in six hours
+const SAMPLE_STEP_MS = 6 * 60 * 60 * 1000;
+const PRECISION_MS = 60 * 1000;
+const SPEED_DELTA_MS = 60 * 60 * 1000;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function longitudeAt(planet: PlanetId, time: number): number {
+  return normalizeAngle360(geocentricEclipticLongitude(planet, new Date(time)));
+}
+
+function signIndexAt(planet: PlanetId, time: number): number {
+  return Math.floor(longitudeAt(planet, time) / 30);
+}
+
+// Apparent motion in longitude over the next hour; negative while retrograde
+function speedAt(planet: PlanetId, time: number): number {
+  return normalizeDelta180(longitudeAt(planet, time + SPEED_DELTA_MS) - longitudeAt(planet, time));
+}
+
+// Elongation from the Sun, in (-180, 180]
+function elongationAt(planet: PlanetId, time: number): number {
+  return normalizeDelta180(longitudeAt(planet, time) - longitudeAt('sun', time));
+}
+
+// Narrow down the instant where `changed(t)` flips from false to true between two samples.
+function refine(start: number, end: number, changed: (time: number) => boolean): number {
+  let lo = start;
+  let hi = end;
+  while (hi - lo > PRECISION_MS) {
+    const mid = (lo + hi) / 2;
+    if (changed(mid)) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return hi;
+}
+
+function makeEvent(type: AstroEventType, planet: PlanetId, time: number): AstroEvent {
+  const date = new Date(time);
+  const longitude = longitudeAt(planet, time);
+  const { sign } = longitudeToSign(longitude);
+  const name = capitalize(planet);
+
+  let title: string;
+  let description: string;
+  switch (type) {
+    case 'ingress':
+      title = `${name} enters ${sign}`;
+      description = `${name} moves into ${sign}.`;
+      break;
+    case 'retrograde':
+      title = `${name} stations retrograde`;
+      description = `${name} turns retrograde in ${sign}.`;
+      break;
+    case 'direct':
+      title = `${name} stations direct`;
+      description = `${name} turns direct in ${sign}.`;
+      break;
+    case 'conjunction':
+      if (planet === 'moon') {
+        title = `New Moon in ${sign}`;
+        description = `The Moon joins the Sun in ${sign}.`;
+      } else {
+        title = `Sun conjunct ${name}`;
+        description = `${name} meets the Sun in ${sign}.`;
+        if (planet === 'mercury' || planet === 'venus') {
+          // The inner planets pass between the Earth and the Sun while retrograde.
+          const kind = speedAt(planet, time) < 0 ? 'inferior' : 'superior';
+          description = `${name} meets the Sun in ${sign} (${kind} conjunction).`;
+        }
+      }
+      break;
+    case 'opposition':
+      if (planet === 'moon') {
+        title = `Full Moon in ${sign}`;
+        description = `The Moon opposes the Sun from ${sign}.`;
+      } else {
+        title = `Sun opposite ${name}`;
+        description = `${name} opposes the Sun from ${sign}.`;
+      }
+      break;
+  }
+
+  return {
+    id: `${type}-${planet}-${date.toISOString()}`,
+    type,
+    planet,
+    date,
+    sign,
+    longitude,
+    title,
+    description,
+  };
+}
+
+function findPlanetEvents(planet: PlanetId, start: number, end: number): AstroEvent[] {
+  const events: AstroEvent[] = [];
+  const hasStations = planet !== 'sun' && planet !== 'moon';
+  const hasAspectToSun = planet !== 'sun';
+
+  let prevTime = start;
+  let prevSign = signIndexAt(planet, prevTime);
+  let prevSpeed = hasStations ? speedAt(planet, prevTime) : 0;
+  let prevElongation = hasAspectToSun ? elongationAt(planet, prevTime) : 0;
+
+  while (prevTime < end) {
+    const time = Math.min(prevTime + SAMPLE_STEP_MS, end);
+
+    const sign = signIndexAt(planet, time);
+    if (sign !== prevSign) {
+      const from = prevSign;
+      events.push(makeEvent('ingress', planet, refine(prevTime, time, (t) => signIndexAt(planet, t) !== from)));
+    }
+
+    if (hasStations) {
+      const speed = speedAt(planet, time);
+      if (Math.sign(speed) !== Math.sign(prevSpeed) && speed !== 0) {
+        const wasRetrograde = prevSpeed < 0;
+        const at = refine(prevTime, time, (t) => (speedAt(planet, t) < 0) !== wasRetrograde);
+        events.push(makeEvent(wasRetrograde ? 'direct' : 'retrograde', planet, at));
+      }
+      prevSpeed = speed;
+    }
+
+    if (hasAspectToSun) {
+      const elongation = elongationAt(planet, time);
+      if (Math.sign(elongation) !== Math.sign(prevElongation)) {
+        // A sign change near 0 degrees is a conjunction, near 180 an opposition.
+        const type: AstroEventType = Math.abs(prevElongation) < 90 ? 'conjunction' : 'opposition';
+        const wasPositive = prevElongation > 0;
+        const at = refine(prevTime, time, (t) => (elongationAt(planet, t) > 0) !== wasPositive);
+        events.push(makeEvent(type, planet, at));
+      }
+      prevElongation = elongation;
+    }
+
+    prevTime = time;
+    prevSign = sign;
+  }
+
+  return events;
+}
+
+// Events from `start` up to (excluding) `end`, in time order.
+export function findAstroEvents(
+  start: Date,
+  end: Date,
+  options: { planets?: PlanetId[]; types?: AstroEventType[] } = {}
+): AstroEvent[] {
+  const { planets = classicalPlanets, types = astroEventTypes } = options;
+
+  return planets
+    .flatMap((planet) => findPlanetEvents(planet, start.getTime(), end.getTime()))
+    .filter((event) => types.includes(event.type) && event.date.getTime() < end.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
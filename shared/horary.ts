@@ -0,0 +1,189 @@
+import { longitudeToSign, zodiacSigns, type PlanetId, type ZodiacSign } from './astro';
+import type { PlanetAspect } from './aspects';
+import { calculateChart, type Chart } from './chart';
+import { getSignRuler, getTriplicityRulers } from './dignities';
+import type { HouseSystem } from './houses';
+import { findPlanetaryHourAt, getPlanetaryDay, type PlanetaryHoursOptions } from './planetaryHours';
+import { getVoidOfCourse, type VoidOfCoursePeriod } from './voidOfCourse';
+
+/**
+ * A horary chart: the sky at the moment a question is asked, judged with the
+ * traditional considerations before judgment. The chart is radical, fit to be
+ * judged, when the ruler of the planetary hour agrees with the ascendant: the same
+ * planet, a ruler of its triplicity, or of the same nature (after Lilly). Too
+ * early or late an ascendant, Saturn in the 1st or 7th house and a void-of-course
+ * Moon are cautions.
+ */
+
+export type HoraryInput = PlanetaryHoursOptions & {
+  date: Date;
+  latitude: number;
+  longitude: number;
+  // IANA timezone the planetary day is read in; defaults to UTC
+  timezone?: string;
+  houseSystem?: HouseSystem;
+};
+
+// How the hour ruler agrees with the ascendant, strongest first
+export type HourAgreement = 'same' | 'triplicity' | 'nature';
+
+export type HoraryConsiderationId =
+  | 'hour-ruler'
+  | 'early-ascendant'
+  | 'late-ascendant'
+  | 'saturn-first'
+  | 'saturn-seventh'
+  | 'moon-void';
+
+export type HoraryConsideration = {
+  id: HoraryConsiderationId;
+  // True when the consideration counts against judging the chart
+  caution: boolean;
+  title: string;
+  description: string;
+};
+
+export type HoraryChart = {
+  chart: Chart;
+  dayRuler: PlanetId;
+  hourRuler: PlanetId;
+  ascendantSign: ZodiacSign;
+  ascendantRuler: PlanetId;
+  hourAgreement: HourAgreement | null;
+  // The Moon's aspects still closing, nearest to exact first
+  moonAspects: PlanetAspect[];
+  voidOfCourse: VoidOfCoursePeriod | null;
+  considerations: HoraryConsideration[];
+};
+
+// Ascendants in the first or last three degrees of a sign are too early or too late to judge
+export const EARLY_ASCENDANT_DEGREES = 3;
+export const LATE_ASCENDANT_DEGREES = 27;
+
+type Nature = 'hot-dry' | 'hot-moist' | 'cold-dry' | 'cold-moist';
+
+// Mercury is convertible, taking the nature of the planets it is with, so it has none of its own
+const planetNatures: Partial<Record<PlanetId, Nature>> = {
+  sun: 'hot-dry',
+  moon: 'cold-moist',
+  venus: 'cold-moist',
+  mars: 'hot-dry',
+  jupiter: 'hot-moist',
+  saturn: 'cold-dry',
+};
+
+// Fire, earth, air and water in zodiac order
+const elementNatures: Nature[] = ['hot-dry', 'cold-dry', 'hot-moist', 'cold-moist'];
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function getHourAgreement(hourRuler: PlanetId, ascendantSign: ZodiacSign): HourAgreement | null {
+  if (hourRuler === getSignRuler(ascendantSign)) return 'same';
+  if (Object.values(getTriplicityRulers(ascendantSign)).includes(hourRuler)) return 'triplicity';
+  if (planetNatures[hourRuler] === elementNatures[zodiacSigns.indexOf(ascendantSign) % 4]) return 'nature';
+  return null;
+}
+
+const agreementDescriptions: Record<HourAgreement, string> = {
+  same: 'rules the ascendant',
+  triplicity: 'rules the triplicity of the ascendant',
+  nature: 'shares the nature of the ascendant',
+};
+
+function considerHoraryChart(
+  chart: Chart,
+  hourRuler: PlanetId,
+  ascendantRuler: PlanetId,
+  hourAgreement: HourAgreement | null,
+  voidOfCourse: VoidOfCoursePeriod | null
+): HoraryConsideration[] {
+  const ascendant = longitudeToSign(chart.angles.ascendant);
+  const hour = capitalize(hourRuler);
+  const considerations: HoraryConsideration[] = [
+    hourAgreement
+      ? {
+          id: 'hour-ruler',
+          caution: false,
+          title: 'Radical',
+          description: `${hour}, ruler of the hour, ${agreementDescriptions[hourAgreement]} in ${ascendant.sign}.`,
+        }
+      : {
+          id: 'hour-ruler',
+          caution: true,
+          title: 'Not radical',
+          description: `${hour}, ruler of the hour, does not agree with ${capitalize(ascendantRuler)}, ruler of the ${ascendant.sign} ascendant.`,
+        },
+  ];
+
+  if (ascendant.degreeInSign < EARLY_ASCENDANT_DEGREES) {
+    considerations.push({
+      id: 'early-ascendant',
+      caution: true,
+      title: 'Ascendant too early',
+      description: `Only ${Math.floor(ascendant.degreeInSign)}° of ${ascendant.sign} rises: it is too soon to judge the matter.`,
+    });
+  } else if (ascendant.degreeInSign >= LATE_ASCENDANT_DEGREES) {
+    considerations.push({
+      id: 'late-ascendant',
+      caution: true,
+      title: 'Ascendant too late',
+      description: `${Math.floor(ascendant.degreeInSign)}° of ${ascendant.sign} rises: the matter is already settled or past changing.`,
+    });
+  }
+
+  const saturn = chart.positions.find((position) => position.planet === 'saturn');
+  if (saturn?.house === 1) {
+    considerations.push({
+      id: 'saturn-first',
+      caution: true,
+      title: 'Saturn in the 1st house',
+      description: 'The querent is troubled, or the question will seldom come to good.',
+    });
+  } else if (saturn?.house === 7) {
+    considerations.push({
+      id: 'saturn-seventh',
+      caution: true,
+      title: 'Saturn in the 7th house',
+      description: 'The judgment of the astrologer is impaired.',
+    });
+  }
+
+  if (voidOfCourse) {
+    considerations.push({
+      id: 'moon-void',
+      caution: true,
+      title: 'Moon void of course',
+      description: `The Moon makes no further aspect in ${voidOfCourse.sign}: nothing will come of the matter.`,
+    });
+  }
+
+  return considerations;
+}
+
+export function castHoraryChart(input: HoraryInput): HoraryChart {
+  const { date, latitude, longitude, timezone = 'UTC', houseSystem, ...options } = input;
+  const chart = calculateChart({ date, latitude, longitude, houseSystem });
+
+  const day = getPlanetaryDay(date, { ...options, latitude, longitude, timezone });
+  const hour = findPlanetaryHourAt(day, date);
+  if (!hour) {
+    throw new Error('Could not find the planetary hour of the chart');
+  }
+
+  const ascendantSign = longitudeToSign(chart.angles.ascendant).sign;
+  const ascendantRuler = getSignRuler(ascendantSign);
+  const hourAgreement = getHourAgreement(hour.ruler, ascendantSign);
+  const voidOfCourse = getVoidOfCourse(date);
+
+  return {
+    chart,
+    dayRuler: day.dayRuler,
+    hourRuler: hour.ruler,
+    ascendantSign,
+    ascendantRuler,
+    hourAgreement,
+    moonAspects: chart.aspects.filter((aspect) => aspect.applying && (aspect.planet1 === 'moon' || aspect.planet2 === 'moon')),
+    voidOfCourse,
+    considerations: considerHoraryChart(chart, hour.ruler, ascendantRuler, hourAgreement, voidOfCourse),
+  };
+}
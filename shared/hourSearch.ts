@@ -0,0 +1,158 @@
+import { DateTime } from 'luxon';
+import type { PlanetId } from './astro';
+import { getMoonMansion } from './lunarMansions';
+import { getPlanetaryDayRuler } from './planetary';
+import {
+  calculatePlanetaryHours,
+  getPlanetaryDay,
+  jsDayIndex,
+  type PlanetaryHourSlot,
+  type PlanetaryHoursInput,
+} from './planetaryHours';
+import type { ZodiacOptions } from './zodiac';
+
+/**
+ * "Next hour of X" search over the hours engine, e.g. the next Jupiter hours during
+ * daylight on a Thursday. Days are walked forward from the planetary day containing
+ * `from`, so hours that have not ended yet (including the current one) can match.
+ * A lunar mansion filter combines the hour with the Moon's mansion for talismanic elections.
+ */
+
+export type HourSearchFilters = {
+  ruler?: PlanetId;
+  // Ruler of the planetary day, i.e. the weekday.
+  dayRuler?: PlanetId;
+  period?: 'day' | 'night';
+  // Local time of day window, minutes after midnight; the whole hour must fall inside it.
+  // A window with `start` after `end` wraps around midnight.
+  timeWindow?: { start: number; end: number };
+  minMinutes?: number;
+  // Lunar mansion, 1 to 28, in the search's zodiac; the Moon must stay in it for the whole hour.
+  mansion?: number;
+};
+
+export type HourSearchInput = Omit<PlanetaryHoursInput, 'date'> &
+  HourSearchFilters & {
+    from?: Date;
+    // Number of matches to return.
+    count?: number;
+    // How many planetary days to search before giving up.
+    maxDays?: number;
+    // Zodiac the mansions are counted in; tropical by default.
+    zodiac?: ZodiacOptions;
+  };
+
+export type HourSearchMatch = {
+  date: string; // local date of the planetary day, YYYY-MM-DD
+  dayRuler: PlanetId;
+  hour: PlanetaryHourSlot;
+  minutes: number;
+};
+
+export const MAX_SEARCH_COUNT = 50;
+export const MAX_SEARCH_DAYS = 366;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Parse a local time of day `HH:mm` into minutes after midnight; `24:00` is the end of the day.
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (Number(match[2]) > 59 || minutes > MINUTES_PER_DAY) return null;
+  return minutes;
+}
+
+function minutesAfterMidnight(dt: DateTime): number {
+  return dt.hour * 60 + dt.minute + dt.second / 60;
+}
+
+function isWithinWindow(hour: PlanetaryHourSlot, window: { start: number; end: number }, zone: string): boolean {
+  const start = DateTime.fromJSDate(hour.start, { zone });
+  const end = DateTime.fromJSDate(hour.end, { zone });
+  const startMinutes = minutesAfterMidnight(start);
+  // An hour ending exactly at midnight ends at the end of its start day.
+  const endMinutes = end.hasSame(start, 'day')
+    ? minutesAfterMidnight(end)
+    : minutesAfterMidnight(end) + MINUTES_PER_DAY;
+
+  if (window.start <= window.end) {
+    return startMinutes >= window.start && endMinutes <= window.end;
+  }
+
+  // Wrapping window, e.g. 22:00-02:00: inside it either before or after midnight.
+  if (endMinutes > MINUTES_PER_DAY) {
+    return startMinutes >= window.start && endMinutes - MINUTES_PER_DAY <= window.end;
+  }
+  return startMinutes >= window.start || endMinutes <= window.end;
+}
+
+function matchesFilters(
+  hour: PlanetaryHourSlot,
+  filters: HourSearchFilters,
+  zone: string,
+  zodiac: ZodiacOptions
+): boolean {
+  if (filters.ruler && hour.ruler !== filters.ruler) return false;
+  if (filters.period && hour.isDay !== (filters.period === 'day')) return false;
+  if (filters.minMinutes != null && hour.end.getTime() - hour.start.getTime() < filters.minMinutes * 60 * 1000) {
+    return false;
+  }
+  if (filters.timeWindow && !isWithinWindow(hour, filters.timeWindow, zone)) return false;
+  if (
+    filters.mansion != null &&
+    (getMoonMansion(hour.start, zodiac) !== filters.mansion ||
+      getMoonMansion(new Date(hour.end.getTime() - 1), zodiac) !== filters.mansion)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function findNextPlanetaryHours(input: HourSearchInput): HourSearchMatch[] {
+  const {
+    from = new Date(),
+    count = 1,
+    maxDays = MAX_SEARCH_DAYS,
+    ruler,
+    dayRuler,
+    period,
+    timeWindow,
+    minMinutes,
+    mansion,
+    zodiac = {},
+    ...location
+  } = input;
+  const filters: HourSearchFilters = { ruler, dayRuler, period, timeWindow, minMinutes, mansion };
+  const timezone = location.timezone || 'UTC';
+  const limit = Math.min(Math.max(1, count), MAX_SEARCH_COUNT);
+  const dayLimit = Math.min(maxDays, MAX_SEARCH_DAYS);
+
+  const first = getPlanetaryDay(from, location);
+  const firstDay = DateTime.fromISO(first.date, { zone: timezone });
+  const matches: HourSearchMatch[] = [];
+
+  for (let i = 0; i < dayLimit && matches.length < limit; i++) {
+    const localDay = firstDay.plus({ days: i });
+    // The day ruler only depends on the weekday, so skip other days without computing them.
+    if (dayRuler && getPlanetaryDayRuler(jsDayIndex(localDay)) !== dayRuler) continue;
+
+    const schedule =
+      i === 0 ? first : calculatePlanetaryHours({ ...location, date: localDay.toFormat('yyyy-LL-dd') });
+
+    for (const hour of schedule.hours) {
+      if (hour.end.getTime() <= from.getTime()) continue;
+      if (!matchesFilters(hour, filters, timezone, zodiac)) continue;
+
+      matches.push({
+        date: schedule.date,
+        dayRuler: schedule.dayRuler,
+        hour,
+        minutes: (hour.end.getTime() - hour.start.getTime()) / 60000,
+      });
+      if (matches.length >= limit) break;
+    }
+  }
+
+  return matches;
+}
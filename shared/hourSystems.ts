@@ -0,0 +1,99 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Hour systems: how a day is cut into its 24 planetary hours.
+ *
+ * Each system only decides the hour boundaries from the day's Sun events; rulers
+ * are assigned afterwards by the hours engine from the Chaldean sequence, starting
+ * with the weekday ruler at the first hour of the day.
+ */
+
+export const hourSystems = ['traditional', 'equal', 'sunset-start', 'hora'] as const;
+
+export type HourSystem = (typeof hourSystems)[number];
+
+export const DEFAULT_HOUR_SYSTEM: HourSystem = 'traditional';
+
+export function isHourSystem(value: string): value is HourSystem {
+  return (hourSystems as readonly string[]).includes(value);
+}
+
+export type DayBoundaries = {
+  sunriseUtc: DateTime;
+  sunsetUtc: DateTime;
+  nextSunriseUtc: DateTime;
+  // Only computed by systems that need it.
+  previousSunsetUtc: () => DateTime;
+};
+
+export type HourBoundary = {
+  start: DateTime;
+  end: DateTime;
+  isDay: boolean;
+};
+
+export type HourSystemDefinition = {
+  label: string;
+  description: string;
+  getHours: (day: DayBoundaries) => HourBoundary[];
+};
+
+// Split [from, to] into `count` equal parts; the last part ends exactly at `to`
+// to avoid rounding drift.
+function divide(from: DateTime, to: DateTime, count: number, isDay: boolean): HourBoundary[] {
+  const length = to.diff(from, 'minutes').minutes / count;
+  const hours: HourBoundary[] = [];
+  for (let i = 0; i < count; i++) {
+    hours.push({
+      start: from.plus({ minutes: i * length }),
+      end: i === count - 1 ? to : from.plus({ minutes: (i + 1) * length }),
+      isDay,
+    });
+  }
+  return hours;
+}
+
+const registry: Record<HourSystem, HourSystemDefinition> = {
+  traditional: {
+    label: 'Traditional',
+    description: 'Unequal hours: 12 from sunrise to sunset, 12 from sunset to the next sunrise',
+    getHours: ({ sunriseUtc, sunsetUtc, nextSunriseUtc }) => [
+      ...divide(sunriseUtc, sunsetUtc, 12, true),
+      ...divide(sunsetUtc, nextSunriseUtc, 12, false),
+    ],
+  },
+  equal: {
+    label: 'Equal hours',
+    description: '60-minute clock hours from sunrise; the last hour runs until the next sunrise',
+    getHours: ({ sunriseUtc, sunsetUtc, nextSunriseUtc }) =>
+      Array.from({ length: 24 }, (_, i) => {
+        const start = sunriseUtc.plus({ hours: i });
+        return {
+          start,
+          end: i === 23 ? nextSunriseUtc : sunriseUtc.plus({ hours: i + 1 }),
+          isDay: start < sunsetUtc,
+        };
+      }),
+  },
+  'sunset-start': {
+    label: 'Sunset start',
+    description: 'Hellenistic/Hebrew reckoning: the day begins at the previous sunset, night hours first',
+    getHours: ({ sunriseUtc, sunsetUtc, previousSunsetUtc }) => [
+      ...divide(previousSunsetUtc(), sunriseUtc, 12, false),
+      ...divide(sunriseUtc, sunsetUtc, 12, true),
+    ],
+  },
+  hora: {
+    label: 'Vedic Hora',
+    description: '24 equal horas of 2½ ghatikas each, dividing the day from sunrise to the next sunrise',
+    getHours: ({ sunriseUtc, sunsetUtc, nextSunriseUtc }) =>
+      divide(sunriseUtc, nextSunriseUtc, 24, true).map((hour) => ({
+        ...hour,
+        isDay: hour.start < sunsetUtc,
+      })),
+  },
+};
+
+export function getHourSystem(system: HourSystem): HourSystemDefinition {
+  return registry[system];
+}
@@ -0,0 +1,141 @@
+import * as Astronomy from 'astronomy-engine';
+import { longitudeToSign, normalizeAngle360, type ZodiacSign } from './astro';
+
+/**
+ * Chart angles and house cusps. The Ascendant and Midheaven come from local
+ * sidereal time and the true obliquity of the ecliptic; the cusps in between
+ * depend on the house system.
+ */
+
+export type HouseSystem = 'whole-sign' | 'equal' | 'placidus' | 'porphyry';
+
+export const houseSystems: HouseSystem[] = ['whole-sign', 'equal', 'placidus', 'porphyry'];
+
+export const DEFAULT_HOUSE_SYSTEM: HouseSystem = 'placidus';
+
+export type ChartAngles = {
+  ascendant: number;
+  midheaven: number;
+  // Right ascension of the meridian (local sidereal time), in degrees
+  ramc: number;
+  // True obliquity of the ecliptic, in degrees
+  obliquity: number;
+};
+
+export type HouseCusp = {
+  house: number;
+  longitude: number;
+  sign: ZodiacSign;
+  degreeInSign: number;
+};
+
+// Placidus semi-arcs are undefined where some ecliptic degrees never rise or set.
+export class HouseSystemError extends Error {
+  constructor(message = 'Placidus houses are undefined inside the polar circles') {
+    super(message);
+    this.name = 'HouseSystemError';
+  }
+}
+
+const DEG = Math.PI / 180;
+const PLACIDUS_ITERATIONS = 20;
+
+const sin = (deg: number) => Math.sin(deg * DEG);
+const cos = (deg: number) => Math.cos(deg * DEG);
+const atan2 = (y: number, x: number) => Math.atan2(y, x) / DEG;
+
+export function isHouseSystem(value: string): value is HouseSystem {
+  return (houseSystems as string[]).includes(value);
+}
+
+// Ecliptic longitude of the point on the ecliptic with right ascension `ra`
+function raToLongitude(ra: number, obliquity: number): number {
+  return normalizeAngle360(atan2(sin(ra), cos(ra) * cos(obliquity)));
+}
+
+export function calculateChartAngles(time: Date, latitude: number, longitude: number): ChartAngles {
+  const obliquity = Astronomy.e_tilt(Astronomy.MakeTime(time)).tobl;
+  const ramc = normalizeAngle360(Astronomy.SiderealTime(time) * 15 + longitude);
+
+  const midheaven = raToLongitude(ramc, obliquity);
+  const ascendant = normalizeAngle360(
+    atan2(cos(ramc), -(sin(ramc) * cos(obliquity) + Math.tan(latitude * DEG) * sin(obliquity)))
+  );
+
+  return { ascendant, midheaven, ramc, obliquity };
+}
+
+// Cusp whose right ascension sits `fraction` of the way along its semi-arc, measured
+// from the upper meridian (houses 11 and 12) or back from the lower one (houses 2 and 3).
+function placidusCusp(angles: ChartAngles, latitude: number, fraction: number, belowHorizon: boolean): number {
+  const { ramc, obliquity } = angles;
+  let ra = belowHorizon ? ramc + 180 - fraction * 90 : ramc + fraction * 90;
+
+  for (let i = 0; i < PLACIDUS_ITERATIONS; i++) {
+    const declination = Math.asin(sin(obliquity) * sin(raToLongitude(ra, obliquity))) / DEG;
+    const x = -Math.tan(latitude * DEG) * Math.tan(declination * DEG);
+    if (Math.abs(x) > 1) {
+      throw new HouseSystemError();
+    }
+    const diurnalArc = Math.acos(x) / DEG;
+    ra = belowHorizon ? ramc + 180 - fraction * (180 - diurnalArc) : ramc + fraction * diurnalArc;
+  }
+
+  return raToLongitude(ra, obliquity);
+}
+
+function cuspLongitudes(system: HouseSystem, angles: ChartAngles, latitude: number): number[] {
+  const { ascendant, midheaven } = angles;
+
+  switch (system) {
+    case 'whole-sign':
+      return Array.from({ length: 12 }, (_, i) => Math.floor(ascendant / 30) * 30 + i * 30);
+    case 'equal':
+      return Array.from({ length: 12 }, (_, i) => ascendant + i * 30);
+    case 'porphyry': {
+      // Trisect each quadrant between the angles
+      const upper = normalizeAngle360(ascendant - midheaven) / 3;
+      const lower = normalizeAngle360(midheaven + 180 - ascendant) / 3;
+      const c11 = midheaven + upper;
+      const c12 = midheaven + 2 * upper;
+      const c2 = ascendant + lower;
+      const c3 = ascendant + 2 * lower;
+      return [ascendant, c2, c3, midheaven + 180, c11 + 180, c12 + 180, ascendant + 180, c2 + 180, c3 + 180, midheaven, c11, c12];
+    }
+    case 'placidus': {
+      const c11 = placidusCusp(angles, latitude, 1 / 3, false);
+      const c12 = placidusCusp(angles, latitude, 2 / 3, false);
+      const c2 = placidusCusp(angles, latitude, 2 / 3, true);
+      const c3 = placidusCusp(angles, latitude, 1 / 3, true);
+      return [ascendant, c2, c3, midheaven + 180, c11 + 180, c12 + 180, ascendant + 180, c2 + 180, c3 + 180, midheaven, c11, c12];
+    }
+  }
+}
+
+export function calculateHouses(
+  time: Date,
+  latitude: number,
+  longitude: number,
+  system: HouseSystem = DEFAULT_HOUSE_SYSTEM
+): { angles: ChartAngles; cusps: HouseCusp[] } {
+  const angles = calculateChartAngles(time, latitude, longitude);
+  const cusps = cuspLongitudes(system, angles, latitude).map((cusp, i) => {
+    const normalized = normalizeAngle360(cusp);
+    return { house: i + 1, longitude: normalized, ...longitudeToSign(normalized) };
+  });
+
+  return { angles, cusps };
+}
+
+// House (1-12) containing an ecliptic longitude: the last cusp at or before it.
+export function findHouse(longitude: number, cusps: HouseCusp[]): number {
+  const lon = normalizeAngle360(longitude);
+  for (let i = 0; i < 12; i++) {
+    const start = cusps[i].longitude;
+    const end = cusps[(i + 1) % 12].longitude;
+    if (normalizeAngle360(lon - start) < normalizeAngle360(end - start)) {
+      return cusps[i].house;
+    }
+  }
+  return 1;
+}
@@ -0,0 +1,82 @@
+import { normalizeAngle360 } from './astro';
+import { geocentricEclipticLongitude } from './positions';
+import { toZodiacLongitude, type ZodiacOptions } from './zodiac';
+
+/**
+ * The 28 lunar mansions (manazil) as equal divisions of the zodiac, 12°51′26″
+ * each, counted from 0° Aries of the tropical or a sidereal zodiac.
+ */
+
+export type LunarMansion = {
+  // 1 to 28
+  mansion: number;
+  // Moon's longitude in the chosen zodiac
+  longitude: number;
+  degreeInMansion: number;
+  nextMansion: number;
+  // When the Moon enters the next mansion
+  nextChange: Date;
+};
+
+export const LUNAR_MANSION_COUNT = 28;
+export const LUNAR_MANSION_SPAN = 360 / LUNAR_MANSION_COUNT;
+
+// The Moon needs at least 20 hours to cross a mansion
+const SAMPLE_STEP_MS = 2 * 60 * 60 * 1000;
+const PRECISION_MS = 60 * 1000;
+
+export function isLunarMansion(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= LUNAR_MANSION_COUNT;
+}
+
+// Mansion of a longitude, 1 to 28
+export function getLunarMansionNumber(longitude: number): number {
+  return Math.floor(normalizeAngle360(longitude) / LUNAR_MANSION_SPAN) + 1;
+}
+
+// Longitudes where a mansion starts and ends
+export function getLunarMansionRange(mansion: number): { start: number; end: number } {
+  return { start: (mansion - 1) * LUNAR_MANSION_SPAN, end: mansion * LUNAR_MANSION_SPAN };
+}
+
+export function moonLongitudeAt(time: Date, zodiac: ZodiacOptions = {}): number {
+  return toZodiacLongitude(geocentricEclipticLongitude('moon', time), time, zodiac);
+}
+
+export function getMoonMansion(time: Date, zodiac: ZodiacOptions = {}): number {
+  return getLunarMansionNumber(moonLongitudeAt(time, zodiac));
+}
+
+// When the Moon next leaves its current mansion
+export function findNextMansionChange(time: Date, zodiac: ZodiacOptions = {}): Date {
+  const mansion = getMoonMansion(time, zodiac);
+  let lo = time.getTime();
+  let hi = lo + SAMPLE_STEP_MS;
+  while (getMoonMansion(new Date(hi), zodiac) === mansion) {
+    lo = hi;
+    hi += SAMPLE_STEP_MS;
+  }
+
+  while (hi - lo > PRECISION_MS) {
+    const mid = (lo + hi) / 2;
+    if (getMoonMansion(new Date(mid), zodiac) === mansion) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return new Date(hi);
+}
+
+export function calculateLunarMansion(time: Date, zodiac: ZodiacOptions = {}): LunarMansion {
+  const longitude = moonLongitudeAt(time, zodiac);
+  const mansion = getLunarMansionNumber(longitude);
+
+  return {
+    mansion,
+    longitude,
+    degreeInMansion: longitude - getLunarMansionRange(mansion).start,
+    nextMansion: (mansion % LUNAR_MANSION_COUNT) + 1,
+    nextChange: findNextMansionChange(time, zodiac),
+  };
+}
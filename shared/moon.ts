@@ -0,0 +1,150 @@
+import * as Astronomy from 'astronomy-engine';
+import { DateTime } from 'luxon';
+import type { ZodiacSign } from './astro';
+import { calculatePlanetPosition } from './positions';
+
+/**
+ * Moon phase calculations on the offline ephemeris: the phase at an instant, the
+ * upcoming principal phases (new, first quarter, full, last quarter) and the
+ * traditional names of full moons.
+ */
+
+export const moonPhaseNames = [
+  'new',
+  'waxing crescent',
+  'first quarter',
+  'waxing gibbous',
+  'full',
+  'waning gibbous',
+  'last quarter',
+  'waning crescent',
+] as const;
+
+export type MoonPhaseName = (typeof moonPhaseNames)[number];
+
+export type PrincipalMoonPhase = 'new' | 'first quarter' | 'full' | 'last quarter';
+
+// Same shape as `MoonPhase` in types/index.ts, plus the raw elongation.
+export type MoonPhaseInfo = {
+  phase: MoonPhaseName;
+  date: string; // UTC ISO instant
+  // Elongation of the Moon from the Sun in ecliptic longitude, 0-360 degrees
+  elongation: number;
+  illumination: number; // 0-1
+  age: number; // Days since new moon
+  distance: number; // Distance from Earth in km
+  name?: string; // Name of the full moon when the phase is full
+  zodiacSign: ZodiacSign;
+};
+
+export type MoonPhaseEvent = {
+  phase: PrincipalMoonPhase;
+  date: Date;
+};
+
+export type FullMoon = {
+  date: Date;
+  name: string;
+};
+
+const principalPhases: PrincipalMoonPhase[] = ['new', 'first quarter', 'full', 'last quarter'];
+
+// Names by the calendar month the full moon falls in
+const monthlyFullMoonNames = [
+  'Wolf Moon',
+  'Snow Moon',
+  'Worm Moon',
+  'Pink Moon',
+  'Flower Moon',
+  'Strawberry Moon',
+  'Buck Moon',
+  'Sturgeon Moon',
+  'Corn Moon',
+  'Hunter’s Moon',
+  'Beaver Moon',
+  'Cold Moon',
+];
+
+const SYNODIC_MONTH_DAYS = 29.530588;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Eight equal 45-degree sectors, each centred on its phase
+function phaseFromElongation(elongation: number): MoonPhaseName {
+  return moonPhaseNames[Math.floor(((elongation + 22.5) % 360) / 45)];
+}
+
+function previousNewMoon(time: Date): Date {
+  const found = Astronomy.SearchMoonPhase(0, time, -(SYNODIC_MONTH_DAYS + 1));
+  if (!found) {
+    throw new Error('Could not find the previous new moon');
+  }
+  return found.date;
+}
+
+/**
+ * Full moons from `start` up to (excluding) `end`, named by their month in `timezone`.
+ * The full moon nearest the September equinox is the Harvest Moon and the one after
+ * it the Hunter’s Moon; a second full moon in one calendar month is a Blue Moon.
+ */
+export function getFullMoons(start: Date, end: Date, timezone = 'UTC'): FullMoon[] {
+  // Start a month early so the first full moon can be checked for a Blue Moon.
+  const fullMoons: Date[] = [];
+  let found = Astronomy.SearchMoonPhase(180, new Date(start.getTime() - 31 * MS_PER_DAY), 40);
+  while (found && found.date.getTime() < end.getTime()) {
+    fullMoons.push(found.date);
+    found = Astronomy.SearchMoonPhase(180, new Date(found.date.getTime() + MS_PER_DAY), 40);
+  }
+
+  return fullMoons
+    .map((date, i) => ({ date, name: nameFullMoon(date, fullMoons[i - 1], timezone) }))
+    .filter(({ date }) => date.getTime() >= start.getTime());
+}
+
+function nameFullMoon(date: Date, previous: Date | undefined, timezone: string): string {
+  const local = DateTime.fromJSDate(date, { zone: timezone });
+  if (previous && DateTime.fromJSDate(previous, { zone: timezone }).hasSame(local, 'month')) {
+    return 'Blue Moon';
+  }
+
+  // The full moons either side of the equinox are at most a synodic month apart.
+  const equinox = Astronomy.Seasons(local.year).sep_equinox.date.getTime();
+  const fromEquinox = (date.getTime() - equinox) / MS_PER_DAY;
+  if (Math.abs(fromEquinox) <= SYNODIC_MONTH_DAYS / 2) return 'Harvest Moon';
+  if (fromEquinox > SYNODIC_MONTH_DAYS / 2 && fromEquinox <= SYNODIC_MONTH_DAYS * 1.5) return 'Hunter’s Moon';
+
+  return monthlyFullMoonNames[local.month - 1];
+}
+
+export function getMoonPhase(time: Date = new Date(), timezone = 'UTC'): MoonPhaseInfo {
+  const elongation = Astronomy.MoonPhase(time);
+  const phase = phaseFromElongation(elongation);
+
+  let name: string | undefined;
+  if (phase === 'full') {
+    // The full moon instant nearest `time`, which may be a few days either side
+    const [nearest] = getFullMoons(new Date(time.getTime() - 4 * MS_PER_DAY), new Date(time.getTime() + 4 * MS_PER_DAY), timezone);
+    name = nearest?.name;
+  }
+
+  return {
+    phase,
+    date: time.toISOString(),
+    elongation,
+    illumination: Astronomy.Illumination(Astronomy.Body.Moon, time).phase_fraction,
+    age: (time.getTime() - previousNewMoon(time).getTime()) / MS_PER_DAY,
+    distance: Astronomy.GeoMoon(time).Length() * Astronomy.KM_PER_AU,
+    name,
+    zodiacSign: calculatePlanetPosition('moon', time).sign,
+  };
+}
+
+// The next `count` principal phases after `time`, in order.
+export function getNextMoonPhases(time: Date = new Date(), count = 4): MoonPhaseEvent[] {
+  const events: MoonPhaseEvent[] = [];
+  let quarter = Astronomy.SearchMoonQuarter(time);
+  for (let i = 0; i < count; i++) {
+    events.push({ phase: principalPhases[quarter.quarter], date: quarter.time.date });
+    quarter = Astronomy.NextMoonQuarter(quarter);
+  }
+  return events;
+}
@@ -10,6 +10,10 @@ export const chaldeanOrder: PlanetId[] = [
   'moon',
 ];
 
+export function isPlanetId(value: string): value is PlanetId {
+  return (chaldeanOrder as string[]).includes(value);
+}
+
 // JS Date.getDay(): 0=Sunday, 1=Monday, ..., 6=Saturday
 export function getPlanetaryDayRuler(dayOfWeek: number): PlanetId {
   const rulers: PlanetId[] = ['sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn'];
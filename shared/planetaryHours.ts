@@ -0,0 +1,385 @@
+import * as Astronomy from 'astronomy-engine';
+import { DateTime } from 'luxon';
+import type { PlanetId } from './astro';
+import { chaldeanOrder, getPlanetaryDayRuler } from './planetary';
+import { DEFAULT_HOUR_SYSTEM, getHourSystem, type HourSystem } from './hourSystems';
+
+/**
+ * Planetary hours engine shared by the Expo app and the PWA API.
+ *
+ * Pure and framework-free: it only depends on astronomy-engine for the Sun's
+ * rise/set instants and luxon for IANA time zone handling, so the hour shown on
+ * the home card, the hour a reminder fires for and the hour on the web calendar
+ * all come from the same calculation.
+ */
+
+export type PlanetaryHoursInput = {
+  // Local calendar day in `timezone`: either `YYYY-MM-DD` or any instant on that day.
+  date?: Date | string;
+  latitude: number;
+  longitude: number;
+  // Observer elevation in meters above the surrounding terrain; lowers the visible horizon.
+  elevation?: number;
+  // Which solar event starts the day; defaults to the standard upper-limb sunrise.
+  sunriseDefinition?: SunriseDefinition;
+  // IANA timezone name, e.g. `America/Denver`.
+  timezone?: string;
+  // What to do when the Sun does not rise or set on the day (polar day/night).
+  polarFallback?: PolarFallback;
+  // How the day is divided into hours; defaults to traditional unequal hours.
+  hourSystem?: HourSystem;
+};
+
+// Per-user calculation preferences, independent of the day and place.
+export type PlanetaryHoursOptions = Pick<
+  PlanetaryHoursInput,
+  'elevation' | 'sunriseDefinition' | 'polarFallback' | 'hourSystem'
+>;
+
+/**
+ * Sunrise definitions (sunset is the matching evening event):
+ * - `upper-limb`: top of the Sun's disk on the horizon, with standard refraction (almanac sunrise).
+ * - `center`: center of the disk on the horizon, with standard refraction.
+ * - `civil-dawn`: center of the disk 6° below the horizon (civil dawn / civil dusk).
+ */
+export const sunriseDefinitions = ['upper-limb', 'center', 'civil-dawn'] as const;
+
+export type SunriseDefinition = (typeof sunriseDefinitions)[number];
+
+export const DEFAULT_SUNRISE_DEFINITION: SunriseDefinition = 'upper-limb';
+
+export function isSunriseDefinition(value: string): value is SunriseDefinition {
+  return (sunriseDefinitions as readonly string[]).includes(value);
+}
+
+/**
+ * Polar and high-latitude fallback policies:
+ * - `nearest-latitude`: use the closest latitude (same longitude) where the Sun rises and sets.
+ * - `civil-twilight` / `nautical-twilight`: use the Sun crossing -6° / -12° as day boundaries.
+ * - `solar-noon`: equal 60-minute hours, the day hours centered on local solar noon.
+ * - `none`: throw `SunEventsError`.
+ */
+export const polarFallbacks = [
+  'nearest-latitude',
+  'civil-twilight',
+  'nautical-twilight',
+  'solar-noon',
+  'none',
+] as const;
+
+export type PolarFallback = (typeof polarFallbacks)[number];
+
+// How the day boundaries of a schedule were determined.
+export type ScheduleMode = 'standard' | Exclude<PolarFallback, 'none'>;
+
+export const DEFAULT_POLAR_FALLBACK: PolarFallback = 'nearest-latitude';
+
+export function isPolarFallback(value: string): value is PolarFallback {
+  return (polarFallbacks as readonly string[]).includes(value);
+}
+
+export type PlanetaryHourSlot = {
+  index: number; // 1..24 in the order of the hour system
+  ruler: PlanetId;
+  isDay: boolean;
+  start: Date;
+  end: Date;
+};
+
+export type PlanetaryHoursSchedule = {
+  date: string; // local date, YYYY-MM-DD
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  sunriseDefinition: SunriseDefinition;
+  hourSystem: HourSystem;
+  mode: ScheduleMode;
+  // Latitude the day boundaries were computed for; differs from `latitude` in `nearest-latitude` mode.
+  effectiveLatitude: number;
+  sunrise: Date;
+  sunset: Date;
+  nextSunrise: Date;
+  dayRuler: PlanetId;
+  hours: PlanetaryHourSlot[];
+};
+
+export class SunEventsError extends Error {
+  constructor(message = 'Could not determine sunrise/sunset for the given date/location') {
+    super(message);
+    this.name = 'SunEventsError';
+  }
+}
+
+// Resolve the requested local day; invalid input falls back to today in `zone`.
+export function resolveLocalDay(date: Date | string | undefined, zone: string): DateTime {
+  if (date instanceof Date && !isNaN(date.getTime())) {
+    return DateTime.fromJSDate(date).setZone(zone).startOf('day');
+  }
+  if (typeof date === 'string') {
+    const dt = DateTime.fromISO(date, { zone });
+    if (dt.isValid) return dt.startOf('day');
+  }
+  return DateTime.now().setZone(zone).startOf('day');
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Standard atmospheric refraction at the horizon, in degrees.
+const HORIZON_REFRACTION_DEG = 34 / 60;
+
+// Dip of the visible horizon for an observer `meters` above the surrounding terrain,
+// with the same terrestrial refraction coefficient SearchRiseSet uses.
+function horizonDipDegrees(meters: number): number {
+  if (meters <= 0) return 0;
+  const k = 0.175;
+  const earthRadiusMeters = 6371000;
+  return (Math.sqrt((2 * (1 - k) * meters) / earthRadiusMeters) / (1 - k)) * (180 / Math.PI);
+}
+
+type SunEvents = {
+  sunriseUtc: DateTime;
+  sunsetUtc: DateTime;
+  nextSunriseUtc: DateTime;
+};
+
+type BoundarySearch = (direction: number, start: Date, limitDays: number) => Astronomy.AstroTime | null;
+
+function findSunEvents(localDayStart: DateTime, search: BoundarySearch): SunEvents | null {
+  // Use local noon as an anchor to safely find sunrise before it and sunset after it.
+  const localNoon = localDayStart.set({ hour: 12, minute: 0, second: 0, millisecond: 0 });
+  const noonUtc = localNoon.toUTC().toJSDate();
+
+  // Use negative limitDays to search backward for sunrise of the local day.
+  const sunrise = search(+1, noonUtc, -2);
+  // Search forward for sunset.
+  const sunset = search(-1, noonUtc, +2);
+  // Search forward for next sunrise.
+  const nextSunrise = search(+1, noonUtc, +3);
+
+  if (!sunrise || !sunset || !nextSunrise) return null;
+
+  // Near the polar circles a search can reach into a neighboring day; only accept
+  // boundaries that belong to this day: sunrise and sunset within a day of noon.
+  const noonMs = noonUtc.getTime();
+  if (
+    noonMs - sunrise.date.getTime() >= DAY_MS ||
+    sunset.date.getTime() - noonMs >= DAY_MS ||
+    nextSunrise.date.getTime() - sunset.date.getTime() >= DAY_MS
+  ) {
+    return null;
+  }
+
+  return {
+    sunriseUtc: DateTime.fromJSDate(sunrise.date, { zone: 'utc' }),
+    sunsetUtc: DateTime.fromJSDate(sunset.date, { zone: 'utc' }),
+    nextSunriseUtc: DateTime.fromJSDate(nextSunrise.date, { zone: 'utc' }),
+  };
+}
+
+function getSunEvents(
+  localDayStart: DateTime,
+  observer: Astronomy.Observer,
+  definition: SunriseDefinition
+): SunEvents | null {
+  const metersAboveGround = Math.max(0, observer.height);
+
+  switch (definition) {
+    case 'center':
+      return getAltitudeEvents(
+        localDayStart,
+        observer,
+        -HORIZON_REFRACTION_DEG - horizonDipDegrees(metersAboveGround)
+      );
+    case 'civil-dawn':
+      // Twilight is conventionally measured from the ideal horizon.
+      return getAltitudeEvents(localDayStart, observer, -6);
+    case 'upper-limb':
+      // SearchRiseSet(body, observer, direction, dateStart, limitDays, metersAboveGround)
+      return findSunEvents(localDayStart, (direction, start, limitDays) =>
+        Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, direction, start, limitDays, metersAboveGround)
+      );
+  }
+}
+
+function getAltitudeEvents(
+  localDayStart: DateTime,
+  observer: Astronomy.Observer,
+  altitude: number
+): SunEvents | null {
+  return findSunEvents(localDayStart, (direction, start, limitDays) =>
+    Astronomy.SearchAltitude(Astronomy.Body.Sun, observer, direction, start, limitDays, altitude)
+  );
+}
+
+// Walk toward the equator in half-degree steps until the Sun rises and sets.
+function getNearestLatitudeEvents(
+  localDayStart: DateTime,
+  observer: Astronomy.Observer,
+  definition: SunriseDefinition
+): { events: SunEvents; latitude: number } | null {
+  const sign = observer.latitude < 0 ? -1 : 1;
+  for (let abs = Math.floor(Math.abs(observer.latitude) * 2) / 2; abs >= 0; abs -= 0.5) {
+    const latitude = sign * abs;
+    if (latitude === observer.latitude) continue;
+    const events = getSunEvents(
+      localDayStart,
+      new Astronomy.Observer(latitude, observer.longitude, observer.height),
+      definition
+    );
+    if (events) return { events, latitude };
+  }
+  return null;
+}
+
+// Equal hours: day runs from 6h before to 6h after local solar noon, night fills the rest.
+function getSolarNoonEvents(localDayStart: DateTime, observer: Astronomy.Observer): SunEvents {
+  const transit = Astronomy.SearchHourAngle(
+    Astronomy.Body.Sun,
+    observer,
+    0,
+    localDayStart.toUTC().toJSDate(),
+    +1
+  );
+  const noonUtc = DateTime.fromJSDate(transit.time.date, { zone: 'utc' });
+  const sunriseUtc = noonUtc.minus({ hours: 6 });
+  return {
+    sunriseUtc,
+    sunsetUtc: noonUtc.plus({ hours: 6 }),
+    nextSunriseUtc: sunriseUtc.plus({ hours: 24 }),
+  };
+}
+
+function resolveSunEvents(
+  localDayStart: DateTime,
+  observer: Astronomy.Observer,
+  definition: SunriseDefinition,
+  fallback: PolarFallback
+): { events: SunEvents; mode: ScheduleMode; effectiveLatitude: number } {
+  const standard = getSunEvents(localDayStart, observer, definition);
+  if (standard) return { events: standard, mode: 'standard', effectiveLatitude: observer.latitude };
+
+  switch (fallback) {
+    case 'none':
+      throw new SunEventsError();
+    case 'nearest-latitude': {
+      const nearest = getNearestLatitudeEvents(localDayStart, observer, definition);
+      if (nearest) {
+        return { events: nearest.events, mode: fallback, effectiveLatitude: nearest.latitude };
+      }
+      break;
+    }
+    case 'civil-twilight':
+    case 'nautical-twilight': {
+      // Deep in the polar night (or midnight sun) even twilight may not occur.
+      const twilight = getAltitudeEvents(localDayStart, observer, fallback === 'civil-twilight' ? -6 : -12);
+      if (twilight) return { events: twilight, mode: fallback, effectiveLatitude: observer.latitude };
+      break;
+    }
+    case 'solar-noon':
+      break;
+  }
+
+  return {
+    events: getSolarNoonEvents(localDayStart, observer),
+    mode: 'solar-noon',
+    effectiveLatitude: observer.latitude,
+  };
+}
+
+// Luxon weekday: 1=Mon..7=Sun. Convert to JS day index: 0=Sun..6=Sat.
+export function jsDayIndex(localDay: DateTime): number {
+  return localDay.weekday === 7 ? 0 : localDay.weekday;
+}
+
+/**
+ * Calculates the 24 planetary hours of a day, by default the unequal hours from
+ * sunrise to the next sunrise; `hourSystem` selects another division of the day.
+ * When the Sun does not rise or set on the given day the `polarFallback` policy
+ * decides the boundaries and is reported as `mode`; with `none` this throws `SunEventsError`.
+ */
+export function calculatePlanetaryHours(input: PlanetaryHoursInput): PlanetaryHoursSchedule {
+  const timezone = input.timezone || 'UTC';
+  const elevation = input.elevation ?? 0;
+  const sunriseDefinition = input.sunriseDefinition ?? DEFAULT_SUNRISE_DEFINITION;
+  const hourSystem = input.hourSystem ?? DEFAULT_HOUR_SYSTEM;
+  const polarFallback = input.polarFallback ?? DEFAULT_POLAR_FALLBACK;
+  const localDayStart = resolveLocalDay(input.date, timezone);
+
+  const observer = new Astronomy.Observer(input.latitude, input.longitude, elevation);
+  const { events, mode, effectiveLatitude } = resolveSunEvents(
+    localDayStart,
+    observer,
+    sunriseDefinition,
+    polarFallback
+  );
+  const { sunriseUtc, sunsetUtc, nextSunriseUtc } = events;
+
+  const dayRuler = getPlanetaryDayRuler(jsDayIndex(localDayStart));
+  const startIndex = chaldeanOrder.indexOf(dayRuler);
+
+  const boundaries = getHourSystem(hourSystem).getHours({
+    sunriseUtc,
+    sunsetUtc,
+    nextSunriseUtc,
+    previousSunsetUtc: () =>
+      resolveSunEvents(localDayStart.minus({ days: 1 }), observer, sunriseDefinition, polarFallback)
+        .events.sunsetUtc,
+  });
+
+  const hours: PlanetaryHourSlot[] = boundaries.map(({ start, end, isDay }, i) => ({
+    index: i + 1,
+    ruler: chaldeanOrder[(startIndex + i) % 7],
+    isDay,
+    start: start.toJSDate(),
+    end: end.toJSDate(),
+  }));
+
+  return {
+    date: localDayStart.toFormat('yyyy-LL-dd'),
+    timezone,
+    latitude: input.latitude,
+    longitude: input.longitude,
+    elevation,
+    sunriseDefinition,
+    hourSystem,
+    mode,
+    effectiveLatitude,
+    sunrise: sunriseUtc.toJSDate(),
+    sunset: sunsetUtc.toJSDate(),
+    nextSunrise: nextSunriseUtc.toJSDate(),
+    dayRuler,
+    hours,
+  };
+}
+
+/**
+ * Returns the schedule of the planetary day containing `instant`. Planetary days run
+ * from sunrise to sunrise (sunset to sunset with the `sunset-start` hour system), so
+ * at 3 AM this is still the previous civil day's schedule and ruler.
+ */
+export function getPlanetaryDay(
+  instant: Date,
+  input: Omit<PlanetaryHoursInput, 'date'>
+): PlanetaryHoursSchedule {
+  const localDay = resolveLocalDay(instant, input.timezone || 'UTC');
+  const schedule = calculatePlanetaryHours({ ...input, date: localDay.toFormat('yyyy-LL-dd') });
+  const t = instant.getTime();
+
+  if (t < schedule.hours[0].start.getTime()) {
+    return calculatePlanetaryHours({ ...input, date: localDay.minus({ days: 1 }).toFormat('yyyy-LL-dd') });
+  }
+  if (t >= schedule.hours[schedule.hours.length - 1].end.getTime()) {
+    return calculatePlanetaryHours({ ...input, date: localDay.plus({ days: 1 }).toFormat('yyyy-LL-dd') });
+  }
+  return schedule;
+}
+
+// Returns the hour containing `instant`, or null when it falls outside the schedule.
+export function findPlanetaryHourAt(
+  schedule: PlanetaryHoursSchedule,
+  instant: Date = new Date()
+): PlanetaryHourSlot | null {
+  const t = instant.getTime();
+  return schedule.hours.find((h) => t >= h.start.getTime() && t < h.end.getTime()) || null;
+}
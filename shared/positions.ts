@@ -0,0 +1,85 @@
+import * as Astronomy from 'astronomy-engine';
+import { longitudeToSign, normalizeDelta180, type OuterPlanetId, type PlanetId, type ZodiacSign } from './astro';
+import { toZodiacLongitude, type ZodiacOptions } from './zodiac';
+
+export type PlanetPosition = {
+  planet: PlanetId;
+  longitude: number;
+  sign: ZodiacSign;
+  degreeInSign: number;
+  isRetrograde: boolean;
+};
+
+export const classicalPlanets: PlanetId[] = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn'];
+
+export const planetBodyMap: Record<PlanetId | OuterPlanetId, Astronomy.Body> = {
+  sun: Astronomy.Body.Sun,
+  moon: Astronomy.Body.Moon,
+  mercury: Astronomy.Body.Mercury,
+  venus: Astronomy.Body.Venus,
+  mars: Astronomy.Body.Mars,
+  jupiter: Astronomy.Body.Jupiter,
+  saturn: Astronomy.Body.Saturn,
+  uranus: Astronomy.Body.Uranus,
+  neptune: Astronomy.Body.Neptune,
+  pluto: Astronomy.Body.Pluto,
+};
+
+export function geocentricEclipticLongitude(planet: PlanetId | OuterPlanetId, time: Date): number {
+  if (planet === 'sun') {
+    // Apparent geocentric true ecliptic coordinates of date.
+    return Astronomy.SunPosition(time).elon;
+  }
+
+  if (planet === 'moon') {
+    // Spherical ecliptic geocentric position of the Moon.
+    return Astronomy.EclipticGeoMoon(time).lon;
+  }
+
+  // Geocentric EQJ vector -> true ecliptic of date.
+  const vec = Astronomy.GeoVector(planetBodyMap[planet], time, true);
+  return Astronomy.Ecliptic(vec).elon;
+}
+
+export function isRetrograde(planet: PlanetId | OuterPlanetId, time: Date): boolean {
+  // The Sun and Moon never appear to move backwards.
+  if (planet === 'sun' || planet === 'moon') return false;
+
+  // Use a small time delta and compare geocentric longitudes.
+  // Negative delta indicates apparent retrograde motion.
+  const dtMs = 60 * 60 * 1000; // 1 hour
+  const lon1 = geocentricEclipticLongitude(planet, time);
+  const lon2 = geocentricEclipticLongitude(planet, new Date(time.getTime() + dtMs));
+  const delta = normalizeDelta180(lon2 - lon1);
+  return delta < 0;
+}
+
+// Apparent motion in longitude, in degrees per day; negative while retrograde.
+export function getDailyMotion(planet: PlanetId, time: Date): number {
+  const dtMs = 60 * 60 * 1000; // 1 hour
+  const lon1 = geocentricEclipticLongitude(planet, time);
+  const lon2 = geocentricEclipticLongitude(planet, new Date(time.getTime() + dtMs));
+  return normalizeDelta180(lon2 - lon1) * 24;
+}
+
+// Longitude and sign in the tropical zodiac unless another is chosen.
+export function calculatePlanetPosition(planet: PlanetId, time: Date, zodiac: ZodiacOptions = {}): PlanetPosition {
+  const longitude = toZodiacLongitude(geocentricEclipticLongitude(planet, time), time, zodiac);
+  const { sign, degreeInSign } = longitudeToSign(longitude);
+
+  return {
+    planet,
+    longitude,
+    sign,
+    degreeInSign,
+    isRetrograde: isRetrograde(planet, time),
+  };
+}
+
+export function calculatePlanetPositions(
+  time: Date,
+  planets: PlanetId[] = classicalPlanets,
+  zodiac: ZodiacOptions = {}
+): PlanetPosition[] {
+  return planets.map((planet) => calculatePlanetPosition(planet, time, zodiac));
+}
@@ -0,0 +1,145 @@
+import * as Astronomy from 'astronomy-engine';
+import { DateTime } from 'luxon';
+import { normalizeAngle360, normalizeDelta180, type PlanetId } from './astro';
+import { calculateChart, type Chart } from './chart';
+import type { HouseSystem } from './houses';
+import { getPlanetaryDay, type PlanetaryHourSlot, type PlanetaryHoursInput } from './planetaryHours';
+import { geocentricEclipticLongitude } from './positions';
+
+/**
+ * Solar and lunar returns: the instant the Sun (or Moon) comes back to the
+ * longitude it had at birth, with the chart cast for that instant at the place
+ * the native is. The solar return falls near the birthday each year; the lunar
+ * return about every 27.3 days, so at least once in every calendar month.
+ */
+
+export type ReturnKind = 'solar' | 'lunar';
+
+export const returnKinds: ReturnKind[] = ['solar', 'lunar'];
+
+export const returnPlanets: Record<ReturnKind, PlanetId> = {
+  solar: 'sun',
+  lunar: 'moon',
+};
+
+export type ReturnInput = {
+  kind: ReturnKind;
+  // Natal tropical longitude of the Sun or Moon
+  natalLongitude: number;
+  year: number;
+  // 1 to 12; lunar returns only, the first return in that month is found
+  month?: number;
+  // Where the return chart is cast
+  latitude: number;
+  longitude: number;
+  // IANA timezone the year and month are read in; defaults to UTC
+  timezone?: string;
+  houseSystem?: HouseSystem;
+};
+
+export type PlanetReturn = {
+  kind: ReturnKind;
+  planet: PlanetId;
+  date: Date;
+  natalLongitude: number;
+  chart: Chart;
+};
+
+export class ReturnInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReturnInputError';
+  }
+}
+
+// The Moon moves about 13 degrees a day, so daily samples never skip a return
+const LUNAR_SAMPLE_DAYS = 1;
+
+// Distance of the body past its natal longitude, in (-180, 180]
+function offsetAt(planet: PlanetId, natalLongitude: number, time: Date): number {
+  return normalizeDelta180(geocentricEclipticLongitude(planet, time) - natalLongitude);
+}
+
+function findSolarReturn(natalLongitude: number, start: DateTime): Date {
+  const time = Astronomy.SearchSunLongitude(normalizeAngle360(natalLongitude), start.toJSDate(), 366);
+  if (!time) {
+    throw new ReturnInputError('Could not find the solar return');
+  }
+  return time.date;
+}
+
+// The first time from `start` the Moon passes its natal longitude
+function findLunarReturn(natalLongitude: number, start: DateTime): Date {
+  let prev = start.toJSDate();
+  let prevOffset = offsetAt('moon', natalLongitude, prev);
+
+  for (let day = LUNAR_SAMPLE_DAYS; day <= 31; day += LUNAR_SAMPLE_DAYS) {
+    const next = start.plus({ days: day }).toJSDate();
+    const nextOffset = offsetAt('moon', natalLongitude, next);
+
+    // The Moon is never retrograde, so a return is the offset rising through zero.
+    if (prevOffset <= 0 && nextOffset > 0) {
+      const time = Astronomy.Search(
+        (t) => offsetAt('moon', natalLongitude, t.date),
+        Astronomy.MakeTime(prev),
+        Astronomy.MakeTime(next),
+        { dt_tolerance_seconds: 1 }
+      );
+      if (time) return time.date;
+    }
+
+    prev = next;
+    prevOffset = nextOffset;
+  }
+
+  throw new ReturnInputError('Could not find the lunar return');
+}
+
+export function calculateReturn(input: ReturnInput): PlanetReturn {
+  const { kind, natalLongitude, year, month, latitude, longitude, timezone = 'UTC', houseSystem } = input;
+
+  if (!Number.isInteger(year) || year < 1 || year > 9999) {
+    throw new ReturnInputError('Invalid year');
+  }
+  if (kind === 'lunar' && (month == null || !Number.isInteger(month) || month < 1 || month > 12)) {
+    throw new ReturnInputError('A lunar return needs a month from 1 to 12');
+  }
+
+  const start = DateTime.fromObject({ year, month: kind === 'lunar' ? month : 1, day: 1 }, { zone: timezone });
+  if (!start.isValid) {
+    throw new ReturnInputError('Invalid timezone');
+  }
+
+  const date = kind === 'solar' ? findSolarReturn(natalLongitude, start) : findLunarReturn(natalLongitude, start);
+
+  return {
+    kind,
+    planet: returnPlanets[kind],
+    date,
+    natalLongitude: normalizeAngle360(natalLongitude),
+    chart: calculateChart({ date, latitude, longitude, houseSystem }),
+  };
+}
+
+// How far an hour lies from an instant; zero when it contains the instant
+function distanceFrom(hour: PlanetaryHourSlot, time: number): number {
+  return Math.max(0, hour.start.getTime() - time, time - hour.end.getTime());
+}
+
+// The hour of the Sun (or Moon) nearest the return, for timing a birthday or monthly ritual.
+// Each planet rules one hour in seven, so the planetary days either side of the return are enough.
+export function findReturnHour(
+  planetReturn: Pick<PlanetReturn, 'planet' | 'date'>,
+  input: Omit<PlanetaryHoursInput, 'date'>
+): PlanetaryHourSlot {
+  const time = planetReturn.date.getTime();
+  const day = getPlanetaryDay(planetReturn.date, input);
+  const before = getPlanetaryDay(new Date(day.hours[0].start.getTime() - 1), input);
+  const after = getPlanetaryDay(day.hours[day.hours.length - 1].end, input);
+
+  const candidates = [before, day, after]
+    .flatMap((schedule) => schedule.hours)
+    .filter((hour) => hour.ruler === planetReturn.planet);
+
+  return candidates.reduce((best, hour) => (distanceFrom(hour, time) < distanceFrom(best, time) ? hour : best));
+}
@@ -0,0 +1,113 @@
+import * as Astronomy from 'astronomy-engine';
+import type { PlanetId } from './astro';
+import { resolveLocalDay } from './planetaryHours';
+import { classicalPlanets, planetBodyMap } from './positions';
+
+export type RisingsInput = {
+  // Local calendar day; a Date is read in `timezone`, a string as YYYY-MM-DD
+  date?: Date | string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  // Observer elevation in meters above the surrounding terrain; lowers the visible horizon.
+  elevation?: number;
+  // Moment the horizon state is reported for; defaults to now
+  at?: Date;
+  planets?: PlanetId[];
+};
+
+export type PlanetRisings = {
+  planet: PlanetId;
+  // Each event is null when it does not happen on the local day, e.g. a circumpolar
+  // planet never sets and the Moon skips one rising or setting about once a month.
+  rise: Date | null;
+  culmination: Date | null;
+  set: Date | null;
+  lowerCulmination: Date | null;
+  isAboveHorizon: boolean;
+  // Apparent altitude in degrees at `at`, with atmospheric refraction
+  altitude: number;
+};
+
+export type RisingsSchedule = {
+  date: string; // YYYY-MM-DD
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  at: Date;
+  planets: PlanetRisings[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function within(time: Astronomy.AstroTime | null | undefined, end: Date): Date | null {
+  return time && time.date < end ? time.date : null;
+}
+
+/**
+ * Whether the planet is up at `at`, by the same horizon as the rise and set times:
+ * the upper limb of the Sun and Moon, the center of the planets, with refraction
+ * and the dip of the horizon for the observer's elevation.
+ */
+export function getHorizonState(
+  planet: PlanetId,
+  observer: Astronomy.Observer,
+  at: Date
+): { isAboveHorizon: boolean; altitude: number } {
+  const body = planetBodyMap[planet];
+  const equator = Astronomy.Equator(body, at, observer, true, true);
+  const { altitude } = Astronomy.Horizon(at, observer, equator.ra, equator.dec, 'normal');
+
+  // The next setting comes before the next rising while the planet is up.
+  const metersAboveGround = Math.max(0, observer.height);
+  const nextRise = Astronomy.SearchRiseSet(body, observer, +1, at, 1, metersAboveGround);
+  const nextSet = Astronomy.SearchRiseSet(body, observer, -1, at, 1, metersAboveGround);
+  if (!nextRise && !nextSet) {
+    // Circumpolar or never rising for the whole day
+    return { isAboveHorizon: altitude > 0, altitude };
+  }
+  return { isAboveHorizon: !!nextSet && (!nextRise || nextSet.date < nextRise.date), altitude };
+}
+
+/**
+ * Rise, upper culmination, set and lower culmination of the Sun, Moon and planets
+ * during a local day, with whether each is above the horizon at `at`.
+ */
+export function calculateRisings(input: RisingsInput): RisingsSchedule {
+  const elevation = input.elevation ?? 0;
+  const at = input.at ?? new Date();
+  const observer = new Astronomy.Observer(input.latitude, input.longitude, elevation);
+  const metersAboveGround = Math.max(0, elevation);
+
+  const localDayStart = resolveLocalDay(input.date, input.timezone);
+  const start = localDayStart.toUTC().toJSDate();
+  const end = localDayStart.plus({ days: 1 }).toUTC().toJSDate();
+  // Days are 23 or 25 hours long when the clocks change
+  const limitDays = (end.getTime() - start.getTime()) / DAY_MS;
+
+  const planets = (input.planets ?? classicalPlanets).map((planet): PlanetRisings => {
+    const body = planetBodyMap[planet];
+    const hourAngle = (angle: number) =>
+      within(Astronomy.SearchHourAngle(body, observer, angle, start, +1).time, end);
+
+    return {
+      planet,
+      rise: within(Astronomy.SearchRiseSet(body, observer, +1, start, limitDays, metersAboveGround), end),
+      culmination: hourAngle(0),
+      set: within(Astronomy.SearchRiseSet(body, observer, -1, start, limitDays, metersAboveGround), end),
+      lowerCulmination: hourAngle(12),
+      ...getHorizonState(planet, observer, at),
+    };
+  });
+
+  return {
+    date: localDayStart.toFormat('yyyy-LL-dd'),
+    timezone: input.timezone,
+    latitude: input.latitude,
+    longitude: input.longitude,
+    elevation,
+    at,
+    planets,
+  };
+}
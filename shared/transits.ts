@@ -0,0 +1,228 @@
+import { longitudeToSign, normalizeAngle360, normalizeDelta180, type PlanetId, type ZodiacSign } from './astro';
+import {
+  aspectAngles,
+  aspectTypes,
+  getAllowedOrb,
+  resolveAspectOrbs,
+  type AspectOrbOverrides,
+  type AspectOrbs,
+  type AspectType,
+} from './aspects';
+import { classicalPlanets, geocentricEclipticLongitude } from './positions';
+
+/**
+ * Transits of the classical planets to the points of a birth chart. A transit is
+ * exact when the moving planet's distance from the natal point equals an aspect
+ * angle; it is active while within the orb of that aspect. The exact instants are
+ * searched like the astrological events: the range is sampled every few hours and
+ * each crossing is refined by bisection to within a minute.
+ */
+
+export type NatalPoint = PlanetId | 'ascendant' | 'midheaven';
+
+export const natalPoints: NatalPoint[] = [...classicalPlanets, 'ascendant', 'midheaven'];
+
+export type NatalPosition = {
+  point: NatalPoint;
+  longitude: number;
+};
+
+export type Transit = {
+  id: string;
+  // The moving planet
+  planet: PlanetId;
+  point: NatalPoint;
+  type: AspectType;
+  // Instant the aspect is exact
+  date: Date;
+  // Where the moving planet is at that instant
+  longitude: number;
+  sign: ZodiacSign;
+  isRetrograde: boolean;
+  natalLongitude: number;
+  title: string;
+};
+
+export type ActiveTransit = {
+  planet: PlanetId;
+  point: NatalPoint;
+  type: AspectType;
+  // Distance from the exact aspect angle
+  orb: number;
+  allowedOrb: number;
+  applying: boolean;
+};
+
+export type TransitOptions = {
+  // Moving planets; all seven by default
+  planets?: PlanetId[];
+  points?: NatalPoint[];
+  types?: AspectType[];
+  // Only for active transits; an exact transit needs no orb
+  orbs?: AspectOrbOverrides;
+};
+
+// Transits are usually read with tighter orbs than the aspects of a chart
+export const DEFAULT_TRANSIT_ORB = 2;
+
+// The Moon moves about 3 degrees in six hours, well short of the 60 between aspects
+const SAMPLE_STEP_MS = 6 * 60 * 60 * 1000;
+const PRECISION_MS = 60 * 1000;
+const SPEED_DELTA_MS = 60 * 60 * 1000;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const pointLabels: Record<NatalPoint, string> = {
+  sun: 'Sun',
+  moon: 'Moon',
+  mercury: 'Mercury',
+  venus: 'Venus',
+  mars: 'Mars',
+  jupiter: 'Jupiter',
+  saturn: 'Saturn',
+  ascendant: 'Ascendant',
+  midheaven: 'Midheaven',
+};
+
+function longitudeAt(planet: PlanetId, time: number): number {
+  return normalizeAngle360(geocentricEclipticLongitude(planet, new Date(time)));
+}
+
+// Apparent motion in longitude over the next hour; negative while retrograde
+function speedAt(planet: PlanetId, time: number): number {
+  return normalizeDelta180(longitudeAt(planet, time + SPEED_DELTA_MS) - longitudeAt(planet, time));
+}
+
+// The angles have no orb of their own, so the moving planet's orb applies alone
+export function getTransitOrb(type: AspectType, planet: PlanetId, point: NatalPoint, orbs: AspectOrbs): number {
+  if (point === 'ascendant' || point === 'midheaven') {
+    return Math.min(orbs.aspects[type], orbs.planets[planet]);
+  }
+  return getAllowedOrb(type, planet, point, orbs);
+}
+
+// The longitudes the moving planet must reach for each aspect to a natal point;
+// every aspect but the conjunction and opposition can be made from either side
+function aspectTargets(types: AspectType[]): { type: AspectType; angle: number }[] {
+  return types.flatMap((type) => {
+    const angle = aspectAngles[type];
+    return angle === 0 || angle === 180 ? [{ type, angle }] : [{ type, angle }, { type, angle: -angle }];
+  });
+}
+
+// Narrow down the instant where `changed(t)` flips from false to true between two samples.
+function refine(start: number, end: number, changed: (time: number) => boolean): number {
+  let lo = start;
+  let hi = end;
+  while (hi - lo > PRECISION_MS) {
+    const mid = (lo + hi) / 2;
+    if (changed(mid)) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return hi;
+}
+
+function makeTransit(planet: PlanetId, natal: NatalPosition, type: AspectType, time: number): Transit {
+  const date = new Date(time);
+  const longitude = longitudeAt(planet, time);
+
+  return {
+    id: `transit-${planet}-${type}-${natal.point}-${date.toISOString()}`,
+    planet,
+    point: natal.point,
+    type,
+    date,
+    longitude,
+    sign: longitudeToSign(longitude).sign,
+    isRetrograde: speedAt(planet, time) < 0,
+    natalLongitude: natal.longitude,
+    title: `${capitalize(planet)} ${type} natal ${pointLabels[natal.point]}`,
+  };
+}
+
+function findPlanetTransits(
+  planet: PlanetId,
+  natal: NatalPosition[],
+  types: AspectType[],
+  start: number,
+  end: number
+): Transit[] {
+  const transits: Transit[] = [];
+  const targets = natal.flatMap((position) => aspectTargets(types).map((target) => ({ position, ...target })));
+  // Signed distance past the exact aspect, in (-180, 180]
+  const offsetAt = (time: number, longitude: number, angle: number) =>
+    normalizeDelta180(longitudeAt(planet, time) - longitude - angle);
+
+  let prevTime = start;
+  let prevLongitude = longitudeAt(planet, prevTime);
+
+  while (prevTime < end) {
+    const time = Math.min(prevTime + SAMPLE_STEP_MS, end);
+    const longitude = longitudeAt(planet, time);
+
+    for (const { position, type, angle } of targets) {
+      const prevOffset = normalizeDelta180(prevLongitude - position.longitude - angle);
+      const offset = normalizeDelta180(longitude - position.longitude - angle);
+      // A flip far from zero is the offset wrapping around, not an exact aspect.
+      if (Math.sign(offset) === Math.sign(prevOffset) || Math.abs(prevOffset) > 90) continue;
+
+      const wasPositive = prevOffset > 0;
+      const at = refine(prevTime, time, (t) => (offsetAt(t, position.longitude, angle) > 0) !== wasPositive);
+      transits.push(makeTransit(planet, position, type, at));
+    }
+
+    prevTime = time;
+    prevLongitude = longitude;
+  }
+
+  return transits;
+}
+
+// Exact transits from `start` up to (excluding) `end`, in time order.
+export function findTransits(
+  start: Date,
+  end: Date,
+  natal: NatalPosition[],
+  options: TransitOptions = {}
+): Transit[] {
+  const { planets = classicalPlanets, points = natalPoints, types = aspectTypes } = options;
+  const positions = natal.filter((position) => points.includes(position.point));
+
+  return planets
+    .flatMap((planet) => findPlanetTransits(planet, positions, types, start.getTime(), end.getTime()))
+    .filter((transit) => transit.date.getTime() < end.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Transits within orb at `time`, closest to exact first.
+export function findActiveTransits(time: Date, natal: NatalPosition[], options: TransitOptions = {}): ActiveTransit[] {
+  const { planets = classicalPlanets, points = natalPoints, types = aspectTypes } = options;
+  const orbs = resolveAspectOrbs(options.orbs);
+  const active: ActiveTransit[] = [];
+
+  for (const planet of planets) {
+    const longitude = longitudeAt(planet, time.getTime());
+    const speed = speedAt(planet, time.getTime());
+
+    for (const position of natal.filter((p) => points.includes(p.point))) {
+      const delta = normalizeDelta180(longitude - position.longitude);
+      const separation = Math.abs(delta);
+
+      for (const type of types) {
+        const offset = separation - aspectAngles[type];
+        const orb = Math.abs(offset);
+        const allowedOrb = getTransitOrb(type, planet, position.point, orbs);
+        if (orb > allowedOrb) continue;
+
+        // The natal point stands still, so only the moving planet changes the separation.
+        const orbRate = Math.sign(offset) * Math.sign(delta) * speed;
+        active.push({ planet, point: position.point, type, orb, allowedOrb, applying: orbRate < 0 });
+      }
+    }
+  }
+
+  return active.sort((a, b) => a.orb - b.orb);
+}
@@ -0,0 +1,125 @@
+import { normalizeDelta180, type PlanetId, type ZodiacSign } from './astro';
+import { aspectAngles, aspectTypes, type AspectType } from './aspects';
+import { findAstroEvents } from './events';
+import { classicalPlanets, geocentricEclipticLongitude } from './positions';
+
+/**
+ * Void-of-course Moon: from the Moon's last exact Ptolemaic aspect to one of the
+ * other classical planets until it leaves its sign. A Moon that makes no aspect
+ * in a sign is void from the ingress into it.
+ */
+
+export type VoidOfCourseAspect = {
+  planet: PlanetId;
+  type: AspectType;
+  date: Date;
+};
+
+export type VoidOfCoursePeriod = {
+  start: Date;
+  // The Moon's ingress into the next sign
+  end: Date;
+  sign: ZodiacSign;
+  nextSign: ZodiacSign;
+  // Null when the Moon made no aspect in the sign
+  lastAspect: VoidOfCourseAspect | null;
+};
+
+// The search samples every Moon aspect hourly, so ranges are kept to about two months
+export const MAX_VOID_RANGE_DAYS = 62;
+
+// The Moon spends at most about 2.7 days in a sign
+const SIGN_PASSAGE_MS = 3 * 24 * 60 * 60 * 1000;
+// The Moon gains at most about 0.7 degrees an hour on any planet
+const SAMPLE_STEP_MS = 60 * 60 * 1000;
+const PRECISION_MS = 60 * 1000;
+
+const aspectedPlanets = classicalPlanets.filter((planet) => planet !== 'moon');
+
+// Each aspect on both sides of the planet; conjunction and opposition have one
+const aspectTargets = aspectTypes.flatMap((type) => {
+  const angle = aspectAngles[type];
+  return angle === 0 || angle === 180 ? [{ type, angle }] : [{ type, angle }, { type, angle: -angle }];
+});
+
+// How far the Moon is past the exact aspect, in (-180, 180]
+function pastExact(planet: PlanetId, angle: number, time: number): number {
+  const date = new Date(time);
+  const separation = geocentricEclipticLongitude('moon', date) - geocentricEclipticLongitude(planet, date);
+  return normalizeDelta180(separation - angle);
+}
+
+// Last exact aspect the Moon makes from `start` up to `end`
+function findLastAspect(start: number, end: number): VoidOfCourseAspect | null {
+  let last: VoidOfCourseAspect | null = null;
+
+  for (const planet of aspectedPlanets) {
+    for (const { type, angle } of aspectTargets) {
+      let prevTime = start;
+      let prev = pastExact(planet, angle, prevTime);
+
+      while (prevTime < end) {
+        const time = Math.min(prevTime + SAMPLE_STEP_MS, end);
+        const current = pastExact(planet, angle, time);
+
+        // The Moon always overtakes, so an aspect perfects as this turns from negative to positive
+        if (prev < 0 && current >= 0 && current - prev < 90) {
+          let lo = prevTime;
+          let hi = time;
+          while (hi - lo > PRECISION_MS) {
+            const mid = (lo + hi) / 2;
+            if (pastExact(planet, angle, mid) >= 0) {
+              hi = mid;
+            } else {
+              lo = mid;
+            }
+          }
+          if (!last || hi > last.date.getTime()) {
+            last = { planet, type, date: new Date(hi) };
+          }
+        }
+
+        prevTime = time;
+        prev = current;
+      }
+    }
+  }
+
+  return last;
+}
+
+// Void-of-course periods overlapping `start` up to (excluding) `end`, in time order.
+export function findVoidOfCoursePeriods(start: Date, end: Date): VoidOfCoursePeriod[] {
+  const ingresses = findAstroEvents(
+    new Date(start.getTime() - SIGN_PASSAGE_MS),
+    new Date(end.getTime() + SIGN_PASSAGE_MS),
+    { planets: ['moon'], types: ['ingress'] }
+  );
+
+  const periods: VoidOfCoursePeriod[] = [];
+  for (let i = 1; i < ingresses.length; i++) {
+    const entered = ingresses[i - 1];
+    const leaves = ingresses[i];
+    if (leaves.date.getTime() <= start.getTime() || entered.date.getTime() >= end.getTime()) continue;
+
+    const lastAspect = findLastAspect(entered.date.getTime(), leaves.date.getTime());
+    const periodStart = lastAspect ? lastAspect.date : entered.date;
+    if (periodStart.getTime() >= end.getTime()) continue;
+
+    periods.push({
+      start: periodStart,
+      end: leaves.date,
+      sign: entered.sign,
+      nextSign: leaves.sign,
+      lastAspect,
+    });
+  }
+
+  return periods;
+}
+
+// The void-of-course period at an instant, or null when the Moon is not void.
+export function getVoidOfCourse(time: Date): VoidOfCoursePeriod | null {
+  const periods = findVoidOfCoursePeriods(time, new Date(time.getTime() + 1));
+  return periods.find((period) => period.start <= time && time < period.end) ?? null;
+}
@@ -0,0 +1,97 @@
+import { normalizeAngle360 } from './astro';
+
+/**
+ * Tropical and sidereal zodiacs. A sidereal zodiac is the tropical one shifted back
+ * by its ayanamsa, which grows with the precession of the equinoxes from its value
+ * at J2000. Longitudes elsewhere are tropical until converted here.
+ */
+
+export const zodiacs = ['tropical', 'lahiri', 'fagan-bradley', 'raman', 'custom'] as const;
+
+export type Zodiac = (typeof zodiacs)[number];
+
+export const DEFAULT_ZODIAC: Zodiac = 'tropical';
+
+export type ZodiacOptions = {
+  zodiac?: Zodiac;
+  // Fixed ayanamsa in degrees for the custom zodiac
+  ayanamsa?: number;
+};
+
+export type ZodiacDefinition = {
+  label: string;
+  description: string;
+  // Ayanamsa at J2000 in degrees, or null when it is not fixed by the zodiac
+  ayanamsaJ2000: number | null;
+};
+
+export class ZodiacError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZodiacError';
+  }
+}
+
+const registry: Record<Zodiac, ZodiacDefinition> = {
+  tropical: {
+    label: 'Tropical',
+    description: 'Signs measured from the March equinox, as in Western astrology',
+    ayanamsaJ2000: 0,
+  },
+  lahiri: {
+    label: 'Lahiri',
+    description: 'Sidereal Chitrapaksha ayanamsa, the Indian government standard for Jyotish',
+    ayanamsaJ2000: 23.857092,
+  },
+  'fagan-bradley': {
+    label: 'Fagan-Bradley',
+    description: 'Sidereal ayanamsa of Western siderealists, placing Aldebaran at 15° Taurus',
+    ayanamsaJ2000: 24.7403,
+  },
+  raman: {
+    label: 'Raman',
+    description: "Sidereal ayanamsa from B. V. Raman's Jyotish texts",
+    ayanamsaJ2000: 22.410791,
+  },
+  custom: {
+    label: 'Custom',
+    description: 'Sidereal signs with a fixed ayanamsa of your choice',
+    ayanamsaJ2000: null,
+  },
+};
+
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const MS_PER_CENTURY = 36525 * 24 * 60 * 60 * 1000;
+
+export function isZodiac(value: string): value is Zodiac {
+  return (zodiacs as readonly string[]).includes(value);
+}
+
+export function getZodiac(zodiac: Zodiac): ZodiacDefinition {
+  return registry[zodiac];
+}
+
+// General precession in longitude since J2000 (IAU 2006), in degrees
+function precessionSinceJ2000(time: Date): number {
+  const t = (time.getTime() - J2000_MS) / MS_PER_CENTURY;
+  return (5028.796195 * t + 1.1054348 * t * t) / 3600;
+}
+
+// Degrees to subtract from a tropical longitude; 0 for the tropical zodiac
+export function getAyanamsa(time: Date, options: ZodiacOptions = {}): number {
+  const zodiac = options.zodiac ?? DEFAULT_ZODIAC;
+  if (zodiac === 'tropical') return 0;
+
+  const { ayanamsaJ2000 } = registry[zodiac];
+  if (ayanamsaJ2000 == null) {
+    if (options.ayanamsa == null || !Number.isFinite(options.ayanamsa)) {
+      throw new ZodiacError('The custom zodiac needs an ayanamsa in degrees');
+    }
+    return options.ayanamsa;
+  }
+  return ayanamsaJ2000 + precessionSinceJ2000(time);
+}
+
+export function toZodiacLongitude(tropicalLongitude: number, time: Date, options: ZodiacOptions = {}): number {
+  return normalizeAngle360(tropicalLongitude - getAyanamsa(time, options));
+}
@@ -0,0 +1,166 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { deleteHoraryChart, getHoraryCharts, saveHoraryChart, supabase } from '../services/supabase';
+import { storeEvents } from './events';
+import { generateUUID } from '../utils/uuid';
+import type { HorarySnapshot, NewHorarySnapshot } from '../types';
+import type { HoraryChartInsert, HoraryChartRow } from '../app/types/database';
+
+interface HoraryState {
+  snapshots: HorarySnapshot[];
+  isLoading: boolean;
+  error: string | null;
+
+  fetchSnapshots: () => Promise<void>;
+  saveSnapshot: (snapshot: NewHorarySnapshot) => Promise<HorarySnapshot | null>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  clearError: () => void;
+}
+
+const rowToSnapshot = (row: HoraryChartRow): HorarySnapshot => ({
+  id: row.id,
+  userId: row.user_id,
+  question: row.question || '',
+  castAt: row.cast_at,
+  latitude: row.latitude,
+  longitude: row.longitude,
+  timezone: row.timezone,
+  locationName: row.location_name || '',
+  houseSystem: row.house_system,
+  hourOptions: row.hour_options,
+  createdAt: row.created_at
+});
+
+const snapshotToRow = (snapshot: NewHorarySnapshot, userId: string): HoraryChartInsert => ({
+  user_id: userId,
+  question: snapshot.question || null,
+  cast_at: snapshot.castAt,
+  latitude: snapshot.latitude,
+  longitude: snapshot.longitude,
+  timezone: snapshot.timezone,
+  location_name: snapshot.locationName || null,
+  house_system: snapshot.houseSystem,
+  hour_options: snapshot.hourOptions
+});
+
+// Most recently cast first
+const byCastAt = (a: HorarySnapshot, b: HorarySnapshot) => b.castAt.localeCompare(a.castAt);
+
+// Charts saved while signed out are local until uploaded; ids of those on their way up
+const uploading = new Set<string>();
+
+export const useHoraryStore = create<HoraryState>()(
+  persist(
+    (set, get) => {
+      // Subscribe to auth events
+      storeEvents.on('auth:initialized', () => get().fetchSnapshots());
+      storeEvents.on('auth:login', () => get().fetchSnapshots());
+      storeEvents.on('auth:logout', () => set({ snapshots: [] }));
+
+      // Upload the charts saved on this device before signing in, swapping each for its server row
+      const uploadLocalSnapshots = async (userId: string) => {
+        const local = get().snapshots.filter(snapshot => !snapshot.userId && !uploading.has(snapshot.id));
+        let failed = 0;
+
+        for (const snapshot of local) {
+          uploading.add(snapshot.id);
+          try {
+            const { data, error } = await saveHoraryChart(snapshotToRow(snapshot, userId));
+            if (error) throw error;
+
+            const saved = rowToSnapshot(data);
+            set({ snapshots: get().snapshots.map(existing => existing.id === snapshot.id ? saved : existing) });
+          } catch (error) {
+            console.error('Error uploading horary chart:', error);
+            failed++;
+          } finally {
+            uploading.delete(snapshot.id);
+          }
+        }
+
+        return failed;
+      };
+
+      return {
+        snapshots: [],
+        isLoading: false,
+        error: null,
+
+        fetchSnapshots: async () => {
+          const { data: { user } } = await supabase.auth.getUser();
+          // Signed-out users keep their charts on the device
+          if (!user) return;
+
+          set({ isLoading: true, error: null });
+          try {
+            const failed = await uploadLocalSnapshots(user.id);
+
+            const { data, error } = await getHoraryCharts(user.id);
+            if (error) throw error;
+
+            // Charts that could not be uploaded stay on the device, to try again next time
+            const local = get().snapshots.filter(snapshot => !snapshot.userId);
+            set({ snapshots: [...(data || []).map(rowToSnapshot), ...local].sort(byCastAt) });
+            if (failed > 0) {
+              set({ error: 'Some horary charts saved on this device could not be uploaded' });
+            }
+          } catch (error: any) {
+            console.error('Error in fetchSnapshots:', error);
+            set({ error: error.message || 'Failed to fetch your horary charts' });
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        saveSnapshot: async (snapshot) => {
+          set({ isLoading: true, error: null });
+          try {
+            const { data: { user } } = await supabase.auth.getUser();
+            let saved: HorarySnapshot;
+
+            if (user) {
+              const { data, error } = await saveHoraryChart(snapshotToRow(snapshot, user.id));
+              if (error) throw error;
+              saved = rowToSnapshot(data);
+            } else {
+              saved = { ...snapshot, id: generateUUID(), createdAt: new Date().toISOString() };
+            }
+
+            set({ snapshots: [saved, ...get().snapshots].sort(byCastAt) });
+            return saved;
+          } catch (error: any) {
+            console.error('Error in saveSnapshot:', error);
+            set({ error: error.message || 'Failed to save the horary chart' });
+            return null;
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        deleteSnapshot: async (id) => {
+          set({ error: null });
+          try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (user) {
+              const { error } = await deleteHoraryChart(id);
+              if (error) throw error;
+            }
+
+            set({ snapshots: get().snapshots.filter(snapshot => snapshot.id !== id) });
+          } catch (error: any) {
+            console.error('Error in deleteSnapshot:', error);
+            set({ error: error.message || 'Failed to delete the horary chart' });
+          }
+        },
+
+        clearError: () => set({ error: null })
+      };
+    },
+    {
+      name: 'horary-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ snapshots: state.snapshots })
+    }
+  )
+);
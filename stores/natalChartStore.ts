@@ -0,0 +1,132 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getNatalChart, saveNatalChart, supabase } from '../services/supabase';
+import { storeEvents } from './events';
+import { calculateNatalChart, type BirthDetails } from '../utils/natalChart';
+import type { AstrologicalChart } from '../types';
+import type { NatalChartInsert, NatalChartRow } from '../app/types/database';
+
+interface NatalChartState {
+  chart: AstrologicalChart | null;
+  isLoading: boolean;
+  error: string | null;
+
+  fetchChart: () => Promise<void>;
+  saveChart: (details: BirthDetails) => Promise<void>;
+  clearError: () => void;
+}
+
+const rowToChart = (row: NatalChartRow): AstrologicalChart => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  birthDate: row.birth_date,
+  // Postgres returns times as HH:mm:ss
+  birthTime: row.birth_time.slice(0, 5),
+  birthLocation: row.birth_location || '',
+  latitude: row.latitude,
+  longitude: row.longitude,
+  timezone: row.timezone,
+  houseSystem: row.house_system,
+  ascendant: row.ascendant,
+  midheaven: row.midheaven,
+  positions: row.positions,
+  houses: row.houses,
+  aspects: row.aspects,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const chartToRow = (chart: AstrologicalChart, userId: string): NatalChartInsert => ({
+  user_id: userId,
+  name: chart.name,
+  birth_date: chart.birthDate,
+  birth_time: chart.birthTime,
+  birth_location: chart.birthLocation || null,
+  latitude: chart.latitude,
+  longitude: chart.longitude,
+  timezone: chart.timezone,
+  house_system: chart.houseSystem,
+  ascendant: chart.ascendant,
+  midheaven: chart.midheaven,
+  positions: chart.positions,
+  houses: chart.houses,
+  aspects: chart.aspects
+});
+
+export const useNatalChartStore = create<NatalChartState>()(
+  persist(
+    (set, get) => {
+      // Subscribe to auth events
+      storeEvents.on('auth:initialized', () => get().fetchChart());
+      storeEvents.on('auth:login', () => get().fetchChart());
+      storeEvents.on('auth:logout', () => set({ chart: null }));
+
+      return {
+        chart: null,
+        isLoading: false,
+        error: null,
+
+        fetchChart: async () => {
+          const { data: { user } } = await supabase.auth.getUser();
+          // Signed-out users keep the chart stored on the device
+          if (!user) return;
+
+          set({ isLoading: true, error: null });
+          try {
+            // A chart saved while signed out is the latest one entered, so upload it first
+            const local = get().chart;
+            if (local && !local.userId) {
+              const { data, error } = await saveNatalChart(chartToRow(local, user.id));
+              if (error) throw error;
+              set({ chart: rowToChart(data) });
+              return;
+            }
+
+            const { data, error } = await getNatalChart(user.id);
+            if (error) throw error;
+
+            if (data) {
+              set({ chart: rowToChart(data) });
+            }
+          } catch (error: any) {
+            console.error('Error in fetchChart:', error);
+            set({ error: error.message || 'Failed to fetch your birth chart' });
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        saveChart: async (details) => {
+          set({ isLoading: true, error: null });
+          try {
+            const { data: { user } } = await supabase.auth.getUser();
+            const existing = get().chart;
+            const chart = calculateNatalChart(details, existing ? { ...existing, userId: user?.id || existing.userId } : undefined);
+
+            if (user) {
+              const { data, error } = await saveNatalChart(chartToRow(chart, user.id));
+              if (error) throw error;
+              set({ chart: data ? rowToChart(data) : chart });
+            } else {
+              set({ chart });
+            }
+          } catch (error: any) {
+            console.error('Error in saveChart:', error);
+            set({ error: error.message || 'Failed to save your birth chart' });
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
+        clearError: () => set({ error: null })
+      };
+    },
+    {
+      name: 'natal-chart-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ chart: state.chart })
+    }
+  )
+);
@@ -2,9 +2,9 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { PlanetDay, PlanetaryHour, PlanetaryPosition as TypesPlanetaryPosition } from '../types';
-import { getPlanetaryDayRuler } from '../utils/planetaryHours';
-import { calculatePlanetaryHours } from '../app/services/planetaryHours';
+import { getPlanetaryDay, toPlanetaryHours } from '../utils/planetaryHours';
 import { getCurrentPlanetaryPositions } from '../app/services/astrology';
+import { useSettingsStore, getPlanetaryHoursOptions, getZodiacOptions } from './settingsStore';
 
 // Define PlanetaryPosition interface for internal use
 interface PlanetaryPosition extends TypesPlanetaryPosition {
@@ -44,22 +44,18 @@ export const usePlanetaryStore = create<PlanetaryState>()(
         set({ isLoading: true, error: null });
         
         try {
-          // Get the current day's planetary ruler
-          const dayRuler = getPlanetaryDayRuler();
-          
-          // Get timezone from system
-          const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+          const now = new Date();
           
-          // Calculate planetary hours using the accurate implementation
-          const hours = await calculatePlanetaryHours(
-            latitude || 0, 
-            longitude || 0, 
-            new Date(), 
-            timezone
+          // Calculate the current planetary day (sunrise to sunrise) with the shared hours engine
+          const planetaryDay = getPlanetaryDay(
+            now,
+            { latitude: latitude || 0, longitude: longitude || 0 },
+            getPlanetaryHoursOptions(useSettingsStore.getState().settings)
           );
+          const dayRuler = planetaryDay.dayRuler;
+          const hours = toPlanetaryHours(planetaryDay);
           
           // Find the current hour
-          const now = new Date();
           const currentHour = hours.find(hour => 
             now >= hour.startTime && now < hour.endTime
           ) || null;
@@ -148,14 +144,15 @@ export const usePlanetaryStore = create<PlanetaryState>()(
         set({ isLoading: true, error: null });
         
         try {
-          // Fetch planetary positions from the astrology service
-          const positions = await getCurrentPlanetaryPositions();
+          // Calculate planetary positions on the device with the astrology service, in the user's zodiac
+          const positions = await getCurrentPlanetaryPositions(getZodiacOptions(useSettingsStore.getState().settings));
           
           // Map the positions to the format expected by the store
           const planetPositions: PlanetaryPosition[] = positions.map(pos => ({
             planet: pos.planet,
             sign: pos.sign,
             degree: pos.degree,
+            longitude: pos.longitude,
             isRetrograde: pos.isRetrograde
           }));
           
@@ -176,10 +173,17 @@ export const usePlanetaryStore = create<PlanetaryState>()(
     {
       name: 'planetary-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: 1,
+      // Version 0 persisted positions, which could be mock data from the old API fallback
+      migrate: (persistedState) => {
+        const state = { ...(persistedState as Partial<PlanetaryState>) };
+        delete state.planetPositions;
+        return state as PlanetaryState;
+      },
       partialize: (state) => ({
         currentDayRuler: state.currentDayRuler,
         lastUpdated: state.lastUpdated,
-        planetPositions: state.planetPositions,
+        // Positions are not persisted: they are cheap to recalculate and go stale quickly
       }),
     }
   )
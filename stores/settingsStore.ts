@@ -3,6 +3,11 @@ import { getUserSettings, updateUserSettings, getDefaultSettings as getDbDefault
 import { storeEvents } from './events';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getReminderSettings, updateReminderSettings } from '../services/reminderService';
+import { DEFAULT_SUNRISE_DEFINITION, type PlanetaryHoursOptions } from '../shared/planetaryHours';
+import { DEFAULT_HOUR_SYSTEM } from '../shared/hourSystems';
+import { DEFAULT_ZODIAC, type ZodiacOptions } from '../shared/zodiac';
+import { aspectTypes } from '../shared/aspects';
+import { DEFAULT_TRANSIT_ORB, type TransitOptions } from '../shared/transits';
 
 // Import Settings type from database.ts
 import type { Settings as DatabaseSettings } from '../app/types/database';
@@ -26,6 +31,26 @@ interface SettingsState {
 }
 
 
+// Planetary hours calculation options taken from the user's settings
+export const getPlanetaryHoursOptions = (settings: Settings | null): PlanetaryHoursOptions => ({
+  sunriseDefinition: settings?.sunrise_definition ?? DEFAULT_SUNRISE_DEFINITION,
+  elevation: settings?.elevation ?? 0,
+  hourSystem: settings?.hour_system ?? DEFAULT_HOUR_SYSTEM
+});
+
+// Zodiac for signs and dignities taken from the user's settings
+export const getZodiacOptions = (settings: Settings | null): ZodiacOptions => ({
+  zodiac: settings?.zodiac ?? DEFAULT_ZODIAC,
+  ayanamsa: settings?.custom_ayanamsa ?? 0
+});
+
+// Transit orbs taken from the user's settings; one orb for every aspect
+export const getTransitOptions = (settings: Settings | null): TransitOptions => {
+  const orb = settings?.transit_orb ?? DEFAULT_TRANSIT_ORB;
+  return {
+    orbs: { aspects: Object.fromEntries(aspectTypes.map(type => [type, orb])) }
+  };
+};
 
 export const useSettingsStore = create<SettingsState>((set, get) => {
   // Create a local getDefaultSettings function that includes reminder settings
@@ -72,6 +72,15 @@ create table if not exists public.settings (
     units text default 'metric',
     theme text default 'dark',
     font_size text default 'medium',
+    sunrise_definition text default 'upper-limb',
+    elevation double precision default 0,
+    hour_system text default 'traditional',
+    zodiac text default 'tropical',
+    custom_ayanamsa double precision default 0,
+    avoid_eclipses boolean default false,
+    transit_notifications boolean default false,
+    transit_orb double precision default 2,
+    transit_lead_hours integer default 24,
     created_at timestamp with time zone default timezone('utc'::text, now()) not null,
     updated_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
@@ -93,6 +102,81 @@ create policy "Users can update their own settings"
     using (auth.uid() = user_id)
     with check (auth.uid() = user_id);
 
+-- Natal charts table: one birth chart per user, calculated on the device
+create table if not exists public.natal_charts (
+    id uuid default uuid_generate_v4() primary key,
+    user_id uuid references auth.users on delete cascade not null unique,
+    name text not null,
+    birth_date date not null,
+    birth_time time not null,
+    birth_location text,
+    latitude double precision not null,
+    longitude double precision not null,
+    timezone text not null,
+    house_system text default 'placidus' not null,
+    ascendant double precision not null,
+    midheaven double precision not null,
+    positions jsonb not null,
+    houses jsonb not null,
+    aspects jsonb not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Enable RLS on natal_charts
+alter table public.natal_charts enable row level security;
+
+-- Natal charts policies
+create policy "Users can view their own natal chart"
+    on public.natal_charts for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own natal chart"
+    on public.natal_charts for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own natal chart"
+    on public.natal_charts for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create policy "Users can delete their own natal chart"
+    on public.natal_charts for delete
+    using (auth.uid() = user_id);
+
+-- Horary charts table: questions asked of the moment, cast again from their time and place
+create table if not exists public.horary_charts (
+    id uuid default uuid_generate_v4() primary key,
+    user_id uuid references auth.users on delete cascade not null,
+    question text,
+    cast_at timestamp with time zone not null,
+    latitude double precision not null,
+    longitude double precision not null,
+    timezone text not null,
+    location_name text,
+    house_system text default 'placidus' not null,
+    hour_options jsonb default '{}'::jsonb not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists horary_charts_user_id_cast_at_idx on public.horary_charts (user_id, cast_at desc);
+
+-- Enable RLS on horary_charts
+alter table public.horary_charts enable row level security;
+
+-- Horary charts policies
+create policy "Users can view their own horary charts"
+    on public.horary_charts for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own horary charts"
+    on public.horary_charts for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can delete their own horary charts"
+    on public.horary_charts for delete
+    using (auth.uid() = user_id);
+
 -- Create function to handle user creation
 create or replace function public.handle_new_user()
 returns trigger as $$
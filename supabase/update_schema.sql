@@ -37,4 +37,104 @@ $$ language plpgsql security definer;
 drop trigger if exists on_auth_user_created on auth.users;
 create trigger on_auth_user_created
     after insert on auth.users
-    for each row execute procedure public.handle_new_user();
\ No newline at end of file
+    for each row execute procedure public.handle_new_user();
+-- Planetary hours calculation options
+alter table public.settings add column if not exists sunrise_definition text default 'upper-limb';
+alter table public.settings add column if not exists elevation double precision default 0;
+alter table public.settings add column if not exists hour_system text default 'traditional';
+
+-- Zodiac for planet signs and dignities
+alter table public.settings add column if not exists zodiac text default 'tropical';
+alter table public.settings add column if not exists custom_ayanamsa double precision default 0;
+
+-- Skip eclipses in the election search and reminders
+alter table public.settings add column if not exists avoid_eclipses boolean default false;
+
+-- Notifications of transits to the natal chart
+alter table public.settings add column if not exists transit_notifications boolean default false;
+alter table public.settings add column if not exists transit_orb double precision default 2;
+alter table public.settings add column if not exists transit_lead_hours integer default 24;
+
+-- Natal charts table: one birth chart per user, calculated on the device
+create table if not exists public.natal_charts (
+    id uuid default uuid_generate_v4() primary key,
+    user_id uuid references auth.users on delete cascade not null unique,
+    name text not null,
+    birth_date date not null,
+    birth_time time not null,
+    birth_location text,
+    latitude double precision not null,
+    longitude double precision not null,
+    timezone text not null,
+    house_system text default 'placidus' not null,
+    ascendant double precision not null,
+    midheaven double precision not null,
+    positions jsonb not null,
+    houses jsonb not null,
+    aspects jsonb not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Enable RLS on natal_charts
+alter table public.natal_charts enable row level security;
+
+-- Natal charts policies
+drop policy if exists "Users can view their own natal chart" on public.natal_charts;
+drop policy if exists "Users can insert their own natal chart" on public.natal_charts;
+drop policy if exists "Users can update their own natal chart" on public.natal_charts;
+drop policy if exists "Users can delete their own natal chart" on public.natal_charts;
+
+create policy "Users can view their own natal chart"
+    on public.natal_charts for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own natal chart"
+    on public.natal_charts for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own natal chart"
+    on public.natal_charts for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+create policy "Users can delete their own natal chart"
+    on public.natal_charts for delete
+    using (auth.uid() = user_id);
+
+-- Horary charts table: questions asked of the moment, cast again from their time and place
+create table if not exists public.horary_charts (
+    id uuid default uuid_generate_v4() primary key,
+    user_id uuid references auth.users on delete cascade not null,
+    question text,
+    cast_at timestamp with time zone not null,
+    latitude double precision not null,
+    longitude double precision not null,
+    timezone text not null,
+    location_name text,
+    house_system text default 'placidus' not null,
+    hour_options jsonb default '{}'::jsonb not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists horary_charts_user_id_cast_at_idx on public.horary_charts (user_id, cast_at desc);
+
+-- Enable RLS on horary_charts
+alter table public.horary_charts enable row level security;
+
+-- Horary charts policies
+drop policy if exists "Users can view their own horary charts" on public.horary_charts;
+drop policy if exists "Users can insert their own horary charts" on public.horary_charts;
+drop policy if exists "Users can delete their own horary charts" on public.horary_charts;
+
+create policy "Users can view their own horary charts"
+    on public.horary_charts for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own horary charts"
+    on public.horary_charts for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can delete their own horary charts"
+    on public.horary_charts for delete
+    using (auth.uid() = user_id);
@@ -4,7 +4,7 @@ select
     string_agg(column_name || ' (' || data_type || ')', ', ') as columns
 from information_schema.columns
 where table_schema = 'public'
-    and table_name in ('profiles', 'ritual_logs', 'settings')
+    and table_name in ('profiles', 'ritual_logs', 'settings', 'natal_charts', 'horary_charts')
 group by table_name;
 
 -- Verify RLS is enabled
@@ -13,7 +13,7 @@ select
     rowsecurity
 from pg_tables
 where schemaname = 'public'
-    and tablename in ('profiles', 'ritual_logs', 'settings');
+    and tablename in ('profiles', 'ritual_logs', 'settings', 'natal_charts', 'horary_charts');
 
 -- Verify policies
 select 
@@ -47,7 +47,7 @@ select
     indexdef
 from pg_indexes
 where schemaname = 'public'
-    and tablename in ('profiles', 'ritual_logs', 'settings');
+    and tablename in ('profiles', 'ritual_logs', 'settings', 'natal_charts', 'horary_charts');
 
 -- Test trigger function with mock user (will rollback)
 begin;
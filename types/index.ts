@@ -1,3 +1,7 @@
+import type { HouseSystem } from '../shared/houses';
+import type { ExtraBodyId } from '../shared/bodies';
+import type { PlanetaryHoursOptions } from '../shared/planetaryHours';
+
 // User types
 export interface User {
   id: string;
@@ -83,11 +87,17 @@ export interface PlanetaryHour {
 export interface PlanetaryPosition {
   planet: PlanetDay;
   sign: string;
-  degree: number;
+  degree: number; // Degree within the sign, 0-30
+  longitude?: number; // Geocentric ecliptic longitude, 0-360
   isRetrograde: boolean;
   house?: number;
 }
 
+// Position of a chart body outside the seven planets, e.g. a lunar node
+export interface BodyPlacement extends Omit<PlanetaryPosition, 'planet'> {
+  planet: ExtraBodyId;
+}
+
 // Ritual types
 export interface Ritual {
   id: string;
@@ -202,6 +212,12 @@ export interface AstrologicalChart {
   birthDate: string;
   birthTime: string;
   birthLocation: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  houseSystem: HouseSystem;
+  ascendant: number; // Ecliptic longitude, 0-360
+  midheaven: number; // Ecliptic longitude, 0-360
   positions: PlanetaryPosition[];
   houses: House[];
   aspects: Aspect[];
@@ -209,6 +225,24 @@ export interface AstrologicalChart {
   updatedAt: string;
 }
 
+// A horary question saved for review; the chart is cast again from its moment and place
+export interface HorarySnapshot {
+  id: string;
+  userId?: string;
+  question: string;
+  castAt: string; // UTC ISO instant
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  locationName: string;
+  houseSystem: HouseSystem;
+  hourOptions: PlanetaryHoursOptions;
+  createdAt: string;
+}
+
+// A horary chart cast but not yet saved
+export type NewHorarySnapshot = Omit<HorarySnapshot, 'id' | 'userId' | 'createdAt'>;
+
 export interface House {
   number: number;
   sign: string;
@@ -222,6 +256,8 @@ export interface Aspect {
   type: 'conjunction' | 'opposition' | 'trine' | 'square' | 'sextile';
   orb: number;
   applying: boolean;
+  // Within a degree of exact
+  exact?: boolean;
 }
 
 // Tarot types
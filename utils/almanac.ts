@@ -0,0 +1,33 @@
+import type { PlanetaryHoursOptions } from '../shared/planetaryHours';
+import { almanacToCsv, almanacToJson, generateAlmanac, type Almanac } from '../shared/almanac';
+
+export type AlmanacFormat = 'csv' | 'json';
+
+export const almanacFormats: AlmanacFormat[] = ['csv', 'json'];
+
+export interface AlmanacLocation {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+}
+
+// The almanac for the local month containing `date`
+export const getMonthAlmanac = (
+  date: Date,
+  location: AlmanacLocation,
+  options: PlanetaryHoursOptions = {}
+): Almanac => {
+  return generateAlmanac({
+    ...options,
+    ...location,
+    year: date.getFullYear(),
+    month: date.getMonth() + 1
+  });
+};
+
+export const formatAlmanac = (almanac: Almanac, format: AlmanacFormat): string =>
+  format === 'csv' ? almanacToCsv(almanac) : JSON.stringify(almanacToJson(almanac), null, 2);
+
+// e.g. "almanac-2025-06.csv"
+export const getAlmanacFileName = (almanac: Almanac, format: AlmanacFormat): string =>
+  `almanac-${almanac.month}.${format}`;
@@ -0,0 +1,33 @@
+import type { Aspect } from '../types';
+import { findAspects, type AspectType, type PlanetAspect } from '../shared/aspects';
+
+const aspectSymbols: Record<AspectType, string> = {
+  conjunction: '☌',
+  sextile: '⚹',
+  square: '□',
+  trine: '△',
+  opposition: '☍'
+};
+
+export const toAspect = ({ planet1, planet2, type, orb, applying, exact }: PlanetAspect): Aspect => ({
+  planet1,
+  planet2,
+  type,
+  orb,
+  applying,
+  exact
+});
+
+// Get the aspects between the classical planets at a given time, closest to exact first
+export const getAspects = (date: Date = new Date()): Aspect[] => {
+  return findAspects(date).map(toAspect);
+};
+
+// The aspects worth acting on now: those exact or still building
+export const getActiveAspects = (date: Date = new Date()): Aspect[] => {
+  return getAspects(date).filter(aspect => aspect.exact || aspect.applying);
+};
+
+export const getAspectSymbol = (type: Aspect['type']): string => {
+  return aspectSymbols[type];
+};
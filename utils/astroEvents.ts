@@ -0,0 +1,87 @@
+import type { AstrologicalEvent } from '../types';
+import { findAstroEvents, type AstroEvent, type AstroEventType } from '../shared/events';
+import { findEclipses, type Eclipse, type EclipseSearchOptions } from '../shared/eclipses';
+import { describeEclipse, describeEclipseVisibility, getEclipseTitle } from './eclipses';
+
+const eventGuidance: Record<AstroEventType, { impact: string; advice: string }> = {
+  ingress: {
+    impact: 'The planet takes on the qualities of its new sign.',
+    advice: 'Notice how the planet’s themes shift in tone over the coming days.'
+  },
+  retrograde: {
+    impact: 'The planet’s themes turn inward and call for review.',
+    advice: 'Revisit and refine rather than begin new workings with this planet.'
+  },
+  direct: {
+    impact: 'The planet’s themes move forward again after a period of review.',
+    advice: 'Act on what the retrograde period brought to light.'
+  },
+  conjunction: {
+    impact: 'The planet’s influence merges with the Sun, a time of new beginnings.',
+    advice: 'Set intentions for the cycle that starts now.'
+  },
+  opposition: {
+    impact: 'The planet stands opposite the Sun, at the peak of its visibility.',
+    advice: 'A time for culmination, awareness and balance.'
+  }
+};
+
+const toAstrologicalEvent = (event: AstroEvent): AstrologicalEvent => ({
+  id: event.id,
+  type: event.type,
+  title: event.title,
+  description: event.description,
+  startDate: event.date.toISOString(),
+  planets: event.type === 'conjunction' || event.type === 'opposition' ? [event.planet, 'sun'] : [event.planet],
+  zodiacSigns: [event.sign],
+  ...eventGuidance[event.type]
+});
+
+const eclipseGuidance = {
+  impact: 'The lights are darkened and the ordinary currents of the heavens are disturbed.',
+  advice: 'Many traditions suspend planetary work from the first to the last contact; observe rather than act.'
+};
+
+const toEclipseEvent = (eclipse: Eclipse): AstrologicalEvent => ({
+  id: eclipse.id,
+  type: 'eclipse',
+  title: getEclipseTitle(eclipse),
+  description: [describeEclipse(eclipse), describeEclipseVisibility(eclipse)].filter(Boolean).join(' '),
+  startDate: eclipse.peak.toISOString(),
+  endDate: eclipse.end.toISOString(),
+  planets: ['sun', 'moon'],
+  zodiacSigns: [eclipse.sign],
+  ...eclipseGuidance
+});
+
+// Get the ingresses, stations, Sun conjunctions and oppositions and eclipses between two times;
+// eclipses carry their local visibility when the options give a location
+export const getAstrologicalEvents = (start: Date, end: Date, eclipseOptions: EclipseSearchOptions = {}): AstrologicalEvent[] => {
+  return [
+    ...findAstroEvents(start, end).map(toAstrologicalEvent),
+    ...findEclipses(start, end, eclipseOptions).map(toEclipseEvent)
+  ].sort((a, b) => Date.parse(a.startDate) - Date.parse(b.startDate));
+};
+
+// Local calendar date key (YYYY-MM-DD), for grouping events by day
+export const toLocalDateKey = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const groupEventsByDate = (events: AstrologicalEvent[]): Record<string, AstrologicalEvent[]> => {
+  const byDate: Record<string, AstrologicalEvent[]> = {};
+  for (const event of events) {
+    const key = toLocalDateKey(new Date(event.startDate));
+    (byDate[key] = byDate[key] || []).push(event);
+  }
+  return byDate;
+};
+
+export const eventTypeColors: Record<AstrologicalEvent['type'], string> = {
+  ingress: '#2196F3',
+  retrograde: '#F44336',
+  direct: '#4CAF50',
+  eclipse: '#212121',
+  conjunction: '#FF9800',
+  opposition: '#9C27B0'
+};
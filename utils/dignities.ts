@@ -0,0 +1,100 @@
+import type { PlanetaryPosition } from '../types';
+import { dignities } from '../constants/dignities';
+import { zodiacSigns } from '../shared/astro';
+import { calculateChartAngles, HouseSystemError } from '../shared/houses';
+import { calculateConditions, type PlanetConditions } from '../shared/conditions';
+import {
+  getEssentialDignities,
+  isDayChart,
+  type DignityKind,
+  type DignityOptions,
+  type DignityReport
+} from '../shared/dignities';
+import { toZodiacLongitude, type ZodiacOptions } from '../shared/zodiac';
+
+export interface ConditionBadge {
+  label: string;
+  tone: 'good' | 'bad' | 'neutral';
+}
+
+export interface DignityContext {
+  date?: Date;
+  // Without a place the sect of the chart is unknown
+  location?: { latitude: number; longitude: number } | null;
+  // Positions at the same time, to find the Sun
+  positions?: PlanetaryPosition[];
+  terms?: DignityOptions['terms'];
+  // Zodiac the positions are in; tropical by default
+  zodiac?: ZodiacOptions;
+}
+
+export const getPositionLongitude = (position: PlanetaryPosition): number =>
+  position.longitude ?? zodiacSigns.indexOf(position.sign as (typeof zodiacSigns)[number]) * 30 + position.degree;
+
+// Whether the Sun is above the horizon at a place, or undefined without one
+export const getSect = (
+  date: Date,
+  location: DignityContext['location'],
+  positions: PlanetaryPosition[],
+  zodiac: ZodiacOptions = {}
+): boolean | undefined => {
+  const sun = positions.find(position => position.planet === 'sun');
+  if (!location || !sun) return undefined;
+
+  // The Ascendant is tropical; compare it with the Sun in the same zodiac
+  const { ascendant } = calculateChartAngles(date, location.latitude, location.longitude);
+  return isDayChart(getPositionLongitude(sun), toZodiacLongitude(ascendant, date, zodiac));
+};
+
+// Essential dignities and score of a planet at its current position
+export const getDignityReport = (position: PlanetaryPosition, context: DignityContext = {}): DignityReport => {
+  const { date = new Date(), location, positions = [], terms, zodiac } = context;
+
+  return getEssentialDignities(position.planet, getPositionLongitude(position), {
+    isDayChart: getSect(date, location, positions, zodiac),
+    terms
+  });
+};
+
+// The strongest dignity, for badges; peregrine when the planet has none
+export const getPrimaryDignity = (report: DignityReport): DignityKind =>
+  report.dignities[0] ?? report.factors[0].dignity;
+
+export const getDignityColor = (dignity: DignityKind | string | null): string =>
+  (dignity && dignities[dignity.toLowerCase()]?.color) || dignities.peregrine.color;
+
+export const formatDignityScore = (score: number): string => (score > 0 ? `+${score}` : `${score}`);
+
+// Accidental conditions of the planets; angularity only when the place is known
+export const getPlanetConditions = (
+  date: Date = new Date(),
+  location?: DignityContext['location']
+): PlanetConditions[] => {
+  if (location) {
+    try {
+      return calculateConditions(date, undefined, location);
+    } catch (error) {
+      // Placidus has no houses inside the polar circles
+      if (!(error instanceof HouseSystemError)) throw error;
+    }
+  }
+  return calculateConditions(date);
+};
+
+export const getConditionBadges = (conditions: PlanetConditions): ConditionBadge[] => {
+  const badges: ConditionBadge[] = [];
+
+  if (conditions.solarPhase === 'cazimi') badges.push({ label: 'Cazimi', tone: 'good' });
+  if (conditions.solarPhase === 'combust') badges.push({ label: 'Combust', tone: 'bad' });
+  if (conditions.solarPhase === 'under the beams') badges.push({ label: 'Under the beams', tone: 'bad' });
+  if (conditions.isStationary) badges.push({ label: 'Stationary', tone: 'neutral' });
+  if (conditions.isRetrograde) badges.push({ label: 'Retrograde', tone: 'bad' });
+  badges.push(conditions.isFast ? { label: 'Fast', tone: 'good' } : { label: 'Slow', tone: 'bad' });
+  if (conditions.orientation === 'oriental') badges.push({ label: 'Oriental', tone: 'neutral' });
+  if (conditions.orientation === 'occidental') badges.push({ label: 'Occidental', tone: 'neutral' });
+  if (conditions.angularity === 'angular') badges.push({ label: 'Angular', tone: 'good' });
+  if (conditions.angularity === 'succedent') badges.push({ label: 'Succedent', tone: 'neutral' });
+  if (conditions.angularity === 'cadent') badges.push({ label: 'Cadent', tone: 'bad' });
+
+  return badges;
+};
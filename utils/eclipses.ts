@@ -0,0 +1,34 @@
+import { findEclipses, type Eclipse, type EclipseSearchOptions } from '../shared/eclipses';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// How far ahead the home tab looks; there are four to seven eclipses a year
+const UPCOMING_MONTHS = 12;
+
+// Eclipses from now over the coming year, with local circumstances when a location is given
+export const getUpcomingEclipses = (from: Date = new Date(), options: EclipseSearchOptions = {}): Eclipse[] => {
+  const end = new Date(from);
+  end.setMonth(end.getMonth() + UPCOMING_MONTHS);
+  // Include an eclipse already under way
+  return findEclipses(new Date(from.getTime() - 24 * 60 * 60 * 1000), end, options)
+    .filter(eclipse => eclipse.end > from);
+};
+
+// e.g. "Total lunar eclipse in Virgo"
+export const getEclipseTitle = (eclipse: Eclipse): string =>
+  `${capitalize(eclipse.type)} ${eclipse.kind} eclipse in ${eclipse.sign}`;
+
+export const describeEclipse = (eclipse: Eclipse): string => {
+  const body = eclipse.kind === 'solar' ? 'The Sun' : 'The Moon';
+  return `${body} is eclipsed at ${Math.floor(eclipse.degreeInSign)}° ${eclipse.sign}, magnitude ${eclipse.magnitude.toFixed(2)}.`;
+};
+
+// Empty without local circumstances, i.e. when the search had no location
+export const describeEclipseVisibility = (eclipse: Eclipse): string => {
+  if (eclipse.local === undefined) return '';
+  if (!eclipse.local || !eclipse.local.visible) return 'Not visible from your location.';
+  if (eclipse.kind === 'solar' && eclipse.local.type !== eclipse.type) {
+    return `Seen as a ${eclipse.local.type} eclipse from your location, magnitude ${eclipse.local.magnitude.toFixed(2)}.`;
+  }
+  return 'Visible from your location.';
+};
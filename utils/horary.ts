@@ -0,0 +1,48 @@
+import type { NewHorarySnapshot } from '../types';
+import type { PlanetAspect } from '../shared/aspects';
+import { castHoraryChart, type HoraryChart } from '../shared/horary';
+import { DEFAULT_HOUSE_SYSTEM, type HouseSystem } from '../shared/houses';
+import type { PlanetaryHoursOptions } from '../shared/planetaryHours';
+import { getPlanetById } from '../constants/planets';
+import { getAspectSymbol } from './aspects';
+
+export interface HoraryLocation {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  name?: string;
+}
+
+// The moment and place a question is asked, with the question still to be written
+export const snapshotNow = (
+  location: HoraryLocation,
+  options: PlanetaryHoursOptions = {},
+  houseSystem: HouseSystem = DEFAULT_HOUSE_SYSTEM,
+  now: Date = new Date()
+): NewHorarySnapshot => ({
+  question: '',
+  castAt: now.toISOString(),
+  latitude: location.latitude,
+  longitude: location.longitude,
+  timezone: location.timezone,
+  locationName: location.name || '',
+  houseSystem,
+  hourOptions: options
+});
+
+// Cast again from the stored moment and place, so a saved chart reads as it did when asked
+export const getHoraryChart = (snapshot: NewHorarySnapshot): HoraryChart =>
+  castHoraryChart({
+    ...snapshot.hourOptions,
+    date: new Date(snapshot.castAt),
+    latitude: snapshot.latitude,
+    longitude: snapshot.longitude,
+    timezone: snapshot.timezone,
+    houseSystem: snapshot.houseSystem
+  });
+
+// e.g. "☽ △ ♃"
+export const getMoonAspectSymbols = (aspect: Pick<PlanetAspect, 'planet1' | 'planet2' | 'type'>): string => {
+  const other = aspect.planet1 === 'moon' ? aspect.planet2 : aspect.planet1;
+  return `${getPlanetById('moon').symbol} ${getAspectSymbol(aspect.type)} ${getPlanetById(other).symbol}`;
+};
@@ -0,0 +1,26 @@
+import { lunarMansions, type LunarMansionInfo } from '../constants/lunarMansions';
+import { calculateLunarMansion, type LunarMansion } from '../shared/lunarMansions';
+import type { ZodiacOptions } from '../shared/zodiac';
+
+export interface CurrentLunarMansion extends LunarMansion {
+  info: LunarMansionInfo;
+  nextInfo: LunarMansionInfo;
+}
+
+export const getLunarMansionInfo = (mansion: number): LunarMansionInfo => {
+  const info = lunarMansions.find(entry => entry.number === mansion);
+  if (!info) {
+    throw new Error(`Unknown lunar mansion: ${mansion}`);
+  }
+  return info;
+};
+
+// The Moon's mansion at a given time in the chosen zodiac, with when it moves on
+export const getCurrentLunarMansion = (date: Date = new Date(), zodiac: ZodiacOptions = {}): CurrentLunarMansion => {
+  const mansion = calculateLunarMansion(date, zodiac);
+  return {
+    ...mansion,
+    info: getLunarMansionInfo(mansion.mansion),
+    nextInfo: getLunarMansionInfo(mansion.nextMansion),
+  };
+};
@@ -0,0 +1,41 @@
+import type { MoonPhase } from '../types';
+import {
+  getFullMoons,
+  getMoonPhase as getMoonPhaseInfo,
+  getNextMoonPhases,
+  type FullMoon,
+  type MoonPhaseEvent
+} from '../shared/moon';
+
+const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const phaseSymbols: Record<MoonPhase['phase'], string> = {
+  'new': '🌑',
+  'waxing crescent': '🌒',
+  'first quarter': '🌓',
+  'waxing gibbous': '🌔',
+  'full': '🌕',
+  'waning gibbous': '🌖',
+  'last quarter': '🌗',
+  'waning crescent': '🌘'
+};
+
+// Get the Moon's phase at a given time; full moons are named by the device's calendar month
+export const getMoonPhase = (date: Date = new Date()): MoonPhase => {
+  return getMoonPhaseInfo(date, getDeviceTimezone());
+};
+
+// Get the next new, first quarter, full and last quarter moons after a given time
+export const getUpcomingMoonPhases = (date: Date = new Date(), count = 4): MoonPhaseEvent[] => {
+  return getNextMoonPhases(date, count);
+};
+
+// Get the next full moon after a given time, with its traditional name
+export const getNextFullMoon = (date: Date = new Date()): FullMoon | null => {
+  const end = new Date(date.getTime() + 31 * 24 * 60 * 60 * 1000);
+  return getFullMoons(date, end, getDeviceTimezone())[0] || null;
+};
+
+export const getMoonPhaseSymbol = (phase: MoonPhase['phase']): string => {
+  return phaseSymbols[phase];
+};
@@ -0,0 +1,118 @@
+import { DateTime } from 'luxon';
+import type { AstrologicalChart, BodyPlacement } from '../types';
+import { getBodyPositions } from '../app/services/astrology';
+import { calculateChart } from '../shared/chart';
+import { longitudeToSign, type ZodiacSign } from '../shared/astro';
+import type { ExtraBodyId } from '../shared/bodies';
+import { findHouse, type HouseSystem } from '../shared/houses';
+import { toAspect } from './aspects';
+import { generateUUID } from './uuid';
+
+export interface BirthDetails {
+  name: string;
+  birthDate: string; // YYYY-MM-DD
+  birthTime: string; // HH:mm, local time at the birth place
+  birthLocation: string;
+  latitude: number;
+  longitude: number;
+  timezone: string; // IANA timezone of the birth place
+  houseSystem: HouseSystem;
+}
+
+export interface ChartSigns {
+  sunSign: ZodiacSign;
+  moonSign: ZodiacSign;
+  risingSign: ZodiacSign;
+}
+
+// Extra bodies shown with a birth chart
+export const natalChartBodies: ExtraBodyId[] = ['uranus', 'neptune', 'pluto', 'mean-node', 'mean-south-node', 'part-of-fortune'];
+
+export const houseSystemLabels: Record<HouseSystem, string> = {
+  'whole-sign': 'Whole Sign',
+  'equal': 'Equal',
+  'placidus': 'Placidus',
+  'porphyry': 'Porphyry'
+};
+
+// The instant of birth, or null when the date, time or timezone is invalid
+export const getBirthInstant = (birthDate: string, birthTime: string, timezone: string): Date | null => {
+  const local = DateTime.fromFormat(`${birthDate} ${birthTime}`, 'yyyy-MM-dd H:mm', { zone: timezone });
+  return local.isValid ? local.toJSDate() : null;
+};
+
+// Calculate the positions, houses and aspects of a birth chart
+export const calculateNatalChart = (
+  details: BirthDetails,
+  existing?: Pick<AstrologicalChart, 'id' | 'userId' | 'createdAt'>
+): AstrologicalChart => {
+  const date = getBirthInstant(details.birthDate, details.birthTime, details.timezone);
+  if (!date) {
+    throw new Error('Invalid birth date, time or timezone');
+  }
+
+  const chart = calculateChart({
+    date,
+    latitude: details.latitude,
+    longitude: details.longitude,
+    houseSystem: details.houseSystem
+  });
+  const now = new Date().toISOString();
+
+  return {
+    id: existing?.id || generateUUID(),
+    userId: existing?.userId || '',
+    ...details,
+    ascendant: chart.angles.ascendant,
+    midheaven: chart.angles.midheaven,
+    positions: chart.positions.map(position => ({
+      planet: position.planet,
+      sign: position.sign,
+      degree: position.degreeInSign,
+      longitude: position.longitude,
+      isRetrograde: position.isRetrograde,
+      house: position.house
+    })),
+    houses: chart.houses.map(cusp => ({
+      number: cusp.house,
+      sign: cusp.sign,
+      degree: cusp.degreeInSign,
+      cusp: cusp.longitude
+    })),
+    aspects: chart.aspects.map(toAspect),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+};
+
+// Sun, Moon and rising signs of a chart
+export const getChartSigns = (chart: AstrologicalChart): ChartSigns | null => {
+  const sun = chart.positions.find(position => position.planet === 'sun');
+  const moon = chart.positions.find(position => position.planet === 'moon');
+  if (!sun || !moon) return null;
+
+  return {
+    sunSign: sun.sign as ZodiacSign,
+    moonSign: moon.sign as ZodiacSign,
+    risingSign: longitudeToSign(chart.ascendant).sign
+  };
+};
+
+// Outer planets, nodes and Part of Fortune of a chart with their houses; not stored with the chart
+export const getNatalChartBodies = (
+  chart: AstrologicalChart,
+  bodies: ExtraBodyId[] = natalChartBodies
+): BodyPlacement[] => {
+  const date = getBirthInstant(chart.birthDate, chart.birthTime, chart.timezone);
+  if (!date) return [];
+
+  const cusps = chart.houses.map(house => ({
+    house: house.number,
+    longitude: house.cusp,
+    sign: house.sign as ZodiacSign,
+    degreeInSign: house.degree
+  }));
+  return getBodyPositions(date, bodies, {
+    location: { latitude: chart.latitude, longitude: chart.longitude }
+  }).map(position => ({ ...position, house: findHouse(position.longitude!, cusps) }));
+};
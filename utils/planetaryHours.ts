@@ -12,26 +12,84 @@ type PlanetaryHour = {
   isCurrentHour: boolean; // Removed readonly to allow modification
 };
 import { planets } from '../constants/planets';
+import { getPlanetaryDayRuler as getPlanetaryDayRulerForIndex } from '../shared/planetary';
+import { getEssentialDignity } from '../shared/dignities';
+import {
+  calculatePlanetaryHours as calculateScheduleForDay,
+  getPlanetaryDay as getPlanetaryDaySchedule,
+  type PlanetaryHoursOptions,
+  type PlanetaryHoursSchedule
+} from '../shared/planetaryHours';
 
-// Chaldean order of planets (traditional order used for planetary hours)
-const chaldeanOrder: PlanetDay[] = [
-  'saturn', 'jupiter', 'mars', 'sun', 'venus', 'mercury', 'moon'
-];
+// Where the planetary day is reckoned; timezone defaults to the device's
+export type PlanetaryDayLocation = {
+  latitude: number;
+  longitude: number;
+  timezone?: string;
+};
+
+const getDeviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 // Get the ruling planet for a specific day of the week
+// 0 = Sunday, 1 = Monday, etc.
 export const getRulingPlanetForDay = (dayIndex: number): PlanetDay => {
-  // Traditional ruling planets for days of the week
-  // 0 = Sunday, 1 = Monday, etc.
-  const dayRulers: PlanetDay[] = [
-    'sun', 'moon', 'mars', 'mercury', 'jupiter', 'venus', 'saturn'
-  ];
+  return getPlanetaryDayRulerForIndex(dayIndex);
+};
+
+// Get the planetary day (sunrise to sunrise) containing `now` at the given location
+export const getPlanetaryDay = (
+  now: Date,
+  location: PlanetaryDayLocation,
+  options: PlanetaryHoursOptions = {}
+): PlanetaryHoursSchedule => {
+  return getPlanetaryDaySchedule(now, {
+    ...options,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    timezone: location.timezone || getDeviceTimezone(),
+  });
+};
+
+// Get the start and end of the planetary day containing `now`.
+// Without a location the civil day (midnight to midnight) is used instead.
+export const getPlanetaryDayBounds = (
+  now: Date = new Date(),
+  location?: PlanetaryDayLocation | null,
+  options: PlanetaryHoursOptions = {}
+): { start: Date; end: Date } => {
+  if (location) {
+    try {
+      const { hours } = getPlanetaryDay(now, location, options);
+      return { start: hours[0].start, end: hours[hours.length - 1].end };
+    } catch (error) {
+      console.error('Error finding planetary day:', error);
+    }
+  }
   
-  return dayRulers[dayIndex % 7];
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
 };
 
-// Get the planetary day ruler for a specific date or current day if no date provided
-export const getPlanetaryDayRuler = (date?: Date): PlanetDay => {
+// Get the planetary day ruler for a specific date or current day if no date provided.
+// With a location the day starts at sunrise, so before sunrise the previous day's ruler applies.
+export const getPlanetaryDayRuler = (
+  date?: Date,
+  location?: PlanetaryDayLocation | null,
+  options: PlanetaryHoursOptions = {}
+): PlanetDay => {
   const targetDate = date || new Date();
+  
+  if (location) {
+    try {
+      return getPlanetaryDay(targetDate, location, options).dayRuler;
+    } catch (error) {
+      console.error('Error finding planetary day:', error);
+    }
+  }
+  
   const dayOfWeek = targetDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
   return getRulingPlanetForDay(dayOfWeek);
 };
@@ -51,88 +109,54 @@ export const formatHourTime = (date: Date): string => {
   }
 };
 
-// Calculate planetary hours for a given date
-export const calculatePlanetaryHours = (date: Date, latitude?: number, longitude?: number): PlanetaryHour[] => {
-  const hours: PlanetaryHour[] = [];
-  
-  // Get day of week (0 = Sunday, 1 = Monday, etc.)
-  const dayOfWeek = date.getDay();
-  
-  // Get ruling planet for the day
-  const dayRuler = getRulingPlanetForDay(dayOfWeek);
-  
-  // Calculate sunrise and sunset times (simplified for demo)
-  // In a real app, you would use a proper sunrise/sunset calculation based on location
-  const now = new Date(date);
-  const year = now.getFullYear();
-  const month = now.getMonth();
-  const day = now.getDate();
-  
-  // Simplified sunrise/sunset (6 AM and 6 PM)
-  const sunrise = new Date(year, month, day, 6, 0, 0);
-  const sunset = new Date(year, month, day, 18, 0, 0);
-  
-  // Calculate length of day and night in milliseconds
-  const dayLength = sunset.getTime() - sunrise.getTime();
-  const nightLength = (sunrise.getTime() + 24 * 60 * 60 * 1000) - sunset.getTime();
-  
-  // Calculate length of each planetary hour
-  const dayHourLength = dayLength / 12;
-  const nightHourLength = nightLength / 12;
-  
-  // Find the starting planet for the first hour of the day
-  // The first hour of the day is ruled by the planet that rules the day
-  const startingPlanetIndex = chaldeanOrder.indexOf(dayRuler);
-  
-  // Generate all 24 planetary hours
-  for (let i = 0; i < 24; i++) {
-    const isDay = i < 12; // First 12 hours are day hours
-    
-    // Calculate the planet for this hour
-    const planetIndex = (startingPlanetIndex + i) % 7;
-    const planet = chaldeanOrder[planetIndex];
-    
-    // Calculate start and end times for this hour
-    const hourStart = new Date(isDay 
-      ? sunrise.getTime() + (i * dayHourLength)
-      : sunset.getTime() + ((i - 12) * nightHourLength)
-    );
-    
-    const hourEnd = new Date(isDay
-      ? sunrise.getTime() + ((i + 1) * dayHourLength)
-      : sunset.getTime() + ((i - 11) * nightHourLength)
-    );
-    
-    // Create the planetary hour object
-    hours.push({
-      hour: i + 1,
-      hourNumber: isDay ? i + 1 : i - 11, // 1-12 for day, 1-12 for night
-      planet: planet,
-      planetId: planet,
-      period: isDay ? 'day' : 'night',
-      isDay,
-      startTime: hourStart,
-      endTime: hourEnd,
-      isCurrentHour: false, // Will be set later
-    });
-  }
-  
-  // Mark the current hour
+// Calculate planetary hours for a given date using the shared hours engine
+export const calculatePlanetaryHours = (
+  date: Date,
+  latitude?: number,
+  longitude?: number,
+  timezone: string = getDeviceTimezone(),
+  options: PlanetaryHoursOptions = {}
+): PlanetaryHour[] => {
+  const schedule = calculateScheduleForDay({
+    ...options,
+    date,
+    latitude: latitude || 0,
+    longitude: longitude || 0,
+    timezone,
+  });
+  
+  return toPlanetaryHours(schedule);
+};
+
+// Map an engine schedule to the app's planetary hour shape
+export const toPlanetaryHours = (schedule: PlanetaryHoursSchedule): PlanetaryHour[] => {
   // Mark the current hour
   const currentTime = new Date().getTime();
   
-  // Create a new array with the current hour marked
-  const hoursWithCurrentMarked = hours.map(hour => ({
-    ...hour,
-    isCurrentHour: currentTime >= hour.startTime.getTime() && currentTime < hour.endTime.getTime()
+  // Number the hours within the day and night halves; not every hour system has 12 of each
+  const halfCounts = { day: 0, night: 0 };
+  
+  return schedule.hours.map(slot => ({
+    hour: slot.index,
+    hourNumber: slot.isDay ? ++halfCounts.day : ++halfCounts.night,
+    planet: slot.ruler,
+    planetId: slot.ruler,
+    period: slot.isDay ? 'day' : 'night',
+    isDay: slot.isDay,
+    startTime: slot.start,
+    endTime: slot.end,
+    isCurrentHour: currentTime >= slot.start.getTime() && currentTime < slot.end.getTime(),
   }));
-  
-  return hoursWithCurrentMarked;
 };
 
 // Get the current planetary hour
-export const getCurrentPlanetaryHour = (date: Date = new Date()): PlanetaryHour | null => {
-  const hours = calculatePlanetaryHours(date);
+export const getCurrentPlanetaryHour = (
+  date: Date = new Date(),
+  latitude?: number,
+  longitude?: number
+): PlanetaryHour | null => {
+  // The planetary day containing `date`, so hours before sunrise belong to the previous day
+  const hours = toPlanetaryHours(getPlanetaryDay(date, { latitude: latitude || 0, longitude: longitude || 0 }));
   const now = date.getTime();
   
   // Find the current hour
@@ -152,60 +176,5 @@ export const getPlanetaryHoursForDay = (date: Date, latitude?: number, longitude
 
 // Get the planetary dignity (rulership, exaltation, detriment, fall)
 export const getPlanetaryDignity = (planetId: PlanetDay, zodiacSign: string): string | null => {
-  // Define rulerships
-  const rulerships: Record<PlanetDay, string[]> = {
-    'sun': ['Leo'],
-    'moon': ['Cancer'],
-    'mercury': ['Gemini', 'Virgo'],
-    'venus': ['Taurus', 'Libra'],
-    'mars': ['Aries', 'Scorpio'],
-    'jupiter': ['Sagittarius', 'Pisces'],
-    'saturn': ['Capricorn', 'Aquarius']
-  };
-  
-  // Define exaltations
-  const exaltations: Record<PlanetDay, string> = {
-    'sun': 'Aries',
-    'moon': 'Taurus',
-    'mercury': 'Virgo',
-    'venus': 'Pisces',
-    'mars': 'Capricorn',
-    'jupiter': 'Cancer',
-    'saturn': 'Libra'
-  };
-  
-  // Define detriments (opposite of rulerships)
-  const detriments: Record<PlanetDay, string[]> = {
-    'sun': ['Aquarius'],
-    'moon': ['Capricorn'],
-    'mercury': ['Sagittarius', 'Pisces'],
-    'venus': ['Aries', 'Scorpio'],
-    'mars': ['Libra', 'Taurus'],
-    'jupiter': ['Gemini', 'Virgo'],
-    'saturn': ['Cancer', 'Leo']
-  };
-  
-  // Define falls (opposite of exaltations)
-  const falls: Record<PlanetDay, string> = {
-    'sun': 'Libra',
-    'moon': 'Scorpio',
-    'mercury': 'Pisces',
-    'venus': 'Virgo',
-    'mars': 'Cancer',
-    'jupiter': 'Capricorn',
-    'saturn': 'Aries'
-  };
-  
-  // Check dignity
-  if (rulerships[planetId]?.includes(zodiacSign)) {
-    return 'rulership';
-  } else if (exaltations[planetId] === zodiacSign) {
-    return 'exaltation';
-  } else if (detriments[planetId]?.includes(zodiacSign)) {
-    return 'detriment';
-  } else if (falls[planetId] === zodiacSign) {
-    return 'fall';
-  }
-  
-  return null; // No special dignity
+  return getEssentialDignity(planetId, zodiacSign);
 };
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { DateTime } from 'luxon';
+import type { AstrologicalChart } from '../types';
+import type { PlanetaryHourSlot, PlanetaryHoursOptions } from '../shared/planetaryHours';
+import { calculateReturn, findReturnHour, returnPlanets, type PlanetReturn, type ReturnKind } from '../shared/returns';
+
+export const returnLabels: Record<ReturnKind, string> = {
+  solar: 'Solar Return',
+  lunar: 'Lunar Return'
+};
+
+// The year of a solar return, or the year and month of a lunar return
+export interface ReturnPeriod {
+  year: number;
+  month?: number;
+}
+
+export interface ReturnLocation {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+}
+
+// The return for a period, cast for where the native is now
+export const getReturn = (
+  chart: AstrologicalChart,
+  kind: ReturnKind,
+  period: ReturnPeriod,
+  location: ReturnLocation
+): PlanetReturn => {
+  const natal = chart.positions.find(position => position.planet === returnPlanets[kind]);
+  if (natal?.longitude === undefined) {
+    throw new Error(`The birth chart has no natal ${returnPlanets[kind]}`);
+  }
+
+  return calculateReturn({
+    kind,
+    natalLongitude: natal.longitude,
+    year: period.year,
+    month: kind === 'lunar' ? period.month : undefined,
+    ...location,
+    houseSystem: chart.houseSystem
+  });
+};
+
+export const shiftReturnPeriod = (kind: ReturnKind, period: ReturnPeriod, step: number): ReturnPeriod => {
+  if (kind === 'solar') return { year: period.year + step };
+
+  const shifted = DateTime.fromObject({ year: period.year, month: period.month ?? 1 }).plus({ months: step });
+  return { year: shifted.year, month: shifted.month };
+};
+
+// The period of the next return still to come: this year's or month's, or else the following one
+export const getNextReturnPeriod = (
+  chart: AstrologicalChart,
+  kind: ReturnKind,
+  location: ReturnLocation,
+  from: Date = new Date()
+): ReturnPeriod => {
+  const local = DateTime.fromJSDate(from, { zone: location.timezone });
+  const period: ReturnPeriod = kind === 'solar' ? { year: local.year } : { year: local.year, month: local.month };
+
+  return getReturn(chart, kind, period, location).date < from ? shiftReturnPeriod(kind, period, 1) : period;
+};
+
+// The Sun or Moon hour nearest the return, when its ritual is best performed
+export const getReturnRitualHour = (
+  planetReturn: PlanetReturn,
+  location: ReturnLocation,
+  options: PlanetaryHoursOptions = {}
+): PlanetaryHourSlot => {
+  return findReturnHour(planetReturn, { ...options, ...location });
+};
@@ -0,0 +1,69 @@
+import type { AstrologicalChart } from '../types';
+import type { PlanetId } from '../shared/astro';
+import { classicalPlanets } from '../shared/positions';
+import {
+  findActiveTransits,
+  findTransits,
+  type ActiveTransit,
+  type NatalPoint,
+  type NatalPosition,
+  type Transit,
+  type TransitOptions
+} from '../shared/transits';
+import { getPlanetById } from '../constants/planets';
+import { getAspectSymbol } from './aspects';
+
+// The Moon transits every natal point several times a month, too often to follow
+export const transitPlanets: PlanetId[] = classicalPlanets.filter(planet => planet !== 'moon');
+
+export const DEFAULT_TRANSIT_LEAD_HOURS = 24;
+
+// How far ahead the personal sky looks
+const UPCOMING_DAYS = 30;
+
+const angleSymbols: Record<'ascendant' | 'midheaven', string> = {
+  ascendant: 'ASC',
+  midheaven: 'MC'
+};
+
+// The planets and angles of a birth chart that transits are measured to
+export const getNatalPositions = (chart: AstrologicalChart): NatalPosition[] => [
+  ...chart.positions.flatMap(position =>
+    position.longitude !== undefined && (classicalPlanets as string[]).includes(position.planet)
+      ? [{ point: position.planet as PlanetId, longitude: position.longitude }]
+      : []
+  ),
+  { point: 'ascendant', longitude: chart.ascendant },
+  { point: 'midheaven', longitude: chart.midheaven }
+];
+
+// Exact transits over the coming month, by default of every planet but the Moon
+export const getUpcomingTransits = (
+  chart: AstrologicalChart,
+  from: Date = new Date(),
+  options: TransitOptions = {},
+  days: number = UPCOMING_DAYS
+): Transit[] => {
+  const end = new Date(from);
+  end.setDate(end.getDate() + days);
+  return findTransits(from, end, getNatalPositions(chart), { planets: transitPlanets, ...options });
+};
+
+// Transits within the orbs of the options at a given time
+export const getActiveTransits = (
+  chart: AstrologicalChart,
+  date: Date = new Date(),
+  options: TransitOptions = {}
+): ActiveTransit[] => {
+  return findActiveTransits(date, getNatalPositions(chart), { planets: transitPlanets, ...options });
+};
+
+export const isTransitActive = (transit: Transit, active: ActiveTransit[]): boolean =>
+  active.some(a => a.planet === transit.planet && a.point === transit.point && a.type === transit.type);
+
+const getPointSymbol = (point: NatalPoint): string =>
+  point === 'ascendant' || point === 'midheaven' ? angleSymbols[point] : getPlanetById(point).symbol;
+
+// e.g. "♄ □ natal ☉"
+export const getTransitSymbols = (transit: Pick<Transit, 'planet' | 'point' | 'type'>): string =>
+  `${getPlanetById(transit.planet).symbol} ${getAspectSymbol(transit.type)} natal ${getPointSymbol(transit.point)}`;
@@ -0,0 +1,31 @@
+import { findVoidOfCoursePeriods, getVoidOfCourse, type VoidOfCoursePeriod } from '../shared/voidOfCourse';
+import { formatHourTime } from './planetaryHours';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+interface TimeSpan {
+  startTime: Date;
+  endTime: Date;
+}
+
+// Void-of-course periods touching any of the hours
+export const getVoidPeriodsForHours = (hours: TimeSpan[]): VoidOfCoursePeriod[] => {
+  if (hours.length === 0) return [];
+
+  const start = new Date(Math.min(...hours.map(hour => hour.startTime.getTime())));
+  const end = new Date(Math.max(...hours.map(hour => hour.endTime.getTime())));
+  return findVoidOfCoursePeriods(start, end);
+};
+
+export const isVoidDuring = (span: TimeSpan, periods: VoidOfCoursePeriod[]): boolean =>
+  periods.some(period => period.start < span.endTime && span.startTime < period.end);
+
+// The void period now, or null when the Moon is not void
+export const getCurrentVoidOfCourse = (date: Date = new Date()): VoidOfCoursePeriod | null => getVoidOfCourse(date);
+
+export const describeVoidPeriod = (period: VoidOfCoursePeriod): string => {
+  const since = period.lastAspect
+    ? `since its ${period.lastAspect.type} with ${capitalize(period.lastAspect.planet)} at ${formatHourTime(period.start)}`
+    : `since ${formatHourTime(period.start)}`;
+  return `The Moon is void of course in ${period.sign} ${since}, until it enters ${period.nextSign} at ${formatHourTime(period.end)}.`;
+};